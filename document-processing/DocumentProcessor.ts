@@ -42,6 +42,16 @@ export interface ProcessedChunk {
   metadata: DocumentMetadata;
 }
 
+/**
+ * Options for chunking a document
+ */
+export interface ChunkTextOptions {
+  filename?: string;
+  chunkingStrategy?: string;
+  chunkingConfig?: ChunkingConfig;
+  skipChunking?: boolean;
+}
+
 /**
  * Document Processor
  * Orchestrates document extraction and text chunking
@@ -84,25 +94,42 @@ export class DocumentProcessor {
   async processDocument(
     file: File | Buffer | ArrayBuffer,
     mimeType: string,
-    options?: {
-      filename?: string;
-      chunkingStrategy?: string;
-      chunkingConfig?: ChunkingConfig;
-      skipChunking?: boolean;
-    }
+    options?: ChunkTextOptions
   ): Promise<ProcessedChunk[]> {
-    const startTime = Date.now();
-    
     // Step 1: Extract text from document
-    // Extracting text from document
-    const extractedText = await this.extractionManager.extractText(
+    const extractedText = await this.extractText(file, mimeType);
+
+    // Step 2: Chunk the text
+    return this.chunkText(extractedText, mimeType, options);
+  }
+
+  /**
+   * Extract the text of a document.
+   * @param file File to extract text from
+   * @param mimeType MIME type of the file
+   */
+  async extractText(
+    file: File | Buffer | ArrayBuffer,
+    mimeType: string
+  ): Promise<string> {
+    return await this.extractionManager.extractText(
       file,
       mimeType,
       this.config.extractorConfig
     );
-    
-    // Text extraction completed
-    
+  }
+
+  /**
+   * Chunk extracted text into processed chunks with metadata.
+   * @param extractedText Text returned by extractText()
+   * @param mimeType MIME type of the original file
+   * @param options Chunking options
+   */
+  chunkText(
+    extractedText: string,
+    mimeType: string,
+    options?: ChunkTextOptions
+  ): ProcessedChunk[] {
     // If chunking is skipped, return single chunk
     if (options?.skipChunking) {
       const metadata: DocumentMetadata = {
@@ -120,21 +147,17 @@ export class DocumentProcessor {
       }];
     }
     
-    // Step 2: Chunk the text
     const chunkingStrategy = options?.chunkingStrategy || 
                             this.config.defaultChunkingStrategy || 
                             'default';
     
-    // Chunking text
     const chunks = this.chunkingManager.chunk(
       extractedText,
       chunkingStrategy,
       options?.chunkingConfig || this.config.chunkingConfig
     );
     
-    // Chunking completed
-    
-    // Step 3: Create processed chunks with metadata
+    // Create processed chunks with metadata
     const metadata: DocumentMetadata = {
       filename: options?.filename,
       mimeType,
@@ -210,4 +233,14 @@ export class DocumentProcessor {
   registerChunker(name: string, chunker: ITextChunker): void {
     this.chunkingManager.registerChunker(name, chunker);
   }
+
+  /**
+   * Register a token-based chunker using the tokenizer of an embedding model.
+   * @param model Model id. Default: 'Xenova/all-MiniLM-L6-v2'
+   * @param config Chunk size and overlap in tokens
+   * @param name Name of the chunking strategy. Default: 'token'
+   */
+  async registerTokenChunker(model?: string, config?: ChunkingConfig, name: string = 'token'): Promise<void> {
+    await this.chunkingManager.registerTokenChunker(model, config, name);
+  }
 }
@@ -1,3 +1,5 @@
+import { loadTokenizer } from '../embeddings/EmbeddingPipeline';
+
 /**
  * Interface for text chunking strategies.
  */
@@ -41,6 +43,23 @@ export const DEFAULT_CHUNKING_CONFIG: Required<Omit<ChunkingConfig, 'overlap'>>
   keepSeparator: false,
 };
 
+/**
+ * Default chunk size and overlap of TokenTextSplitter, in tokens. Chunks leave
+ * room for special tokens and prefixes within the 256 tokens all-MiniLM-L6-v2
+ * was trained on.
+ */
+export const DEFAULT_TOKEN_CHUNKING_CONFIG = {
+  chunkSize: 200,
+  chunkOverlap: 40,
+};
+
+/**
+ * Tokenizer measuring text in tokens, e.g. a transformers.js tokenizer.
+ */
+export interface ITokenizer {
+  encode(text: string, options?: { add_special_tokens?: boolean }): number[];
+}
+
 /**
  * Recursive Character Text Splitter
  * Splits text by trying different separators in order
@@ -267,6 +286,111 @@ export class ParagraphTextSplitter implements ITextChunker {
   }
 }
 
+/**
+ * A word (with its trailing whitespace) or a piece of a long word.
+ */
+interface TokenSpan {
+  start: number;
+  end: number;
+  tokens: number;
+}
+
+/**
+ * Token-based text splitter
+ * Measures chunkSize and chunkOverlap in tokens of the embedding model, so
+ * that chunks fit its maximum sequence length. Chunks end at word boundaries
+ * and keep the original text; words longer than a chunk are split.
+ */
+export class TokenTextSplitter implements ITextChunker {
+  private tokenizer: ITokenizer;
+  private config: { chunkSize: number; chunkOverlap: number };
+
+  constructor(tokenizer: ITokenizer, config: ChunkingConfig = {}) {
+    this.tokenizer = tokenizer;
+    this.config = this._resolveConfig(DEFAULT_TOKEN_CHUNKING_CONFIG, config);
+  }
+
+  /**
+   * Create a splitter counting tokens with the tokenizer of a HuggingFace model.
+   * @param model Model id. Default: 'Xenova/all-MiniLM-L6-v2'
+   * @param config Chunk size and overlap in tokens
+   */
+  static async fromModel(model?: string, config?: ChunkingConfig): Promise<TokenTextSplitter> {
+    return new TokenTextSplitter(await loadTokenizer(model), config);
+  }
+
+  /**
+   * Number of tokens of a text, without special tokens.
+   */
+  countTokens(text: string): number {
+    return this.tokenizer.encode(text, { add_special_tokens: false }).length;
+  }
+
+  chunk(text: string, options?: ChunkingConfig): string[] {
+    const { chunkSize, chunkOverlap } = options ? this._resolveConfig(this.config, options) : this.config;
+
+    // Tokens are counted word by word: exact for WordPiece tokenizers, close
+    // for BPE ones
+    const spans = [...text.matchAll(/\S+\s*/g)].flatMap((match) =>
+      this._measure(text, match.index!, match.index! + match[0].length, chunkSize)
+    );
+
+    const chunks: string[] = [];
+    let first = 0;
+    while (first < spans.length) {
+      let last = first;
+      let tokens = spans[first].tokens;
+      while (last + 1 < spans.length && tokens + spans[last + 1].tokens <= chunkSize) {
+        last++;
+        tokens += spans[last].tokens;
+      }
+      chunks.push(text.slice(spans[first].start, spans[last].end).trim());
+      if (last === spans.length - 1) {
+        break;
+      }
+
+      // Start the next chunk with the last words that fit in the overlap
+      let next = last + 1;
+      let overlap = 0;
+      while (next - 1 > first && overlap + spans[next - 1].tokens <= chunkOverlap) {
+        next--;
+        overlap += spans[next].tokens;
+      }
+      first = next;
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Count the tokens of text[start, end), halving it until each piece fits
+   * in a chunk.
+   */
+  private _measure(text: string, start: number, end: number, chunkSize: number): TokenSpan[] {
+    const tokens = this.countTokens(text.slice(start, end));
+    if (tokens <= chunkSize || end - start === 1) {
+      return [{ start, end, tokens }];
+    }
+    const middle = Math.floor((start + end) / 2);
+    return [...this._measure(text, start, middle, chunkSize), ...this._measure(text, middle, end, chunkSize)];
+  }
+
+  private _resolveConfig(
+    base: { chunkSize: number; chunkOverlap: number },
+    config: ChunkingConfig
+  ): { chunkSize: number; chunkOverlap: number } {
+    const chunkSize = config.chunkSize ?? base.chunkSize;
+    const chunkOverlap = config.overlap ?? config.chunkOverlap ?? base.chunkOverlap;
+    if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+      throw new Error(`chunkSize must be a positive integer, got ${chunkSize}`);
+    }
+    if (!Number.isInteger(chunkOverlap) || chunkOverlap < 0 || chunkOverlap >= chunkSize) {
+      throw new Error(`chunkOverlap must be a non-negative integer below chunkSize, got ${chunkOverlap}`);
+    }
+    return { chunkSize, chunkOverlap };
+  }
+}
+
 /**
  * Text Chunking Manager
  * Provides flexible text chunking with configurable strategies
@@ -289,6 +413,23 @@ export class TextChunkingManager {
     this.customChunkers.set(name, chunker);
   }
 
+  /**
+   * Register a TokenTextSplitter counting tokens with the tokenizer of an
+   * embedding model.
+   * @param model Model id. Default: 'Xenova/all-MiniLM-L6-v2'
+   * @param config Chunk size and overlap in tokens
+   * @param name Name to identify the chunker. Default: 'token'
+   */
+  async registerTokenChunker(
+    model?: string,
+    config?: ChunkingConfig,
+    name: string = 'token'
+  ): Promise<TokenTextSplitter> {
+    const chunker = await TokenTextSplitter.fromModel(model, config);
+    this.registerChunker(name, chunker);
+    return chunker;
+  }
+
   /**
    * Chunk text using the specified strategy.
    * @param text Text to chunk
@@ -6,6 +6,7 @@ export * from './DocumentProcessor';
 export {
   DocumentProcessor,
   DocumentProcessorConfig,
+  ChunkTextOptions,
   ProcessedChunk,
   DocumentMetadata,
 } from './DocumentProcessor';
@@ -24,7 +25,10 @@ export {
   RecursiveCharacterTextSplitter,
   SentenceTextSplitter,
   ParagraphTextSplitter,
+  TokenTextSplitter,
   ITextChunker,
+  ITokenizer,
   ChunkingConfig,
   DEFAULT_CHUNKING_CONFIG,
+  DEFAULT_TOKEN_CHUNKING_CONFIG,
 } from './TextChunker';
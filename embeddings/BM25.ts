@@ -0,0 +1,71 @@
+// BM25.ts
+
+/**
+ * BM25 ranking parameters.
+ */
+export interface BM25Parameters {
+  /** Term frequency saturation. Default: 1.2 */
+  k1?: number;
+  /** Document length normalization (0 = none, 1 = full). Default: 0.75 */
+  b?: number;
+}
+
+export const DEFAULT_BM25_PARAMETERS: Required<BM25Parameters> = {
+  k1: 1.2,
+  b: 0.75,
+};
+
+/**
+ * Split text into lowercase terms. Letters and digits are kept together, so
+ * identifiers such as "SKU-1042" produce the terms "sku" and "1042".
+ * @param text The text to tokenize.
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+}
+
+/**
+ * Count how often each term occurs in a token list.
+ * @param tokens Tokens produced by tokenize().
+ */
+export function termFrequencies(tokens: string[]): Map<string, number> {
+  const frequencies = new Map<string, number>();
+  for (const token of tokens) {
+    frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+  }
+  return frequencies;
+}
+
+/**
+ * Inverse document frequency of a term (BM25+ variant, never negative).
+ * @param documentFrequency Number of documents containing the term.
+ * @param documentCount Total number of indexed documents.
+ */
+export function bm25Idf(documentFrequency: number, documentCount: number): number {
+  return Math.log(
+    1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5)
+  );
+}
+
+/**
+ * BM25 contribution of one query term to one document's score.
+ * @param termFrequency Occurrences of the term in the document.
+ * @param documentLength Number of terms in the document.
+ * @param averageDocumentLength Average number of terms per document.
+ * @param idf Inverse document frequency of the term.
+ * @param parameters Optional BM25 parameters.
+ */
+export function bm25TermScore(
+  termFrequency: number,
+  documentLength: number,
+  averageDocumentLength: number,
+  idf: number,
+  parameters: BM25Parameters = {}
+): number {
+  const { k1, b } = { ...DEFAULT_BM25_PARAMETERS, ...parameters };
+  const lengthRatio = averageDocumentLength > 0 ? documentLength / averageDocumentLength : 1;
+  return (
+    (idf * (termFrequency * (k1 + 1))) /
+    (termFrequency + k1 * (1 - b + b * lengthRatio))
+  );
+}
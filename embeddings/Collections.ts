@@ -0,0 +1,215 @@
+// Collections.ts
+import Dexie, { Table } from "dexie";
+import { ContentStore, DEFAULT_CONTENT_DB_NAME, openContentDatabase } from "./ContentStore";
+import {
+  DEFAULT_INDEX_DB_NAME,
+  getIndexGeneration,
+  indexGenerationName,
+  openIndexDatabase,
+} from "../mememo/src/mememo";
+
+/**
+ * Name of the collection that maps to the original (un-namespaced) databases.
+ */
+export const DEFAULT_COLLECTION = "default";
+
+/**
+ * Registry entry describing a collection.
+ */
+export interface ICollectionInfo {
+  name: string; // Primary key
+  createdAt: number; // Timestamp
+}
+
+/**
+ * Small database keeping track of the collections that have been created.
+ */
+class CollectionRegistry extends Dexie {
+  collections: Table<ICollectionInfo, string>;
+
+  constructor() {
+    super("flux-vector-collections");
+    this.version(1).stores({
+      collections: "name, createdAt",
+    });
+    this.collections = this.table("collections");
+  }
+}
+
+/**
+ * Name of the ContentStore database backing a collection.
+ * @param collection The collection name. Default: "default"
+ */
+export function contentDatabaseName(collection: string = DEFAULT_COLLECTION): string {
+  return collection === DEFAULT_COLLECTION
+    ? DEFAULT_CONTENT_DB_NAME
+    : `${DEFAULT_CONTENT_DB_NAME}:${collection}`;
+}
+
+/**
+ * Name of the Mememo (HNSW) database backing a collection.
+ * @param collection The collection name. Default: "default"
+ */
+export function indexDatabaseName(collection: string = DEFAULT_COLLECTION): string {
+  return collection === DEFAULT_COLLECTION
+    ? DEFAULT_INDEX_DB_NAME
+    : `${DEFAULT_INDEX_DB_NAME}:${collection}`;
+}
+
+/**
+ * Name of the database holding the shadow index of a running or interrupted
+ * VectorSearchManager.reembedAll() call.
+ * @param collection The collection name. Default: "default"
+ */
+export function reembedDatabaseName(collection: string = DEFAULT_COLLECTION): string {
+  return `${indexDatabaseName(collection)}:reembed`;
+}
+
+/**
+ * Register a collection if it is not known yet. Called when a
+ * VectorSearchManager opens a collection.
+ * @param name The collection name.
+ */
+export async function registerCollection(name: string): Promise<void> {
+  validateCollectionName(name);
+  await withRegistry(async (registry) => {
+    await registry.transaction("rw", registry.collections, async () => {
+      if (!(await registry.collections.get(name))) {
+        await registry.collections.put({ name, createdAt: Date.now() });
+      }
+    });
+  });
+}
+
+/**
+ * List all known collections, sorted by name.
+ */
+export async function listCollections(): Promise<ICollectionInfo[]> {
+  return await withRegistry(async (registry) => {
+    return await registry.collections.orderBy("name").toArray();
+  });
+}
+
+/**
+ * Create a new, empty collection.
+ * @param name The collection name.
+ */
+export async function createCollection(name: string): Promise<void> {
+  validateCollectionName(name);
+  if (await collectionExists(name)) {
+    throw new Error(`Collection ${name} already exists`);
+  }
+
+  // Open both databases once so they exist with their current schema
+  const contentStore = new ContentStore(contentDatabaseName(name));
+  const indexDb = openIndexDatabase(indexDatabaseName(name));
+  await Promise.all([contentStore.open(), indexDb.open()]);
+  await contentStore.close();
+  indexDb.close();
+
+  await registerCollection(name);
+}
+
+/**
+ * Permanently delete a collection: its documents, summaries, graph and node
+ * embeddings. Managers using the collection should not be used afterwards.
+ * @param name The collection name.
+ */
+export async function dropCollection(name: string): Promise<void> {
+  validateCollectionName(name);
+  if (!(await collectionExists(name))) {
+    throw new Error(`Collection ${name} not found`);
+  }
+
+  await Dexie.delete(contentDatabaseName(name));
+  await Dexie.delete(await liveIndexDatabaseName(name));
+  await Dexie.delete(indexDatabaseName(name));
+  await Dexie.delete(reembedDatabaseName(name));
+  await withRegistry(async (registry) => {
+    await registry.collections.delete(name);
+  });
+}
+
+/**
+ * Rename a collection by copying its databases to the new name and dropping
+ * the old ones. Managers using the old name should be re-created.
+ * @param from The current collection name.
+ * @param to The new collection name.
+ */
+export async function renameCollection(from: string, to: string): Promise<void> {
+  validateCollectionName(from);
+  validateCollectionName(to);
+  if (!(await collectionExists(from))) {
+    throw new Error(`Collection ${from} not found`);
+  }
+  if (await collectionExists(to)) {
+    throw new Error(`Collection ${to} already exists`);
+  }
+
+  await copyDatabase(
+    openContentDatabase(contentDatabaseName(from)),
+    openContentDatabase(contentDatabaseName(to))
+  );
+  // The copy holds the live generation of the index as its generation 0
+  await copyDatabase(
+    openIndexDatabase(await liveIndexDatabaseName(from)),
+    openIndexDatabase(indexDatabaseName(to))
+  );
+
+  const info = await withRegistry(async (registry) => registry.collections.get(from));
+  await dropCollection(from);
+  await withRegistry(async (registry) => {
+    await registry.collections.put({ name: to, createdAt: info?.createdAt ?? Date.now() });
+  });
+}
+
+/**
+ * Check whether a collection is registered.
+ */
+async function collectionExists(name: string): Promise<boolean> {
+  return await withRegistry(async (registry) => {
+    return (await registry.collections.get(name)) !== undefined;
+  });
+}
+
+/**
+ * Name of the database holding the live generation of a collection's index.
+ */
+async function liveIndexDatabaseName(collection: string): Promise<string> {
+  const dbName = indexDatabaseName(collection);
+  return indexGenerationName(dbName, await getIndexGeneration(dbName));
+}
+
+/**
+ * Copy every table of one database into another with the same schema.
+ */
+async function copyDatabase(source: Dexie, target: Dexie): Promise<void> {
+  try {
+    await Promise.all([source.open(), target.open()]);
+    for (const table of source.tables) {
+      const rows = await table.toArray();
+      await target.table(table.name).bulkPut(rows);
+    }
+  } finally {
+    source.close();
+    target.close();
+  }
+}
+
+/**
+ * Run a function with an open registry, closing it afterwards.
+ */
+async function withRegistry<T>(fn: (registry: CollectionRegistry) => Promise<T>): Promise<T> {
+  const registry = new CollectionRegistry();
+  try {
+    return await fn(registry);
+  } finally {
+    registry.close();
+  }
+}
+
+function validateCollectionName(name: string): void {
+  if (typeof name !== "string" || name.trim().length === 0) {
+    throw new Error("Collection name must be a non-empty string");
+  }
+}
@@ -1,5 +1,21 @@
  // ContentStore.ts
-import Dexie, { Table } from "dexie";
+import Dexie from "dexie";
+import { MetadataFilter, matchesFilter } from "./MetadataFilter";
+import {
+  BM25Parameters,
+  bm25Idf,
+  bm25TermScore,
+  termFrequencies,
+  tokenize,
+} from "./BM25";
+import type { EmbeddingVector } from "../mememo/src/mememo";
+import {
+  DexieStorageDatabase,
+  StorageBackend,
+  StorageDatabase,
+  StorageTable,
+  StorageTransaction,
+} from "../mememo/src/storage";
 
 /**
  * Interface for the document we are storing.
@@ -8,6 +24,21 @@ export interface IDocument {
   id: string;   // The unique ID (string)
   text: string; // The original text content
   metadata?: Record<string, any>; // Optional metadata
+  sourceId?: string; // Source the document is a chunk of
+  chunkIndex?: number; // Position of the chunk in its source
+}
+
+/**
+ * Interface for a source (e.g. a file) split into chunk documents.
+ */
+export interface ISource {
+  id: string; // Primary key
+  filename?: string;
+  mimeType?: string;
+  hash?: string; // Content hash, e.g. to detect files that were already added
+  chunkIds: string[]; // Document ids of the chunks, in chunk order
+  createdAt: number; // Timestamp
+  metadata?: Record<string, any>;
 }
 
 /**
@@ -17,44 +48,253 @@ export interface ISummary {
   id: string; // Same as document id (primary key)
   documentId: string; // Foreign key reference to documents.id
   summaryText: string;
-  summaryEmbedding: number[]; // Embedding of the summary
+  summaryEmbedding: EmbeddingVector; // Embedding of the summary
   model: string; // Model used for summarization
   createdAt: number; // Timestamp
   metadata?: Record<string, any>;
 }
 
-export class ContentStore extends Dexie {
+/**
+ * Inverted index entry: how often a term occurs in a document. There is one
+ * row per term and document, so indexing a document only writes its own rows.
+ */
+export interface ITermPosting {
+  id: string; // Primary key, see postingId()
+  term: string; // Indexed, to find the documents containing a term
+  documentId: string;
+  frequency: number;
+}
+
+/**
+ * Inverted index entry of database versions 3 and 4: the documents containing
+ * a term and how often.
+ */
+interface LegacyTermPostings {
+  term: string;
+  postings: Record<string, number>; // Document id -> term frequency
+}
+
+/**
+ * Per-document lexical data, used for length normalization and removal.
+ */
+export interface ILexicalDocument {
+  id: string; // Same as document id (primary key)
+  length: number; // Number of terms in the document
+  terms: string[]; // Unique terms of the document
+}
+
+/**
+ * Corpus-wide statistics for BM25 scoring (single row with id 'corpus').
+ */
+export interface ILexicalStats {
+  id: string;
+  documentCount: number;
+  totalLength: number;
+}
+
+/**
+ * A lexical (BM25) search hit.
+ */
+export interface ILexicalSearchResult {
+  id: string;
+  score: number;
+}
+
+/**
+ * Tables of a content store written in transactions, as seen by a transaction.
+ */
+interface ContentTables {
+  documents: StorageTable<IDocument>;
+  postings: StorageTable<ITermPosting>;
+  lexicalDocs: StorageTable<ILexicalDocument>;
+  lexicalStats: StorageTable<ILexicalStats>;
+  sources: StorageTable<ISource>;
+}
+
+const LEXICAL_STATS_ID = 'corpus';
+
+/**
+ * Key of the posting of a term in a document. Terms never contain \u0000.
+ */
+const postingId = (term: string, documentId: string) => `${term}\u0000${documentId}`;
+
+/** Name of the database used by the default collection */
+export const DEFAULT_CONTENT_DB_NAME = "MyContentDatabase";
+
+/** Tables of a content database */
+export const CONTENT_DB_TABLES = ["documents", "summaries", "postings", "lexicalDocs", "lexicalStats", "sources"];
+
+/** Tables written together when documents change */
+const LEXICAL_TABLES = ["documents", "postings", "lexicalDocs", "lexicalStats"];
+
+/** Tables written together when a source is added */
+const SOURCE_TABLES = [...LEXICAL_TABLES, "sources"];
+
+/**
+ * Open the IndexedDB database backing a ContentStore.
+ * @param dbName Name of the database. Default: "MyContentDatabase"
+ */
+export function openContentDatabase(dbName: string = DEFAULT_CONTENT_DB_NAME): Dexie {
+  const db = new Dexie(dbName);
+
+  // Version 1: Initial schema with documents only
+  db.version(1).stores({
+    // We use 'id' as the primary key, not '++id',
+    // because we supply our own UUID string.
+    documents: "id, text",
+  });
+
+  // Version 2: Add summaries table
+  db.version(2).stores({
+    documents: "id, text",
+    summaries: "id, documentId, createdAt",
+  }).upgrade(async (tx) => {
+    // Migration: No data migration needed, just schema update
+    console.log('Upgrading ContentStore to version 2: Added summaries table');
+  });
+
+  // Version 3: Add the BM25 inverted index
+  db.version(3).stores({
+    documents: "id, text",
+    summaries: "id, documentId, createdAt",
+    terms: "term",
+    lexicalDocs: "id",
+    lexicalStats: "id",
+  }).upgrade(async (tx) => {
+    // Migration: Index the text of existing documents
+    const documents: IDocument[] = await tx.table("documents").toArray();
+    const terms: Record<string, LegacyTermPostings> = {};
+    const lexicalDocs: ILexicalDocument[] = [];
+    let totalLength = 0;
+
+    for (const doc of documents) {
+      const tokens = tokenize(doc.text);
+      const frequencies = termFrequencies(tokens);
+      for (const [term, frequency] of frequencies) {
+        terms[term] = terms[term] ?? { term, postings: {} };
+        terms[term].postings[doc.id] = frequency;
+      }
+      lexicalDocs.push({ id: doc.id, length: tokens.length, terms: [...frequencies.keys()] });
+      totalLength += tokens.length;
+    }
+
+    await tx.table("terms").bulkPut(Object.values(terms));
+    await tx.table("lexicalDocs").bulkPut(lexicalDocs);
+    await tx.table("lexicalStats").put({
+      id: LEXICAL_STATS_ID,
+      documentCount: documents.length,
+      totalLength,
+    });
+  });
+
+  // Version 4: Add sources, linking chunk documents to their original file
+  db.version(4).stores({
+    documents: "id, text",
+    summaries: "id, documentId, createdAt",
+    terms: "term",
+    lexicalDocs: "id",
+    lexicalStats: "id",
+    sources: "id, hash",
+  });
+
+  // Version 5: One BM25 posting row per term and document
+  db.version(5).stores({
+    documents: "id, text",
+    summaries: "id, documentId, createdAt",
+    terms: null,
+    postings: "id, term",
+    lexicalDocs: "id",
+    lexicalStats: "id",
+    sources: "id, hash",
+  }).upgrade(async (tx) => {
+    // Migration: Split the postings of each term into rows
+    const terms: LegacyTermPostings[] = await tx.table("terms").toArray();
+    const postings: ITermPosting[] = terms.flatMap(({ term, postings }) =>
+      Object.entries(postings).map(([documentId, frequency]) => ({
+        id: postingId(term, documentId),
+        term,
+        documentId,
+        frequency,
+      }))
+    );
+    await tx.table("postings").bulkPut(postings);
+  });
+
+  return db;
+}
+
+export class ContentStore {
+  /**
+   * Database holding the tables below (IndexedDB unless a storage backend is given).
+   */
+  readonly database: StorageDatabase;
+
   /**
    * Defines the 'documents' table with an 'id' primary key.
    */
-  documents: Table<IDocument, string>; // <Type, KeyType>
+  documents: StorageTable<IDocument>;
 
   /**
    * Defines the 'summaries' table with an 'id' primary key.
    */
-  summaries: Table<ISummary, string>; // <Type, KeyType>
+  summaries: StorageTable<ISummary>;
 
-  constructor() {
-    super("MyContentDatabase");
-    
-    // Version 1: Initial schema with documents only
-    this.version(1).stores({
-      // We use 'id' as the primary key, not '++id',
-      // because we supply our own UUID string.
-      documents: "id, text",
-    });
-    
-    // Version 2: Add summaries table
-    this.version(2).stores({
-      documents: "id, text",
-      summaries: "id, documentId, createdAt",
-    }).upgrade(async (tx) => {
-      // Migration: No data migration needed, just schema update
-      console.log('Upgrading ContentStore to version 2: Added summaries table');
-    });
-    
-    this.documents = this.table("documents");
-    this.summaries = this.table("summaries");
+  /**
+   * BM25 inverted index kept next to the 'documents' table.
+   */
+  postings: StorageTable<ITermPosting>;
+  lexicalDocs: StorageTable<ILexicalDocument>;
+  lexicalStats: StorageTable<ILexicalStats>;
+
+  /**
+   * Defines the 'sources' table with an 'id' primary key.
+   */
+  sources: StorageTable<ISource>;
+
+  /**
+   * @param dbName Name of the database. Stores with different names
+   * are fully isolated. Default: "MyContentDatabase"
+   * @param storage Optional storage backend used instead of IndexedDB.
+   */
+  constructor(dbName: string = DEFAULT_CONTENT_DB_NAME, storage?: StorageBackend) {
+    this.database = storage
+      ? storage.open(dbName, CONTENT_DB_TABLES)
+      : new DexieStorageDatabase(openContentDatabase(dbName));
+
+    this.documents = this.database.table("documents");
+    this.summaries = this.database.table("summaries");
+    this.postings = this.database.table("postings");
+    this.lexicalDocs = this.database.table("lexicalDocs");
+    this.lexicalStats = this.database.table("lexicalStats");
+    this.sources = this.database.table("sources");
+  }
+
+  /**
+   * Name of the underlying database.
+   */
+  get name(): string {
+    return this.database.name;
+  }
+
+  /**
+   * Open the database. Other methods open it automatically.
+   */
+  async open(): Promise<void> {
+    await this.database.open();
+  }
+
+  /**
+   * Close the database.
+   */
+  async close(): Promise<void> {
+    await this.database.close();
+  }
+
+  /**
+   * Permanently delete the database and all of its content.
+   */
+  async delete(): Promise<void> {
+    await this.database.delete();
   }
 
   /**
@@ -64,7 +304,26 @@ export class ContentStore extends Dexie {
    * @param metadata Optional metadata to store with the document.
    */
   async addDocument(id: string, text: string, metadata?: Record<string, any>): Promise<string> {
-    return await this.documents.put({ id, text, metadata });
+    return await this.database.transaction(LEXICAL_TABLES, async (transaction) => {
+      const tables = this._tablesOf(transaction);
+      await tables.documents.put(id, { id, text, metadata });
+      await this._indexTerms(tables, [{ id, text }]);
+      return id;
+    });
+  }
+
+  /**
+   * Add or replace many documents in one transaction.
+   * @param docs The documents to store.
+   */
+  async addDocuments(docs: IDocument[]): Promise<string[]> {
+    return await this.database.transaction(LEXICAL_TABLES, async (transaction) => {
+      const tables = this._tablesOf(transaction);
+      const keys = docs.map((doc) => doc.id);
+      await tables.documents.bulkPut(keys, docs);
+      await this._indexTerms(tables, docs);
+      return keys;
+    });
   }
 
   /**
@@ -82,7 +341,11 @@ export class ContentStore extends Dexie {
    * @param id The unique string key to delete.
    */
   async deleteDocument(id: string): Promise<void> {
-    await this.documents.delete(id);
+    await this.database.transaction(LEXICAL_TABLES, async (transaction) => {
+      const tables = this._tablesOf(transaction);
+      await tables.documents.delete(id);
+      await this._removeTerms(tables, [id]);
+    });
   }
 
   /**
@@ -108,6 +371,14 @@ export class ContentStore extends Dexie {
     return await this.documents.toArray();
   }
 
+  /**
+   * Get the IDs of all documents whose metadata matches a filter.
+   * @param filter The metadata filter to apply.
+   */
+  async findDocumentIds(filter: MetadataFilter): Promise<string[]> {
+    return await this.documents.filterKeys((doc) => matchesFilter(doc.metadata, filter));
+  }
+
   /**
    * Count the total number of documents in the store.
    */
@@ -121,6 +392,159 @@ export class ContentStore extends Dexie {
   async clear(): Promise<void> {
     await this.documents.clear();
     await this.summaries.clear();
+    await this.postings.clear();
+    await this.lexicalDocs.clear();
+    await this.lexicalStats.clear();
+    await this.sources.clear();
+  }
+
+  /**
+   * Replace the whole content of the store in one transaction, so that
+   * either all of it is replaced or nothing is.
+   * @param content The documents, summaries and sources to store.
+   */
+  async replaceContent(content: {
+    documents: IDocument[];
+    summaries: ISummary[];
+    sources: ISource[];
+  }): Promise<void> {
+    await this.database.transaction(CONTENT_DB_TABLES, async (transaction) => {
+      for (const name of CONTENT_DB_TABLES) {
+        await transaction.table(name).clear();
+      }
+
+      const tables = this._tablesOf(transaction);
+      const { documents, summaries, sources } = content;
+      await tables.documents.bulkPut(documents.map((doc) => doc.id), documents);
+      await this._indexTerms(tables, documents);
+      await transaction
+        .table<ISummary>("summaries")
+        .bulkPut(summaries.map((summary) => summary.id), summaries);
+      await tables.sources.bulkPut(sources.map((source) => source.id), sources);
+    });
+  }
+
+  // ========== Lexical (BM25) Methods ==========
+
+  /**
+   * Rank documents against a query with BM25 over the inverted index.
+   * @param query The query text.
+   * @param k Maximum number of results.
+   * @param filter Optional predicate restricting which document ids can be returned.
+   * @param parameters Optional BM25 parameters.
+   */
+  async searchLexical(
+    query: string,
+    k: number,
+    filter?: (id: string) => boolean,
+    parameters?: BM25Parameters
+  ): Promise<ILexicalSearchResult[]> {
+    const queryTerms = [...new Set(tokenize(query))];
+    const stats = await this.lexicalStats.get(LEXICAL_STATS_ID);
+    if (queryTerms.length === 0 || !stats || stats.documentCount === 0) {
+      return [];
+    }
+
+    const averageLength = stats.totalLength / stats.documentCount;
+    const termPostings = await Promise.all(
+      queryTerms.map((term) => this.postings.where("term", term))
+    );
+
+    // Collect candidate documents and their matching term frequencies
+    const candidates = new Map<string, Array<{ frequency: number; idf: number }>>();
+    for (const postings of termPostings) {
+      const idf = bm25Idf(postings.length, stats.documentCount);
+      for (const { documentId, frequency } of postings) {
+        if (filter && !filter(documentId)) continue;
+        const matches = candidates.get(documentId) ?? [];
+        matches.push({ frequency, idf });
+        candidates.set(documentId, matches);
+      }
+    }
+
+    const ids = [...candidates.keys()];
+    const lexicalDocs = await this.lexicalDocs.bulkGet(ids);
+
+    const results: ILexicalSearchResult[] = ids.map((id, i) => {
+      const length = lexicalDocs[i]?.length ?? averageLength;
+      let score = 0;
+      for (const { frequency, idf } of candidates.get(id)!) {
+        score += bm25TermScore(frequency, length, averageLength, idf, parameters);
+      }
+      return { id, score };
+    });
+
+    results.sort((a, b) => b.score - a.score);
+    return results.slice(0, k);
+  }
+
+  /**
+   * The tables of the store as seen by a transaction.
+   */
+  private _tablesOf(transaction: StorageTransaction): ContentTables {
+    return {
+      documents: transaction.table("documents"),
+      postings: transaction.table("postings"),
+      lexicalDocs: transaction.table("lexicalDocs"),
+      lexicalStats: transaction.table("lexicalStats"),
+      sources: transaction.table("sources"),
+    };
+  }
+
+  /**
+   * Add documents to the inverted index, replacing any previous entries.
+   * @param tables The tables of a transaction covering the lexical tables.
+   */
+  private async _indexTerms(
+    tables: ContentTables,
+    docs: Array<{ id: string; text: string }>
+  ): Promise<void> {
+    await this._removeTerms(tables, docs.map(doc => doc.id));
+
+    const stats = (await tables.lexicalStats.get(LEXICAL_STATS_ID)) ??
+      { id: LEXICAL_STATS_ID, documentCount: 0, totalLength: 0 };
+
+    const postings: ITermPosting[] = [];
+    const lexicalDocs: ILexicalDocument[] = [];
+    for (const doc of docs) {
+      const tokens = tokenize(doc.text);
+      const frequencies = termFrequencies(tokens);
+      for (const [term, frequency] of frequencies) {
+        postings.push({ id: postingId(term, doc.id), term, documentId: doc.id, frequency });
+      }
+      lexicalDocs.push({ id: doc.id, length: tokens.length, terms: [...frequencies.keys()] });
+      stats.documentCount += 1;
+      stats.totalLength += tokens.length;
+    }
+
+    await tables.postings.bulkPut(postings.map((posting) => posting.id), postings);
+    await tables.lexicalDocs.bulkPut(lexicalDocs.map((doc) => doc.id), lexicalDocs);
+    await tables.lexicalStats.put(LEXICAL_STATS_ID, stats);
+  }
+
+  /**
+   * Remove documents from the inverted index.
+   * @param tables The tables of a transaction covering the lexical tables.
+   */
+  private async _removeTerms(tables: ContentTables, ids: string[]): Promise<void> {
+    const lexicalDocs = (await tables.lexicalDocs.bulkGet(ids)).filter(
+      (doc): doc is ILexicalDocument => doc !== undefined
+    );
+    if (lexicalDocs.length === 0) {
+      return;
+    }
+
+    await tables.postings.bulkDelete(
+      lexicalDocs.flatMap((doc) => doc.terms.map((term) => postingId(term, doc.id)))
+    );
+    await tables.lexicalDocs.bulkDelete(lexicalDocs.map(doc => doc.id));
+
+    const stats = await tables.lexicalStats.get(LEXICAL_STATS_ID);
+    if (stats) {
+      stats.documentCount -= lexicalDocs.length;
+      stats.totalLength -= lexicalDocs.reduce((sum, doc) => sum + doc.length, 0);
+      await tables.lexicalStats.put(LEXICAL_STATS_ID, stats);
+    }
   }
 
   // ========== Summary Methods ==========
@@ -130,7 +554,18 @@ export class ContentStore extends Dexie {
    * @param summary The summary object to store.
    */
   async addSummary(summary: ISummary): Promise<string> {
-    return await this.summaries.put(summary);
+    await this.summaries.put(summary.id, summary);
+    return summary.id;
+  }
+
+  /**
+   * Add or update multiple summaries at once.
+   * @param summaries The summaries to store.
+   */
+  async addSummaries(summaries: ISummary[]): Promise<string[]> {
+    const keys = summaries.map((summary) => summary.id);
+    await this.summaries.bulkPut(keys, summaries);
+    return keys;
   }
 
   /**
@@ -154,7 +589,7 @@ export class ContentStore extends Dexie {
     if (!existing) {
       throw new Error(`Summary not found for document: ${documentId}`);
     }
-    await this.summaries.update(documentId, updates);
+    await this.summaries.put(documentId, { ...existing, ...updates });
   }
 
   /**
@@ -186,4 +621,79 @@ export class ContentStore extends Dexie {
   async countSummaries(): Promise<number> {
     return await this.summaries.count();
   }
+
+  // ========== Source Methods ==========
+
+  /**
+   * Add or replace a source together with its chunk documents, in one
+   * transaction.
+   * @param source The source to store.
+   * @param chunks The chunk documents of the source.
+   */
+  async addSource(source: ISource, chunks: IDocument[] = []): Promise<string> {
+    return await this.database.transaction(SOURCE_TABLES, async (transaction) => {
+      const tables = this._tablesOf(transaction);
+      if (chunks.length > 0) {
+        await tables.documents.bulkPut(chunks.map((chunk) => chunk.id), chunks);
+        await this._indexTerms(tables, chunks);
+      }
+      await tables.sources.put(source.id, source);
+      return source.id;
+    });
+  }
+
+  /**
+   * Get a source by ID.
+   * @param id The source ID.
+   */
+  async getSource(id: string): Promise<ISource | undefined> {
+    return await this.sources.get(id);
+  }
+
+  /**
+   * Get a batch of sources by their IDs.
+   * @param ids An array of source IDs.
+   */
+  async getSources(ids: string[]): Promise<(ISource | undefined)[]> {
+    return await this.sources.bulkGet(ids);
+  }
+
+  /**
+   * Find the sources with a given content hash.
+   * @param hash The content hash.
+   */
+  async findSourcesByHash(hash: string): Promise<ISource[]> {
+    return await this.sources.where("hash", hash);
+  }
+
+  /**
+   * Delete a source and its chunk documents, in one transaction.
+   * @param id The source ID.
+   */
+  async deleteSource(id: string): Promise<void> {
+    await this.database.transaction(SOURCE_TABLES, async (transaction) => {
+      const tables = this._tablesOf(transaction);
+      const source = await tables.sources.get(id);
+      if (!source) {
+        return;
+      }
+      await tables.documents.bulkDelete(source.chunkIds);
+      await this._removeTerms(tables, source.chunkIds);
+      await tables.sources.delete(id);
+    });
+  }
+
+  /**
+   * Get all sources in the store.
+   */
+  async getAllSources(): Promise<ISource[]> {
+    return await this.sources.toArray();
+  }
+
+  /**
+   * Count the total number of sources in the store.
+   */
+  async countSources(): Promise<number> {
+    return await this.sources.count();
+  }
 }
@@ -0,0 +1,267 @@
+// ContextBuilder.ts
+
+/**
+ * Counts the tokens of a text, e.g. with the tokenizer of the LLM the context
+ * is written for.
+ */
+export type TokenCounter = (text: string) => number;
+
+/**
+ * Layout of an assembled context.
+ * 'text': passages separated by blank lines, each prefixed with its citation
+ * marker. 'markdown': one section per passage, titled with its source.
+ */
+export type ContextFormat = 'text' | 'markdown';
+
+/**
+ * A ranked chunk that may be packed into a context.
+ */
+export interface ContextCandidate {
+  /** Document id */
+  id: string;
+  text: string;
+  metadata?: Record<string, any>;
+  /** Source the chunk belongs to; adjacent chunks of a source are merged */
+  sourceId?: string;
+  /** Position of the chunk in its source */
+  chunkIndex?: number;
+  /** Title of the passage in markdown contexts, e.g. the source filename */
+  title: string;
+  /** Similarity of the chunk to the query */
+  similarity: number;
+}
+
+/**
+ * How candidates are packed into a context.
+ */
+export interface ContextAssemblyOptions {
+  /** Token budget of the assembled text */
+  maxTokens: number;
+  /** Token counter. Default: estimateTokens (about 4 characters per token) */
+  tokenizer?: TokenCounter;
+  /** Skip chunks whose text repeats a chunk already picked (ignoring case and whitespace). Default: true */
+  dedupe?: boolean;
+  /** Prefix each passage with its citation marker, e.g. [1]. Default: true */
+  includeCitations?: boolean;
+  /** Layout of the text. Default: 'text' */
+  format?: ContextFormat;
+}
+
+/**
+ * A document cited by a passage of the context.
+ */
+export interface IContextDocument {
+  id: string;
+  chunkIndex?: number;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Where a passage of the context comes from.
+ */
+export interface IContextCitation {
+  /** Documents of the passage, in text order */
+  documents: IContextDocument[];
+  sourceId?: string;
+  title: string;
+  /** Best similarity of the documents to the query */
+  similarity: number;
+  /** Whether the passage was cut to fit the token budget */
+  truncated: boolean;
+}
+
+/**
+ * A context assembled for a prompt.
+ */
+export interface IContext {
+  text: string;
+  /** Tokens of the text, as counted by the tokenizer */
+  tokens: number;
+  /** Citations keyed by marker number; passage n is cited as [n] */
+  citations: Record<number, IContextCitation>;
+}
+
+/**
+ * Overlaps shorter than this are not removed when merging chunks, since they
+ * are likely to be coincidental.
+ */
+const MIN_MERGE_OVERLAP = 8;
+
+/**
+ * A picked candidate, possibly cut to fit the budget.
+ */
+interface PickedChunk {
+  candidate: ContextCandidate;
+  rank: number;
+  text: string;
+  truncated: boolean;
+}
+
+/**
+ * Consecutive chunks of a source, or a single chunk.
+ */
+interface Passage {
+  chunks: PickedChunk[];
+  text: string;
+  rank: number;
+}
+
+/**
+ * Rough token count for English text: about 4 characters per token.
+ * @param text The text.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Pack ranked chunks into a context of at most maxTokens tokens. Chunks are
+ * picked best first; the first chunk that does not fit whole is cut at a word
+ * boundary to fill the rest of the budget. Picked chunks that are adjacent in
+ * their source are merged into one passage (removing their overlap), and
+ * passages are ordered by their best chunk.
+ * @param candidates The chunks, best first.
+ * @param options Token budget and layout.
+ * @returns The context text and its citations.
+ */
+export function assembleContext(
+  candidates: ContextCandidate[],
+  options: ContextAssemblyOptions
+): IContext {
+  const { maxTokens } = options;
+  if (!Number.isInteger(maxTokens) || maxTokens < 1) {
+    throw new Error(`maxTokens must be a positive integer, got ${maxTokens}`);
+  }
+  const tokenizer = options.tokenizer ?? estimateTokens;
+  const dedupe = options.dedupe ?? true;
+  const render = (chunks: PickedChunk[]) =>
+    renderPassages(
+      buildPassages(chunks),
+      options.format ?? 'text',
+      options.includeCitations ?? true
+    );
+  const fits = (chunks: PickedChunk[]) => tokenizer(render(chunks)) <= maxTokens;
+
+  const picked: PickedChunk[] = [];
+  const seen = new Set<string>();
+  for (const [rank, candidate] of candidates.entries()) {
+    if (dedupe) {
+      const key = candidate.text.toLowerCase().replace(/\s+/g, ' ').trim();
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+    }
+
+    const chunk = { candidate, rank, text: candidate.text, truncated: false };
+    if (fits([...picked, chunk])) {
+      picked.push(chunk);
+      continue;
+    }
+
+    // Cut the chunk after as many words as fit
+    const wordEnds = [...candidate.text.matchAll(/\S+/g)].map((match) => match.index! + match[0].length);
+    let low = 0;
+    let high = wordEnds.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      const cut = { ...chunk, text: candidate.text.slice(0, wordEnds[mid - 1]), truncated: true };
+      if (fits([...picked, cut])) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    if (low > 0) {
+      picked.push({ ...chunk, text: candidate.text.slice(0, wordEnds[low - 1]), truncated: true });
+    }
+    break;
+  }
+
+  const passages = buildPassages(picked);
+  const text = renderPassages(passages, options.format ?? 'text', options.includeCitations ?? true);
+  const citations: Record<number, IContextCitation> = {};
+  passages.forEach((passage, i) => {
+    const first = passage.chunks[0].candidate;
+    citations[i + 1] = {
+      documents: passage.chunks.map(({ candidate }) => ({
+        id: candidate.id,
+        chunkIndex: candidate.chunkIndex,
+        metadata: candidate.metadata,
+      })),
+      sourceId: first.sourceId,
+      title: first.title,
+      similarity: Math.max(...passage.chunks.map(({ candidate }) => candidate.similarity)),
+      truncated: passage.chunks.some((chunk) => chunk.truncated),
+    };
+  });
+
+  return { text, tokens: tokenizer(text), citations };
+}
+
+/**
+ * Group picked chunks into passages: runs of consecutive chunks of a source
+ * become one passage. A cut chunk stays on its own, since the text after the
+ * cut is missing. Passages are ordered by their best chunk.
+ */
+function buildPassages(chunks: PickedChunk[]): Passage[] {
+  const runs: PickedChunk[][] = [];
+  const bySource = new Map<string, PickedChunk[]>();
+  for (const chunk of chunks) {
+    const { sourceId, chunkIndex } = chunk.candidate;
+    if (sourceId === undefined || chunkIndex === undefined || chunk.truncated) {
+      runs.push([chunk]);
+    } else {
+      bySource.set(sourceId, [...(bySource.get(sourceId) ?? []), chunk]);
+    }
+  }
+
+  for (const sourceChunks of bySource.values()) {
+    sourceChunks.sort((a, b) => a.candidate.chunkIndex! - b.candidate.chunkIndex!);
+    let run: PickedChunk[] = [];
+    for (const chunk of sourceChunks) {
+      const last = run[run.length - 1];
+      if (last && chunk.candidate.chunkIndex! !== last.candidate.chunkIndex! + 1) {
+        runs.push(run);
+        run = [];
+      }
+      run.push(chunk);
+    }
+    runs.push(run);
+  }
+
+  return runs
+    .map((run) => ({
+      chunks: run,
+      text: run.slice(1).reduce((text, chunk) => mergeChunkTexts(text, chunk.text), run[0].text),
+      rank: Math.min(...run.map((chunk) => chunk.rank)),
+    }))
+    .sort((a, b) => a.rank - b.rank);
+}
+
+/**
+ * Join the texts of two consecutive chunks, dropping the start of the second
+ * one if it repeats the end of the first (chunk overlap).
+ */
+function mergeChunkTexts(first: string, second: string): string {
+  for (let length = Math.min(first.length, second.length); length >= MIN_MERGE_OVERLAP; length--) {
+    if (first.endsWith(second.slice(0, length))) {
+      return first + second.slice(length);
+    }
+  }
+  return `${first}\n${second}`;
+}
+
+/**
+ * Lay out passages as context text.
+ */
+function renderPassages(passages: Passage[], format: ContextFormat, includeCitations: boolean): string {
+  return passages
+    .map((passage, i) => {
+      const marker = includeCitations ? `[${i + 1}] ` : '';
+      return format === 'markdown'
+        ? `### ${marker}${passage.chunks[0].candidate.title}\n\n${passage.text}`
+        : `${marker}${passage.text}`;
+    })
+    .join('\n\n');
+}
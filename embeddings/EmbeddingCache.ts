@@ -0,0 +1,216 @@
+// EmbeddingCache.ts
+import Dexie, { Table } from "dexie";
+import { sha256Hex } from "./Sha256";
+
+/** Default name of the database holding cached embeddings */
+export const DEFAULT_EMBEDDING_CACHE_DB_NAME = "flux-vector-embedding-cache";
+
+/**
+ * Embedding stored in the cache, keyed by the hash of its model and text.
+ */
+export interface ICachedEmbedding {
+  hash: string; // Primary key, SHA-256 of model and text
+  vector: Float32Array;
+  lastUsed: number; // Logical timestamp of the last read or write, for LRU eviction
+}
+
+/**
+ * Options of an EmbeddingCache.
+ */
+export interface EmbeddingCacheConfig {
+  /** Name of the database. Default: "flux-vector-embedding-cache" */
+  dbName?: string;
+  /**
+   * Number of embeddings kept; the least recently used ones are evicted.
+   * Default: 10000 (about 15 MB of 384-dimension embeddings)
+   */
+  maxEntries?: number;
+}
+
+/**
+ * Lookups of an EmbeddingCache since it was created or its stats were reset.
+ */
+export interface EmbeddingCacheStats {
+  hits: number;
+  misses: number;
+  /** hits / (hits + misses), 0 before the first lookup */
+  hitRate: number;
+  /** Number of embeddings currently stored */
+  entries: number;
+}
+
+/**
+ * Database holding the cached embeddings.
+ */
+class EmbeddingCacheDatabase extends Dexie {
+  embeddings: Table<ICachedEmbedding, string>;
+
+  constructor(name: string) {
+    super(name);
+    this.version(1).stores({
+      embeddings: "hash, lastUsed",
+    });
+    this.embeddings = this.table("embeddings");
+  }
+}
+
+/**
+ * SHA-256 of a model id and a text, as hex.
+ * @param model Id of the model (and options) producing the embedding.
+ * @param text The embedded text, including any prefix.
+ */
+export async function embeddingCacheKey(model: string, text: string): Promise<string> {
+  const data = new TextEncoder().encode(`${model}\u0000${text}`);
+  return await sha256Hex(data);
+}
+
+/**
+ * Persistent, content-addressed cache of embeddings in IndexedDB. Entries
+ * are keyed by a hash of the model id and the text, so the same text embedded
+ * by another model is a miss. Pass it to DefaultEmbeddingEngine to skip the
+ * model for texts it has embedded before.
+ */
+export class EmbeddingCache {
+  readonly maxEntries: number;
+  private db: EmbeddingCacheDatabase;
+  private hits = 0;
+  private misses = 0;
+  /** Last lastUsed value handed out, so that every access is ordered */
+  private clock = 0;
+
+  constructor(config: EmbeddingCacheConfig = {}) {
+    const maxEntries = config.maxEntries ?? 10000;
+    if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+      throw new Error(`maxEntries must be a positive integer, got ${maxEntries}`);
+    }
+    this.maxEntries = maxEntries;
+    this.db = new EmbeddingCacheDatabase(config.dbName ?? DEFAULT_EMBEDDING_CACHE_DB_NAME);
+  }
+
+  /**
+   * Look up the embedding of a text.
+   * @param model Id of the model (and options) producing the embedding.
+   * @param text The text.
+   * @returns The cached embedding, or undefined on a miss.
+   */
+  async get(model: string, text: string): Promise<Float32Array | undefined> {
+    const [vector] = await this.getMany(model, [text]);
+    return vector;
+  }
+
+  /**
+   * Look up the embeddings of several texts.
+   * @param model Id of the model (and options) producing the embeddings.
+   * @param texts The texts.
+   * @returns One entry per text: the cached embedding, or undefined on a miss.
+   */
+  async getMany(model: string, texts: string[]): Promise<(Float32Array | undefined)[]> {
+    const hashes = await Promise.all(texts.map((text) => embeddingCacheKey(model, text)));
+    const entries = await this.db.embeddings.bulkGet(hashes);
+
+    const used: ICachedEmbedding[] = [];
+    const vectors = entries.map((entry) => {
+      if (!entry) {
+        this.misses += 1;
+        return undefined;
+      }
+      this.hits += 1;
+      used.push({ ...entry, lastUsed: this.tick() });
+      return entry.vector;
+    });
+
+    if (used.length > 0) {
+      await this.db.embeddings.bulkPut(used);
+    }
+    return vectors;
+  }
+
+  /**
+   * Store the embedding of a text.
+   * @param model Id of the model (and options) that produced the embedding.
+   * @param text The text.
+   * @param vector Its embedding.
+   */
+  async set(model: string, text: string, vector: Float32Array): Promise<void> {
+    await this.setMany(model, [text], [vector]);
+  }
+
+  /**
+   * Store the embeddings of several texts, then evict the least recently
+   * used embeddings above maxEntries.
+   * @param model Id of the model (and options) that produced the embeddings.
+   * @param texts The texts.
+   * @param vectors One embedding per text.
+   */
+  async setMany(model: string, texts: string[], vectors: Float32Array[]): Promise<void> {
+    if (texts.length !== vectors.length) {
+      throw new Error(`Expected one embedding per text, got ${vectors.length} for ${texts.length} texts`);
+    }
+    const hashes = await Promise.all(texts.map((text) => embeddingCacheKey(model, text)));
+    await this.db.embeddings.bulkPut(
+      hashes.map((hash, i) => ({ hash, vector: vectors[i], lastUsed: this.tick() }))
+    );
+    await this.evict();
+  }
+
+  /**
+   * Hit and miss counts of this instance, and the number of stored embeddings.
+   */
+  async getStats(): Promise<EmbeddingCacheStats> {
+    const lookups = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups === 0 ? 0 : this.hits / lookups,
+      entries: await this.db.embeddings.count(),
+    };
+  }
+
+  /**
+   * Reset the hit and miss counts.
+   */
+  resetStats(): void {
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  /**
+   * Remove all cached embeddings.
+   */
+  async clear(): Promise<void> {
+    await this.db.embeddings.clear();
+  }
+
+  /**
+   * Close the database.
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Permanently delete the database and all cached embeddings.
+   */
+  async delete(): Promise<void> {
+    await this.db.delete();
+  }
+
+  /**
+   * Remove the least recently used embeddings above maxEntries.
+   */
+  private async evict(): Promise<void> {
+    const excess = (await this.db.embeddings.count()) - this.maxEntries;
+    if (excess > 0) {
+      const hashes = await this.db.embeddings.orderBy("lastUsed").limit(excess).primaryKeys();
+      await this.db.embeddings.bulkDelete(hashes);
+    }
+  }
+
+  /**
+   * Next lastUsed value: the current time, but always after the previous one.
+   */
+  private tick(): number {
+    this.clock = Math.max(Date.now(), this.clock + 1);
+    return this.clock;
+  }
+}
@@ -1,66 +1,214 @@
 import {
   pipeline,
+  AutoTokenizer,
   FeatureExtractionPipeline,
+  PreTrainedTokenizer,
   Tensor,
   FeatureExtractionPipelineOptions,
   ProgressCallback,
 } from "@huggingface/transformers";
 import { WorkerManager, WorkerTaskType } from "../workers";
-import type { EmbedTaskPayload } from "../workers/worker-types";
+import type {
+  EmbedTaskPayload,
+  EmbedBatchTaskPayload,
+  EmbeddingPooling,
+  ModelDtype,
+} from "../workers/worker-types";
+import type { EmbeddingVector } from "../mememo/src/mememo";
+import type { EmbeddingCache } from "./EmbeddingCache";
 
 /**
  * Interface for custom embedding engines.
  * Implement this interface to use your own embedding model.
  */
 export interface IEmbeddingEngine {
+  /**
+   * Optional: id of the embedding model. The index records it and refuses
+   * embeddings from engines with another model id.
+   */
+  readonly modelId?: string;
+
   /**
    * Generate an embedding for a given text.
    * @param text The text to embed.
    * @param progressCallback Optional callback for tracking embedding progress.
-   * @returns The embedding as a number array.
+   * @param signal Optional signal to cancel the embedding; the promise then
+   * rejects with the signal's reason.
+   * @returns The embedding as a Float32Array or a number array.
+   */
+  embed(
+    text: string,
+    progressCallback?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<EmbeddingVector>;
+
+  /**
+   * Optional: generate embeddings for many texts in one model batch.
+   * Engines that do not implement this are called once per text.
+   * @param texts The texts to embed.
+   * @param progressCallback Optional callback for tracking batch progress.
+   * @param signal Optional signal to cancel the batch.
+   * @returns One embedding per text, in the same order.
+   */
+  embedBatch?(
+    texts: string[],
+    progressCallback?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<EmbeddingVector[]>;
+
+  /**
+   * Optional: generate the embedding of a search query, for models that
+   * embed queries differently from documents. Queries use embed() otherwise.
+   * @param text The query to embed.
+   * @param progressCallback Optional callback for tracking embedding progress.
+   * @param signal Optional signal to cancel the embedding.
+   * @returns The embedding as a Float32Array or a number array.
    */
-  embed(text: string, progressCallback?: (progress: number) => void): Promise<number[]>;
+  embedQuery?(
+    text: string,
+    progressCallback?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<EmbeddingVector>;
+}
+
+export const DEFAULT_EMBEDDING_MODEL = "Xenova/all-MiniLM-L6-v2";
+
+/**
+ * Model options of the default embedding engine
+ */
+export interface EmbeddingModelConfig {
+  /** HuggingFace model id. Default: 'Xenova/all-MiniLM-L6-v2' */
+  model?: string;
+  /** How token embeddings are pooled into one embedding. Default: 'mean' */
+  pooling?: EmbeddingPooling;
+  /** Whether embeddings are L2-normalized. Default: true */
+  normalize?: boolean;
+  /** Weight precision or quantized variant, e.g. 'q8'. Default: the model's default */
+  dtype?: ModelDtype;
+  /** Prepended to search queries, e.g. 'query: ' for e5 models */
+  queryPrefix?: string;
+  /** Prepended to documents, e.g. 'passage: ' for e5 models */
+  passagePrefix?: string;
+  /**
+   * What to do with documents longer than the model's maximum sequence
+   * length, whose end the model ignores: 'warn' logs a warning, 'error'
+   * rejects before embedding, 'ignore' skips the check. Default: 'warn'
+   */
+  truncation?: 'warn' | 'error' | 'ignore';
+  /**
+   * Maximum sequence length in tokens, including special tokens.
+   * Default: the model_max_length of the model's tokenizer
+   */
+  maxSequenceLength?: number;
 }
 
 /**
  * This class uses the singleton pattern to ensure that only one instance
- * of the embedding pipeline is ever created.
+ * of the embedding pipeline is ever created per model and dtype.
  */
 class EmbeddingPipeline {
   static task = "feature-extraction" as const;
-  static model: string = "Xenova/all-MiniLM-L6-v2";
-  static instance: FeatureExtractionPipeline | null = null;
+  static instances = new Map<string, FeatureExtractionPipeline>();
 
   /**
-   * Get the singleton instance of the embedding pipeline.
+   * Get the singleton instance of the embedding pipeline for a model.
+   * @param model The model id.
+   * @param dtype Optional weight precision or quantized variant.
    * @param progress_callback A function to track model loading progress.
    */
   static async getInstance(
+    model: string,
+    dtype?: ModelDtype,
     progress_callback?: ProgressCallback
   ): Promise<any> {
-    if (this.instance === null) {
-      this.instance = await pipeline(this.task, this.model, { progress_callback }) as any;
+    const key = dtype ? `${model}:${dtype}` : model;
+    if (!this.instances.has(key)) {
+      this.instances.set(key, await pipeline(this.task, model, { dtype, progress_callback }) as any);
     }
-    return this.instance;
+    return this.instances.get(key);
   }
 }
 
+/**
+ * This class uses the singleton pattern to ensure that only one tokenizer is
+ * ever loaded per model (on the main thread, for counting tokens).
+ */
+class TokenizerPipeline {
+  static instances = new Map<string, PreTrainedTokenizer>();
+
+  /**
+   * Get the singleton tokenizer of a model.
+   * @param model The model id.
+   * @param progress_callback A function to track tokenizer loading progress.
+   */
+  static async getInstance(
+    model: string,
+    progress_callback?: ProgressCallback
+  ): Promise<PreTrainedTokenizer> {
+    if (!this.instances.has(model)) {
+      this.instances.set(model, await AutoTokenizer.from_pretrained(model, { progress_callback }));
+    }
+    return this.instances.get(model)!;
+  }
+}
+
+/**
+ * Load the tokenizer of a HuggingFace model, e.g. to measure chunks in tokens.
+ * @param model The model id. Default: 'Xenova/all-MiniLM-L6-v2'
+ * @param progressCallback Optional callback for tracking loading progress.
+ */
+export async function loadTokenizer(
+  model: string = DEFAULT_EMBEDDING_MODEL,
+  progressCallback?: ProgressCallback
+): Promise<PreTrainedTokenizer> {
+  return TokenizerPipeline.getInstance(model, progressCallback);
+}
+
 /**
  * Default embedding engine using HuggingFace transformers.
- * Uses Xenova/all-MiniLM-L6-v2 model which produces 384-dimension embeddings.
- * Supports running in worker or main thread (with fallback).
+ * Uses Xenova/all-MiniLM-L6-v2 model which produces 384-dimension embeddings
+ * unless another model is configured.
+ * Supports running in worker or main thread (with fallback), and an optional
+ * EmbeddingCache checked before either. Documents longer than the model's
+ * maximum sequence length are reported (see EmbeddingModelConfig.truncation).
  */
 export class DefaultEmbeddingEngine implements IEmbeddingEngine {
+  readonly modelId: string;
+  /** Length of the embeddings, known after the first embedding */
+  dimensions: number | null = null;
+  private modelConfig: Required<Omit<EmbeddingModelConfig, 'dtype' | 'maxSequenceLength'>> &
+    Pick<EmbeddingModelConfig, 'dtype' | 'maxSequenceLength'>;
   private modelLoadCallback?: ProgressCallback;
   private useWorker: boolean;
   private workerManager?: WorkerManager;
+  private embeddingCache?: EmbeddingCache;
+  /** Set when the tokenizer failed to load, so that lengths are no longer checked */
+  private tokenizerUnavailable = false;
 
   constructor(
     modelLoadCallback?: ProgressCallback,
-    useWorker: boolean = true
+    useWorker: boolean = true,
+    modelConfig: EmbeddingModelConfig = {},
+    embeddingCache?: EmbeddingCache
   ) {
+    this.modelConfig = {
+      model: modelConfig.model ?? DEFAULT_EMBEDDING_MODEL,
+      pooling: modelConfig.pooling ?? "mean",
+      normalize: modelConfig.normalize ?? true,
+      dtype: modelConfig.dtype,
+      queryPrefix: modelConfig.queryPrefix ?? "",
+      passagePrefix: modelConfig.passagePrefix ?? "",
+      truncation: modelConfig.truncation ?? "warn",
+      maxSequenceLength: modelConfig.maxSequenceLength,
+    };
+    const { maxSequenceLength } = this.modelConfig;
+    if (maxSequenceLength !== undefined && (!Number.isInteger(maxSequenceLength) || maxSequenceLength < 1)) {
+      throw new Error(`maxSequenceLength must be a positive integer, got ${maxSequenceLength}`);
+    }
+    this.modelId = this.modelConfig.model;
     this.modelLoadCallback = modelLoadCallback;
     this.useWorker = useWorker;
+    this.embeddingCache = embeddingCache;
     
     if (useWorker) {
       try {
@@ -76,21 +224,265 @@ export class DefaultEmbeddingEngine implements IEmbeddingEngine {
    * Helper function to embed a single piece of text.
    * @param text The text to embed.
    * @param progressCallback Optional callback for tracking embedding progress.
-   * @returns The 384-dimension embedding.
+   * @param signal Optional signal to cancel the embedding.
+   * @returns The embedding of the text with the passage prefix.
+   */
+  async embed(
+    text: string,
+    progressCallback?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<Float32Array> {
+    const input = this.modelConfig.passagePrefix + text;
+    return this.withLengthCheck([input], () => this.embedText(input, progressCallback, signal));
+  }
+
+  /**
+   * Embed a search query.
+   * @param text The query to embed.
+   * @param progressCallback Optional callback for tracking embedding progress.
+   * @param signal Optional signal to cancel the embedding.
+   * @returns The embedding of the query with the query prefix.
+   */
+  async embedQuery(
+    text: string,
+    progressCallback?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<Float32Array> {
+    return this.embedText(this.modelConfig.queryPrefix + text, progressCallback, signal);
+  }
+
+  /**
+   * Embed a text as is, from the cache if it has the embedding.
    */
-  async embed(text: string, progressCallback?: (progress: number) => void): Promise<number[]> {
+  private async embedText(
+    text: string,
+    progressCallback?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<Float32Array> {
+    signal?.throwIfAborted();
+    if (!this.embeddingCache) {
+      return this.computeEmbedding(text, progressCallback, signal);
+    }
+
+    const [cached] = await this.readCache([text]);
+    signal?.throwIfAborted();
+    if (cached) {
+      progressCallback?.(1.0);
+      return this.detectDimensions(cached);
+    }
+
+    const vector = await this.computeEmbedding(text, progressCallback, signal);
+    await this.writeCache([text], [vector]);
+    return vector;
+  }
+
+  /**
+   * Run the model on a text, in a worker if possible.
+   */
+  private async computeEmbedding(
+    text: string,
+    progressCallback?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<Float32Array> {
     // Try worker mode first if enabled
     if (this.useWorker && this.workerManager?.isAvailable()) {
       try {
-        return await this.embedInWorker(text, progressCallback);
+        return this.detectDimensions(await this.embedInWorker(text, progressCallback, signal));
       } catch (error) {
-        console.warn('Worker embedding failed, falling back to main thread:', error);
+        signal?.throwIfAborted();
+        // Quietly use the main thread from now on if workers cannot start at all
+        if (this.workerManager.isAvailable()) {
+          console.warn('Worker embedding failed, falling back to main thread:', error);
+        }
         // Fall through to main thread fallback
       }
     }
 
     // Fallback to main thread
-    return await this.embedInMainThread(text, progressCallback);
+    return this.detectDimensions(await this.embedInMainThread(text, progressCallback, signal));
+  }
+
+  /**
+   * Embed many texts at once. Only the texts missing from the cache go
+   * through the model.
+   * @param texts The texts to embed.
+   * @param progressCallback Optional callback for tracking batch progress.
+   * @param signal Optional signal to cancel the batch; the worker stops
+   * before its next padded batch.
+   * @returns One embedding per text, embedded with the passage prefix.
+   */
+  async embedBatch(
+    texts: string[],
+    progressCallback?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<Float32Array[]> {
+    signal?.throwIfAborted();
+    if (texts.length === 0) {
+      return [];
+    }
+    const inputs = texts.map(text => this.modelConfig.passagePrefix + text);
+    return this.withLengthCheck(inputs, () => this.embedInputs(inputs, progressCallback, signal));
+  }
+
+  /**
+   * Embed prefixed texts, from the cache where it has their embeddings.
+   */
+  private async embedInputs(
+    texts: string[],
+    progressCallback?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<Float32Array[]> {
+    if (!this.embeddingCache) {
+      return this.computeBatch(texts, progressCallback, signal);
+    }
+
+    const vectors = await this.readCache(texts);
+    signal?.throwIfAborted();
+    const missing = texts.flatMap((text, i) => (vectors[i] ? [] : [i]));
+    if (missing.length === 0) {
+      progressCallback?.(1.0);
+      this.detectDimensions(vectors[0]!);
+      return vectors as Float32Array[];
+    }
+
+    const missingTexts = missing.map(i => texts[i]);
+    const computed = await this.computeBatch(missingTexts, progressCallback, signal);
+    missing.forEach((index, i) => (vectors[index] = computed[i]));
+    await this.writeCache(missingTexts, computed);
+    return vectors as Float32Array[];
+  }
+
+  /**
+   * Run the model on a batch of texts, in a worker if possible.
+   */
+  private async computeBatch(
+    texts: string[],
+    progressCallback?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<Float32Array[]> {
+    // Try worker mode first if enabled
+    if (this.useWorker && this.workerManager?.isAvailable()) {
+      try {
+        const vectors = await this.embedBatchInWorker(texts, progressCallback, signal);
+        this.detectDimensions(vectors[0]);
+        return vectors;
+      } catch (error) {
+        signal?.throwIfAborted();
+        if (this.workerManager.isAvailable()) {
+          console.warn('Worker embedding failed, falling back to main thread:', error);
+        }
+        // Fall through to main thread fallback
+      }
+    }
+
+    // Fallback to main thread
+    const vectors = await this.embedBatchInMainThread(texts, progressCallback, signal);
+    this.detectDimensions(vectors[0]);
+    return vectors;
+  }
+
+  /**
+   * Run an embedding with the length check of its input texts. With
+   * truncation: 'error' the check comes first; warnings are checked while
+   * the texts are embedded.
+   */
+  private async withLengthCheck<T>(texts: string[], embed: () => Promise<T>): Promise<T> {
+    if (this.modelConfig.truncation === 'error') {
+      await this.checkLength(texts);
+      return embed();
+    }
+
+    const check = this.checkLength(texts);
+    const result = await embed();
+    await check;
+    return result;
+  }
+
+  /**
+   * Report texts longer than the maximum sequence length: throws with
+   * truncation: 'error', warns otherwise. Texts are not checked when the
+   * tokenizer cannot be loaded.
+   */
+  private async checkLength(texts: string[]): Promise<void> {
+    const { model, truncation } = this.modelConfig;
+    if (truncation === 'ignore' || this.tokenizerUnavailable) {
+      return;
+    }
+
+    let tokenizer: PreTrainedTokenizer;
+    try {
+      tokenizer = await TokenizerPipeline.getInstance(model, this.modelLoadCallback);
+    } catch (error) {
+      this.tokenizerUnavailable = true;
+      console.warn(`Failed to load the tokenizer of ${model}, input lengths are not checked:`, error);
+      return;
+    }
+
+    const maxLength = this.modelConfig.maxSequenceLength ?? tokenizer.model_max_length;
+    if (typeof maxLength !== 'number') {
+      return;
+    }
+    const lengths = texts.map(text => tokenizer.encode(text).length);
+    const truncated = lengths.filter(length => length > maxLength);
+    if (truncated.length === 0) {
+      return;
+    }
+
+    const message = texts.length === 1
+      ? `Text of ${lengths[0]} tokens exceeds the maximum sequence length of ${model} (${maxLength} tokens)`
+      : `${truncated.length} of ${texts.length} texts exceed the maximum sequence length of ${model} ` +
+        `(${maxLength} tokens, longest: ${Math.max(...truncated)})`;
+    if (truncation === 'error') {
+      throw new Error(message);
+    }
+    console.warn(`${message}; the model ignores the rest. Use smaller chunks, e.g. with TokenTextSplitter.`);
+  }
+
+  /**
+   * Record the embedding length from the first embedding
+   */
+  private detectDimensions(vector: Float32Array): Float32Array {
+    this.dimensions ??= vector.length;
+    return vector;
+  }
+
+  /**
+   * Cache namespace: the model and the options that change its output
+   */
+  private cacheModelKey(): string {
+    const { model, pooling, normalize, dtype } = this.modelConfig;
+    return [model, dtype ?? "default", pooling, normalize ? "normalized" : "raw"].join(":");
+  }
+
+  /**
+   * Cached embeddings of texts; a failing cache counts as all misses.
+   */
+  private async readCache(texts: string[]): Promise<(Float32Array | undefined)[]> {
+    try {
+      return await this.embeddingCache!.getMany(this.cacheModelKey(), texts);
+    } catch (error) {
+      console.warn('Embedding cache lookup failed, embedding with the model:', error);
+      return texts.map(() => undefined);
+    }
+  }
+
+  /**
+   * Store computed embeddings; a failing cache is not an embedding failure.
+   */
+  private async writeCache(texts: string[], vectors: Float32Array[]): Promise<void> {
+    try {
+      await this.embeddingCache!.setMany(this.cacheModelKey(), texts, vectors);
+    } catch (error) {
+      console.warn('Failed to store embeddings in the cache:', error);
+    }
+  }
+
+  /**
+   * Model options sent with worker tasks
+   */
+  private modelPayload(): Pick<EmbedTaskPayload, 'model' | 'pooling' | 'normalize' | 'dtype'> {
+    const { model, pooling, normalize, dtype } = this.modelConfig;
+    return { model, pooling, normalize, dtype };
   }
 
   /**
@@ -98,22 +490,54 @@ export class DefaultEmbeddingEngine implements IEmbeddingEngine {
    */
   private async embedInWorker(
     text: string,
-    progressCallback?: (progress: number) => void
-  ): Promise<number[]> {
+    progressCallback?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<Float32Array> {
     if (!this.workerManager) {
       throw new Error('Worker manager not available');
     }
 
     const payload: EmbedTaskPayload = {
       text,
+      ...this.modelPayload(),
     };
 
-    return await this.workerManager.execute<number[]>(
+    return await this.workerManager.execute<Float32Array>(
       {
         task: WorkerTaskType.EMBED,
         payload,
       },
-      progressCallback
+      progressCallback,
+      signal
+    );
+  }
+
+  /**
+   * Embed a batch using one worker task. It yields to interactive tasks such
+   * as queries; the embeddings come back as transferred buffers.
+   */
+  private async embedBatchInWorker(
+    texts: string[],
+    progressCallback?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<Float32Array[]> {
+    if (!this.workerManager) {
+      throw new Error('Worker manager not available');
+    }
+
+    const payload: EmbedBatchTaskPayload = {
+      texts,
+      ...this.modelPayload(),
+    };
+
+    return await this.workerManager.execute<Float32Array[]>(
+      {
+        task: WorkerTaskType.EMBED_BATCH,
+        payload,
+      },
+      progressCallback,
+      signal,
+      'background'
     );
   }
 
@@ -122,35 +546,76 @@ export class DefaultEmbeddingEngine implements IEmbeddingEngine {
    */
   private async embedInMainThread(
     text: string,
-    progressCallback?: (progress: number) => void
-  ): Promise<number[]> {
+    progressCallback?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<Float32Array> {
     // Report start
     progressCallback?.(0);
     
     // Get the model instance (this may trigger model loading on first call)
-    const extractor = await EmbeddingPipeline.getInstance(this.modelLoadCallback);
+    const extractor = await EmbeddingPipeline.getInstance(
+      this.modelConfig.model,
+      this.modelConfig.dtype,
+      this.modelLoadCallback
+    );
+    signal?.throwIfAborted();
     progressCallback?.(0.3); // 30% - model loaded
 
     // Compute the embedding
     const output: Tensor = await extractor(text, {
-      pooling: "mean",
-      normalize: true,
+      pooling: this.modelConfig.pooling,
+      normalize: this.modelConfig.normalize,
     } as FeatureExtractionPipelineOptions);
     progressCallback?.(0.9); // 90% - embedding computed
 
-    // Extract the embedding data and convert to a standard array
-    const result = Array.from(output.data);
+    // Extract the embedding data (the model outputs float32)
+    const result = output.data as Float32Array;
     progressCallback?.(1.0); // 100% - complete
     
     return result;
   }
+
+  /**
+   * Embed a batch in main thread (fallback). The texts go through the model
+   * as one padded batch.
+   */
+  private async embedBatchInMainThread(
+    texts: string[],
+    progressCallback?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<Float32Array[]> {
+    progressCallback?.(0);
+
+    const extractor = await EmbeddingPipeline.getInstance(
+      this.modelConfig.model,
+      this.modelConfig.dtype,
+      this.modelLoadCallback
+    );
+    signal?.throwIfAborted();
+    progressCallback?.(0.3); // 30% - model loaded
+
+    const output: Tensor = await extractor(texts, {
+      pooling: this.modelConfig.pooling,
+      normalize: this.modelConfig.normalize,
+    } as FeatureExtractionPipelineOptions);
+    progressCallback?.(0.9); // 90% - embeddings computed
+
+    // Copy each row out of the [texts, dimensions] output so stored
+    // embeddings do not keep the whole batch buffer alive
+    const data = output.data as Float32Array;
+    const dimensions = output.dims[1];
+    const result = texts.map((_, i) => data.slice(i * dimensions, (i + 1) * dimensions));
+    progressCallback?.(1.0); // 100% - complete
+
+    return result;
+  }
 }
 
 /**
  * Singleton helper function for backward compatibility.
  * Uses the default embedding engine.
  */
-export async function embed(text: string): Promise<number[]> {
+export async function embed(text: string): Promise<Float32Array> {
   const engine = new DefaultEmbeddingEngine();
   return engine.embed(text);
 }
@@ -0,0 +1,82 @@
+// Fusion.ts
+
+/**
+ * A ranked list entry to be fused. Higher scores are better.
+ */
+export interface RankedItem {
+  key: string;
+  score: number;
+}
+
+/**
+ * Reciprocal rank fusion of two ranked lists.
+ * score(d) = w / (rrfK + rankA(d)) + (1 - w) / (rrfK + rankB(d))
+ * @param listA First ranked list (best first).
+ * @param listB Second ranked list (best first).
+ * @param weightA Weight of the first list (0-1). The second list gets 1 - weightA.
+ * @param rrfK Rank smoothing constant. Default: 60
+ * @returns Fused scores keyed by item key.
+ */
+export function reciprocalRankFusion(
+  listA: RankedItem[],
+  listB: RankedItem[],
+  weightA: number,
+  rrfK: number = 60
+): Map<string, number> {
+  const fused = new Map<string, number>();
+  listA.forEach((item, rank) => {
+    fused.set(item.key, (fused.get(item.key) ?? 0) + weightA / (rrfK + rank + 1));
+  });
+  listB.forEach((item, rank) => {
+    fused.set(item.key, (fused.get(item.key) ?? 0) + (1 - weightA) / (rrfK + rank + 1));
+  });
+  return fused;
+}
+
+/**
+ * Weighted score fusion of two ranked lists. Scores are min-max normalized
+ * per list so they can be combined linearly; items missing from a list get 0
+ * for that list.
+ * @param listA First ranked list.
+ * @param listB Second ranked list.
+ * @param weightA Weight of the first list (0-1). The second list gets 1 - weightA.
+ * @returns Fused scores keyed by item key.
+ */
+export function weightedScoreFusion(
+  listA: RankedItem[],
+  listB: RankedItem[],
+  weightA: number
+): Map<string, number> {
+  const fused = new Map<string, number>();
+  for (const [key, score] of normalizeScores(listA)) {
+    fused.set(key, (fused.get(key) ?? 0) + weightA * score);
+  }
+  for (const [key, score] of normalizeScores(listB)) {
+    fused.set(key, (fused.get(key) ?? 0) + (1 - weightA) * score);
+  }
+  return fused;
+}
+
+/**
+ * Min-max normalize scores into [0, 1]. A list with a single distinct score
+ * maps every item to 1.
+ */
+function normalizeScores(list: RankedItem[]): Map<string, number> {
+  const normalized = new Map<string, number>();
+  if (list.length === 0) {
+    return normalized;
+  }
+
+  let min = Infinity;
+  let max = -Infinity;
+  for (const item of list) {
+    min = Math.min(min, item.score);
+    max = Math.max(max, item.score);
+  }
+
+  const range = max - min;
+  for (const item of list) {
+    normalized.set(item.key, range > 0 ? (item.score - min) / range : 1);
+  }
+  return normalized;
+}
@@ -0,0 +1,56 @@
+// MMR.ts
+
+/**
+ * A candidate picked by maximal marginal relevance.
+ */
+export interface MMRSelection {
+  /** Index of the candidate */
+  index: number;
+  /** MMR score when the candidate was picked */
+  score: number;
+}
+
+/**
+ * Maximal marginal relevance selection. Repeatedly picks the candidate with
+ * the best trade-off between relevance to the query and similarity to the
+ * candidates already picked:
+ * mmr(d) = lambda * relevance(d) - (1 - lambda) * max similarity(d, picked)
+ * @param relevance Relevance of each candidate to the query (higher is better).
+ * @param similarity Similarity between two candidates, given by index.
+ * @param k Number of candidates to pick.
+ * @param lambda Trade-off between relevance (1) and diversity (0).
+ * @returns The picked candidates, in pick order.
+ */
+export function maximalMarginalRelevance(
+  relevance: number[],
+  similarity: (a: number, b: number) => number,
+  k: number,
+  lambda: number
+): MMRSelection[] {
+  const selected: MMRSelection[] = [];
+  const remaining = new Set(relevance.keys());
+  // Highest similarity of each candidate to the picked ones
+  const redundancy = relevance.map(() => -Infinity);
+
+  while (selected.length < k && remaining.size > 0) {
+    let best = -1;
+    let bestScore = -Infinity;
+    for (const index of remaining) {
+      const score = selected.length === 0
+        ? lambda * relevance[index]
+        : lambda * relevance[index] - (1 - lambda) * redundancy[index];
+      if (best === -1 || score > bestScore) {
+        best = index;
+        bestScore = score;
+      }
+    }
+
+    selected.push({ index: best, score: bestScore });
+    remaining.delete(best);
+    for (const index of remaining) {
+      redundancy[index] = Math.max(redundancy[index], similarity(index, best));
+    }
+  }
+
+  return selected;
+}
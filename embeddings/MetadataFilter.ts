@@ -0,0 +1,193 @@
+// MetadataFilter.ts
+
+/**
+ * Primitive values that can be compared in a metadata filter.
+ */
+export type MetadataValue = string | number | boolean | null;
+
+/**
+ * Operators that can be applied to a single metadata field.
+ */
+export interface MetadataFieldOperators {
+  $eq?: MetadataValue;
+  $ne?: MetadataValue;
+  $in?: MetadataValue[];
+  $nin?: MetadataValue[];
+  $gt?: number | string;
+  $gte?: number | string;
+  $lt?: number | string;
+  $lte?: number | string;
+  /** true: the field must be present, false: the field must be missing */
+  $exists?: boolean;
+}
+
+/**
+ * Filter applied to document metadata during search.
+ *
+ * Field keys can use dot notation to reach nested values (e.g. "author.name").
+ * A plain value means equality; an operator object applies every operator it
+ * contains. Multiple fields in one filter are combined with AND.
+ *
+ * @example
+ * { category: 'news', year: { $gte: 2020 }, $or: [{ lang: 'en' }, { lang: { $exists: false } }] }
+ */
+export interface MetadataFilter {
+  $and?: MetadataFilter[];
+  $or?: MetadataFilter[];
+  [field: string]: MetadataValue | MetadataFieldOperators | MetadataFilter[] | undefined;
+}
+
+const FIELD_OPERATORS = new Set([
+  '$eq', '$ne', '$in', '$nin', '$gt', '$gte', '$lt', '$lte', '$exists',
+]);
+
+/**
+ * Check whether document metadata satisfies a filter.
+ * @param metadata The document metadata (may be undefined).
+ * @param filter The filter to evaluate.
+ * @returns true if the metadata matches the filter.
+ */
+export function matchesFilter(
+  metadata: Record<string, any> | undefined,
+  filter: MetadataFilter
+): boolean {
+  for (const field of Object.keys(filter)) {
+    const condition = filter[field];
+    if (condition === undefined) continue;
+
+    if (field === '$and') {
+      if (!(condition as MetadataFilter[]).every(sub => matchesFilter(metadata, sub))) {
+        return false;
+      }
+      continue;
+    }
+
+    if (field === '$or') {
+      if (!(condition as MetadataFilter[]).some(sub => matchesFilter(metadata, sub))) {
+        return false;
+      }
+      continue;
+    }
+
+    if (field.startsWith('$')) {
+      throw new Error(`Unknown logical operator in metadata filter: ${field}`);
+    }
+
+    const { exists, value } = resolveField(metadata, field);
+    if (!matchesCondition(exists, value, condition as MetadataValue | MetadataFieldOperators)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Resolve a (possibly dotted) field path inside the metadata object.
+ */
+function resolveField(
+  metadata: Record<string, any> | undefined,
+  path: string
+): { exists: boolean; value: any } {
+  let current: any = metadata;
+  for (const part of path.split('.')) {
+    if (current === null || typeof current !== 'object' || !(part in current)) {
+      return { exists: false, value: undefined };
+    }
+    current = current[part];
+  }
+  return { exists: current !== undefined, value: current };
+}
+
+/**
+ * Evaluate a single field condition against a resolved value.
+ */
+function matchesCondition(
+  exists: boolean,
+  value: any,
+  condition: MetadataValue | MetadataFieldOperators
+): boolean {
+  if (!isOperatorObject(condition)) {
+    return exists && valueEquals(value, condition as MetadataValue);
+  }
+
+  for (const op of Object.keys(condition) as (keyof MetadataFieldOperators)[]) {
+    const operand = condition[op];
+    if (operand === undefined) continue;
+
+    switch (op) {
+      case '$eq':
+        if (!exists || !valueEquals(value, operand as MetadataValue)) return false;
+        break;
+      case '$ne':
+        if (exists && valueEquals(value, operand as MetadataValue)) return false;
+        break;
+      case '$in':
+        if (!exists || !(operand as MetadataValue[]).some(v => valueEquals(value, v))) return false;
+        break;
+      case '$nin':
+        if (exists && (operand as MetadataValue[]).some(v => valueEquals(value, v))) return false;
+        break;
+      case '$gt':
+        if (!exists || !compare(value, operand as number | string, (a, b) => a > b)) return false;
+        break;
+      case '$gte':
+        if (!exists || !compare(value, operand as number | string, (a, b) => a >= b)) return false;
+        break;
+      case '$lt':
+        if (!exists || !compare(value, operand as number | string, (a, b) => a < b)) return false;
+        break;
+      case '$lte':
+        if (!exists || !compare(value, operand as number | string, (a, b) => a <= b)) return false;
+        break;
+      case '$exists':
+        if (exists !== operand) return false;
+        break;
+    }
+  }
+
+  return true;
+}
+
+function isOperatorObject(condition: unknown): condition is MetadataFieldOperators {
+  if (condition === null || typeof condition !== 'object' || Array.isArray(condition)) {
+    return false;
+  }
+  const keys = Object.keys(condition);
+  if (keys.length === 0) {
+    return false;
+  }
+  for (const key of keys) {
+    if (!FIELD_OPERATORS.has(key)) {
+      throw new Error(`Unknown operator in metadata filter: ${key}`);
+    }
+  }
+  return true;
+}
+
+/**
+ * Equality that also matches when the stored value is an array containing the
+ * expected value (e.g. tags: ['a', 'b'] matches { tags: 'a' }).
+ */
+function valueEquals(value: any, expected: MetadataValue): boolean {
+  if (Array.isArray(value)) {
+    return value.some(item => item === expected);
+  }
+  return value === expected;
+}
+
+/**
+ * Range comparison. Only values of the same primitive type are comparable;
+ * Date values are compared as millisecond timestamps.
+ */
+function compare(
+  value: any,
+  operand: number | string,
+  predicate: (a: number | string, b: number | string) => boolean
+): boolean {
+  const comparable = value instanceof Date ? value.getTime() : value;
+  if (typeof comparable !== typeof operand) {
+    return false;
+  }
+  return predicate(comparable, operand);
+}
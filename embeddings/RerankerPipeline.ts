@@ -0,0 +1,189 @@
+import {
+  AutoTokenizer,
+  AutoModelForSequenceClassification,
+  PreTrainedTokenizer,
+  PreTrainedModel,
+  ProgressCallback,
+} from "@huggingface/transformers";
+import { WorkerManager, WorkerTaskType } from "../workers";
+import type { ModelDtype, RerankTaskPayload } from "../workers/worker-types";
+
+/**
+ * Interface for re-ranking engines.
+ * Implement this interface to use your own re-ranking model.
+ */
+export interface IReranker {
+  /**
+   * Score documents against a query. Unlike embedding similarity, the query
+   * and each document are read together, which ranks the best few candidates
+   * more accurately.
+   * @param query The search query.
+   * @param documents The document texts to score.
+   * @param signal Optional signal to cancel the scoring; the promise then
+   * rejects with the signal's reason.
+   * @returns One relevance score per document, in document order (higher is
+   * more relevant).
+   */
+  rerank(query: string, documents: string[], signal?: AbortSignal): Promise<number[]>;
+}
+
+export const DEFAULT_RERANKER_MODEL = "Xenova/ms-marco-MiniLM-L-6-v2";
+
+/**
+ * Model options of the default re-ranker
+ */
+export interface RerankerModelConfig {
+  /** HuggingFace cross-encoder model id. Default: 'Xenova/ms-marco-MiniLM-L-6-v2' */
+  model?: string;
+  /** Weight precision or quantized variant, e.g. 'q8'. Default: the model's default */
+  dtype?: ModelDtype;
+}
+
+/**
+ * This class uses the singleton pattern to ensure that only one tokenizer
+ * and model are ever loaded per model and dtype (for main thread fallback).
+ */
+class RerankerPipeline {
+  static instances = new Map<string, { tokenizer: PreTrainedTokenizer; model: PreTrainedModel }>();
+
+  /**
+   * Get the singleton tokenizer and model of a cross-encoder.
+   * @param model The model id.
+   * @param dtype Optional weight precision or quantized variant.
+   * @param progress_callback A function to track model loading progress.
+   */
+  static async getInstance(
+    model: string,
+    dtype?: ModelDtype,
+    progress_callback?: ProgressCallback
+  ): Promise<{ tokenizer: PreTrainedTokenizer; model: PreTrainedModel }> {
+    const key = dtype ? `${model}:${dtype}` : model;
+    if (!this.instances.has(key)) {
+      const [tokenizer, classifier] = await Promise.all([
+        AutoTokenizer.from_pretrained(model, { progress_callback }),
+        AutoModelForSequenceClassification.from_pretrained(model, { dtype, progress_callback }),
+      ]);
+      this.instances.set(key, { tokenizer, model: classifier });
+    }
+    return this.instances.get(key)!;
+  }
+}
+
+/**
+ * Default re-ranker using a HuggingFace transformers cross-encoder.
+ * Uses Xenova/ms-marco-MiniLM-L-6-v2 unless another model is configured;
+ * scores are the sigmoid of the model's relevance logit (0-1).
+ * Supports running in worker or main thread (with fallback).
+ */
+export class DefaultReranker implements IReranker {
+  readonly modelId: string;
+  private dtype?: ModelDtype;
+  private modelLoadCallback?: ProgressCallback;
+  private useWorker: boolean;
+  private workerManager?: WorkerManager;
+
+  constructor(
+    modelLoadCallback?: ProgressCallback,
+    useWorker: boolean = true,
+    modelConfig: RerankerModelConfig = {}
+  ) {
+    this.modelId = modelConfig.model ?? DEFAULT_RERANKER_MODEL;
+    this.dtype = modelConfig.dtype;
+    this.modelLoadCallback = modelLoadCallback;
+    this.useWorker = useWorker;
+
+    if (useWorker) {
+      try {
+        this.workerManager = WorkerManager.getInstance();
+      } catch (error) {
+        console.warn('Failed to initialize worker manager, falling back to main thread:', error);
+        this.useWorker = false;
+      }
+    }
+  }
+
+  /**
+   * Score documents against a query.
+   * @param query The search query.
+   * @param documents The document texts to score.
+   * @param signal Optional signal to cancel the scoring.
+   * @returns One score (0-1) per document, in document order.
+   */
+  async rerank(query: string, documents: string[], signal?: AbortSignal): Promise<number[]> {
+    signal?.throwIfAborted();
+    if (documents.length === 0) {
+      return [];
+    }
+
+    // Try worker mode first if enabled
+    if (this.useWorker && this.workerManager?.isAvailable()) {
+      try {
+        return await this.rerankInWorker(query, documents, signal);
+      } catch (error) {
+        signal?.throwIfAborted();
+        if (this.workerManager.isAvailable()) {
+          console.warn('Worker re-ranking failed, falling back to main thread:', error);
+        }
+        // Fall through to main thread fallback
+      }
+    }
+
+    // Fallback to main thread
+    return await this.rerankInMainThread(query, documents, signal);
+  }
+
+  /**
+   * Re-rank using worker (non-blocking). Runs as an interactive task, since
+   * a search is waiting for it.
+   */
+  private async rerankInWorker(
+    query: string,
+    documents: string[],
+    signal?: AbortSignal
+  ): Promise<number[]> {
+    if (!this.workerManager) {
+      throw new Error('Worker manager not available');
+    }
+
+    const payload: RerankTaskPayload = {
+      query,
+      documents,
+      model: this.modelId,
+      dtype: this.dtype,
+    };
+
+    return await this.workerManager.execute<number[]>(
+      {
+        task: WorkerTaskType.RERANK,
+        payload,
+      },
+      undefined,
+      signal
+    );
+  }
+
+  /**
+   * Re-rank in main thread (fallback). All pairs go through the model as one
+   * padded batch.
+   */
+  private async rerankInMainThread(
+    query: string,
+    documents: string[],
+    signal?: AbortSignal
+  ): Promise<number[]> {
+    const { tokenizer, model } = await RerankerPipeline.getInstance(
+      this.modelId,
+      this.dtype,
+      this.modelLoadCallback
+    );
+    signal?.throwIfAborted();
+
+    const inputs = tokenizer(new Array(documents.length).fill(query), {
+      text_pair: documents,
+      padding: true,
+      truncation: true,
+    });
+    const { logits } = await model(inputs);
+    return (logits.sigmoid().tolist() as number[][]).map(row => row[0]);
+  }
+}
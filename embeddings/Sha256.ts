@@ -0,0 +1,20 @@
+// Sha256.ts
+
+/**
+ * SHA-256 of some bytes, as hex. Uses Web Crypto where it is global
+ * (browsers, Node 19+) and falls back to node:crypto on Node 18.
+ * @param data The bytes to hash.
+ */
+export async function sha256Hex(data: BufferSource): Promise<string> {
+  const subtle = globalThis.crypto?.subtle;
+  if (subtle) {
+    const digest = await subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  const { createHash } = await import('crypto');
+  const bytes = ArrayBuffer.isView(data)
+    ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+    : new Uint8Array(data);
+  return createHash('sha256').update(bytes).digest('hex');
+}
@@ -0,0 +1,240 @@
+// Snapshot.ts
+import type { BuiltInDistanceFunction, MememoIndexJSON, QuantizationConfig } from "../mememo/src/mememo";
+import type { IDocument, ISource, ISummary } from "./ContentStore";
+
+/** Format identifier written in the snapshot header */
+export const SNAPSHOT_FORMAT = "flux-vector-snapshot";
+
+/**
+ * Current snapshot format version. Version 2 added source records; version 1
+ * snapshots are still accepted.
+ */
+export const SNAPSHOT_VERSION = 2;
+
+/**
+ * Index settings needed to rebuild an equivalent HNSW index.
+ */
+export interface ISnapshotConfig {
+  collection: string;
+  distanceFunction: BuiltInDistanceFunction | 'custom';
+  m: number;
+  efConstruction: number;
+  seed: number;
+  quantization: QuantizationConfig | null;
+}
+
+/**
+ * One line of a snapshot. A snapshot is a JSON-lines file: a header, the
+ * serialized graph, then one record per node, document, summary and source,
+ * and a footer with record counts used to detect truncated files.
+ *
+ * Vectors are base64-encoded little-endian float32 values.
+ */
+export type SnapshotRecord =
+  | {
+      type: 'header';
+      format: typeof SNAPSHOT_FORMAT;
+      version: number;
+      createdAt: number;
+      config: ISnapshotConfig;
+    }
+  | { type: 'graph'; index: MememoIndexJSON }
+  | { type: 'node'; key: string; vector: string; isDeleted: boolean }
+  | { type: 'document'; document: IDocument }
+  | {
+      type: 'summary';
+      summary: Omit<ISummary, 'summaryEmbedding'> & { summaryEmbedding: string };
+    }
+  | { type: 'source'; source: ISource }
+  | { type: 'footer'; nodes: number; documents: number; summaries: number; sources?: number };
+
+/**
+ * Parsed content of a snapshot.
+ */
+export interface ISnapshotContent {
+  config: ISnapshotConfig;
+  createdAt: number;
+  index: MememoIndexJSON;
+  nodes: Array<{ key: string; vector: Float32Array; isDeleted: boolean }>;
+  documents: IDocument[];
+  summaries: ISummary[];
+  sources: ISource[];
+}
+
+/**
+ * Serialize snapshot content to JSON lines.
+ * @param content The content to serialize.
+ */
+export function serializeSnapshot(content: ISnapshotContent): string {
+  const records: SnapshotRecord[] = [
+    {
+      type: 'header',
+      format: SNAPSHOT_FORMAT,
+      version: SNAPSHOT_VERSION,
+      createdAt: content.createdAt,
+      config: content.config,
+    },
+    { type: 'graph', index: content.index },
+  ];
+
+  for (const node of content.nodes) {
+    records.push({
+      type: 'node',
+      key: node.key,
+      vector: encodeVector(node.vector),
+      isDeleted: node.isDeleted,
+    });
+  }
+  for (const document of content.documents) {
+    records.push({ type: 'document', document });
+  }
+  for (const summary of content.summaries) {
+    records.push({
+      type: 'summary',
+      summary: { ...summary, summaryEmbedding: encodeVector(summary.summaryEmbedding) },
+    });
+  }
+  for (const source of content.sources) {
+    records.push({ type: 'source', source });
+  }
+
+  records.push({
+    type: 'footer',
+    nodes: content.nodes.length,
+    documents: content.documents.length,
+    summaries: content.summaries.length,
+    sources: content.sources.length,
+  });
+
+  return records.map((record) => JSON.stringify(record)).join("\n") + "\n";
+}
+
+/**
+ * Parse and validate a JSON-lines snapshot.
+ * @param snapshot The snapshot text.
+ */
+export function parseSnapshot(snapshot: string): ISnapshotContent {
+  const lines = snapshot.split("\n").filter((line) => line.trim().length > 0);
+  if (lines.length === 0) {
+    throw new Error("Snapshot is empty");
+  }
+
+  let header: Extract<SnapshotRecord, { type: 'header' }> | undefined;
+  let footer: Extract<SnapshotRecord, { type: 'footer' }> | undefined;
+  let index: MememoIndexJSON | undefined;
+  const nodes: ISnapshotContent['nodes'] = [];
+  const documents: IDocument[] = [];
+  const summaries: ISummary[] = [];
+  const sources: ISource[] = [];
+
+  for (const [lineNumber, line] of lines.entries()) {
+    let record: SnapshotRecord;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      throw new Error(`Invalid snapshot record on line ${lineNumber + 1}`);
+    }
+
+    if (lineNumber === 0) {
+      if (record.type !== 'header' || record.format !== SNAPSHOT_FORMAT) {
+        throw new Error("Not a flux-vector snapshot");
+      }
+      if (record.version > SNAPSHOT_VERSION) {
+        throw new Error(`Unsupported snapshot version ${record.version}`);
+      }
+      header = record;
+      continue;
+    }
+
+    if (footer !== undefined) {
+      throw new Error("Snapshot has records after the footer");
+    }
+
+    switch (record.type) {
+      case 'graph':
+        index = record.index;
+        break;
+      case 'node':
+        nodes.push({
+          key: record.key,
+          vector: decodeVector(record.vector),
+          isDeleted: record.isDeleted,
+        });
+        break;
+      case 'document':
+        documents.push(record.document);
+        break;
+      case 'summary':
+        summaries.push({
+          ...record.summary,
+          summaryEmbedding: decodeVector(record.summary.summaryEmbedding),
+        });
+        break;
+      case 'source':
+        sources.push(record.source);
+        break;
+      case 'footer':
+        footer = record;
+        break;
+      default:
+        throw new Error(`Unknown snapshot record type on line ${lineNumber + 1}`);
+    }
+  }
+
+  if (
+    footer === undefined ||
+    footer.nodes !== nodes.length ||
+    footer.documents !== documents.length ||
+    footer.summaries !== summaries.length ||
+    (footer.sources ?? 0) !== sources.length
+  ) {
+    throw new Error("Snapshot is incomplete");
+  }
+  if (index === undefined) {
+    throw new Error("Snapshot has no graph");
+  }
+
+  return {
+    config: header!.config,
+    createdAt: header!.createdAt,
+    index,
+    nodes,
+    documents,
+    summaries,
+    sources,
+  };
+}
+
+/**
+ * Encode a vector as base64 little-endian float32.
+ */
+function encodeVector(vector: ArrayLike<number>): string {
+  const view = new DataView(new ArrayBuffer(vector.length * 4));
+  for (let i = 0; i < vector.length; i++) {
+    view.setFloat32(i * 4, vector[i], true);
+  }
+
+  const bytes = new Uint8Array(view.buffer);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decode a vector written by encodeVector().
+ */
+function decodeVector(encoded: string): Float32Array {
+  const binary = atob(encoded);
+  const view = new DataView(new ArrayBuffer(binary.length));
+  for (let i = 0; i < binary.length; i++) {
+    view.setUint8(i, binary.charCodeAt(i));
+  }
+
+  const vector = new Float32Array(binary.length / 4);
+  for (let i = 0; i < vector.length; i++) {
+    vector[i] = view.getFloat32(i * 4, true);
+  }
+  return vector;
+}
@@ -26,12 +26,15 @@ export interface ISummarizationEngine {
    * @param text The text to summarize.
    * @param options Optional summarization options.
    * @param progressCallback Optional callback for tracking summarization progress.
+   * @param signal Optional signal to cancel the summarization; the promise
+   * then rejects with the signal's reason.
    * @returns The summary text.
    */
   summarize(
     text: string,
     options?: SummarizationOptions,
-    progressCallback?: (progress: number) => void
+    progressCallback?: (progress: number) => void,
+    signal?: AbortSignal
   ): Promise<string>;
 }
 
@@ -94,25 +97,32 @@ export class DefaultSummarizationEngine implements ISummarizationEngine {
    * @param text The text to summarize.
    * @param options Optional summarization options.
    * @param progressCallback Optional callback for tracking summarization progress.
+   * @param signal Optional signal to cancel the summarization.
    * @returns The summary text.
    */
   async summarize(
     text: string,
     options?: SummarizationOptions,
-    progressCallback?: (progress: number) => void
+    progressCallback?: (progress: number) => void,
+    signal?: AbortSignal
   ): Promise<string> {
+    signal?.throwIfAborted();
+
     // Try worker mode first if enabled
     if (this.useWorker && this.workerManager?.isAvailable()) {
       try {
-        return await this.summarizeInWorker(text, options, progressCallback);
+        return await this.summarizeInWorker(text, options, progressCallback, signal);
       } catch (error) {
-        console.warn('Worker summarization failed, falling back to main thread:', error);
+        signal?.throwIfAborted();
+        if (this.workerManager.isAvailable()) {
+          console.warn('Worker summarization failed, falling back to main thread:', error);
+        }
         // Fall through to main thread fallback
       }
     }
 
     // Fallback to main thread
-    return await this.summarizeInMainThread(text, options, progressCallback);
+    return await this.summarizeInMainThread(text, options, progressCallback, signal);
   }
 
   /**
@@ -121,7 +131,8 @@ export class DefaultSummarizationEngine implements ISummarizationEngine {
   private async summarizeInWorker(
     text: string,
     options?: SummarizationOptions,
-    progressCallback?: (progress: number) => void
+    progressCallback?: (progress: number) => void,
+    signal?: AbortSignal
   ): Promise<string> {
     if (!this.workerManager) {
       throw new Error('Worker manager not available');
@@ -140,7 +151,9 @@ export class DefaultSummarizationEngine implements ISummarizationEngine {
         task: WorkerTaskType.SUMMARIZE,
         payload,
       },
-      progressCallback
+      progressCallback,
+      signal,
+      'background'
     );
   }
 
@@ -150,12 +163,14 @@ export class DefaultSummarizationEngine implements ISummarizationEngine {
   private async summarizeInMainThread(
     text: string,
     options?: SummarizationOptions,
-    progressCallback?: (progress: number) => void
+    progressCallback?: (progress: number) => void,
+    signal?: AbortSignal
   ): Promise<string> {
     progressCallback?.(0.1);
 
     // Get the model instance (this may trigger model loading on first call)
     const model = await SummarizationPipeline.getInstance(this.modelLoadCallback);
+    signal?.throwIfAborted();
     progressCallback?.(0.4);
 
     // Generate summary
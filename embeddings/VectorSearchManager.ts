@@ -1,8 +1,44 @@
 // VectorSearchManager.ts
-import { Mememo } from "../mememo/src/mememo";
+import {
+  BuiltInDistanceFunction,
+  EmbeddingVector,
+  Mememo,
+  QuantizationConfig,
+  QueryFilter,
+  StorageBackend,
+  discardIndexGeneration,
+  distanceToSimilarity,
+  getIndexGeneration,
+  indexGenerationName,
+  openIndexStorage,
+  setIndexGeneration,
+  similarityToDistance,
+} from "../mememo/src/mememo";
 import { IEmbeddingEngine, DefaultEmbeddingEngine } from "./EmbeddingPipeline";
 import { ISummarizationEngine, DefaultSummarizationEngine, SummarizationOptions } from "./SummarizationPipeline";
-import { ContentStore, IDocument, ISummary } from "./ContentStore";
+import { IReranker, DefaultReranker } from "./RerankerPipeline";
+import { ContentStore, IDocument, ISource, ISummary } from "./ContentStore";
+import { MetadataFilter } from "./MetadataFilter";
+import { BM25Parameters } from "./BM25";
+import { RankedItem, reciprocalRankFusion, weightedScoreFusion } from "./Fusion";
+import { maximalMarginalRelevance } from "./MMR";
+import { ContextAssemblyOptions, ContextCandidate, IContext, assembleContext } from "./ContextBuilder";
+import { sha256Hex } from "./Sha256";
+import {
+  DEFAULT_COLLECTION,
+  ICollectionInfo,
+  contentDatabaseName,
+  createCollection,
+  dropCollection,
+  indexDatabaseName,
+  listCollections,
+  reembedDatabaseName,
+  registerCollection,
+  renameCollection,
+} from "./Collections";
+import { parseSnapshot, serializeSnapshot } from "./Snapshot";
+import { DocumentProcessor } from "../document-processing/DocumentProcessor";
+import { ChunkingConfig } from "../document-processing/TextChunker";
 import { v4 as uuidv4 } from "uuid";
 
 /**
@@ -11,23 +47,339 @@ import { v4 as uuidv4 } from "uuid";
 export interface ISearchResult {
   key: string;
   text: string;
+  /** Distance to the query; Infinity for hybrid hits without a stored embedding */
   distance: number;
+  /** Similarity to the query; 0 for hybrid hits without a stored embedding */
   similarity: number;
   metadata?: Record<string, any>;
+  /**
+   * Fused relevance score (hybrid search), MMR score (MMR search) or
+   * re-ranker score (with rerank), higher is better
+   */
+  score?: number;
+  /** Full-precision embedding (with includeVectors) */
+  vector?: Float32Array;
+  /** Summary text of the document, if it has one (with includeSummaries) */
+  summary?: string;
+}
+
+/**
+ * Options for the HNSW traversal and the returned page of results.
+ */
+export interface QueryOptions {
+  /**
+   * Size of the candidate list during the HNSW traversal. Higher values
+   * improve recall at the cost of latency. Default: the index's efConstruction
+   */
+  ef?: number;
+  /** Only return results with at least this similarity */
+  minSimilarity?: number;
+  /** Only return results within this distance */
+  maxDistance?: number;
+  /** Number of results to skip, for pagination. Default: 0 */
+  offset?: number;
+  /**
+   * Scan every node instead of traversing the graph. Exact but slow on large
+   * indexes; ef is ignored. Default: false
+   */
+  exact?: boolean;
+}
+
+/**
+ * Re-ranking of the best candidates with the manager's re-ranker.
+ */
+export interface RerankOptions {
+  /**
+   * Number of candidates scored by the re-ranker; the best k of them (after
+   * offset) are returned. Default: max(4 * (offset + k), 20)
+   */
+  topN?: number;
+}
+
+/**
+ * Options for a single search call.
+ */
+export interface SearchOptions extends QueryOptions {
+  /**
+   * Only return documents whose metadata matches this filter. The filter is
+   * applied during the HNSW traversal, so up to k matching documents are
+   * returned even when few documents pass it.
+   */
+  filter?: MetadataFilter;
+  /** Add the full-precision embedding of each result. Default: false */
+  includeVectors?: boolean;
+  /** Add the summary text of each result. Default: false */
+  includeSummaries?: boolean;
+  /**
+   * Re-score the best candidates against the query text with a cross-encoder
+   * (see VectorSearchConfig.reranker) and return them in its order, with
+   * its score in `score`. Slower, but more accurate at the top.
+   * Default: no re-ranking
+   */
+  rerank?: RerankOptions;
+}
+
+/**
+ * Options for hybrid (BM25 + vector) search.
+ */
+export interface HybridSearchOptions extends SearchOptions {
+  /**
+   * How the lexical and vector result lists are merged.
+   * 'rrf': reciprocal rank fusion, 'weighted': min-max normalized score fusion.
+   * Default: 'rrf'
+   */
+  fusion?: 'rrf' | 'weighted';
+  /** Weight of the vector results (0-1); lexical results get 1 - vectorWeight. Default: 0.5 */
+  vectorWeight?: number;
+  /** Rank smoothing constant for reciprocal rank fusion. Default: 60 */
+  rrfK?: number;
+  /** Number of candidates taken from each list before fusion. Default: max(4 * (offset + k), 20) */
+  candidates?: number;
+  /** BM25 parameters for the lexical ranking */
+  bm25?: BM25Parameters;
+}
+
+/**
+ * Options for maximal marginal relevance (MMR) search.
+ */
+export interface MMRSearchOptions extends Omit<SearchOptions, 'rerank'> {
+  /** Number of HNSW candidates to re-rank. Default: max(4 * (offset + k), 20) */
+  fetchK?: number;
+  /**
+   * Trade-off between relevance to the query (1) and diversity of the
+   * results (0). Default: 0.5
+   */
+  lambda?: number;
+}
+
+/**
+ * Options for searchSources().
+ */
+export interface SourceSearchOptions extends Omit<SearchOptions, 'rerank'> {
+  /**
+   * 'window' returns each hit with its neighboring chunks, 'parent' returns
+   * the whole source of each hit, once per source. Default: 'window'
+   */
+  expand?: 'window' | 'parent';
+  /** Chunks taken on each side of the hit in 'window' mode. Default: 1 */
+  window?: number;
+}
+
+/**
+ * A search hit with the chunks around it.
+ */
+export interface ISourceSearchResult extends ISearchResult {
+  /** Source of the hit, if it was added with addSource() */
+  source?: ISource;
+  /** The hit and its neighboring chunks (or all chunks of the source), in chunk order */
+  chunks: IDocument[];
+  /** Text of the chunks, separated by blank lines */
+  contextText: string;
+}
+
+/**
+ * Options for buildContext(): the search for candidate chunks and how they
+ * are packed into the token budget.
+ */
+export interface ContextOptions
+  extends Omit<SearchOptions, 'offset' | 'includeVectors' | 'includeSummaries'>,
+    ContextAssemblyOptions {
+  /** Number of chunks searched for; the best ones that fit are used. Default: 20 */
+  candidates?: number;
 }
 
 /**
  * Interface for a summary search result.
  */
 export interface ISummarySearchResult {
-  documentId: string;
+  documentId: string; // Source ID for the summary of an ingested file
   summaryText: string;
   distance: number;
   similarity: number;
   document?: IDocument; // Full document if requested
+  sourceId?: string; // Set for the summary of an ingested file
+  source?: ISource; // The summarized source, see sourceId
+  metadata?: Record<string, any>;
+}
+
+/**
+ * A document passed to addDocuments().
+ */
+export interface BatchDocument {
+  text: string;
+  /** Document ID. If not provided, a UUID will be generated. */
+  id?: string;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Progress reported by addDocuments() after each stored document.
+ */
+export interface BatchProgress {
+  /** ID of the document that was just stored */
+  documentId: string;
+  /** Number of documents stored so far */
+  completed: number;
+  /** Total number of documents in the call */
+  total: number;
+  /** Overall progress of the call (0-1) */
+  progress: number;
+}
+
+/**
+ * A chunk passed to addSource(), e.g. a ProcessedChunk from DocumentProcessor.
+ */
+export interface SourceChunk {
+  text: string;
+  /** Position of the chunk in the source. Default: its position in the array */
+  index?: number;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Details of a source passed to addSource().
+ */
+export interface SourceInfo {
+  /** Source ID. If not provided, a UUID will be generated. */
+  id?: string;
+  filename?: string;
+  mimeType?: string;
+  /** Content hash of the original file */
+  hash?: string;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Stages of file ingestion, in order.
+ */
+export type IngestStage = 'extracting' | 'chunking' | 'embedding' | 'summarizing' | 'storing' | 'done';
+
+/**
+ * Progress reported by ingestFile() and ingestFiles().
+ */
+export interface IngestProgress {
+  stage: IngestStage;
+  /** Name of the file being ingested, if known */
+  filename?: string;
+  /** Position of the file in the call (0-based) */
+  fileIndex: number;
+  /** Number of files in the call */
+  fileCount: number;
+  /** Progress of the current stage (0-1) */
+  stageProgress: number;
+  /** Overall progress of the call (0-1) */
+  progress: number;
+}
+
+/**
+ * Options for ingestFile().
+ */
+export interface IngestOptions {
+  filename?: string;
+  /** Source ID. If not provided, a UUID will be generated. */
+  sourceId?: string;
+  /** Metadata stored on the source and on each of its chunks */
+  metadata?: Record<string, any>;
+  /**
+   * Chunking strategy of the document processor. 'token' measures chunkSize
+   * and chunkOverlap in tokens of the embedding model (see TokenTextSplitter).
+   * Default: its default strategy
+   */
+  chunkingStrategy?: string;
+  chunkingConfig?: ChunkingConfig;
+  /** Store the whole text as a single chunk */
+  skipChunking?: boolean;
+  /** Number of chunks sent to the embedding model at once. Default: 32 */
+  batchSize?: number;
+  /** Override config default; the whole text is summarized into a summary of the source */
+  generateSummary?: boolean;
+  /** Called when a stage starts and after each embedding batch */
+  onProgress?: (progress: IngestProgress) => void;
+  /** Cancels the ingestion. Nothing is stored when it is aborted before the storing stage. */
+  signal?: AbortSignal;
+}
+
+/**
+ * A file passed to ingestFiles().
+ */
+export interface IngestFile {
+  file: File | Buffer | ArrayBuffer;
+  mimeType: string;
+  filename?: string;
+  sourceId?: string;
   metadata?: Record<string, any>;
 }
 
+/**
+ * Result of ingesting one file.
+ */
+export interface IngestResult {
+  sourceId: string;
+  /** Chunk document IDs, in chunk order */
+  documentIds: string[];
+  /** Set when a summary was generated */
+  summaryId?: string;
+}
+
+/**
+ * Options for batch ingestion.
+ */
+export interface BatchAddOptions {
+  /** Number of texts sent to the embedding model at once. Default: 32 */
+  batchSize?: number;
+  /** Number of embedding batches in flight at the same time. Default: 2 */
+  concurrency?: number;
+  /** Called after each document has been stored and indexed */
+  onProgress?: (progress: BatchProgress) => void;
+  /** Override config default; summaries are generated in the background */
+  generateSummary?: boolean;
+  /**
+   * Cancels the call: pending embedding batches are dropped and the call
+   * rejects. Batches stored before the abort are kept.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Progress reported by reembedAll() after each embedding batch.
+ */
+export interface ReembedProgress {
+  /** Number of index entries embedded with the new engine so far */
+  completed: number;
+  /** Number of index entries to embed */
+  total: number;
+  /** Overall progress of the call (0-1) */
+  progress: number;
+}
+
+/**
+ * Options for reembedAll().
+ */
+export interface ReembedOptions {
+  /** Number of texts sent to the new embedding model at once. Default: 32 */
+  batchSize?: number;
+  /** Called after each embedding batch */
+  onProgress?: (progress: ReembedProgress) => void;
+  /**
+   * Stops the re-embedding at the next batch and rejects the call. The
+   * batches embedded so far are kept for the next reembedAll() call.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Background compaction options.
+ */
+export interface CompactionConfig {
+  /**
+   * Start compacting once soft-deleted nodes make up more than this fraction
+   * (0-1) of the index
+   */
+  deletedRatio: number;
+  /** Nodes removed from the graph per step. Default: 100 */
+  batchSize?: number;
+}
+
 /**
  * Configuration options for VectorSearchManager.
  */
@@ -36,21 +388,65 @@ export interface VectorSearchConfig {
    * Custom embedding engine. If not provided, uses the default HuggingFace model.
    */
   embeddingEngine?: IEmbeddingEngine;
+
+  /**
+   * Name of the collection (namespace) to use. Documents, summaries, graph
+   * metadata and node embeddings are isolated per collection.
+   * Default: 'default' (the original, un-namespaced databases)
+   */
+  collection?: string;
+
+  /**
+   * Storage backend for documents, summaries and the index, e.g.
+   * FileSystemStorage to persist on disk in Node. Collections are stored as
+   * separate databases of the backend and are not listed in the IndexedDB
+   * collection registry.
+   * Default: IndexedDB (when indexConfig.useIndexedDB is true)
+   */
+  storage?: StorageBackend;
   
   /**
    * HNSW index configuration.
    */
   indexConfig?: {
-    /** Distance function type. Default: 'cosine-normalized' */
-    distanceFunction?: 'cosine' | 'cosine-normalized';
+    /**
+     * Distance function type: 'cosine', 'cosine-normalized' (unit-length
+     * vectors), 'l2' (Euclidean), 'inner-product' or 'l1' (Manhattan).
+     * Default: 'cosine-normalized'
+     */
+    distanceFunction?: BuiltInDistanceFunction;
     /** Number of bi-directional links per node. Default: 16 */
     m?: number;
     /** Size of dynamic candidate list during construction. Default: 200 */
     efConstruction?: number;
     /** Whether to use IndexedDB for persistence. Default: true */
     useIndexedDB?: boolean;
+    /**
+     * Store compressed vectors for graph traversal: 'int8' scalar or 'pq'
+     * product quantization, with an optional full-precision re-rank.
+     * Default: no quantization
+     */
+    quantization?: QuantizationConfig;
+    /**
+     * Remove soft-deleted nodes from the graph in the background once they
+     * make up enough of the index, see CompactionConfig.
+     * Default: disabled (use compactIndex())
+     */
+    compaction?: CompactionConfig;
   };
 
+  /**
+   * Document processor used by ingestFile() to extract and chunk files.
+   * Default: a DocumentProcessor with the default extractors and chunkers
+   */
+  documentProcessor?: DocumentProcessor;
+
+  /**
+   * Re-ranker used by searches with the rerank option.
+   * Default: a DefaultReranker (cross-encoder), created on first use
+   */
+  reranker?: IReranker;
+
   /**
    * Summarization configuration
    */
@@ -79,15 +475,80 @@ export const DEFAULT_CONFIG: Omit<VectorSearchConfig, 'embeddingEngine'> & { emb
   }
 };
 
+/** Id of the re-embedding record in the index metadata table */
+const REEMBED_STATE_ID = 'reembed';
+
+/**
+ * Persisted state of a running or interrupted reembedAll() call.
+ */
+interface ReembedState {
+  id: string;
+  /** Keys whose text changed since the shadow index started */
+  changedKeys: string[];
+}
+
+/**
+ * Vectors of some texts, the engine that embedded them and how to embed the
+ * same texts with another engine.
+ */
+interface Embeddings {
+  engine: IEmbeddingEngine;
+  vectors: EmbeddingVector[];
+  embed: (engine: IEmbeddingEngine) => Promise<EmbeddingVector[]>;
+}
+
+/** Share of a file's ingestion taken by each stage, in stage order */
+const INGEST_STAGE_WEIGHTS: Array<[IngestStage, number]> = [
+  ['extracting', 0.2],
+  ['chunking', 0.05],
+  ['embedding', 0.6],
+  ['summarizing', 0.1],
+  ['storing', 0.05],
+];
+
+/**
+ * SHA-256 of a file's bytes, as hex.
+ */
+async function contentHash(file: File | Buffer | ArrayBuffer): Promise<string> {
+  const data = typeof (file as File).arrayBuffer === 'function'
+    ? await (file as File).arrayBuffer()
+    : new Uint8Array(file as ArrayBuffer | Buffer);
+  return await sha256Hex(data);
+}
+
 class VectorSearchManager {
+  public readonly collection: string;
+  public readonly storage?: StorageBackend;
   public contentStore: ContentStore;
   public index: Mememo;
+  public readonly documentProcessor: DocumentProcessor;
   private embeddingEngine: IEmbeddingEngine;
+  private reranker?: IReranker;
   private summarizationEngine?: ISummarizationEngine;
   private summarizationEnabled: boolean;
   private summarizationOptions?: SummarizationOptions;
   private embedSummary: boolean;
   private initPromise: Promise<void>;
+  private compaction?: Required<CompactionConfig>;
+  /** Running background compaction, if any */
+  private compactionRun: Promise<void> | null = null;
+  /** Running compaction step, which other index operations wait for */
+  private compactionStep: Promise<void> | null = null;
+  /** Number of index operations in progress */
+  private indexOperations = 0;
+  private onIndexIdle: (() => void) | null = null;
+  /** Running reembedAll() call, if any */
+  private reembedRun: Promise<void> | null = null;
+  /**
+   * Keys to embed again in the shadow index of a running or interrupted
+   * reembedAll() call, null if there is none
+   */
+  private reembedChanges: Set<string> | null = null;
+  /**
+   * Model of the 'token' chunker this manager registered for ingestion, null
+   * if it did not register one
+   */
+  private tokenChunkerModel: string | undefined | null = null;
 
   constructor(config?: VectorSearchConfig) {
     // Merge user config with defaults
@@ -105,8 +566,12 @@ class VectorSearchManager {
       },
     };
 
-    this.contentStore = new ContentStore();
+    this.collection = config?.collection ?? DEFAULT_COLLECTION;
+    this.storage = config?.storage;
+    this.contentStore = new ContentStore(contentDatabaseName(this.collection), this.storage);
     this.embeddingEngine = finalConfig.embeddingEngine!;
+    this.reranker = config?.reranker;
+    this.documentProcessor = config?.documentProcessor ?? new DocumentProcessor();
     
     // Setup summarization
     this.summarizationEnabled = finalConfig.summarization.enabled;
@@ -116,12 +581,28 @@ class VectorSearchManager {
       this.summarizationEngine = finalConfig.summarization.engine || new DefaultSummarizationEngine();
     }
 
+    const compaction = finalConfig.indexConfig.compaction;
+    if (compaction) {
+      const batchSize = compaction.batchSize ?? 100;
+      if (!(compaction.deletedRatio >= 0 && compaction.deletedRatio < 1)) {
+        throw new Error(`compaction.deletedRatio must be between 0 and 1, got ${compaction.deletedRatio}`);
+      }
+      if (!Number.isInteger(batchSize) || batchSize < 1) {
+        throw new Error(`compaction.batchSize must be a positive integer, got ${batchSize}`);
+      }
+      this.compaction = { deletedRatio: compaction.deletedRatio, batchSize };
+    }
+
     // Initialize Mememo (HNSW)
     this.index = new Mememo({
       distanceFunction: finalConfig.indexConfig.distanceFunction,
       m: finalConfig.indexConfig.m,
       efConstruction: finalConfig.indexConfig.efConstruction,
       useIndexedDB: finalConfig.indexConfig.useIndexedDB,
+      dbName: indexDatabaseName(this.collection),
+      storage: this.storage,
+      quantization: finalConfig.indexConfig.quantization,
+      embeddingModel: this.embeddingEngine.modelId,
     });
 
     // Logging removed for cleaner test output
@@ -131,6 +612,38 @@ class VectorSearchManager {
     this.initPromise = this._initialize();
   }
 
+  /**
+   * List all known collections.
+   */
+  static async listCollections(): Promise<ICollectionInfo[]> {
+    return await listCollections();
+  }
+
+  /**
+   * Create a new, empty collection.
+   * @param name The collection name.
+   */
+  static async createCollection(name: string): Promise<void> {
+    await createCollection(name);
+  }
+
+  /**
+   * Permanently delete a collection and all of its data.
+   * @param name The collection name.
+   */
+  static async dropCollection(name: string): Promise<void> {
+    await dropCollection(name);
+  }
+
+  /**
+   * Rename a collection. Managers using the old name must be re-created.
+   * @param from The current collection name.
+   * @param to The new collection name.
+   */
+  static async renameCollection(from: string, to: string): Promise<void> {
+    await renameCollection(from, to);
+  }
+
   /**
    * Wait for the index to be fully initialized (loads persisted data if available).
    * Call this before performing any operations if you want to ensure data is loaded.
@@ -143,12 +656,27 @@ class VectorSearchManager {
    * Internal initialization - loads persisted index if available.
    */
   private async _initialize(): Promise<void> {
+    // The registry lives in IndexedDB, so only IndexedDB collections are listed
+    if (!this.storage) {
+      try {
+        await registerCollection(this.collection);
+      } catch (error) {
+        console.warn(`Failed to register collection ${this.collection}:`, error);
+      }
+    }
+
     if (this.index.useIndexedDB) {
       const persistedIndex = await this.index.loadPersistedIndex();
       if (persistedIndex) {
         this.index.loadIndex(persistedIndex);
         console.log('Loaded persisted index from IndexedDB');
       }
+
+      // Keep tracking changes for an interrupted reembedAll() call
+      const reembedState = await this._reembedStateTable().get(REEMBED_STATE_ID);
+      if (reembedState) {
+        this.reembedChanges = new Set(reembedState.changedKeys);
+      }
     }
   }
 
@@ -159,7 +687,9 @@ class VectorSearchManager {
    * @param id The document ID (unique identifier). If not provided, a UUID will be generated.
    * @param metadata Optional metadata to store with the document.
    * @param progressCallback Optional callback to track embedding progress (0-1).
-   * @param options Optional options for this specific document.
+   * @param options Optional options for this specific document. Aborting
+   * `options.signal` rejects the call and removes anything it already wrote
+   * (a background summary is dropped instead).
    */
   async addDocument(
     text: string, 
@@ -169,6 +699,7 @@ class VectorSearchManager {
     options?: {
       generateSummary?: boolean; // Override config default
       waitForSummary?: boolean; // Wait for summary before returning (default: false)
+      signal?: AbortSignal; // Cancels embedding, storage and summarization
     }
   ): Promise<{
     documentId: string;
@@ -183,26 +714,48 @@ class VectorSearchManager {
     // Determine if we should generate summary
     const shouldGenerateSummary = options?.generateSummary ?? this.summarizationEnabled;
     const waitForSummary = options?.waitForSummary ?? false;
+    const signal = options?.signal;
+    signal?.throwIfAborted();
 
     // 1. Start embedding in parallel with summarization (if enabled)
-    const embeddingPromise = this.embeddingEngine.embed(text, progressCallback);
+    const embeddingPromise = this._embed(async (engine) => [
+      await engine.embed(text, progressCallback, signal),
+    ]);
     
     let summaryPromise: Promise<string> | null = null;
     if (shouldGenerateSummary && this.summarizationEngine) {
       summaryPromise = this.summarizationEngine.summarize(
         text,
-        this.summarizationOptions
+        this.summarizationOptions,
+        undefined,
+        signal
       );
+      // Failures surface when the summary is awaited below
+      summaryPromise.catch(() => {});
     }
 
     // 2. Wait for embedding to complete
-    const vector: number[] = await embeddingPromise;
-
-    // 3. Store the original text with metadata
-    await this.contentStore.addDocument(key, text, metadata);
+    const embeddings = await embeddingPromise;
+    signal?.throwIfAborted();
+    await this.index.ready();
+
+    await this._writeEmbedded(embeddings, async ([vector]) => {
+      this.index.checkEmbeddings([vector]);
+
+      // 3. Store the original text with metadata
+      await this.contentStore.addDocument(key, text, metadata);
+      if (signal?.aborted) {
+        await this._rollbackDocument(key, false);
+        signal.throwIfAborted();
+      }
 
-    // 4. Insert the vector into the HNSW index with the same key
-    await this.index.insert(key, vector);
+      // 4. Insert the vector into the HNSW index with the same key
+      await this.index.insert(key, vector);
+    });
+    if (signal?.aborted) {
+      await this._rollbackDocument(key, true);
+      signal.throwIfAborted();
+    }
 
     // Logging removed for cleaner test output
     // console.log(`Successfully added document with key: ${key}`);
@@ -212,13 +765,28 @@ class VectorSearchManager {
     if (summaryPromise) {
       if (waitForSummary) {
         // Wait for summary before returning
-        const summaryText = await summaryPromise;
+        let summaryText: string;
+        try {
+          summaryText = await summaryPromise;
+          signal?.throwIfAborted();
+        } catch (error) {
+          if (signal?.aborted) {
+            await this._rollbackDocument(key, true);
+          }
+          throw error;
+        }
         summaryId = await this._storeSummary(key, summaryText);
       } else {
         // Don't wait - process summary asynchronously
         summaryPromise
-          .then((summaryText) => this._storeSummary(key, summaryText))
+          .then((summaryText) => {
+            signal?.throwIfAborted();
+            return this._storeSummary(key, summaryText);
+          })
           .catch((error) => {
+            if (signal?.aborted) {
+              return;
+            }
             console.error(`Failed to generate summary for document ${key}:`, error);
           });
       }
@@ -231,126 +799,1081 @@ class VectorSearchManager {
   }
 
   /**
-   * Internal method to store a summary and optionally embed it
+   * Remove a document written by a cancelled addDocument() call.
+   * @param key The document ID.
+   * @param indexed Whether the document was already inserted in the index.
    */
-  private async _storeSummary(documentId: string, summaryText: string): Promise<string> {
-    // Store summary in ContentStore
-    const summary: ISummary = {
-      id: documentId,
-      documentId,
-      summaryText,
-      summaryEmbedding: [], // Will be populated if embedSummary is true
-      model: this.summarizationOptions?.model || 'Xenova/distilbart-cnn-6-6',
-      createdAt: Date.now(),
-    };
-
-    // Embed summary if enabled
-    if (this.embedSummary) {
-      try {
-        const summaryVector = await this.embeddingEngine.embed(summaryText);
-        summary.summaryEmbedding = summaryVector;
-        
-        // Store summary embedding in index with prefix
-        await this.index.insert(`summary:${documentId}`, summaryVector);
-      } catch (error) {
-        console.error(`Failed to embed summary for document ${documentId}:`, error);
-        // Continue without embedding
-      }
+  private async _rollbackDocument(key: string, indexed: boolean): Promise<void> {
+    await this.contentStore.deleteDocument(key);
+    if (indexed) {
+      await this._useIndex(() => this.index.remove(key));
     }
-
-    // Store summary in ContentStore
-    await this.contentStore.addSummary(summary);
-    
-    return documentId;
   }
 
   /**
-   * Searches the vector index for the k most similar documents.
-   * Excludes summary embeddings from results.
-   * @param queryText The search query.
-   * @param k The number of results to return. Default: 3
+   * Add many documents at once. Texts are embedded in model batches (several
+   * batches in flight), then each batch is written to the ContentStore and
+   * the HNSW index in bulk. Batches are stored in input order.
+   * @param documents The documents to add.
+   * @param options Optional batching and progress options.
+   * @returns The IDs of the added documents, in input order.
    */
-  async search(queryText: string, k: number = 3): Promise<ISearchResult[]> {
-    console.log(`Embedding query: "${queryText}"`);
+  async addDocuments(
+    documents: BatchDocument[],
+    options?: BatchAddOptions
+  ): Promise<{ documentIds: string[] }> {
+    const batchSize = options?.batchSize ?? 32;
+    const concurrency = options?.concurrency ?? 2;
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw new Error(`batchSize must be a positive integer, got ${batchSize}`);
+    }
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error(`concurrency must be a positive integer, got ${concurrency}`);
+    }
 
-    // 1. Embed the query text using the configured embedding engine
-    const queryVector: number[] = await this.embeddingEngine.embed(queryText);
+    const docs: IDocument[] = documents.map((doc) => ({
+      id: doc.id || uuidv4(),
+      text: doc.text,
+      metadata: doc.metadata,
+    }));
+    const documentIds = docs.map((doc) => doc.id);
+    if (new Set(documentIds).size !== documentIds.length) {
+      throw new Error('addDocuments() received duplicate document IDs');
+    }
 
-    // 2. Check if index is empty
-    const indexSize = await this.size();
-    if (indexSize === 0) {
-      console.log('Index is empty, returning no results');
-      return [];
+    const batches: IDocument[][] = [];
+    for (let i = 0; i < docs.length; i += batchSize) {
+      batches.push(docs.slice(i, i + batchSize));
     }
 
-    // 3. Query the HNSW index (request more results to account for filtering)
-    const results = await this.index.query(queryVector, k * 2); // Get extra to filter summaries
+    const signal = options?.signal;
+    signal?.throwIfAborted();
 
-    // 4. Filter out summary keys (keys starting with "summary:")
-    const documentKeys = results.keys.filter(key => !key.startsWith('summary:'));
-    const documentDistances = results.distances.slice(0, documentKeys.length);
+    // Keep up to `concurrency` embedding batches running ahead of storage
+    const embeddings: Promise<Embeddings>[] = [];
+    const startEmbedding = (batchIndex: number) => {
+      const texts = batches[batchIndex].map((doc) => doc.text);
+      embeddings[batchIndex] = this._embed((engine) => this._embedTexts(texts, signal, engine));
+      // Failures surface when the batch is awaited below
+      embeddings[batchIndex].catch(() => {});
+    };
+    for (let i = 0; i < Math.min(concurrency, batches.length); i++) {
+      startEmbedding(i);
+    }
 
-    // 5. Retrieve the original content
-    const documents: (IDocument | undefined)[] =
-      await this.contentStore.getDocuments(documentKeys);
+    const shouldGenerateSummary = options?.generateSummary ?? this.summarizationEnabled;
+    let completed = 0;
 
-    // 6. Combine and return the results (limit to k)
-    const combinedResults = documents
-      .slice(0, k)
-      .map((doc, i) => {
-        // Handle cases where a key might be in the index
-        // but its content was somehow not found.
-        if (!doc) {
-          return null;
+    for (const [batchIndex, batch] of batches.entries()) {
+      const batchEmbeddings = await embeddings[batchIndex];
+      signal?.throwIfAborted();
+      if (batchIndex + concurrency < batches.length) {
+        startEmbedding(batchIndex + concurrency);
+      }
+
+      // Index first: bulkInsert rejects existing keys before writing anything
+      await this._writeEmbedded(batchEmbeddings, async (vectors) => {
+        await this.index.bulkInsert(batch.map((doc) => doc.id), vectors);
+        await this.contentStore.addDocuments(batch);
+      });
+
+      for (const doc of batch) {
+        completed += 1;
+        options?.onProgress?.({
+          documentId: doc.id,
+          completed,
+          total: docs.length,
+          progress: completed / docs.length,
+        });
+
+        if (shouldGenerateSummary && this.summarizationEngine) {
+          this.summarizationEngine
+            .summarize(doc.text, this.summarizationOptions)
+            .then((summaryText) => this._storeSummary(doc.id, summaryText))
+            .catch((error) => {
+              console.error(`Failed to generate summary for document ${doc.id}:`, error);
+            });
         }
-        
-        const distance = documentDistances[i];
-        // Convert distance to similarity score (0-1, where 1 is perfect match)
-        // For cosine distance: similarity = 1 - distance
-        const similarity = 1 - distance;
-        
-        return {
-          key: documentKeys[i],
-          text: doc.text,
-          distance: distance, // (0 = perfect match, 1 = opposite)
-          similarity: similarity, // (1 = perfect match, 0 = opposite)
-          metadata: doc.metadata,
-        };
-      })
-      .filter(Boolean); // Filter out any null entries
+      }
+    }
 
-    return combinedResults as ISearchResult[];
+    return { documentIds };
   }
 
   /**
-   * Search for similar summaries (not documents).
-   * Returns documents that have summaries matching the query.
-   * @param queryText The search query.
-   * @param k The number of results to return. Default: 3
+   * Add the chunks of a source (e.g. a file processed by DocumentProcessor)
+   * as documents, and a source record linking them together. Chunk documents
+   * get the ID `${sourceId}#${index}` and keep a link to their source, which
+   * searchSources() uses to return the parent document or neighboring chunks.
+   * @param source Details of the source.
+   * @param chunks The chunks of the source.
+   * @param options Optional embedding batch size (default: 32).
+   * @returns The source ID and the chunk document IDs, in chunk order.
    */
-  async searchSummaries(
-    queryText: string,
-    k: number = 3
-  ): Promise<ISummarySearchResult[]> {
-    // Logging removed for cleaner test output
-    // console.log(`Searching summaries for query: "${queryText}"`);
+  async addSource(
+    source: SourceInfo,
+    chunks: SourceChunk[],
+    options?: { batchSize?: number }
+  ): Promise<{ sourceId: string; documentIds: string[] }> {
+    const batchSize = options?.batchSize ?? 32;
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw new Error(`batchSize must be a positive integer, got ${batchSize}`);
+    }
 
-    // 1. Embed the query text
-    const queryVector: number[] = await this.embeddingEngine.embed(queryText);
+    const sourceId = source.id || uuidv4();
+    if (await this.contentStore.getSource(sourceId)) {
+      throw new Error(`Source ${sourceId} already exists`);
+    }
 
-    // 2. Check if index is empty
+    const docs = this._sourceDocuments(sourceId, chunks);
+    const embeddings = await this._embed((engine) => this._embedDocuments(docs, batchSize, engine));
+    await this._storeSource(
+      {
+        id: sourceId,
+        filename: source.filename,
+        mimeType: source.mimeType,
+        hash: source.hash,
+        chunkIds: docs.map((doc) => doc.id),
+        createdAt: Date.now(),
+        metadata: source.metadata,
+      },
+      docs,
+      embeddings
+    );
+
+    return { sourceId, documentIds: docs.map((doc) => doc.id) };
+  }
+
+  /**
+   * Extract, chunk, embed, summarize and store a file as one pipeline. The
+   * file becomes a source (see addSource()) whose hash is the SHA-256 of the
+   * file's bytes.
+   * @param file The file to ingest.
+   * @param mimeType MIME type of the file.
+   * @param options Optional processing, progress and cancellation options.
+   * @returns The source ID and the chunk document IDs.
+   */
+  async ingestFile(
+    file: File | Buffer | ArrayBuffer,
+    mimeType: string,
+    options?: IngestOptions
+  ): Promise<IngestResult> {
+    return await this._ingestFile(file, mimeType, options ?? {}, 0, 1);
+  }
+
+  /**
+   * Ingest several files one after the other, see ingestFile(). Files that
+   * were stored before a failure or cancellation are kept.
+   * @param files The files to ingest.
+   * @param options Optional processing, progress and cancellation options.
+   * @returns One result per file, in input order.
+   */
+  async ingestFiles(
+    files: IngestFile[],
+    options?: Omit<IngestOptions, 'filename' | 'sourceId' | 'metadata'>
+  ): Promise<IngestResult[]> {
+    const results: IngestResult[] = [];
+    for (const [fileIndex, { file, mimeType, filename, sourceId, metadata }] of files.entries()) {
+      results.push(
+        await this._ingestFile(
+          file,
+          mimeType,
+          { ...options, filename, sourceId, metadata },
+          fileIndex,
+          files.length
+        )
+      );
+    }
+    return results;
+  }
+
+  private async _ingestFile(
+    file: File | Buffer | ArrayBuffer,
+    mimeType: string,
+    options: IngestOptions,
+    fileIndex: number,
+    fileCount: number
+  ): Promise<IngestResult> {
+    const batchSize = options.batchSize ?? 32;
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw new Error(`batchSize must be a positive integer, got ${batchSize}`);
+    }
+    const { signal, filename } = options;
+
+    const report = (stage: IngestStage, stageProgress: number) => {
+      let fileProgress = 0;
+      for (const [otherStage, weight] of INGEST_STAGE_WEIGHTS) {
+        if (otherStage === stage) {
+          fileProgress += weight * stageProgress;
+          break;
+        }
+        fileProgress += weight;
+      }
+      options.onProgress?.({
+        stage,
+        filename,
+        fileIndex,
+        fileCount,
+        stageProgress,
+        progress: (fileIndex + Math.min(fileProgress, 1)) / fileCount,
+      });
+    };
+
+    signal?.throwIfAborted();
+    const sourceId = options.sourceId || uuidv4();
+    if (await this.contentStore.getSource(sourceId)) {
+      throw new Error(`Source ${sourceId} already exists`);
+    }
+
+    // 1. Extract the text
+    report('extracting', 0);
+    const text = await this.documentProcessor.extractText(file, mimeType);
+    const hash = await contentHash(file);
+    signal?.throwIfAborted();
+
+    // 2. Chunk it. The 'token' strategy measures chunks with the tokenizer of
+    // the embedding model, unless another token chunker was registered. The
+    // chunker is registered again after reembedAll() switched models.
+    report('chunking', 0);
+    const modelId = this.embeddingEngine.modelId;
+    if (
+      options.chunkingStrategy === 'token' &&
+      (!this.documentProcessor.getChunkingStrategies().includes('token') ||
+        (this.tokenChunkerModel !== null && this.tokenChunkerModel !== modelId))
+    ) {
+      await this.documentProcessor.registerTokenChunker(modelId);
+      this.tokenChunkerModel = modelId;
+      signal?.throwIfAborted();
+    }
+    const chunks = this.documentProcessor.chunkText(text, mimeType, {
+      filename,
+      chunkingStrategy: options.chunkingStrategy,
+      chunkingConfig: options.chunkingConfig,
+      skipChunking: options.skipChunking,
+    });
+    const docs = this._sourceDocuments(
+      sourceId,
+      chunks.map((chunk) => ({ ...chunk, metadata: { ...chunk.metadata, ...options.metadata } }))
+    );
+
+    // 3. Embed the chunks
+    report('embedding', 0);
+    const embeddings = await this._embed((engine) =>
+      this._embedDocuments(
+        docs,
+        batchSize,
+        engine,
+        (embedded) => report('embedding', embedded / docs.length),
+        signal
+      )
+    );
+
+    // 4. Summarize the whole text
+    let summaryText: string | undefined;
+    const shouldGenerateSummary = options.generateSummary ?? this.summarizationEnabled;
+    if (shouldGenerateSummary && this.summarizationEngine) {
+      report('summarizing', 0);
+      summaryText = await this.summarizationEngine.summarize(
+        text,
+        this.summarizationOptions,
+        undefined,
+        signal
+      );
+      signal?.throwIfAborted();
+    }
+
+    // 5. Store the chunks, the source and the summary
+    report('storing', 0);
+    await this._storeSource(
+      {
+        id: sourceId,
+        filename,
+        mimeType,
+        hash,
+        chunkIds: docs.map((doc) => doc.id),
+        createdAt: Date.now(),
+        metadata: options.metadata,
+      },
+      docs,
+      embeddings
+    );
+    const summaryId = summaryText !== undefined
+      ? await this._storeSummary(sourceId, summaryText)
+      : undefined;
+
+    report('done', 1);
+    return { sourceId, documentIds: docs.map((doc) => doc.id), summaryId };
+  }
+
+  /**
+   * Build the chunk documents of a source, in chunk order.
+   */
+  private _sourceDocuments(sourceId: string, chunks: SourceChunk[]): IDocument[] {
+    const docs: IDocument[] = chunks
+      .map((chunk, position) => ({ chunk, chunkIndex: chunk.index ?? position }))
+      .sort((a, b) => a.chunkIndex - b.chunkIndex)
+      .map(({ chunk, chunkIndex }) => ({
+        id: `${sourceId}#${chunkIndex}`,
+        text: chunk.text,
+        metadata: chunk.metadata,
+        sourceId,
+        chunkIndex,
+      }));
+    if (new Set(docs.map((doc) => doc.id)).size !== docs.length) {
+      throw new Error('addSource() received duplicate chunk indexes');
+    }
+    return docs;
+  }
+
+  /**
+   * Embed documents in batches, checking for cancellation between batches.
+   */
+  private async _embedDocuments(
+    docs: IDocument[],
+    batchSize: number,
+    engine: IEmbeddingEngine,
+    onBatch?: (embedded: number) => void,
+    signal?: AbortSignal
+  ): Promise<EmbeddingVector[]> {
+    const vectors: EmbeddingVector[] = [];
+    for (let i = 0; i < docs.length; i += batchSize) {
+      signal?.throwIfAborted();
+      const texts = docs.slice(i, i + batchSize).map((doc) => doc.text);
+      vectors.push(...(await this._embedTexts(texts, signal, engine)));
+      onBatch?.(vectors.length);
+    }
+    signal?.throwIfAborted();
+    return vectors;
+  }
+
+  /**
+   * Index the chunks of a source, then store them with the source record.
+   */
+  private async _storeSource(
+    source: ISource,
+    docs: IDocument[],
+    embeddings: Embeddings
+  ): Promise<void> {
+    await this._writeEmbedded(embeddings, async (vectors) => {
+      // Index first: bulkInsert rejects existing keys before writing anything
+      if (docs.length > 0) {
+        await this.index.bulkInsert(source.chunkIds, vectors);
+      }
+      await this.contentStore.addSource(source, docs);
+    });
+  }
+
+  /**
+   * Embed a search query, using the engine's query API when it has one.
+   */
+  private async _embedQuery(queryText: string): Promise<EmbeddingVector> {
+    if (this.embeddingEngine.embedQuery) {
+      return await this.embeddingEngine.embedQuery(queryText);
+    }
+    return await this.embeddingEngine.embed(queryText);
+  }
+
+  /**
+   * Embed several texts, using the engine's batch API when it has one.
+   */
+  private async _embedTexts(
+    texts: string[],
+    signal?: AbortSignal,
+    engine: IEmbeddingEngine = this.embeddingEngine
+  ): Promise<EmbeddingVector[]> {
+    if (engine.embedBatch) {
+      return await engine.embedBatch(texts, undefined, signal);
+    }
+
+    const vectors: EmbeddingVector[] = [];
+    for (const text of texts) {
+      vectors.push(await engine.embed(text, undefined, signal));
+    }
+    return vectors;
+  }
+
+  /**
+   * Embed texts with the current engine, remembering the engine and how to
+   * embed the texts again, see _writeEmbedded().
+   */
+  private async _embed(
+    embed: (engine: IEmbeddingEngine) => Promise<EmbeddingVector[]>
+  ): Promise<Embeddings> {
+    const engine = this.embeddingEngine;
+    return { engine, vectors: await embed(engine), embed };
+  }
+
+  /**
+   * Write embedded texts as one index operation. If reembedAll() switched to
+   * another engine since they were embedded, they are embedded again with
+   * the new engine first, so that nothing is stored with vectors the index
+   * would reject.
+   */
+  private async _writeEmbedded<T>(
+    embeddings: Embeddings,
+    write: (vectors: EmbeddingVector[]) => Promise<T>
+  ): Promise<T> {
+    let { engine, vectors } = embeddings;
+    for (;;) {
+      const embeddedWith = engine;
+      const current = vectors;
+      const written = await this._useIndex(async () =>
+        embeddedWith === this.embeddingEngine ? { result: await write(current) } : null
+      );
+      if (written) {
+        return written.result;
+      }
+      engine = this.embeddingEngine;
+      vectors = await embeddings.embed(engine);
+    }
+  }
+
+  /**
+   * Internal method to store a summary and optionally embed it
+   */
+  private async _storeSummary(documentId: string, summaryText: string): Promise<string> {
+    // Store summary in ContentStore
+    const summary: ISummary = {
+      id: documentId,
+      documentId,
+      summaryText,
+      summaryEmbedding: [], // Will be populated if embedSummary is true
+      model: this.summarizationOptions?.model || 'Xenova/distilbart-cnn-6-6',
+      createdAt: Date.now(),
+    };
+
+    // Embed summary if enabled
+    if (this.embedSummary) {
+      try {
+        const embeddings = await this._embed(async (engine) => [await engine.embed(summaryText)]);
+        await this._writeEmbedded(embeddings, async ([summaryVector]) => {
+          summary.summaryEmbedding = summaryVector;
+
+          // Store summary embedding in index with prefix
+          await this.index.insert(`summary:${documentId}`, summaryVector);
+        });
+      } catch (error) {
+        console.error(`Failed to embed summary for document ${documentId}:`, error);
+        // Continue without embedding
+      }
+    }
+
+    // Store summary in ContentStore
+    await this.contentStore.addSummary(summary);
+    if (summary.summaryEmbedding.length > 0) {
+      await this._recordReembedChanges([`summary:${documentId}`]);
+    }
+    
+    return documentId;
+  }
+
+  /**
+   * Searches the vector index for the k most similar documents.
+   * Excludes summary embeddings from results.
+   * @param queryText The search query.
+   * @param k The number of results to return. Default: 3
+   * @param options Optional search options (e.g. metadata filter).
+   */
+  async search(
+    queryText: string,
+    k: number = 3,
+    options?: SearchOptions
+  ): Promise<ISearchResult[]> {
+    console.log(`Embedding query: "${queryText}"`);
+    const topN = this._rerankCandidates(k, options);
+
+    // 1. Embed the query text using the configured embedding engine
+    const queryVector: EmbeddingVector = await this._embedQuery(queryText);
+
+    // 2. Check if index is empty
+    const indexSize = await this.size();
+    if (indexSize === 0) {
+      console.log('Index is empty, returning no results');
+      return [];
+    }
+
+    // 3. Resolve the metadata filter to a predicate over document keys
+    const keyFilter = await this._documentKeyFilter(options?.filter);
+    if (keyFilter === null) {
+      return [];
+    }
+
+    // 4. Query the HNSW index, skipping summary keys and filtered-out documents
+    // during the traversal. With re-ranking, the page is taken afterwards.
+    const results = topN === undefined
+      ? await this._queryIndex(queryVector, k, keyFilter, options)
+      : await this._queryIndex(queryVector, topN, keyFilter, { ...options, offset: 0 });
+
+    // 5. Retrieve the original content
+    const documents: (IDocument | undefined)[] =
+      await this.contentStore.getDocuments(results.keys);
+
+    // 6. Combine and return the results
+    const combinedResults = documents
+      .map((doc, i) => {
+        // Handle cases where a key might be in the index
+        // but its content was somehow not found.
+        if (!doc) {
+          return null;
+        }
+        
+        const distance = results.distances[i];
+        // Convert distance to similarity score (higher is better). For cosine
+        // distance: similarity = 1 - distance, for l1/l2: 1 / (1 + distance)
+        const similarity = distanceToSimilarity(distance, this.index.distanceFunctionType);
+        
+        return {
+          key: results.keys[i],
+          text: doc.text,
+          distance: distance, // (0 = perfect match)
+          similarity: similarity, // (1 = perfect match)
+          metadata: doc.metadata,
+        };
+      })
+      .filter(Boolean) as ISearchResult[]; // Filter out any null entries
+
+    // 7. Re-rank the candidates against the query text, if requested
+    const ranked = topN === undefined
+      ? combinedResults
+      : await this._rerank(queryText, combinedResults, k, options);
+
+    return await this._addResultDetails(ranked, options);
+  }
+
+  /**
+   * Hybrid search combining BM25 lexical ranking with vector similarity.
+   * Lexical matching catches exact identifiers, product codes and rare terms
+   * that embeddings tend to miss.
+   * @param queryText The search query.
+   * @param k The number of results to return. Default: 3
+   * @param options Optional fusion and filter options.
+   */
+  async hybridSearch(
+    queryText: string,
+    k: number = 3,
+    options?: HybridSearchOptions
+  ): Promise<ISearchResult[]> {
+    const fusion = options?.fusion ?? 'rrf';
+    const vectorWeight = options?.vectorWeight ?? 0.5;
+    if (vectorWeight < 0 || vectorWeight > 1) {
+      throw new Error(`vectorWeight must be between 0 and 1, got ${vectorWeight}`);
+    }
+    const { ef, offset, maxDistance, exact } = this._queryParameters(options);
+    const candidateCount = options?.candidates ?? Math.max((offset + k) * 4, 20);
+    const topN = this._rerankCandidates(k, options);
+
+    // 1. Embed the query text
+    const queryVector: EmbeddingVector = await this._embedQuery(queryText);
+
+    // 2. Check if index is empty
+    const indexSize = await this.size();
+    if (indexSize === 0) {
+      return [];
+    }
+
+    // 3. Resolve the metadata filter
+    const keyFilter = await this._documentKeyFilter(options?.filter);
+    if (keyFilter === null) {
+      return [];
+    }
+
+    // 4. Run the vector and lexical rankings
+    const [vectorResults, lexicalResults] = await Promise.all([
+      this._useIndex(() =>
+        exact
+          ? this.index.bruteForceQuery(queryVector, candidateCount, keyFilter, maxDistance)
+          : this.index.query(queryVector, candidateCount, ef, keyFilter, maxDistance)
+      ),
+      this.contentStore.searchLexical(queryText, candidateCount, keyFilter, options?.bm25),
+    ]);
+
+    const vectorList: RankedItem[] = vectorResults.keys.map((key, i) => ({
+      key,
+      score: distanceToSimilarity(vectorResults.distances[i], this.index.distanceFunctionType),
+    }));
+    const lexicalList: RankedItem[] = lexicalResults.map(result => ({
+      key: result.id,
+      score: result.score,
+    }));
+
+    // 5. Fuse the two lists
+    const fused = fusion === 'weighted'
+      ? weightedScoreFusion(vectorList, lexicalList, vectorWeight)
+      : reciprocalRankFusion(vectorList, lexicalList, vectorWeight, options?.rrfK);
+
+    const ranked = [...fused.entries()].sort((a, b) => b[1] - a[1]);
+
+    // 6. Take the requested page, using vector distances (lexical-only hits
+    // are scored against their stored embedding). With re-ranking, the top
+    // candidates are taken and the page is taken afterwards.
+    const vectorDistances = new Map<string, number>();
+    vectorResults.keys.forEach((key, i) => vectorDistances.set(key, vectorResults.distances[i]));
+
+    const pageSize = topN ?? k;
+    const pageOffset = topN === undefined ? offset : 0;
+    const page: Array<{ key: string; score: number; distance: number }> = [];
+    let skipped = 0;
+    for (const [key, score] of ranked) {
+      if (page.length >= pageSize) {
+        break;
+      }
+
+      let distance = vectorDistances.get(key);
+      if (distance === undefined) {
+        distance = await this._distanceToStoredVector(queryVector, key);
+      }
+      if (maxDistance !== undefined && distance > maxDistance) {
+        continue;
+      }
+      if (skipped < pageOffset) {
+        skipped += 1;
+        continue;
+      }
+      page.push({ key, score, distance });
+    }
+
+    // 7. Retrieve content
+    const documents = await this.contentStore.getDocuments(page.map(({ key }) => key));
+
+    const combinedResults: ISearchResult[] = [];
+    for (let i = 0; i < page.length; i++) {
+      const doc = documents[i];
+      if (!doc) {
+        continue;
+      }
+
+      const { key, score, distance } = page[i];
+      combinedResults.push({
+        key,
+        text: doc.text,
+        distance,
+        similarity: Number.isFinite(distance)
+          ? distanceToSimilarity(distance, this.index.distanceFunctionType)
+          : 0,
+        metadata: doc.metadata,
+        score,
+      });
+    }
+
+    // 8. Re-rank the candidates against the query text, if requested
+    const reranked = topN === undefined
+      ? combinedResults
+      : await this._rerank(queryText, combinedResults, k, options);
+
+    return await this._addResultDetails(reranked, options);
+  }
+
+  /**
+   * Search with maximal marginal relevance: the nearest `fetchK` documents are
+   * re-ranked by relevance to the query minus their similarity to the results
+   * already picked, so near-duplicates (e.g. overlapping chunks of the same
+   * text) do not fill all k results.
+   * @param queryText The search query.
+   * @param k The number of results to return. Default: 3
+   * @param options Optional MMR and search options.
+   */
+  async searchMMR(
+    queryText: string,
+    k: number = 3,
+    options?: MMRSearchOptions
+  ): Promise<ISearchResult[]> {
+    const lambda = options?.lambda ?? 0.5;
+    if (lambda < 0 || lambda > 1) {
+      throw new Error(`lambda must be between 0 and 1, got ${lambda}`);
+    }
+    const { offset } = this._queryParameters(options);
+    const fetchK = options?.fetchK ?? Math.max((offset + k) * 4, 20);
+    if (!Number.isInteger(fetchK) || fetchK < 1) {
+      throw new Error(`fetchK must be a positive integer, got ${fetchK}`);
+    }
+
+    // 1. Embed the query text
+    const queryVector: EmbeddingVector = await this._embedQuery(queryText);
+
+    // 2. Check if index is empty
+    const indexSize = await this.size();
+    if (indexSize === 0) {
+      return [];
+    }
+
+    // 3. Resolve the metadata filter
+    const keyFilter = await this._documentKeyFilter(options?.filter);
+    if (keyFilter === null) {
+      return [];
+    }
+
+    // 4. Fetch the candidates and their stored vectors
+    const candidates = await this._queryIndex(queryVector, fetchK, keyFilter, {
+      ...options,
+      offset: 0,
+    });
+    const vectors = await this._useIndex(async () => {
+      const vectors: Float32Array[] = [];
+      for (const key of candidates.keys) {
+        vectors.push(await this.index.getVector(key));
+      }
+      return vectors;
+    });
+
+    // 5. Re-rank them, comparing similarities in the metric of the index
+    const type = this.index.distanceFunctionType;
+    const distances = vectors.map((vector) =>
+      this.index.distanceFunction(queryVector, vector, null, null)
+    );
+    const picked = maximalMarginalRelevance(
+      distances.map((distance) => distanceToSimilarity(distance, type)),
+      (a, b) =>
+        distanceToSimilarity(this.index.distanceFunction(vectors[a], vectors[b], null, null), type),
+      offset + k,
+      lambda
+    ).slice(offset);
+
+    // 6. Retrieve content
+    const keys = picked.map(({ index }) => candidates.keys[index]);
+    const documents = await this.contentStore.getDocuments(keys);
+
+    const results: ISearchResult[] = [];
+    picked.forEach(({ index, score }, i) => {
+      const doc = documents[i];
+      if (!doc) {
+        return;
+      }
+
+      results.push({
+        key: keys[i],
+        text: doc.text,
+        distance: distances[index],
+        similarity: distanceToSimilarity(distances[index], type),
+        metadata: doc.metadata,
+        score,
+      });
+    });
+
+    return await this._addResultDetails(results, options);
+  }
+
+  /**
+   * Search chunk documents and return each hit with its context: the
+   * neighboring chunks of the same source ('window'), or the whole source
+   * ('parent', one result per source for its best hit). Hits that do not
+   * belong to a source are returned on their own. With 'parent', more hits
+   * are fetched until k sources are found or the index has no more.
+   * @param queryText The search query.
+   * @param k The number of results to return. Default: 3
+   * @param options Optional expansion and search options.
+   */
+  async searchSources(
+    queryText: string,
+    k: number = 3,
+    options?: SourceSearchOptions
+  ): Promise<ISourceSearchResult[]> {
+    const expand = options?.expand ?? 'window';
+    const window = options?.window ?? 1;
+    if (!Number.isInteger(window) || window < 0) {
+      throw new Error(`window must be a non-negative integer, got ${window}`);
+    }
+    const { offset } = this._queryParameters(options);
+
+    if (expand === 'window') {
+      const hits = await this.search(queryText, k, options);
+      return await this._expandHits(hits, (source, position) =>
+        source.chunkIds.slice(Math.max(position - window, 0), position + window + 1)
+      );
+    }
+
+    // Over-fetch, then keep the best hit of each source. Fetch twice as many
+    // hits while a few sources take them all and the index has more.
+    let best: ISearchResult[] = [];
+    for (let fetchSize = Math.max((offset + k) * 4, 20); ; fetchSize *= 2) {
+      const hits = await this.search(queryText, fetchSize, { ...options, offset: 0 });
+      const docs = await this.contentStore.getDocuments(hits.map((hit) => hit.key));
+      const groups = new Set<string>();
+      best = hits.filter((hit, i) => {
+        const group = docs[i]?.sourceId ?? hit.key;
+        if (groups.has(group)) {
+          return false;
+        }
+        groups.add(group);
+        return true;
+      });
+
+      if (best.length >= offset + k || hits.length < fetchSize) {
+        break;
+      }
+    }
+
+    return await this._expandHits(best.slice(offset, offset + k), (source) => source.chunkIds);
+  }
+
+  /**
+   * Attach to each hit its source and the chunks chosen by `chunkIds`, given
+   * the source and the position of the hit in it.
+   */
+  private async _expandHits(
+    hits: ISearchResult[],
+    chunkIds: (source: ISource, position: number) => string[]
+  ): Promise<ISourceSearchResult[]> {
+    const docs = await this.contentStore.getDocuments(hits.map((hit) => hit.key));
+    const sourceIds = [
+      ...new Set(docs.map((doc) => doc?.sourceId).filter((id): id is string => id !== undefined)),
+    ];
+    const sources = new Map<string, ISource>();
+    (await this.contentStore.getSources(sourceIds)).forEach((source) => {
+      if (source) {
+        sources.set(source.id, source);
+      }
+    });
+
+    const results: ISourceSearchResult[] = [];
+    for (const [i, hit] of hits.entries()) {
+      const doc = docs[i];
+      const source = doc?.sourceId !== undefined ? sources.get(doc.sourceId) : undefined;
+      const position = source ? source.chunkIds.indexOf(hit.key) : -1;
+
+      let chunks: IDocument[] = doc ? [doc] : [];
+      if (source && position !== -1) {
+        chunks = (await this.contentStore.getDocuments(chunkIds(source, position))).filter(
+          (chunk): chunk is IDocument => chunk !== undefined
+        );
+      }
+
+      results.push({
+        ...hit,
+        source,
+        chunks,
+        contextText: chunks.map((chunk) => chunk.text).join("\n\n"),
+      });
+    }
+    return results;
+  }
+
+  /**
+   * Build the context of an LLM prompt from the chunks most similar to the
+   * query, within a token budget. The best chunks that fit are picked (the
+   * last one cut to fill the budget), chunks adjacent in their source are
+   * merged into one passage, and each passage gets a citation back to its
+   * documents.
+   * @param queryText The search query.
+   * @param options Token budget, layout and search options.
+   * @returns The context text, its token count and its citations.
+   */
+  async buildContext(queryText: string, options: ContextOptions): Promise<IContext> {
+    const { candidates = 20, maxTokens, tokenizer, dedupe, includeCitations, format, ...searchOptions } = options;
+    if (!Number.isInteger(candidates) || candidates < 1) {
+      throw new Error(`candidates must be a positive integer, got ${candidates}`);
+    }
+    if (!Number.isInteger(maxTokens) || maxTokens < 1) {
+      throw new Error(`maxTokens must be a positive integer, got ${maxTokens}`);
+    }
+
+    const hits = await this.search(queryText, candidates, searchOptions);
+    const docs = await this.contentStore.getDocuments(hits.map((hit) => hit.key));
+    const sourceIds = [
+      ...new Set(docs.map((doc) => doc?.sourceId).filter((id): id is string => id !== undefined)),
+    ];
+    const filenames = new Map<string, string>();
+    (await this.contentStore.getSources(sourceIds)).forEach((source) => {
+      if (source?.filename) {
+        filenames.set(source.id, source.filename);
+      }
+    });
+
+    const chunks: ContextCandidate[] = hits.map((hit, i) => {
+      const sourceId = docs[i]?.sourceId;
+      return {
+        id: hit.key,
+        text: hit.text,
+        metadata: hit.metadata,
+        sourceId,
+        chunkIndex: docs[i]?.chunkIndex,
+        title: (sourceId !== undefined ? filenames.get(sourceId) ?? sourceId : undefined) ?? hit.key,
+        similarity: hit.similarity,
+      };
+    });
+    return assembleContext(chunks, { maxTokens, tokenizer, dedupe, includeCitations, format });
+  }
+
+  /**
+   * Build the traversal predicate for document searches: excludes summary
+   * embeddings and, when a metadata filter is given, documents that do not
+   * match it. Returns null when the filter matches no document.
+   */
+  private async _documentKeyFilter(filter?: MetadataFilter): Promise<QueryFilter | null> {
+    if (!filter) {
+      return (key) => !key.startsWith('summary:');
+    }
+
+    const allowedKeys = new Set(await this.contentStore.findDocumentIds(filter));
+    if (allowedKeys.size === 0) {
+      return null;
+    }
+    return (key) => !key.startsWith('summary:') && allowedKeys.has(key);
+  }
+
+  /**
+   * Distance between a query vector and the stored embedding of a key.
+   * Returns Infinity if the key is not in the index, since the distance
+   * functions have no common maximum.
+   */
+  private async _distanceToStoredVector(queryVector: EmbeddingVector, key: string): Promise<number> {
+    const vector = await this._useIndex(async () =>
+      (await this.index.nodes.has(key)) ? await this.index.getVector(key) : null
+    );
+    if (vector === null) {
+      return Infinity;
+    }
+    return this.index.distanceFunction(queryVector, vector, null, null);
+  }
+
+  /**
+   * Query the HNSW index for one page of results: up to k keys after
+   * skipping `offset`, within the distance limits of the options.
+   */
+  private async _queryIndex(
+    queryVector: EmbeddingVector,
+    k: number,
+    filter: QueryFilter,
+    options?: QueryOptions
+  ): Promise<{ keys: string[]; distances: number[] }> {
+    const { ef, offset, maxDistance, exact } = this._queryParameters(options);
+    const results = await this._useIndex(() =>
+      exact
+        ? this.index.bruteForceQuery(queryVector, offset + k, filter, maxDistance)
+        : this.index.query(queryVector, offset + k, ef, filter, maxDistance)
+    );
+    return {
+      keys: results.keys.slice(offset),
+      distances: results.distances.slice(offset),
+    };
+  }
+
+  /**
+   * Validate the query options. The maxDistance and minSimilarity limits are
+   * combined into the largest allowed distance.
+   */
+  private _queryParameters(options?: QueryOptions): {
+    ef?: number;
+    offset: number;
+    maxDistance?: number;
+    exact: boolean;
+  } {
+    const ef = options?.ef;
+    if (ef !== undefined && (!Number.isInteger(ef) || ef < 1)) {
+      throw new Error(`ef must be a positive integer, got ${ef}`);
+    }
+    const offset = options?.offset ?? 0;
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new Error(`offset must be a non-negative integer, got ${offset}`);
+    }
+
+    let maxDistance = options?.maxDistance;
+    if (options?.minSimilarity !== undefined) {
+      const distance = similarityToDistance(options.minSimilarity, this.index.distanceFunctionType);
+      maxDistance = maxDistance === undefined ? distance : Math.min(maxDistance, distance);
+    }
+    return { ef, offset, maxDistance, exact: options?.exact ?? false };
+  }
+
+  /**
+   * Number of candidates to re-rank, or undefined without re-ranking.
+   */
+  private _rerankCandidates(k: number, options?: SearchOptions): number | undefined {
+    if (!options?.rerank) {
+      return undefined;
+    }
+    const { offset } = this._queryParameters(options);
+    const topN = options.rerank.topN ?? Math.max((offset + k) * 4, 20);
+    if (!Number.isInteger(topN) || topN < 1) {
+      throw new Error(`rerank.topN must be a positive integer, got ${topN}`);
+    }
+    return topN;
+  }
+
+  /**
+   * Score the candidates against the query text with the re-ranker and take
+   * the requested page in score order.
+   */
+  private async _rerank(
+    queryText: string,
+    candidates: ISearchResult[],
+    k: number,
+    options?: SearchOptions
+  ): Promise<ISearchResult[]> {
+    const { offset } = this._queryParameters(options);
+    this.reranker ??= new DefaultReranker();
+    const scores = await this.reranker.rerank(queryText, candidates.map((candidate) => candidate.text));
+
+    return candidates
+      .map((candidate, i) => ({ ...candidate, score: scores[i] }))
+      .sort((a, b) => b.score - a.score)
+      .slice(offset, offset + k);
+  }
+
+  /**
+   * Add the embeddings and summaries requested by the options to the results.
+   */
+  private async _addResultDetails(
+    results: ISearchResult[],
+    options?: SearchOptions
+  ): Promise<ISearchResult[]> {
+    if (options?.includeVectors) {
+      await this._useIndex(async () => {
+        for (const result of results) {
+          if (await this.index.nodes.has(result.key)) {
+            result.vector = await this.index.getVector(result.key);
+          }
+        }
+      });
+    }
+
+    if (options?.includeSummaries) {
+      const summaries = await this.contentStore.getSummaries(results.map((result) => result.key));
+      results.forEach((result, i) => {
+        if (summaries[i]) {
+          result.summary = summaries[i]!.summaryText;
+        }
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Search for similar summaries (not documents).
+   * Returns documents that have summaries matching the query.
+   * @param queryText The search query.
+   * @param k The number of results to return. Default: 3
+   * @param options Optional traversal and pagination options.
+   */
+  async searchSummaries(
+    queryText: string,
+    k: number = 3,
+    options?: QueryOptions
+  ): Promise<ISummarySearchResult[]> {
+    // Logging removed for cleaner test output
+    // console.log(`Searching summaries for query: "${queryText}"`);
+
+    // 1. Embed the query text
+    const queryVector: EmbeddingVector = await this._embedQuery(queryText);
+
+    // 2. Check if index is empty
     const indexSize = await this.size();
     if (indexSize === 0) {
       console.log('Index is empty, returning no results');
       return [];
     }
 
-    // 3. Query the HNSW index (request more results to account for filtering)
-    const results = await this.index.query(queryVector, k * 2);
+    // 3. Query the HNSW index, skipping document keys during the traversal
+    const results = await this._queryIndex(
+      queryVector,
+      k,
+      (key) => key.startsWith('summary:'),
+      options
+    );
 
-    // 4. Filter to only summary keys (keys starting with "summary:")
-    const summaryKeys = results.keys.filter(key => key.startsWith('summary:'));
-    const summaryDistances = results.distances.slice(0, summaryKeys.length);
+    // 4. Keep the summary keys (keys starting with "summary:")
+    const summaryKeys = results.keys;
+    const summaryDistances = results.distances;
 
     if (summaryKeys.length === 0) {
       return [];
@@ -359,22 +1882,31 @@ class VectorSearchManager {
     // 5. Extract document IDs from summary keys
     const documentIds = summaryKeys.map(key => key.replace('summary:', ''));
 
-    // 6. Retrieve summaries and documents
+    // 6. Retrieve summaries and documents. Summaries of ingested files are
+    // stored under the ID of their source instead of a document.
     const summaries = await this.contentStore.getSummaries(documentIds);
     const documents = await this.contentStore.getDocuments(documentIds);
+    const sourceIds = documentIds.filter((_, i) => !documents[i]);
+    const sources = new Map<string, ISource>();
+    for (const source of await this.contentStore.getSources(sourceIds)) {
+      if (source) {
+        sources.set(source.id, source);
+      }
+    }
 
     // 7. Combine and return results (limit to k)
     const combinedResults: ISummarySearchResult[] = [];
     for (let i = 0; i < Math.min(k, summaryKeys.length); i++) {
       const summary = summaries[i];
       const document = documents[i];
+      const source = document ? undefined : sources.get(documentIds[i]);
       
       if (!summary) {
         continue; // Skip if summary not found
       }
 
       const distance = summaryDistances[i];
-      const similarity = 1 - distance;
+      const similarity = distanceToSimilarity(distance, this.index.distanceFunctionType);
 
       combinedResults.push({
         documentId: documentIds[i],
@@ -382,6 +1914,8 @@ class VectorSearchManager {
         distance,
         similarity,
         document: document,
+        sourceId: source?.id,
+        source,
         metadata: summary.metadata,
       });
     }
@@ -400,7 +1934,8 @@ class VectorSearchManager {
   /**
    * Delete a document from both the content store and the vector index.
    * This performs a soft delete - the node is marked as deleted but remains in memory.
-   * Use compactIndex() to perform a hard delete and reclaim memory.
+   * Use compactIndex() to perform a hard delete and reclaim memory, or enable
+   * background compaction with indexConfig.compaction.
    * @param id The document ID to delete.
    */
   async deleteDocument(id: string): Promise<void> {
@@ -413,14 +1948,71 @@ class VectorSearchManager {
     }
 
     // 2. Mark as deleted in HNSW index (soft delete)
-    await this.index.markDeleted(id);
+    await this._useIndex(() => this.index.markDeleted(id));
+    await this._recordReembedChanges([id]);
+
+    // 3. Remove from content store (and its lexical index)
+    await this.contentStore.deleteDocument(id);
+
+    // 4. Unlink it from its source
+    const sourceId = docs[0].sourceId;
+    const source = sourceId !== undefined ? await this.contentStore.getSource(sourceId) : undefined;
+    if (source) {
+      await this.contentStore.addSource({
+        ...source,
+        chunkIds: source.chunkIds.filter((chunkId) => chunkId !== id),
+      });
+    }
 
-    // 3. Remove from content store
-    await this.contentStore.documents.delete(id);
+    // 5. Hard-delete the deleted nodes in the background if there are many
+    await this._startBackgroundCompaction();
 
     console.log(`Successfully deleted document: ${id}`);
   }
 
+  /**
+   * Get a source added with addSource().
+   * @param id The source ID.
+   * @returns The source if found, undefined otherwise.
+   */
+  async getSource(id: string): Promise<ISource | undefined> {
+    return await this.contentStore.getSource(id);
+  }
+
+  /**
+   * Delete a source, all of its chunk documents and its summary.
+   * @param id The source ID.
+   */
+  async deleteSource(id: string): Promise<void> {
+    const source = await this.contentStore.getSource(id);
+    if (!source) {
+      throw new Error(`Source ${id} not found`);
+    }
+
+    // The summary of an ingested file is stored under the source ID, unless
+    // a document with the same ID owns it
+    const hasSummary =
+      (await this.contentStore.getSummary(id)) !== undefined &&
+      (await this.contentStore.getDocument(id)) === undefined;
+    const summaryKey = `summary:${id}`;
+    const deletedKeys = hasSummary ? [...source.chunkIds, summaryKey] : source.chunkIds;
+
+    await this._useIndex(async () => {
+      for (const key of deletedKeys) {
+        if (await this.index.nodes.has(key)) {
+          await this.index.markDeleted(key);
+        }
+      }
+      await this._recordReembedChanges(deletedKeys);
+    });
+    await this.contentStore.deleteSource(id);
+    if (hasSummary) {
+      await this.contentStore.deleteSummary(id);
+    }
+
+    await this._startBackgroundCompaction();
+  }
+
   /**
    * Update an existing document with new text content.
    * This will re-embed the text and update the vector in the index.
@@ -437,72 +2029,229 @@ class VectorSearchManager {
     }
 
     // 2. Generate new embedding
-    const newVector: number[] = await this.embeddingEngine.embed(newText);
-
-    // 3. Update the vector in HNSW index
-    await this.index.update(id, newVector);
-
-    // 4. Update the text in content store
-    await this.contentStore.addDocument(id, newText);
+    const embeddings = await this._embed(async (engine) => [await engine.embed(newText)]);
+
+    // 3. Update the vector in HNSW index and the text in content store,
+    // keeping the link to its source. Both happen in one index operation so
+    // that a running reembedAll() never switches between them.
+    await this._writeEmbedded(embeddings, async ([newVector]) => {
+      await this.index.update(id, newVector);
+      await this.contentStore.addDocuments([{ ...docs[0]!, text: newText }]);
+      await this._recordReembedChanges([id]);
+    });
 
     console.log(`Successfully updated document: ${id}`);
   }
 
   /**
    * Compact the index by removing all soft-deleted nodes.
-   * This rebuilds the index with only active documents, reclaiming memory.
-   * Warning: This operation is expensive (O(n log n)) and should be used sparingly.
+   * Each node is unlinked from the graph and its neighbors are reconnected,
+   * so the rest of the graph is kept as it is. Waits for a running background
+   * compaction first.
    */
   async compactIndex(): Promise<void> {
     console.log('Starting index compaction...');
+    await this.waitForCompaction();
 
-    // 1. Get all node keys from the index
-    const allKeys = await this.index.nodes.keys();
-    console.log(`Total nodes before compaction: ${allKeys.length}`);
+    const stats = await this.getStats();
+    console.log(`Total nodes before compaction: ${stats.totalNodes}`);
 
-    // 2. Collect all non-deleted nodes with their vectors
-    const activeNodes: Array<{ key: string; value: number[] }> = [];
-    
-    for (const key of allKeys) {
-      const node = await this.index.nodes.get(key, 0);
-      if (node && !node.isDeleted) {
-        activeNodes.push({ key: node.key, value: node.value });
+    await this._removeDeletedNodes(Infinity);
+
+    console.log(`Index compaction complete. Nodes after: ${await this.size()}`);
+  }
+
+  /**
+   * Wait for a running background compaction to finish.
+   */
+  async waitForCompaction(): Promise<void> {
+    await this.compactionRun;
+  }
+
+  /**
+   * Export the whole manager (index configuration, graph, full-precision
+   * embeddings, documents, summaries, sources and metadata) as a single versioned
+   * JSON-lines archive that can be loaded with importSnapshot().
+   */
+  async exportSnapshot(): Promise<string> {
+    await this.ready();
+
+    // Read the graph and the nodes in one go, so they match
+    const { index, nodes } = await this._useIndex(async () => {
+      const keys = await this.index.nodes.keys();
+      const nodes: Array<{ key: string; vector: Float32Array; isDeleted: boolean }> = [];
+      for (const key of keys) {
+        const node = await this.index.nodes.get(key, 0);
+        if (node) {
+          nodes.push({
+            key,
+            vector: await this.index.getVector(key),
+            isDeleted: node.isDeleted,
+          });
+        }
       }
-    }
+      return { index: this.index.exportIndex(), nodes };
+    });
 
-    console.log(`Active nodes after filtering: ${activeNodes.length}`);
+    return serializeSnapshot({
+      config: {
+        collection: this.collection,
+        distanceFunction: this.index.distanceFunctionType,
+        m: this.index.m,
+        efConstruction: this.index.efConstruction,
+        seed: this.index.seed,
+        quantization: this.index.quantization,
+      },
+      createdAt: Date.now(),
+      index,
+      nodes,
+      documents: await this.contentStore.getAllDocuments(),
+      summaries: await this.contentStore.getAllSummaries(),
+      sources: await this.contentStore.getAllSources(),
+    });
+  }
 
-    // If no active nodes, just clear and return
-    if (activeNodes.length === 0) {
-      await this.index.clear();
-      console.log(`Index compaction complete. Nodes after: 0`);
-      return;
+  /**
+   * Replace all data of this manager with the content of a snapshot created
+   * by exportSnapshot(). The index configuration of the snapshot wins over
+   * this manager's config; the storage mode (IndexedDB or memory) is kept.
+   * If the import fails, the existing data is left as it was.
+   * @param snapshot The snapshot text.
+   */
+  async importSnapshot(snapshot: string): Promise<void> {
+    await this.ready();
+    await this.waitForCompaction();
+    if (this.reembedRun) {
+      throw new Error('Cannot import a snapshot while reembedAll() is running');
     }
 
-    // 3. Create a new HNSW instance with the same configuration
-    const config: any = {
-      distanceFunction: this.index.distanceFunction,
-      m: this.index.m,
-      efConstruction: this.index.efConstruction,
-      useIndexedDB: this.index.useIndexedDB,
-      seed: this.index.seed,
-    };
+    // Validate the whole archive before touching any data
+    const content = parseSnapshot(snapshot);
+    const { config } = content;
+    if (config.distanceFunction === 'custom' && this.index.distanceFunctionType !== 'custom') {
+      throw new Error(
+        "Snapshot uses a custom distance function; create the manager with the same function before importing"
+      );
+    }
+    const snapshotModel = content.index.embeddingModel;
+    const engineModel = this.embeddingEngine.modelId;
+    if (snapshotModel && engineModel && snapshotModel !== engineModel) {
+      throw new Error(
+        `Snapshot stores embeddings of model ${snapshotModel}, but this manager uses model ${engineModel}`
+      );
+    }
 
-    // Store reference to old index
+    // Build the new index next to the current one, which is left as it is
+    // until the switch
     const oldIndex = this.index;
+    const dbName = indexDatabaseName(this.collection);
+    let previousGeneration = 0;
+    let generation = 0;
+    if (oldIndex.useIndexedDB) {
+      previousGeneration = await getIndexGeneration(dbName, this.storage);
+      generation = previousGeneration + 1;
+      // Left over by an import or switch that did not complete
+      await discardIndexGeneration(dbName, generation, this.storage);
+    }
+
+    const index = new Mememo({
+      distanceFunction: config.distanceFunction === 'custom'
+        ? (a: EmbeddingVector, b: EmbeddingVector) => oldIndex.distanceFunction(a, b, null, null)
+        : config.distanceFunction,
+      m: config.m,
+      efConstruction: config.efConstruction,
+      seed: config.seed,
+      useIndexedDB: oldIndex.useIndexedDB,
+      dbName: oldIndex.useIndexedDB ? indexGenerationName(dbName, generation) : oldIndex.dbName,
+      storage: this.storage,
+      quantization: config.quantization ?? undefined,
+      embeddingModel: this.embeddingEngine.modelId,
+    });
+
+    try {
+      await index.ready();
 
-    // Create new index
-    this.index = new Mememo(config);
+      // Restore the graph (and trained quantizer), then the node embeddings,
+      // which are re-encoded by the restored quantizer
+      index.loadIndex({ ...content.index, useIndexedDB: index.useIndexedDB });
+      await index.bulkInsertSkipIndex(
+        content.nodes.map((node) => node.key),
+        content.nodes.map((node) => node.vector)
+      );
+      for (const { key } of content.nodes.filter((node) => node.isDeleted)) {
+        const node = await index.nodes.get(key, 0);
+        node!.isDeleted = true;
+        await index.nodes.set(key, node!);
+      }
 
-    // 4. Re-insert all active nodes into the new index
-    for (const node of activeNodes) {
-      await this.index.insert(node.key, node.value);
+      if (index.useIndexedDB) {
+        await index.saveIndex();
+      }
+    } catch (error) {
+      if (index.useIndexedDB) {
+        await discardIndexGeneration(dbName, generation, this.storage);
+      }
+      throw error;
     }
 
-    // 5. Clear the old index to free memory
-    await oldIndex.clear();
+    // Switch the index and the content together, putting the index back if
+    // the content cannot be written
+    await this._runCompactionStep(async () => {
+      if (index.useIndexedDB) {
+        await setIndexGeneration(dbName, generation, this.storage);
+      }
+      try {
+        await this.contentStore.replaceContent(content);
+      } catch (error) {
+        if (index.useIndexedDB) {
+          await setIndexGeneration(dbName, previousGeneration, this.storage);
+          await discardIndexGeneration(dbName, generation, this.storage);
+        }
+        throw error;
+      }
+
+      this.index = index;
+      if (index.useIndexedDB) {
+        await discardIndexGeneration(dbName, previousGeneration, this.storage);
+      }
+    });
+
+    // An interrupted re-embedding was built from the replaced content
+    await this._discardReembedding();
+  }
 
-    console.log(`Index compaction complete. Nodes after: ${await this.size()}`);
+  /**
+   * Re-embed every document and summary with another embedding engine, e.g.
+   * after switching models. The texts in the ContentStore are embedded into
+   * a shadow index in the background while searches keep using the current
+   * index and engine. Documents added, updated or deleted meanwhile are
+   * picked up before the shadow index replaces the current index and the
+   * manager switches to `newEngine`.
+   *
+   * With IndexedDB (or a storage backend), the shadow index is saved after
+   * each batch: if the call is aborted or the page is closed, calling
+   * reembedAll() again with the same engine continues where it stopped.
+   * Writes that embedded with the old engine and reach the index after the
+   * switch embed their texts again with `newEngine` before storing them.
+   * @param newEngine The embedding engine to use from now on.
+   * @param options Optional batching, progress and cancellation options.
+   */
+  async reembedAll(newEngine: IEmbeddingEngine, options?: ReembedOptions): Promise<void> {
+    const batchSize = options?.batchSize ?? 32;
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw new Error(`batchSize must be a positive integer, got ${batchSize}`);
+    }
+    if (this.reembedRun) {
+      throw new Error('reembedAll() is already running');
+    }
+
+    const running = this._reembedAll(newEngine, batchSize, options);
+    this.reembedRun = running;
+    try {
+      await running;
+    } finally {
+      this.reembedRun = null;
+    }
   }
 
   /**
@@ -579,21 +2328,387 @@ class VectorSearchManager {
     activeNodes: number;
     deletedNodes: number;
   }> {
-    const allKeys = await this.index.nodes.keys();
-    let deletedCount = 0;
+    const allKeys = await this._useIndex(() => this.index.nodes.keys());
+    const deletedKeys = await this._deletedKeys();
+
+    return {
+      totalNodes: allKeys.length,
+      activeNodes: allKeys.length - deletedKeys.length,
+      deletedNodes: deletedKeys.length,
+    };
+  }
+
+  /**
+   * Keys of the nodes marked as deleted in the index.
+   */
+  private async _deletedKeys(): Promise<string[]> {
+    return await this._useIndex(async () => {
+      const deletedKeys: string[] = [];
+      for (const key of await this.index.nodes.keys()) {
+        const node = await this.index.nodes.get(key, 0);
+        if (node?.isDeleted) {
+          deletedKeys.push(key);
+        }
+      }
+      return deletedKeys;
+    });
+  }
+
+  /**
+   * Run an operation on the index. Operations run concurrently, but never
+   * during a compaction step.
+   */
+  private async _useIndex<T>(operation: () => Promise<T>): Promise<T> {
+    while (this.compactionStep) {
+      await this.compactionStep.catch(() => {});
+    }
+
+    this.indexOperations += 1;
+    try {
+      return await operation();
+    } finally {
+      this.indexOperations -= 1;
+      if (this.indexOperations === 0 && this.onIndexIdle) {
+        const resume = this.onIndexIdle;
+        this.onIndexIdle = null;
+        resume();
+      }
+    }
+  }
+
+  /**
+   * Run a compaction step on its own: wait for the running index operations
+   * to finish and hold back new ones until the step is done.
+   */
+  private async _runCompactionStep(step: () => Promise<void>): Promise<void> {
+    while (this.compactionStep) {
+      await this.compactionStep.catch(() => {});
+    }
+
+    const running = (async () => {
+      if (this.indexOperations > 0) {
+        await new Promise<void>((resolve) => (this.onIndexIdle = resolve));
+      }
+      await step();
+    })();
+    this.compactionStep = running;
+
+    try {
+      await running;
+    } finally {
+      if (this.compactionStep === running) {
+        this.compactionStep = null;
+      }
+    }
+  }
+
+  /**
+   * Remove the soft-deleted nodes from the graph, `batchSize` nodes per step.
+   * Other index operations can run between the steps.
+   */
+  private async _removeDeletedNodes(batchSize: number): Promise<void> {
+    const deletedKeys = await this._deletedKeys();
+
+    for (let i = 0; i < deletedKeys.length; i += batchSize) {
+      const batch = deletedKeys.slice(i, i + batchSize);
+      await this._runCompactionStep(async () => {
+        // Skip nodes removed or added again since the keys were collected
+        const removedKeys: string[] = [];
+        for (const key of batch) {
+          if (!(await this.index.nodes.has(key))) {
+            continue;
+          }
+          const node = await this.index.nodes.get(key, 0);
+          if (node?.isDeleted) {
+            removedKeys.push(key);
+          }
+        }
+        await this.index.bulkRemove(removedKeys);
+
+        // The nodes are already gone from the database, so must be the
+        // persisted graph
+        if (this.index.useIndexedDB) {
+          await this.index.saveIndex();
+        }
+      });
+
+      // Let the waiting operations run before the next step
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  }
+
+  /**
+   * Build the shadow index of reembedAll() and switch to it.
+   */
+  private async _reembedAll(
+    newEngine: IEmbeddingEngine,
+    batchSize: number,
+    options?: ReembedOptions
+  ): Promise<void> {
+    await this.ready();
+    options?.signal?.throwIfAborted();
+
+    if (!this.reembedChanges) {
+      this.reembedChanges = new Set();
+      await this._saveReembedState();
+    }
+
+    // Loads the shadow index of an interrupted call, if any
+    const shadow = this._createIndex(reembedDatabaseName(this.collection), newEngine.modelId);
+    await shadow.ready();
+    if (shadow.embeddingModel !== (newEngine.modelId ?? null)) {
+      // Built for another model, so it cannot be continued
+      await shadow.clear();
+    }
+
+    // Catch up until a pass finds nothing to do, then run a last pass
+    // without concurrent writes and switch
+    let changed = true;
+    while (changed) {
+      const liveKeys = await this._useIndex(() => this._liveKeys());
+      changed = await this._syncShadowIndex(shadow, liveKeys, newEngine, batchSize, options);
+    }
+    await this._runCompactionStep(async () => {
+      await this._syncShadowIndex(shadow, await this._liveKeys(), newEngine, batchSize, options);
+      await this._switchToShadowIndex(shadow, newEngine);
+    });
+  }
+
+  /**
+   * Bring the shadow index up to date with the keys of the index: remove
+   * keys that were deleted or changed, then embed the missing keys in
+   * batches. Keys without a document or summary text are left out.
+   * @returns Whether the shadow index was changed.
+   */
+  private async _syncShadowIndex(
+    shadow: Mememo,
+    liveKeys: string[],
+    newEngine: IEmbeddingEngine,
+    batchSize: number,
+    options?: ReembedOptions
+  ): Promise<boolean> {
+    const live = new Set(liveKeys);
+    const changedKeys = new Set(this.reembedChanges);
+    const shadowKeys = new Set(await shadow.nodes.keys());
+
+    const staleKeys = [...shadowKeys].filter((key) => !live.has(key) || changedKeys.has(key));
+    for (const key of staleKeys) {
+      await shadow.remove(key);
+      shadowKeys.delete(key);
+    }
+    if (staleKeys.length > 0 && shadow.useIndexedDB) {
+      await shadow.saveIndex();
+    }
+    // Changed keys still in the index are embedded again below
+    for (const key of changedKeys) {
+      this.reembedChanges!.delete(key);
+    }
+    if (changedKeys.size > 0) {
+      await this._saveReembedState();
+    }
+
+    const missingKeys = liveKeys.filter((key) => !shadowKeys.has(key));
+    let completed = liveKeys.length - missingKeys.length;
+    let inserted = 0;
+    for (let i = 0; i < missingKeys.length; i += batchSize) {
+      options?.signal?.throwIfAborted();
+      const batch = await this._indexedTexts(missingKeys.slice(i, i + batchSize));
+      if (batch.keys.length > 0) {
+        const vectors = await this._embedTexts(batch.texts, options?.signal, newEngine);
+        options?.signal?.throwIfAborted();
+        await shadow.bulkInsert(batch.keys, vectors);
+        if (shadow.useIndexedDB) {
+          await shadow.saveIndex();
+        }
+        inserted += batch.keys.length;
+      }
+
+      completed += Math.min(batchSize, missingKeys.length - i);
+      options?.onProgress?.({
+        completed,
+        total: liveKeys.length,
+        progress: completed / liveKeys.length,
+      });
+    }
+
+    return staleKeys.length > 0 || inserted > 0;
+  }
+
+  /**
+   * Texts of index keys: document texts, and summary texts for
+   * `summary:<documentId>` keys. Keys without a text are skipped.
+   */
+  private async _indexedTexts(keys: string[]): Promise<{ keys: string[]; texts: string[] }> {
+    const documents = await this.contentStore.getDocuments(keys);
+    const result: { keys: string[]; texts: string[] } = { keys: [], texts: [] };
+    for (let i = 0; i < keys.length; i++) {
+      const key = keys[i];
+      const text = key.startsWith('summary:')
+        ? (await this.contentStore.getSummary(key.slice('summary:'.length)))?.summaryText
+        : documents[i]?.text;
+      if (text !== undefined) {
+        result.keys.push(key);
+        result.texts.push(text);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Replace the index with the shadow index and switch to its engine. Must
+   * run as a compaction step. With IndexedDB (or a storage backend), the
+   * shadow index is copied into the next generation of the index database,
+   * which becomes live in a single write; the previous generation is only
+   * deleted afterwards.
+   */
+  private async _switchToShadowIndex(shadow: Mememo, newEngine: IEmbeddingEngine): Promise<void> {
+    const keys = await shadow.nodes.keys();
+    const vectors: Float32Array[] = [];
+    for (const key of keys) {
+      vectors.push(await shadow.getVector(key));
+    }
+
+    let index = shadow;
+    const dbName = indexDatabaseName(this.collection);
+    let previousGeneration = 0;
+    if (this.index.useIndexedDB) {
+      previousGeneration = await getIndexGeneration(dbName, this.storage);
+      const generation = previousGeneration + 1;
+      // Left over by a switch that did not complete
+      await discardIndexGeneration(dbName, generation, this.storage);
+
+      index = this._createIndex(indexGenerationName(dbName, generation), newEngine.modelId);
+      await index.ready();
+      index.loadIndex({ ...shadow.exportIndex(), useIndexedDB: index.useIndexedDB });
+      await index.bulkInsertSkipIndex(keys, vectors);
+      await index.saveIndex();
+      await setIndexGeneration(dbName, generation, this.storage);
+    }
+
+    this.index = index;
+    this.embeddingEngine = newEngine;
+    if (index !== shadow) {
+      await discardIndexGeneration(dbName, previousGeneration, this.storage);
+    }
+
+    // Keep the summary records in line with the index
+    for (let i = 0; i < keys.length; i++) {
+      if (keys[i].startsWith('summary:')) {
+        const summary = await this.contentStore.getSummary(keys[i].slice('summary:'.length));
+        if (summary) {
+          await this.contentStore.addSummary({ ...summary, summaryEmbedding: vectors[i] });
+        }
+      }
+    }
 
-    for (const key of allKeys) {
+    await this._discardReembedding();
+  }
+
+  /**
+   * Keys of the nodes of the index that are not marked as deleted.
+   */
+  private async _liveKeys(): Promise<string[]> {
+    const liveKeys: string[] = [];
+    for (const key of await this.index.nodes.keys()) {
       const node = await this.index.nodes.get(key, 0);
-      if (node?.isDeleted) {
-        deletedCount++;
+      if (node && !node.isDeleted) {
+        liveKeys.push(key);
       }
     }
+    return liveKeys;
+  }
 
-    return {
-      totalNodes: allKeys.length,
-      activeNodes: allKeys.length - deletedCount,
-      deletedNodes: deletedCount,
-    };
+  /**
+   * Create an empty index with the configuration of the current index.
+   */
+  private _createIndex(dbName: string, embeddingModel?: string): Mememo {
+    const current = this.index;
+    return new Mememo({
+      distanceFunction: current.distanceFunctionType === 'custom'
+        ? (a: EmbeddingVector, b: EmbeddingVector) => current.distanceFunction(a, b, null, null)
+        : current.distanceFunctionType,
+      m: current.m,
+      efConstruction: current.efConstruction,
+      seed: current.seed,
+      useIndexedDB: current.useIndexedDB,
+      dbName,
+      storage: this.storage,
+      quantization: current.quantization ?? undefined,
+      embeddingModel,
+    });
+  }
+
+  /**
+   * Remember keys to embed again in the shadow index of a running or
+   * interrupted reembedAll() call.
+   */
+  private async _recordReembedChanges(keys: string[]): Promise<void> {
+    if (!this.reembedChanges || keys.length === 0) {
+      return;
+    }
+    for (const key of keys) {
+      this.reembedChanges.add(key);
+    }
+    await this._saveReembedState();
+  }
+
+  /**
+   * Persist the changed keys of the re-embedding with the index.
+   */
+  private async _saveReembedState(): Promise<void> {
+    if (this.index.useIndexedDB && this.reembedChanges) {
+      await this._reembedStateTable().put(REEMBED_STATE_ID, {
+        id: REEMBED_STATE_ID,
+        changedKeys: [...this.reembedChanges],
+      });
+    }
+  }
+
+  /**
+   * Forget the re-embedding: delete its state and its shadow index.
+   */
+  private async _discardReembedding(): Promise<void> {
+    this.reembedChanges = null;
+    if (this.index.useIndexedDB) {
+      await this._reembedStateTable().delete(REEMBED_STATE_ID);
+      await openIndexStorage(reembedDatabaseName(this.collection), this.storage).delete();
+    }
+  }
+
+  /**
+   * Metadata table of the index database, holding the re-embedding state.
+   */
+  private _reembedStateTable() {
+    return openIndexStorage(indexDatabaseName(this.collection), this.storage).table<ReembedState>(
+      'indexMetadata'
+    );
+  }
+
+  /**
+   * Start a background compaction if it is enabled and the deleted ratio of
+   * the index is above its threshold.
+   */
+  private async _startBackgroundCompaction(): Promise<void> {
+    if (!this.compaction || this.compactionRun) {
+      return;
+    }
+
+    const { totalNodes, deletedNodes } = await this.getStats();
+    if (
+      this.compactionRun ||
+      totalNodes === 0 ||
+      deletedNodes / totalNodes <= this.compaction.deletedRatio
+    ) {
+      return;
+    }
+
+    this.compactionRun = this._removeDeletedNodes(this.compaction.batchSize)
+      .catch((error) => {
+        console.error('Background compaction failed:', error);
+      })
+      .finally(() => {
+        this.compactionRun = null;
+      });
   }
 }
 
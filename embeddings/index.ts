@@ -1,4 +1,18 @@
-export { ContentStore, IDocument, ISummary } from './ContentStore';
-export { IEmbeddingEngine, DefaultEmbeddingEngine, embed } from './EmbeddingPipeline';
+export { ContentStore, CONTENT_DB_TABLES, openContentDatabase, IDocument, ISource, ISummary, ITermPosting, ILexicalDocument, ILexicalStats, ILexicalSearchResult } from './ContentStore';
+export { IEmbeddingEngine, DefaultEmbeddingEngine, EmbeddingModelConfig, DEFAULT_EMBEDDING_MODEL, embed, loadTokenizer } from './EmbeddingPipeline';
+export { ModelDtype, EmbeddingPooling } from '../workers/worker-types';
+export { EmbeddingCache, EmbeddingCacheConfig, EmbeddingCacheStats, ICachedEmbedding, DEFAULT_EMBEDDING_CACHE_DB_NAME, embeddingCacheKey } from './EmbeddingCache';
 export { ISummarizationEngine, DefaultSummarizationEngine, summarize, SummarizationOptions } from './SummarizationPipeline';
-export { default as VectorSearchManager, ISearchResult, ISummarySearchResult, VectorSearchConfig, DEFAULT_CONFIG } from './VectorSearchManager';
+export { IReranker, DefaultReranker, RerankerModelConfig, DEFAULT_RERANKER_MODEL } from './RerankerPipeline';
+export { default as VectorSearchManager, ISearchResult, ISummarySearchResult, QueryOptions, SearchOptions, RerankOptions, HybridSearchOptions, MMRSearchOptions, SourceSearchOptions, ISourceSearchResult, ContextOptions, SourceChunk, SourceInfo, IngestStage, IngestProgress, IngestOptions, IngestFile, IngestResult, BatchDocument, BatchProgress, BatchAddOptions, ReembedOptions, ReembedProgress, VectorSearchConfig, CompactionConfig, DEFAULT_CONFIG } from './VectorSearchManager';
+export { SNAPSHOT_FORMAT, SNAPSHOT_VERSION, ISnapshotConfig, ISnapshotContent, SnapshotRecord, parseSnapshot, serializeSnapshot } from './Snapshot';
+export { MetadataFilter, MetadataFieldOperators, MetadataValue, matchesFilter } from './MetadataFilter';
+export { BM25Parameters, DEFAULT_BM25_PARAMETERS, tokenize } from './BM25';
+export { RankedItem, reciprocalRankFusion, weightedScoreFusion } from './Fusion';
+export { MMRSelection, maximalMarginalRelevance } from './MMR';
+export { TokenCounter, ContextFormat, ContextCandidate, ContextAssemblyOptions, IContext, IContextCitation, IContextDocument, assembleContext, estimateTokens } from './ContextBuilder';
+export { ICollectionInfo, DEFAULT_COLLECTION, listCollections, createCollection, dropCollection, renameCollection } from './Collections';
+export { BuiltInDistanceFunction, EmbeddingVector, QuantizationConfig, distanceToSimilarity, similarityToDistance } from '../mememo/src/mememo';
+export { RecallBenchmarkOptions, RecallBenchmarkReport, RecallBenchmarkRun, LatencyStats, benchmarkRecall, latencyStats, recallAtK } from '../mememo/src/benchmark';
+export { StorageBackend, StorageDatabase, StorageTable, StorageTransaction, StorageOperation, DexieStorageDatabase, MemoryStorage, MemoryStorageDatabase } from '../mememo/src/storage';
+export { FileSystemStorage, FileSystemStorageDatabase } from '../mememo/src/fileSystemStorage';
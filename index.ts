@@ -1,3 +1,4 @@
 // Main entry point for flux-vector package
 export * from './embeddings';
-export * from './document-processing';
\ No newline at end of file
+export * from './document-processing';export { WorkerManager } from './workers';
+export type { WorkerConfig, TaskPriority } from './workers';
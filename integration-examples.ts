@@ -275,8 +275,15 @@ async function customConfigurationExample() {
 async function batchProcessingExample() {
   console.log('\n=== Batch Processing Example ===\n');
 
-  const processor = new DocumentProcessor();
-  const vectorSearch = new VectorSearchManager();
+  // ingestFiles() extracts, chunks, embeds and stores each file
+  const vectorSearch = new VectorSearchManager({
+    documentProcessor: new DocumentProcessor({
+      chunkingConfig: {
+        chunkSize: 500,
+        chunkOverlap: 50,
+      },
+    }),
+  });
 
   // Simulate multiple documents
   const batchDocuments = Array.from({ length: 5 }, (_, i) => ({
@@ -293,28 +300,20 @@ async function batchProcessingExample() {
 
   const startTime = Date.now();
   
-  const allChunks = await processor.processBatch(batchDocuments, {
-    chunkingConfig: {
-      chunkSize: 500,
-      chunkOverlap: 50,
+  const results = await vectorSearch.ingestFiles(batchDocuments, {
+    onProgress: ({ filename, stage, progress }) => {
+      console.log(`   ${Math.round(progress * 100)}% ${filename}: ${stage}`);
     },
   });
 
   const processingTime = Date.now() - startTime;
+  const totalChunks = results.reduce((sum, result) => sum + result.documentIds.length, 0);
   
   console.log(`✓ Processed ${batchDocuments.length} documents in ${processingTime}ms`);
-  console.log(`✓ Created ${allChunks.length} total chunks`);
-
-  // Index all chunks
-  for (const chunk of allChunks) {
-    const id = `${chunk.metadata.filename}_${chunk.index}`;
-    await vectorSearch.addDocument(chunk.text, id);
-  }
-
-  console.log(`✓ Indexed ${allChunks.length} chunks`);
+  console.log(`✓ Indexed ${totalChunks} total chunks`);
 
-  const results = await vectorSearch.search('machine learning', 3);
-  console.log(`\nFound ${results.length} relevant chunks`);
+  const hits = await vectorSearch.search('machine learning', 3);
+  console.log(`\nFound ${hits.length} relevant chunks`);
 
   console.log('\n✓ Batch processing example completed!\n');
 }
@@ -42,5 +42,6 @@ module.exports = {
   moduleNameMapper: {
     '^d3-random$': '<rootDir>/tests/mocks/d3-random-mock.ts',
     '^uuid$': '<rootDir>/tests/mocks/uuid-mock.ts',
+    '^\\./worker-script-url$': '<rootDir>/tests/mocks/worker-script-url.ts',
   },
 };
@@ -0,0 +1,183 @@
+/**
+ * Recall benchmark for Mememo. Stored vectors are used as queries, and the
+ * results of the graph search are compared with an exact scan of the index.
+ */
+
+import type { HNSW, QueryFilter } from './mememo';
+
+export interface RecallBenchmarkOptions {
+  /** Number of neighbors per query. Default: 10 */
+  k?: number;
+
+  /**
+   * Number of stored vectors used as queries. They are spread evenly over the
+   * keys of the index. Default: 100
+   */
+  sampleSize?: number;
+
+  /** Values of ef to measure. Default: the index's efConstruction */
+  efValues?: number[];
+
+  /** Only sample and return keys passing this predicate */
+  filter?: QueryFilter;
+}
+
+/**
+ * Latency percentiles in milliseconds.
+ */
+export interface LatencyStats {
+  mean: number;
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+export interface RecallBenchmarkRun {
+  ef: number;
+  /** Mean share of the exact k nearest neighbors found by the graph search */
+  recall: number;
+  latency: LatencyStats;
+  /** Mean number of distance computations per query */
+  distanceCalls: number;
+}
+
+export interface RecallBenchmarkReport {
+  /** Graph parameters of the measured index */
+  index: { m: number; mMax0: number; efConstruction: number };
+  k: number;
+  sampleSize: number;
+  /** Cost of the exact scan used as ground truth */
+  exact: { latency: LatencyStats; distanceCalls: number };
+  runs: RecallBenchmarkRun[];
+}
+
+/**
+ * Percentile of sorted values, with the nearest-rank method.
+ */
+const percentile = (sortedValues: number[], p: number) => {
+  if (sortedValues.length === 0) {
+    return 0;
+  }
+  const rank = Math.ceil((p / 100) * sortedValues.length);
+  return sortedValues[Math.max(rank, 1) - 1];
+};
+
+/**
+ * Mean and percentiles of durations in milliseconds.
+ */
+export const latencyStats = (durations: number[]): LatencyStats => {
+  const sorted = [...durations].sort((a, b) => a - b);
+  const total = sorted.reduce((sum, duration) => sum + duration, 0);
+  return {
+    mean: sorted.length === 0 ? 0 : total / sorted.length,
+    p50: percentile(sorted, 50),
+    p95: percentile(sorted, 95),
+    p99: percentile(sorted, 99)
+  };
+};
+
+/**
+ * Share of the expected keys that were found.
+ */
+export const recallAtK = (found: string[], expected: string[]) => {
+  if (expected.length === 0) {
+    return 1;
+  }
+  const foundKeys = new Set(found);
+  const hits = expected.filter(key => foundKeys.has(key)).length;
+  return hits / expected.length;
+};
+
+/**
+ * Measure recall@k, latency and distance computations of query() against
+ * the exact results of bruteForceQuery(), for each value of ef.
+ * @param index The index to measure
+ * @param options Benchmark options
+ */
+export const benchmarkRecall = async (
+  index: HNSW,
+  options: RecallBenchmarkOptions = {}
+): Promise<RecallBenchmarkReport> => {
+  const k = options.k ?? 10;
+  const sampleSize = options.sampleSize ?? 100;
+  const efValues = options.efValues ?? [index.efConstruction];
+  if (!Number.isInteger(k) || k < 1) {
+    throw Error(`k must be a positive integer, got ${k}`);
+  }
+  if (!Number.isInteger(sampleSize) || sampleSize < 1) {
+    throw Error(`sampleSize must be a positive integer, got ${sampleSize}`);
+  }
+
+  await index.ready();
+
+  // Spread the sample evenly over the live keys
+  const keys: string[] = [];
+  for (const key of await index.nodes.keys()) {
+    const node = await index.nodes.get(key, 0);
+    if (
+      node !== undefined &&
+      !node.isDeleted &&
+      (options.filter === undefined || options.filter(key))
+    ) {
+      keys.push(key);
+    }
+  }
+  const step = Math.max(keys.length / sampleSize, 1);
+  const sampleKeys: string[] = [];
+  for (let i = 0; i < keys.length && sampleKeys.length < sampleSize; i += step) {
+    sampleKeys.push(keys[Math.floor(i)]);
+  }
+
+  const queries = [];
+  for (const key of sampleKeys) {
+    queries.push(await index.getVector(key));
+  }
+
+  // Ground truth
+  const exactKeys: string[][] = [];
+  const exactDurations: number[] = [];
+  let exactCalls = 0;
+  for (const query of queries) {
+    const callsBefore = index._distanceFunctionCallTimes;
+    const start = performance.now();
+    const { keys } = await index.bruteForceQuery(query, k, options.filter);
+    exactDurations.push(performance.now() - start);
+    exactCalls += index._distanceFunctionCallTimes - callsBefore;
+    exactKeys.push(keys);
+  }
+
+  const runs: RecallBenchmarkRun[] = [];
+  for (const ef of efValues) {
+    let recall = 0;
+    let calls = 0;
+    const durations: number[] = [];
+
+    for (const [i, query] of queries.entries()) {
+      const callsBefore = index._distanceFunctionCallTimes;
+      const start = performance.now();
+      const { keys } = await index.query(query, k, ef, options.filter);
+      durations.push(performance.now() - start);
+      calls += index._distanceFunctionCallTimes - callsBefore;
+      recall += recallAtK(keys, exactKeys[i]);
+    }
+
+    const count = Math.max(queries.length, 1);
+    runs.push({
+      ef,
+      recall: recall / count,
+      latency: latencyStats(durations),
+      distanceCalls: calls / count
+    });
+  }
+
+  return {
+    index: { m: index.m, mMax0: index.mMax0, efConstruction: index.efConstruction },
+    k,
+    sampleSize: queries.length,
+    exact: {
+      latency: latencyStats(exactDurations),
+      distanceCalls: exactCalls / Math.max(queries.length, 1)
+    },
+    runs
+  };
+};
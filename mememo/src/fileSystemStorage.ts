@@ -0,0 +1,288 @@
+/**
+ * Filesystem storage backend for Node.js. Each database is an append-only
+ * JSON-lines log of its writes, replayed into memory when the database is
+ * opened and rewritten from memory once it has grown enough.
+ */
+
+import {
+  MemoryStorageDatabase,
+  StorageBackend,
+  StorageDatabase,
+  StorageOperation
+} from './storage';
+
+type FileSystem = typeof import('fs/promises');
+
+interface FileSystemStorageConfig {
+  /** Directory holding the database files. It is created if needed. */
+  directory: string;
+
+  /**
+   * Rewrite a log once it holds this many operations more than the number of
+   * rows it describes. Default: 10000
+   */
+  compactionThreshold?: number;
+}
+
+const TYPED_ARRAYS = {
+  Float32Array,
+  Float64Array,
+  Int8Array,
+  Uint8Array,
+  Int16Array,
+  Uint16Array,
+  Int32Array,
+  Uint32Array
+};
+
+type TypedArrayName = keyof typeof TYPED_ARRAYS;
+
+/**
+ * JSON replacer writing typed arrays as base64 strings of their bytes.
+ */
+const encodeTypedArrays = (_key: string, value: unknown) => {
+  if (ArrayBuffer.isView(value) && !(value instanceof DataView)) {
+    const bytes = Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+    return {
+      $typedArray: value.constructor.name as TypedArrayName,
+      base64: bytes.toString('base64')
+    };
+  }
+  return value;
+};
+
+/**
+ * JSON reviver restoring typed arrays written by encodeTypedArrays().
+ */
+const decodeTypedArrays = (_key: string, value: unknown) => {
+  if (
+    typeof value === 'object' &&
+    value !== null &&
+    '$typedArray' in value &&
+    'base64' in value
+  ) {
+    const { $typedArray, base64 } = value as {
+      $typedArray: TypedArrayName;
+      base64: string;
+    };
+    const bytes = Buffer.from(base64, 'base64');
+    // Copy into a fresh buffer so the view is aligned
+    const buffer = bytes.buffer.slice(
+      bytes.byteOffset,
+      bytes.byteOffset + bytes.byteLength
+    );
+    return new TYPED_ARRAYS[$typedArray](buffer);
+  }
+  return value;
+};
+
+/**
+ * A database stored in one log file.
+ */
+export class FileSystemStorageDatabase extends MemoryStorageDatabase {
+  path: string;
+  compactionThreshold: number;
+
+  /** Number of operations in the log file */
+  logSize = 0;
+
+  _fs: FileSystem | null = null;
+  _loadPromise: Promise<void> | null = null;
+  _writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(
+    name: string,
+    tables: string[],
+    path: string,
+    compactionThreshold: number
+  ) {
+    super(name, tables);
+    this.path = path;
+    this.compactionThreshold = compactionThreshold;
+  }
+
+  /**
+   * Load the log file into memory (once).
+   */
+  async open() {
+    if (this._loadPromise === null) {
+      this._loadPromise = this._load();
+    }
+    await this._loadPromise;
+  }
+
+  /**
+   * Wait for pending writes. The database is re-loaded from disk the next
+   * time it is used.
+   */
+  async close() {
+    await this._writeQueue;
+    this._loadPromise = null;
+  }
+
+  /**
+   * Remove the log file. The database is empty when it is used again.
+   */
+  async delete() {
+    await this.close();
+    const fs = await import('fs/promises');
+    await fs.rm(this.path, { force: true });
+  }
+
+  /**
+   * Rewrite the log with one put per row.
+   */
+  async compact() {
+    await this.transaction([], async () => {
+      await this._enqueue(() => this._rewrite());
+    });
+  }
+
+  async _load() {
+    this._fs = await import('fs/promises');
+    const { dirname } = await import('path');
+    await this._fs.mkdir(dirname(this.path), { recursive: true });
+
+    for (const rows of this.tables.values()) {
+      rows.clear();
+    }
+    this._indexes.clear();
+    this.logSize = 0;
+
+    let content = '';
+    try {
+      content = await this._fs.readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    const lines = content.split('\n');
+    let offset = 0;
+    for (const [i, line] of lines.entries()) {
+      const lineStart = offset;
+      offset += line.length + 1;
+      if (line.length === 0) continue;
+
+      let operations: StorageOperation[];
+      try {
+        operations = JSON.parse(line, decodeTypedArrays);
+      } catch (error) {
+        // A torn last line is a write that never completed: cut it off so
+        // the next append starts on a fresh line
+        if (i === lines.length - 1) {
+          const validBytes = Buffer.byteLength(content.slice(0, lineStart));
+          await this._fs.truncate(this.path, validBytes);
+          break;
+        }
+        throw Error(`Corrupted storage file ${this.path} at line ${i + 1}`);
+      }
+
+      for (const operation of operations) {
+        if (this.tables.has(operation[1])) {
+          this._apply(operation);
+        }
+      }
+      this.logSize += operations.length;
+    }
+  }
+
+  async _commit(operations: StorageOperation[]) {
+    if (operations.length === 0) {
+      return;
+    }
+
+    const line = JSON.stringify(operations, encodeTypedArrays) + '\n';
+    await this._enqueue(async () => {
+      await this._fs!.appendFile(this.path, line);
+      this.logSize += operations.length;
+
+      let rowCount = 0;
+      for (const rows of this.tables.values()) {
+        rowCount += rows.size;
+      }
+      if (this.logSize - rowCount > this.compactionThreshold) {
+        await this._rewrite();
+      }
+    });
+  }
+
+  /**
+   * Write the current content to a temporary file and move it over the log,
+   * so a crash leaves either the old or the new file.
+   */
+  async _rewrite() {
+    const lines: string[] = [];
+    let logSize = 0;
+    for (const [table, rows] of this.tables) {
+      for (const [key, value] of rows) {
+        const operation: StorageOperation = ['put', table, key, value];
+        lines.push(JSON.stringify([operation], encodeTypedArrays) + '\n');
+        logSize += 1;
+      }
+    }
+
+    const temporaryPath = `${this.path}.tmp`;
+    await this._fs!.writeFile(temporaryPath, lines.join(''));
+    await this._fs!.rename(temporaryPath, this.path);
+    this.logSize = logSize;
+  }
+
+  /**
+   * Run file writes one after another, in call order.
+   */
+  _enqueue(write: () => Promise<void>) {
+    const result = this._writeQueue.then(write);
+    // Keep the queue going after a failed write
+    this._writeQueue = result.catch(() => {});
+    return result;
+  }
+}
+
+/**
+ * Persist databases as files in a directory (Node.js only).
+ */
+export class FileSystemStorage implements StorageBackend {
+  directory: string;
+  compactionThreshold: number;
+  databases = new Map<string, FileSystemStorageDatabase>();
+
+  constructor({ directory, compactionThreshold = 10000 }: FileSystemStorageConfig) {
+    this.directory = directory;
+    this.compactionThreshold = compactionThreshold;
+  }
+
+  open(name: string, tables: string[]): StorageDatabase {
+    let database = this.databases.get(name);
+    if (database === undefined) {
+      database = new FileSystemStorageDatabase(
+        name,
+        tables,
+        this.pathOf(name),
+        this.compactionThreshold
+      );
+      this.databases.set(name, database);
+    }
+    return database;
+  }
+
+  async delete(name: string) {
+    const database = this.databases.get(name);
+    if (database !== undefined) {
+      await database.delete();
+    } else {
+      const fs = await import('fs/promises');
+      await fs.rm(this.pathOf(name), { force: true });
+    }
+  }
+
+  /**
+   * Path of the log file of a database. Names are URI-encoded so any
+   * database name maps to a single file.
+   */
+  pathOf(name: string) {
+    const separator = this.directory.endsWith('/') ? '' : '/';
+    return `${this.directory}${separator}${encodeURIComponent(name)}.jsonl`;
+  }
+}
@@ -1 +1,4 @@
 export * from './mememo';
+export * from './storage';
+export * from './fileSystemStorage';
+export * from './benchmark';
@@ -7,15 +7,58 @@
 import { randomLcg, randomUniform } from 'd3-random';
 import { MinHeap, MaxHeap, IGetCompareValue } from '@datastructures-js/heap';
 import Dexie from 'dexie';
-import type { Table, PromiseExtended, IndexableType } from 'dexie';
-
-type BuiltInDistanceFunction = 'cosine' | 'cosine-normalized';
+import {
+  createQuantizer,
+  loadQuantizer,
+  QuantizationConfig,
+  QuantizedVector,
+  Quantizer,
+  QuantizerJSON
+} from './quantization';
+import {
+  DexieStorageDatabase,
+  StorageBackend,
+  StorageDatabase,
+  StorageTable
+} from './storage';
+
+export type {
+  QuantizationConfig,
+  QuantizedVector,
+  Quantizer,
+  QuantizerJSON
+} from './quantization';
+
+export type {
+  StorageBackend,
+  StorageDatabase,
+  StorageTable
+} from './storage';
+
+export type BuiltInDistanceFunction =
+  | 'cosine'
+  | 'cosine-normalized'
+  | 'l2'
+  | 'inner-product'
+  | 'l1';
 
 interface SearchNodeCandidate {
   key: string;
   distance: number;
 }
 
+/**
+ * Predicate deciding whether a node can be returned by a query. Nodes that
+ * fail the predicate are still traversed, so the search keeps moving through
+ * the graph until it finds enough matching nodes.
+ */
+export type QueryFilter = (key: string) => boolean;
+
+/**
+ * An embedding accepted by the index. Nodes always store Float32Array values.
+ */
+export type EmbeddingVector = number[] | Float32Array;
+
 export interface MememoIndexJSON {
   distanceFunctionType: BuiltInDistanceFunction | 'custom';
   m: number;
@@ -27,38 +70,282 @@ export interface MememoIndexJSON {
   useDistanceCache: boolean;
   entryPointKey: string | null;
   graphLayers: Record<string, Record<string, number>>[];
+  /** Quantizer (including a trained codebook) and re-rank size, if enabled */
+  quantization?: (QuantizerJSON & { rerank: number }) | null;
+  /** Id of the model that produced the stored embeddings, if known */
+  embeddingModel?: string | null;
+  /** Length of the stored embeddings, null while the index is empty */
+  dimensions?: number | null;
 }
 
 // Built-in distance functions
 const DISTANCE_FUNCTIONS: Record<
   BuiltInDistanceFunction,
-  (a: number[], b: number[]) => number
+  (a: EmbeddingVector, b: EmbeddingVector) => number
 > = {
-  cosine: (a: number[], b: number[]) => {
-    const dotProduct = a.reduce(
-      (sum, value, index) => sum + value * b[index],
-      0
-    );
-    const magnitudeA = Math.sqrt(a.reduce((sum, value) => sum + value ** 2, 0));
-    const magnitudeB = Math.sqrt(b.reduce((sum, value) => sum + value ** 2, 0));
-    return 1 - dotProduct / (magnitudeA * magnitudeB);
+  cosine: (a: EmbeddingVector, b: EmbeddingVector) => {
+    let dotProduct = 0;
+    let squaredNormA = 0;
+    let squaredNormB = 0;
+    for (let i = 0; i < a.length; i++) {
+      dotProduct += a[i] * b[i];
+      squaredNormA += a[i] * a[i];
+      squaredNormB += b[i] * b[i];
+    }
+    return 1 - dotProduct / (Math.sqrt(squaredNormA) * Math.sqrt(squaredNormB));
   },
 
-  'cosine-normalized': (a: number[], b: number[]) => {
-    const dotProduct = a.reduce(
-      (sum, value, index) => sum + value * b[index],
-      0
-    );
+  'cosine-normalized': (a: EmbeddingVector, b: EmbeddingVector) => {
+    let dotProduct = 0;
+    for (let i = 0; i < a.length; i++) {
+      dotProduct += a[i] * b[i];
+    }
+    return 1 - dotProduct;
+  },
+
+  // Euclidean distance
+  l2: (a: EmbeddingVector, b: EmbeddingVector) => {
+    let squaredSum = 0;
+    for (let i = 0; i < a.length; i++) {
+      const difference = a[i] - b[i];
+      squaredSum += difference * difference;
+    }
+    return Math.sqrt(squaredSum);
+  },
+
+  // 1 - dot product, so larger dot products are closer. Unlike
+  // 'cosine-normalized', vectors are not assumed to have unit length and the
+  // distance can be negative.
+  'inner-product': (a: EmbeddingVector, b: EmbeddingVector) => {
+    let dotProduct = 0;
+    for (let i = 0; i < a.length; i++) {
+      dotProduct += a[i] * b[i];
+    }
     return 1 - dotProduct;
+  },
+
+  // Manhattan distance
+  l1: (a: EmbeddingVector, b: EmbeddingVector) => {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) {
+      sum += Math.abs(a[i] - b[i]);
+    }
+    return sum;
   }
 };
 
+/**
+ * Convert a distance returned by the index into a similarity score where
+ * higher is better. Cosine and inner-product distances are 1 - similarity;
+ * unbounded metric distances (l1, l2) are mapped into (0, 1] with
+ * 1 / (1 + distance). Custom functions are assumed to be 1 - similarity.
+ * @param distance Distance between two vectors
+ * @param distanceFunctionType Distance function that produced the distance
+ */
+export const distanceToSimilarity = (
+  distance: number,
+  distanceFunctionType: BuiltInDistanceFunction | 'custom'
+) => {
+  switch (distanceFunctionType) {
+    case 'l2':
+    case 'l1':
+      return 1 / (1 + distance);
+    default:
+      return 1 - distance;
+  }
+};
+
+/**
+ * Convert a similarity score back into the largest distance that has at least
+ * this similarity, the inverse of distanceToSimilarity().
+ * @param similarity Similarity score
+ * @param distanceFunctionType Distance function of the index
+ */
+export const similarityToDistance = (
+  similarity: number,
+  distanceFunctionType: BuiltInDistanceFunction | 'custom'
+) => {
+  switch (distanceFunctionType) {
+    case 'l2':
+    case 'l1':
+      return similarity > 0 ? 1 / similarity - 1 : Infinity;
+    default:
+      return 1 - similarity;
+  }
+};
+
+/**
+ * Look up a built-in distance function by name.
+ * @param distanceFunctionType Name of the distance function
+ */
+const getBuiltInDistanceFunction = (
+  distanceFunctionType: BuiltInDistanceFunction
+) => {
+  const distanceFunction = DISTANCE_FUNCTIONS[distanceFunctionType];
+  if (distanceFunction === undefined) {
+    throw Error(`Unknown distance function: ${distanceFunctionType}`);
+  }
+  return distanceFunction;
+};
+
+/** Number of nodes compressed at a time after the quantizer is trained */
+const QUANTIZATION_BATCH_SIZE = 1000;
+
+/** Default name of the IndexedDB database storing nodes and graph metadata */
+export const DEFAULT_INDEX_DB_NAME = 'mememo-index-store';
+
+/**
+ * Open the IndexedDB database holding node embeddings ('mememo' table) and
+ * the serialized graph ('indexMetadata' table).
+ * @param dbName Name of the database
+ */
+export const openIndexDatabase = (dbName: string = DEFAULT_INDEX_DB_NAME) => {
+  const myDexie = new Dexie(dbName);
+  myDexie.version(1).stores({
+    mememo: 'key',
+    indexMetadata: 'id'
+  });
+  // Version 2: node values are stored as Float32Array instead of number[]
+  myDexie
+    .version(2)
+    .stores({
+      mememo: 'key',
+      indexMetadata: 'id'
+    })
+    .upgrade(tx =>
+      tx
+        .table('mememo')
+        .toCollection()
+        .modify((node: Node) => {
+          node.value = toFloat32Array(node.value);
+        })
+    );
+  // Version 3: full-precision vectors of quantized nodes, stored as plain
+  // Float32Arrays keyed by node key (outbound keys)
+  myDexie.version(3).stores({
+    mememo: 'key',
+    indexMetadata: 'id',
+    vectors: ''
+  });
+  return myDexie;
+};
+
+/** Tables of an index database */
+export const INDEX_DB_TABLES = ['mememo', 'indexMetadata', 'vectors'];
+
+/**
+ * Open the database of an index in a storage backend, or in IndexedDB if no
+ * backend is given.
+ * @param dbName Name of the database
+ * @param storage Optional storage backend
+ */
+export const openIndexStorage = (
+  dbName: string = DEFAULT_INDEX_DB_NAME,
+  storage?: StorageBackend | null
+): StorageDatabase => {
+  if (storage) {
+    return storage.open(dbName, INDEX_DB_TABLES);
+  }
+  return new DexieStorageDatabase(openIndexDatabase(dbName));
+};
+
+/** Key of the row of an index database pointing to its live generation */
+const INDEX_GENERATION_ID = 'generation';
+
+interface IndexGenerationRecord {
+  id: string;
+  generation: number;
+}
+
+/**
+ * Name of the database holding a generation of an index. Generation 0 is
+ * the index database itself. A new generation is built next to the live
+ * one and replaces it with setIndexGeneration(), so that readers never see
+ * a half-written index.
+ * @param dbName Name of the index database
+ * @param generation The generation
+ */
+export const indexGenerationName = (dbName: string, generation: number) => {
+  return generation === 0 ? dbName : `${dbName}@${generation}`;
+};
+
+/**
+ * Get the live generation of an index.
+ * @param dbName Name of the index database
+ * @param storage Optional storage backend
+ */
+export const getIndexGeneration = async (
+  dbName: string,
+  storage?: StorageBackend | null
+): Promise<number> => {
+  const record = await openIndexStorage(dbName, storage)
+    .table<IndexGenerationRecord>('indexMetadata')
+    .get(INDEX_GENERATION_ID);
+  return record?.generation ?? 0;
+};
+
+/**
+ * Make a generation the live generation of an index, in a single write.
+ * Indexes opened afterwards load it; the previous generation is left as it
+ * is, see discardIndexGeneration().
+ * @param dbName Name of the index database
+ * @param generation The new live generation
+ * @param storage Optional storage backend
+ */
+export const setIndexGeneration = async (
+  dbName: string,
+  generation: number,
+  storage?: StorageBackend | null
+) => {
+  const metadataTable = openIndexStorage(dbName, storage).table<IndexGenerationRecord>(
+    'indexMetadata'
+  );
+  if (generation === 0) {
+    await metadataTable.delete(INDEX_GENERATION_ID);
+  } else {
+    await metadataTable.put(INDEX_GENERATION_ID, { id: INDEX_GENERATION_ID, generation });
+  }
+};
+
+/**
+ * Delete the data of a generation of an index that is not live. Other rows
+ * of the index database, like the generation pointer, are kept.
+ * @param dbName Name of the index database
+ * @param generation The generation to delete
+ * @param storage Optional storage backend
+ */
+export const discardIndexGeneration = async (
+  dbName: string,
+  generation: number,
+  storage?: StorageBackend | null
+) => {
+  if (generation !== 0) {
+    await openIndexStorage(indexGenerationName(dbName, generation), storage).delete();
+    return;
+  }
+
+  const database = openIndexStorage(dbName, storage);
+  await database.transaction(INDEX_DB_TABLES, async transaction => {
+    await transaction.table('mememo').clear();
+    await transaction.table('vectors').clear();
+    await transaction.table('indexMetadata').delete('graph');
+  });
+};
+
+/**
+ * Convert an embedding to a Float32Array. Float32Array inputs are returned
+ * as they are, without copying.
+ * @param value The embedding
+ */
+export const toFloat32Array = (value: EmbeddingVector) => {
+  return value instanceof Float32Array ? value : Float32Array.from(value);
+};
+
 interface HNSWConfig {
   /** Distance function. */
   distanceFunction?:
-    | 'cosine'
-    | 'cosine-normalized'
-    | ((a: number[], b: number[]) => number);
+    | BuiltInDistanceFunction
+    | ((a: EmbeddingVector, b: EmbeddingVector) => number);
 
   /** Number of decimals to store for node distances. Default: 6 */
   distancePrecision?: number;
@@ -90,6 +377,29 @@ interface HNSWConfig {
    * Default to false (preserve data across sessions for persistence).
    */
   clearOnInit?: boolean;
+
+  /** Name of the IndexedDB database. Indexes with different names are fully
+   * isolated from each other. Default to 'mememo-index-store'.
+   */
+  dbName?: string;
+
+  /** Storage backend used instead of IndexedDB, e.g. FileSystemStorage in
+   * Node. Giving a backend enables persistence like useIndexedDB does.
+   */
+  storage?: StorageBackend;
+
+  /**
+   * Store compressed vectors (int8 or product quantization) and use them for
+   * graph traversal. Full-precision vectors are kept for re-ranking.
+   */
+  quantization?: QuantizationConfig;
+
+  /**
+   * Id of the model producing the embeddings given to this instance. It is
+   * recorded with the index; an index recorded with another model refuses
+   * inserts and queries.
+   */
+  embeddingModel?: string;
 }
 
 /**
@@ -175,6 +485,19 @@ class LRUCache<T> {
     return this.cache.size;
   }
 
+  /**
+   * Remove an item from cache (O(1))
+   */
+  delete(key: string): void {
+    const node = this.cache.get(key);
+    if (node === undefined) {
+      return;
+    }
+
+    this._removeNode(node);
+    this.cache.delete(key);
+  }
+
   /**
    * Clear all items from cache (O(1))
    */
@@ -277,14 +600,20 @@ class Node {
   key: string;
 
   /** The embedding value of the element. */
-  value: number[];
+  value: Float32Array;
 
   /** Whether the node is marked as deleted. */
   isDeleted: boolean;
 
-  constructor(key: string, value: number[]) {
+  /**
+   * Compressed embedding of a quantized node. Quantized nodes have an empty
+   * `value`; their full-precision vector is kept in the vectors store.
+   */
+  code?: QuantizedVector;
+
+  constructor(key: string, value: EmbeddingVector) {
     this.key = key;
-    this.value = value;
+    this.value = toFloat32Array(value);
     this.isDeleted = false;
   }
 }
@@ -294,11 +623,14 @@ class Node {
  */
 class NodesInMemory {
   nodesMap: Map<string, Node>;
+  /** Full-precision vectors of quantized nodes */
+  vectorsMap: Map<string, Float32Array>;
   shouldPreComputeDistance = false;
   distanceCache: Map<string, number> = new Map<string, number>();
 
   constructor() {
     this.nodesMap = new Map<string, Node>();
+    this.vectorsMap = new Map<string, Float32Array>();
   }
 
   // eslint-disable-next-line @typescript-eslint/require-await
@@ -333,9 +665,38 @@ class NodesInMemory {
     }
   }
 
+  // eslint-disable-next-line @typescript-eslint/require-await
+  async bulkGet(keys: string[]) {
+    return keys.map(key => this.nodesMap.get(key));
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  async values() {
+    return [...this.nodesMap.values()];
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  async getVectors(keys: string[]) {
+    return keys.map(key => this.vectorsMap.get(key));
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  async bulkSetVectors(keys: string[], vectors: Float32Array[]) {
+    for (const [i, key] of keys.entries()) {
+      this.vectorsMap.set(key, vectors[i]);
+    }
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  async delete(key: string) {
+    this.nodesMap.delete(key);
+    this.vectorsMap.delete(key);
+  }
+
   // eslint-disable-next-line @typescript-eslint/require-await
   async clear() {
     this.nodesMap = new Map<string, Node>();
+    this.vectorsMap = new Map<string, Float32Array>();
   }
 
   preComputeDistance(insertKey: string) {
@@ -344,17 +705,22 @@ class NodesInMemory {
 }
 
 /**
- * An abstraction of a map storing nodes in indexedDB
+ * An abstraction of a map storing nodes in indexedDB (or another storage
+ * backend)
  */
 class NodesInIndexedDB {
   nodesCache: LRUCache<Node>;
-  dbPromise: PromiseExtended<Table<Node, IndexableType>>;
+  dbPromise: Promise<StorageTable<Node>>;
+  /** Full-precision vectors of quantized nodes */
+  vectorsPromise: Promise<StorageTable<Float32Array>>;
   /**
    * Graph layers from the index. We need it to pre-fetch data from indexedDB
    */
   graphLayers: GraphLayer[];
   prefetchSize: number;
   hasSetPrefetchSize: boolean;
+  /** Whether the prefetch size is derived from the node size */
+  autoPrefetchSize: boolean;
   _prefetchTimes = 0;
 
   shouldPreComputeDistance = false;
@@ -366,19 +732,23 @@ class NodesInIndexedDB {
    * @param graphLayers Graph layers used to pre-fetch embeddings form indexedDB
    * @param prefetchSize Number of items to prefetch.
    * @param clearOnInit Whether to clear the IndexedDB on initialization. Default false (preserve data).
+   * @param database Database of the index, see openIndexStorage(). May be
+   * given as a promise while the live generation of the index is looked up.
    */
   constructor(
     graphLayers: GraphLayer[],
     shouldPreComputeDistance: boolean,
     clearOnInit: boolean = false,
     prefetchSize?: number,
-    distanceCacheMaxSize = 4096
+    distanceCacheMaxSize = 4096,
+    database: StorageDatabase | Promise<StorageDatabase> = openIndexStorage()
   ) {
     // Initialize LRU cache with prefetch size (will be updated based on embedding dim)
     this.prefetchSize = prefetchSize !== undefined ? prefetchSize : 8000;
     this.nodesCache = new LRUCache<Node>(this.prefetchSize);
     this.graphLayers = graphLayers;
 
+    this.autoPrefetchSize = prefetchSize === undefined;
     if (prefetchSize !== undefined) {
       this.hasSetPrefetchSize = true;
     } else {
@@ -394,18 +764,25 @@ class NodesInIndexedDB {
     this.distanceCacheMaxSize = distanceCacheMaxSize;
 
     // Create a new store, clear content from previous sessions if clearOnInit is true
-    const myDexie = new Dexie('mememo-index-store');
-    myDexie.version(1).stores({
-      mememo: 'key',
-      indexMetadata: 'id'
-    });
-    const db = myDexie.table<Node>('mememo');
+    const databasePromise = Promise.resolve(database);
+    const dbPromise = databasePromise.then(resolved => resolved.table<Node>('mememo'));
+    const vectorsPromise = databasePromise.then(resolved =>
+      resolved.table<Float32Array>('vectors')
+    );
     
     // Clear or preserve data based on clearOnInit flag
     if (clearOnInit) {
-      this.dbPromise = db.clear().then(() => db);
+      this.dbPromise = dbPromise.then(async db => {
+        await db.clear();
+        return db;
+      });
+      this.vectorsPromise = vectorsPromise.then(async vectorsDb => {
+        await vectorsDb.clear();
+        return vectorsDb;
+      });
     } else {
-      this.dbPromise = Promise.resolve(db) as PromiseExtended<Table<Node, IndexableType>>;
+      this.dbPromise = dbPromise;
+      this.vectorsPromise = vectorsPromise;
     }
   }
 
@@ -436,10 +813,10 @@ class NodesInIndexedDB {
 
   async set(key: string, value: Node) {
     if (!this.hasSetPrefetchSize) {
-      this._updateAutoPrefetchSize(value.value.length);
+      this._updateAutoPrefetchSize(value);
     }
     const db = await this.dbPromise;
-    await db.put(value, key);
+    await db.put(key, value);
 
     // Also update the value in the memory copy if it's there
     if (this.nodesCache.has(key)) {
@@ -449,39 +826,89 @@ class NodesInIndexedDB {
 
   async keys() {
     const db = await this.dbPromise;
-    const results = (await db.toCollection().primaryKeys()) as string[];
-    return results;
+    return await db.keys();
   }
 
   async bulkSet(keys: string[], values: Node[]) {
     if (!this.hasSetPrefetchSize && values.length > 0) {
-      this._updateAutoPrefetchSize(values[0].value.length);
+      this._updateAutoPrefetchSize(values[0]);
     }
 
     const db = await this.dbPromise;
-    await db.bulkPut(values);
+    await db.bulkPut(keys, values);
 
     // Also update the nodes in LRU cache (cache will auto-evict if at capacity)
-    for (let i = 0; i < Math.min(this.prefetchSize, keys.length); i++) {
-      this.nodesCache.set(keys[i], values[i]);
+    for (let i = 0; i < keys.length; i++) {
+      if (i < this.prefetchSize || this.nodesCache.has(keys[i])) {
+        this.nodesCache.set(keys[i], values[i]);
+      }
     }
   }
 
+  /**
+   * Get stored nodes without going through the cache, e.g. to rewrite many
+   * nodes a batch at a time.
+   * @param keys Node keys
+   */
+  async bulkGet(keys: string[]) {
+    const db = await this.dbPromise;
+    return await db.bulkGet(keys);
+  }
+
+  async values() {
+    const db = await this.dbPromise;
+    return await db.toArray();
+  }
+
+  async getVectors(keys: string[]) {
+    const vectorsDb = await this.vectorsPromise;
+    return await vectorsDb.bulkGet(keys);
+  }
+
+  async bulkSetVectors(keys: string[], vectors: Float32Array[]) {
+    const vectorsDb = await this.vectorsPromise;
+    await vectorsDb.bulkPut(keys, vectors);
+  }
+
+  async delete(key: string) {
+    const db = await this.dbPromise;
+    await db.delete(key);
+    const vectorsDb = await this.vectorsPromise;
+    await vectorsDb.delete(key);
+    this.nodesCache.delete(key);
+  }
+
   async clear() {
     const db = await this.dbPromise;
     await db.clear();
+    const vectorsDb = await this.vectorsPromise;
+    await vectorsDb.clear();
+  }
+
+  /**
+   * Size the cache again with the next node that is stored, e.g. after nodes
+   * have been quantized. Has no effect if the prefetch size was given.
+   */
+  resetAutoPrefetchSize() {
+    if (this.autoPrefetchSize) {
+      this.hasSetPrefetchSize = false;
+    }
   }
 
   /**q
    * Automatically update the prefetch size based on the size of embeddings.
    * The goal is to control the memory usage under 50MB.
-   * 50MB ~= 6.25M numbers (8 bytes) ~= 16k 384-dim arrays
+   * 50MB ~= 6.25M numbers (8 bytes) ~= 16k 384-dim arrays. Quantized nodes
+   * are counted by the bytes of their codes.
    */
-  _updateAutoPrefetchSize(embeddingDim: number) {
+  _updateAutoPrefetchSize(node: Node) {
     if (!this.hasSetPrefetchSize) {
       const targetMemory = 50e6;
-      const numFloats = Math.floor(targetMemory / 8);
-      this.prefetchSize = Math.floor(numFloats / embeddingDim);
+      const nodeBytes =
+        node.code === undefined
+          ? node.value.length * 8
+          : node.code.codes.byteLength;
+      this.prefetchSize = Math.floor(targetMemory / Math.max(nodeBytes, 1));
       this.hasSetPrefetchSize = true;
       
       // Update LRU cache capacity to match new prefetch size
@@ -707,13 +1134,24 @@ class GraphLayer {
  */
 export class HNSW {
   distanceFunction: (
-    a: number[],
-    b: number[],
+    a: EmbeddingVector,
+    b: EmbeddingVector,
     aKey: string | null,
     bKey: string | null
   ) => number;
   distanceFunctionType: BuiltInDistanceFunction | 'custom';
+  /** The distance function without caching and rounding */
+  private _rawDistanceFunction: (
+    a: EmbeddingVector,
+    b: EmbeddingVector
+  ) => number;
   _distanceFunctionCallTimes = 0;
+
+  /** Distances to codes from the embeddings being searched, see _distanceTo() */
+  _codeDistances = new WeakMap<
+    EmbeddingVector,
+    { quantizer: Quantizer; distance: ((code: QuantizedVector) => number) | null }
+  >();
   _distanceFunctionSkipTimes = 0;
   useDistanceCache = false;
   distancePrecision = 6;
@@ -745,6 +1183,33 @@ export class HNSW {
 
   useIndexedDB = true;
 
+  /** Name of the IndexedDB database */
+  dbName: string = DEFAULT_INDEX_DB_NAME;
+
+  /** Storage backend used instead of IndexedDB, null for IndexedDB */
+  storage: StorageBackend | null = null;
+
+  /** Database of the live generation of the index, see _indexStorage() */
+  private _indexDatabase: Promise<StorageDatabase> | null = null;
+
+  /** Quantization options, null if vectors are stored uncompressed */
+  quantization: QuantizationConfig | null = null;
+
+  /** Quantizer used for stored vectors */
+  quantizer: Quantizer | null = null;
+
+  /** Number of top candidates re-ranked with full-precision vectors */
+  rerank = 0;
+
+  /** Id of the model that produced the stored embeddings, if known */
+  embeddingModel: string | null = null;
+
+  /** Length of the stored embeddings, detected from the first insert */
+  dimensions: number | null = null;
+
+  /** Model of the embeddings given to this instance, from the config */
+  private _configuredModel: string | null = null;
+
   /** Promise for async initialization */
   private _initPromise: Promise<void> | null = null;
 
@@ -775,6 +1240,10 @@ export class HNSW {
    * @param config.seed - Optional random seed.
    * @param config.useIndexedDB - Whether to use indexedDB
    * @param config.distancePrecision - How many decimals to store for distances
+   * @param config.dbName - Name of the IndexedDB database
+   * @param config.storage - Optional storage backend replacing IndexedDB
+   * @param config.quantization - Optional int8 or product quantization
+   * @param config.embeddingModel - Id of the model producing the embeddings
    */
   constructor({
     distanceFunction,
@@ -785,7 +1254,11 @@ export class HNSW {
     seed,
     useIndexedDB,
     distancePrecision,
-    clearOnInit
+    clearOnInit,
+    dbName,
+    storage,
+    quantization,
+    embeddingModel
   }: HNSWConfig) {
     // Initialize HNSW parameters
     this.m = m || 16;
@@ -794,27 +1267,30 @@ export class HNSW {
     this.ml = ml || 1 / Math.log(this.m);
     this.seed = seed || randomUniform()();
     this.distancePrecision = distancePrecision || 6;
+    this.dbName = dbName || DEFAULT_INDEX_DB_NAME;
+    this.storage = storage ?? null;
+    this._configuredModel = embeddingModel ?? null;
+    this.embeddingModel = this._configuredModel;
+
+    if (quantization !== undefined) {
+      this.quantization = quantization;
+      this.quantizer = createQuantizer(quantization);
+      this.rerank = quantization.rerank ?? 0;
+    }
 
     this.rng = randomLcg(this.seed);
 
     // Set the distance function type
-    let _distanceFunction = DISTANCE_FUNCTIONS['cosine-normalized'];
-    this.distanceFunctionType = 'cosine-normalized';
-
     if (distanceFunction === undefined) {
-      _distanceFunction = DISTANCE_FUNCTIONS['cosine-normalized'];
       this.distanceFunctionType = 'cosine-normalized';
+      this._rawDistanceFunction = DISTANCE_FUNCTIONS['cosine-normalized'];
     } else {
       if (typeof distanceFunction === 'string') {
-        _distanceFunction = DISTANCE_FUNCTIONS[distanceFunction];
-        if (distanceFunction === 'cosine-normalized') {
-          this.distanceFunctionType = 'cosine-normalized';
-        } else if (distanceFunction === 'cosine') {
-          this.distanceFunctionType = 'cosine';
-        }
+        this.distanceFunctionType = distanceFunction;
+        this._rawDistanceFunction = getBuiltInDistanceFunction(distanceFunction);
       } else {
-        _distanceFunction = distanceFunction;
         this.distanceFunctionType = 'custom';
+        this._rawDistanceFunction = distanceFunction;
       }
     }
 
@@ -825,7 +1301,7 @@ export class HNSW {
     // Data structures
     this.graphLayers = [];
 
-    if (useIndexedDB === undefined || useIndexedDB === false) {
+    if ((useIndexedDB === undefined || useIndexedDB === false) && !storage) {
       this.useIndexedDB = false;
       this.nodes = new NodesInMemory();
     } else {
@@ -834,7 +1310,10 @@ export class HNSW {
       this.nodes = new NodesInIndexedDB(
         this.graphLayers,
         this.useDistanceCache,
-        shouldClearOnInit
+        shouldClearOnInit,
+        undefined,
+        undefined,
+        this._indexStorage()
       );
 
       // If not clearing on init, try to load persisted index
@@ -848,14 +1327,17 @@ export class HNSW {
 
     // Set the distance function which has access to the distance cache
     this.distanceFunction = (
-      a: number[],
-      b: number[],
+      a: EmbeddingVector,
+      b: EmbeddingVector,
       aKey: string | null,
       bKey: string | null
     ) => {
       if (!this.useDistanceCache || aKey === null || bKey === null) {
         this._distanceFunctionCallTimes += 1;
-        const distance = round(_distanceFunction(a, b), this.distancePrecision);
+        const distance = round(
+          this._rawDistanceFunction(a, b),
+          this.distancePrecision
+        );
         return distance;
       }
 
@@ -874,7 +1356,10 @@ export class HNSW {
       }
 
       // Fallback
-      const distance = round(_distanceFunction(a, b), this.distancePrecision);
+      const distance = round(
+        this._rawDistanceFunction(a, b),
+        this.distancePrecision
+      );
       this._distanceFunctionCallTimes += 1;
       return distance;
     };
@@ -897,7 +1382,13 @@ export class HNSW {
       useIndexedDB: this.useIndexedDB,
       useDistanceCache: this.useDistanceCache,
       entryPointKey: this.entryPointKey,
-      graphLayers: graphLayers
+      graphLayers: graphLayers,
+      quantization:
+        this.quantizer === null
+          ? null
+          : { ...this.quantizer.toJSON(), rerank: this.rerank },
+      embeddingModel: this.embeddingModel,
+      dimensions: this.dimensions
     };
 
     return mememoIndex;
@@ -906,11 +1397,33 @@ export class HNSW {
   /**
    * Load HNSW index from a JSON object. Note that the nodes' embeddings ARE NOT
    * loaded. You need to call insertSkipIndexing() to insert node embeddings
-   * AFTER this call.
+   * AFTER this call. Built-in distance functions are restored from their
+   * name; a 'custom' index keeps the distance function of this instance.
    * @param mememoIndex JSON format of the created index
    */
   loadIndex(mememoIndex: MememoIndexJSON) {
+    if (mememoIndex.distanceFunctionType !== 'custom') {
+      this._rawDistanceFunction = getBuiltInDistanceFunction(
+        mememoIndex.distanceFunctionType
+      );
+    }
     this.distanceFunctionType = mememoIndex.distanceFunctionType;
+    if (mememoIndex.quantization) {
+      const { rerank, ...quantizerJSON } = mememoIndex.quantization;
+      this.quantizer = loadQuantizer(quantizerJSON as QuantizerJSON);
+      this.rerank = rerank;
+      this.quantization =
+        quantizerJSON.type === 'int8'
+          ? { type: 'int8', rerank }
+          : {
+              type: 'pq',
+              subvectors: quantizerJSON.subvectors,
+              centroids: quantizerJSON.centroids,
+              trainingSize: quantizerJSON.trainingSize,
+              iterations: quantizerJSON.iterations,
+              rerank
+            };
+    }
     this.m = mememoIndex.m;
     this.efConstruction = mememoIndex.efConstruction;
     this.mMax0 = mememoIndex.mMax0;
@@ -919,6 +1432,9 @@ export class HNSW {
     this.useIndexedDB = mememoIndex.useIndexedDB;
     this.useDistanceCache = mememoIndex.useDistanceCache;
     this.entryPointKey = mememoIndex.entryPointKey;
+    // Indexes saved by older versions did not record the model
+    this.embeddingModel = mememoIndex.embeddingModel ?? this.embeddingModel;
+    this.dimensions = mememoIndex.dimensions ?? null;
 
     // Load the graph layers
     this.graphLayers = [];
@@ -928,6 +1444,24 @@ export class HNSW {
       graphLayer.loadJSON(graphJSON);
       this.graphLayers.push(graphLayer);
     }
+
+    // The IndexedDB store prefetches neighbors through the graph layers
+    if (this.nodes instanceof NodesInIndexedDB) {
+      this.nodes.graphLayers = this.graphLayers;
+    }
+  }
+
+  /**
+   * Database holding the live generation of the index, looked up once in
+   * the index database, see setIndexGeneration().
+   */
+  private _indexStorage(): Promise<StorageDatabase> {
+    if (!this._indexDatabase) {
+      this._indexDatabase = getIndexGeneration(this.dbName, this.storage).then(generation =>
+        openIndexStorage(indexGenerationName(this.dbName, generation), this.storage)
+      );
+    }
+    return this._indexDatabase;
   }
 
   /**
@@ -982,13 +1516,10 @@ export class HNSW {
     }
 
     const indexData = this.exportIndex();
-    const myDexie = new Dexie('mememo-index-store');
-    myDexie.version(1).stores({
-      mememo: 'key',
-      indexMetadata: 'id'
-    });
-    const metadataTable = myDexie.table('indexMetadata');
-    await metadataTable.put({ id: 'graph', data: indexData });
+    const metadataTable = (await this._indexStorage()).table(
+      'indexMetadata'
+    );
+    await metadataTable.put('graph', { id: 'graph', data: indexData });
   }
 
   /**
@@ -1001,12 +1532,10 @@ export class HNSW {
     }
 
     try {
-      const myDexie = new Dexie('mememo-index-store');
-      myDexie.version(1).stores({
-        mememo: 'key',
-        indexMetadata: 'id'
-      });
-      const metadataTable = myDexie.table('indexMetadata');
+      const metadataTable = (await this._indexStorage()).table<{
+        id: string;
+        data: MememoIndexJSON;
+      }>('indexMetadata');
       const record = await metadataTable.get('graph');
       return record ? record.data : null;
     } catch (error) {
@@ -1022,9 +1551,14 @@ export class HNSW {
    * @param maxLevel The max layer to insert this element. You don't need to set
    * this value in most cases. We add this parameter for testing purpose.
    */
-  async insert(key: string, value: number[], maxLevel?: number | undefined) {
+  async insert(
+    key: string,
+    value: EmbeddingVector,
+    maxLevel?: number | undefined
+  ) {
     // Wait for initialization to complete
     await this.ready();
+    this.checkEmbeddings([value]);
     
     // Randomly determine the max level of this node
     const level = maxLevel === undefined ? this._getRandomLevel() : maxLevel;
@@ -1048,13 +1582,19 @@ export class HNSW {
     }
 
     // Add this node to the node index first
-    await this.nodes.set(key, new Node(key, value));
+    const node = new Node(key, value);
+    const vector = node.value;
+    await this._quantizeNodes([node]);
+    await this.nodes.set(key, node);
+    this._recordEmbeddings([value]);
 
     // Insert the node to the graphs
-    await this._insertToGraph(key, value, level);
+    await this._insertToGraph(key, vector, level);
     
     // PHASE 4: Mark node as dirty for incremental save
     this._markDirty(key, level);
+
+    await this._trainQuantizerIfReady();
   }
 
   /**
@@ -1064,47 +1604,73 @@ export class HNSW {
    * @param maxLevel The max layer to insert this element. You don't need to set
    * this value in most cases. We add this parameter for testing purpose.
    */
-  async bulkInsert(keys: string[], values: number[][], maxLevels?: number[]) {
+  async bulkInsert(
+    keys: string[],
+    values: EmbeddingVector[],
+    maxLevels?: number[]
+  ) {
     // Wait for initialization to complete
     await this.ready();
+    this.checkEmbeddings(values);
     
-    const existingKeys = await this.nodes.keys();
+    const existingKeys = new Set(await this.nodes.keys());
 
-    // TODO: this method does not consider deleted nodes
-    for (const key of keys) {
-      if (existingKeys.includes(key)) {
+    // Nodes flagged as deleted are revived with their new value (same as
+    // insert()), all other existing keys are rejected
+    const revivedIndexes: number[] = [];
+    const newIndexes: number[] = [];
+    for (const [i, key] of keys.entries()) {
+      if (!existingKeys.has(key)) {
+        newIndexes.push(i);
+        continue;
+      }
+
+      const nodeInfo = await this._getNodeInfo(key, 0);
+      if (!nodeInfo.isDeleted) {
         throw Error(
           `There is already a node with key ${key} in the` +
             'index. Use update() to update this node.'
         );
       }
+      revivedIndexes.push(i);
     }
 
     // Bulk add nodes to the node index first
-    const newNodes: Node[] = [];
-    for (const [i, key] of keys.entries()) {
-      newNodes.push(new Node(key, values[i]));
-    }
+    const newKeys = newIndexes.map(i => keys[i]);
+    const newNodes: Node[] = newIndexes.map(i => new Node(keys[i], values[i]));
+    const newVectors = newNodes.map(node => node.value);
+    await this._quantizeNodes(newNodes);
 
-    await this.nodes.bulkSet(keys, newNodes);
+    await this.nodes.bulkSet(newKeys, newNodes);
+    this._recordEmbeddings(values);
 
     // const oldCallTimes = this._distanceFunctionCallTimes;
     // const oldSkipTimes = this._distanceFunctionCallTimes;
 
     // Insert the nodes to the graphs
-    for (const [i, key] of keys.entries()) {
+    for (const [j, i] of newIndexes.entries()) {
+      const key = keys[i];
       if (maxLevels === undefined) {
         const level = this._getRandomLevel();
-        await this._insertToGraph(key, values[i], level);
+        await this._insertToGraph(key, newVectors[j], level);
         // PHASE 4: Mark as dirty
         this._markDirty(key, level);
       } else {
-        await this._insertToGraph(key, values[i], maxLevels[i]);
+        await this._insertToGraph(key, newVectors[j], maxLevels[i]);
         // PHASE 4: Mark as dirty
         this._markDirty(key, maxLevels[i]);
       }
     }
 
+    for (const i of revivedIndexes) {
+      const nodeInfo = await this._getNodeInfo(keys[i], 0);
+      nodeInfo.isDeleted = false;
+      await this.nodes.set(keys[i], nodeInfo);
+      await this.update(keys[i], values[i]);
+    }
+
+    await this._trainQuantizerIfReady();
+
     // console.log('call times: ', this._distanceFunctionCallTimes - oldCallTimes);
     // console.log('skip times: ', this._distanceFunctionSkipTimes - oldSkipTimes);
     // console.log((this.nodes as NodesInIndexedDB<T>)._prefetchTimes);
@@ -1116,13 +1682,17 @@ export class HNSW {
    * @param key Key of the new element.
    * @param value The embedding of the new element to insert.
    */
-  async insertSkipIndex(key: string, value: number[]) {
+  async insertSkipIndex(key: string, value: EmbeddingVector) {
     // If the key already exists, throw an error
     if (await this.nodes.has(key)) {
       throw Error(`There is already a node with key ${key} in the index.`);
     }
 
-    await this.nodes.set(key, new Node(key, value));
+    this.checkEmbeddings([value]);
+    const node = new Node(key, value);
+    await this._quantizeNodes([node]);
+    await this.nodes.set(key, node);
+    this._recordEmbeddings([value]);
   }
 
   /**
@@ -1131,7 +1701,7 @@ export class HNSW {
    * @param keys Key of the new elements.
    * @param values The embeddings of the new elements to insert.
    */
-  async bulkInsertSkipIndex(keys: string[], values: number[][]) {
+  async bulkInsertSkipIndex(keys: string[], values: EmbeddingVector[]) {
     // If the key already exists, throw an error
     const existingKeys = await this.nodes.keys();
 
@@ -1141,12 +1711,51 @@ export class HNSW {
       }
     }
 
+    this.checkEmbeddings(values);
     const newNodes: Node[] = [];
     for (const [i, key] of keys.entries()) {
       newNodes.push(new Node(key, values[i]));
     }
 
+    await this._quantizeNodes(newNodes);
     await this.nodes.bulkSet(keys, newNodes);
+    this._recordEmbeddings(values);
+  }
+
+  /**
+   * Refuse embeddings of another model or length than the stored ones
+   * @param values Embeddings to insert or query with
+   */
+  checkEmbeddings(values: EmbeddingVector[]) {
+    if (
+      this._configuredModel !== null &&
+      this.embeddingModel !== null &&
+      this._configuredModel !== this.embeddingModel
+    ) {
+      throw Error(
+        `The index stores embeddings of model ${this.embeddingModel}, ` +
+          `but this instance uses model ${this._configuredModel}`
+      );
+    }
+
+    const dimensions = this.dimensions ?? values[0]?.length;
+    for (const value of values) {
+      if (value.length !== dimensions) {
+        throw Error(
+          `Expected embeddings with ${dimensions} dimensions, got ${value.length}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Record the model and length of embeddings stored in the index
+   * @param values Stored embeddings
+   */
+  _recordEmbeddings(values: EmbeddingVector[]) {
+    if (values.length === 0) return;
+    this.dimensions ??= values[0].length;
+    this.embeddingModel ??= this._configuredModel;
   }
 
   /**
@@ -1155,7 +1764,7 @@ export class HNSW {
    * @param value Embeddings of the new element
    * @param level Max level for this insert
    */
-  async _insertToGraph(key: string, value: number[], level: number) {
+  async _insertToGraph(key: string, value: EmbeddingVector, level: number) {
     if (this.entryPointKey !== null) {
       // Pre-compute the distance if possible
       if (this.nodes.shouldPreComputeDistance) {
@@ -1169,12 +1778,7 @@ export class HNSW {
       );
 
       // Start with the entry point
-      let minDistance = this.distanceFunction(
-        value,
-        entryPointInfo.value,
-        key,
-        entryPointInfo.key
-      );
+      let minDistance = this._distanceTo(value, key, entryPointInfo);
       let minNodeKey = this.entryPointKey;
 
       // Top layer => all layers above the new node's highest layer
@@ -1277,7 +1881,7 @@ export class HNSW {
    * @param key Key of the element.
    * @param value The new embedding of the element
    */
-  async update(key: string, value: number[]) {
+  async update(key: string, value: EmbeddingVector) {
     // Wait for initialization to complete
     await this.ready();
     
@@ -1287,8 +1891,12 @@ export class HNSW {
           'Use insert() to add new node.'
       );
     }
+    this.checkEmbeddings([value]);
 
-    await this.nodes.set(key, new Node(key, value));
+    const node = new Node(key, value);
+    const vector = node.value;
+    await this._quantizeNodes([node]);
+    await this.nodes.set(key, node);
 
     if (this.entryPointKey === key && (await this.nodes.size()) === 1) {
       return;
@@ -1338,6 +1946,7 @@ export class HNSW {
           firstDegreeNeighbor,
           l
         );
+        const firstDegreeNeighborVector = this._vector(firstDegreeNeighborInfo);
 
         for (const secondDegreeNeighbor of secondDegreeNeighborhood) {
           if (secondDegreeNeighbor === firstDegreeNeighbor) {
@@ -1349,11 +1958,10 @@ export class HNSW {
             l
           );
 
-          const distance = this.distanceFunction(
-            firstDegreeNeighborInfo.value,
-            secondDegreeNeighborInfo.value,
+          const distance = this._distanceTo(
+            firstDegreeNeighborVector,
             firstDegreeNeighborInfo.key,
-            secondDegreeNeighborInfo.key
+            secondDegreeNeighborInfo
           );
 
           if (candidateMaxHeap.size() < this.efConstruction) {
@@ -1389,7 +1997,7 @@ export class HNSW {
     // After re-indexing the neighbors of the updating node, we also need to
     // update the outgoing edges of the updating node in all layers. This is
     // similar to the initial indexing procedure in insert()
-    await this._reIndexNode(key, value);
+    await this._reIndexNode(key, vector);
     
     // PHASE 4: Mark node as dirty for incremental save
     this._markDirty(key);
@@ -1465,11 +2073,190 @@ export class HNSW {
     await this.nodes.set(key, nodeInfo);
   }
 
+  /**
+   * Permanently remove an element from the index. Unlike markDeleted(), the
+   * node is unlinked from every layer and its data is dropped. Nodes that
+   * linked to it are reconnected: their remaining neighbors and the neighbors
+   * of the removed node are the candidates for their new neighborhood.
+   *
+   * With IndexedDB, the node is deleted from the database right away. Save the
+   * index afterwards so the persisted graph does not reference it.
+   *
+   * @param key Key of the node to remove
+   */
+  async remove(key: string) {
+    await this.bulkRemove([key]);
+  }
+
+  /**
+   * Permanently remove elements from the index, see remove(). The nodes
+   * linking to the removed ones are found in one pass over each layer, so
+   * prefer this method to remove many nodes.
+   *
+   * @param keys Keys of the nodes to remove
+   */
+  async bulkRemove(keys: string[]) {
+    // Wait for initialization to complete
+    await this.ready();
+
+    const removedKeys = new Set(keys);
+    for (const key of removedKeys) {
+      if (!(await this.nodes.has(key))) {
+        throw Error(`Node with key ${key} does not exist.`);
+      }
+    }
+
+    // Edges are directed, so the nodes linking to a removed node are not
+    // necessarily its neighbors. Collect them for all removed nodes at once.
+    const layerInLinks = this.graphLayers.map(layer => {
+      const inLinks = new Map<string, Set<string>>();
+      for (const key of removedKeys) {
+        if (layer.graph.has(key)) {
+          inLinks.set(key, new Set<string>());
+        }
+      }
+      for (const [otherKey, otherNode] of layer.graph.entries()) {
+        for (const neighborKey of otherNode.keys()) {
+          if (neighborKey !== otherKey) {
+            inLinks.get(neighborKey)?.add(otherKey);
+          }
+        }
+      }
+      return inLinks;
+    });
+
+    for (const key of removedKeys) {
+      await this._removeNode(key, layerInLinks);
+    }
+  }
+
+  /**
+   * Unlink one node from the graph and delete it, see remove().
+   * @param key Key of the node to remove
+   * @param layerInLinks For each layer, the keys linking to each node being
+   * removed. Kept up to date as neighborhoods change.
+   */
+  private async _removeNode(
+    key: string,
+    layerInLinks: Map<string, Set<string>>[]
+  ) {
+    // Move the entry point first, so queries never start from an unlinked
+    // node. We prefer a node that is not marked as deleted.
+    if (this.entryPointKey === key) {
+      let newEntryPointKey: string | null = null;
+      for (let l = this.graphLayers.length - 1; l >= 0; l--) {
+        for (const otherKey of this.graphLayers[l].graph.keys()) {
+          if (otherKey === key) {
+            continue;
+          }
+          if (newEntryPointKey === null) {
+            newEntryPointKey = otherKey;
+          }
+          const otherNodeInfo = await this._getNodeInfo(otherKey, l);
+          if (!otherNodeInfo.isDeleted) {
+            newEntryPointKey = otherKey;
+            break;
+          }
+        }
+
+        if (newEntryPointKey !== null) {
+          break;
+        }
+      }
+      this.entryPointKey = newEntryPointKey;
+    }
+
+    for (let l = 0; l < this.graphLayers.length; l++) {
+      const curGraphLayer = this.graphLayers[l];
+      const inLinks = layerInLinks[l];
+      // Layer 0 could have a different neighbor size constraint
+      const levelM = l === 0 ? this.mMax0 : this.m;
+
+      // If the current layer doesn't have this node, then the upper layers
+      // won't have it either
+      const curNode = curGraphLayer.graph.get(key);
+      if (curNode === undefined) {
+        break;
+      }
+
+      for (const orphanKey of inLinks.get(key)!) {
+        const orphanNode = curGraphLayer.graph.get(orphanKey)!;
+        const orphanInfo = await this._getNodeInfo(orphanKey, l);
+        const orphanVector = this._vector(orphanInfo);
+
+        // (1) Keep the other neighbors and add the removed node's neighbors
+        const candidates: SearchNodeCandidate[] = [];
+        for (const [neighborKey, distance] of orphanNode.entries()) {
+          if (neighborKey !== key) {
+            candidates.push({ key: neighborKey, distance });
+          }
+        }
+
+        for (const neighborKey of curNode.keys()) {
+          if (neighborKey === orphanKey || orphanNode.has(neighborKey)) {
+            continue;
+          }
+
+          const neighborInfo = await this._getNodeInfo(neighborKey, l);
+          const distance = this._distanceTo(orphanVector, orphanKey, neighborInfo);
+          candidates.push({ key: neighborKey, distance });
+        }
+
+        // (2) Select `levelM` number candidates out of the candidates
+        const selectedCandidates = await this._selectNeighborsHeuristic(
+          candidates,
+          levelM,
+          l
+        );
+
+        // (3) Replace the orphan's neighborhood, and its links to the other
+        // nodes being removed
+        const newOrphanNode = new Map<string, number>();
+        for (const candidate of selectedCandidates) {
+          newOrphanNode.set(candidate.key, candidate.distance);
+        }
+        for (const neighborKey of orphanNode.keys()) {
+          if (neighborKey !== key) {
+            inLinks.get(neighborKey)?.delete(orphanKey);
+          }
+        }
+        for (const neighborKey of newOrphanNode.keys()) {
+          inLinks.get(neighborKey)?.add(orphanKey);
+        }
+        curGraphLayer.graph.set(orphanKey, newOrphanNode);
+        this._dirtyNodes.add(orphanKey);
+      }
+
+      for (const neighborKey of curNode.keys()) {
+        inLinks.get(neighborKey)?.delete(key);
+      }
+      inLinks.delete(key);
+      curGraphLayer.graph.delete(key);
+      this._dirtyLayers.add(l);
+    }
+
+    // Drop the top layers that only had this node
+    while (
+      this.graphLayers.length > 0 &&
+      this.graphLayers[this.graphLayers.length - 1].graph.size === 0
+    ) {
+      this.graphLayers.pop();
+    }
+
+    await this.nodes.delete(key);
+
+    // PHASE 4: Mark as dirty
+    this._markDirty(key);
+  }
+
   /**
    * Reset the index.
    */
   async clear() {
+    this.entryPointKey = null;
     this.graphLayers = [];
+    this.embeddingModel = this._configuredModel;
+    this.dimensions = null;
     await this.nodes.clear();
   }
 
@@ -1478,11 +2265,15 @@ export class HNSW {
    * @param value Embedding value
    * @param k k nearest neighbors of the query value
    * @param ef Number of neighbors to search at each step
+   * @param filter Optional predicate restricting which keys can be returned
+   * @param maxDistance Optional largest distance of a returned key
    */
   async query(
-    value: number[],
+    value: EmbeddingVector,
     k: number | undefined = undefined,
-    ef: number | undefined = this.efConstruction
+    ef: number | undefined = this.efConstruction,
+    filter?: QueryFilter,
+    maxDistance?: number
   ) {
     // Wait for initialization to complete
     await this.ready();
@@ -1490,6 +2281,7 @@ export class HNSW {
     if (this.entryPointKey === null) {
       throw Error('Index is not initialized yet');
     }
+    this.checkEmbeddings([value]);
 
     // EF=1 search from the top layer to layer 1
     let minNodeKey: string = this.entryPointKey;
@@ -1497,12 +2289,7 @@ export class HNSW {
       minNodeKey,
       this.graphLayers.length - 1
     );
-    let minNodeDistance = this.distanceFunction(
-      entryPointInfo.value,
-      value,
-      null,
-      null
-    );
+    let minNodeDistance = this._distanceTo(value, null, entryPointInfo);
 
     for (let l = this.graphLayers.length - 1; l >= 1; l--) {
       const result = await this._searchLayerEF1(
@@ -1526,13 +2313,26 @@ export class HNSW {
       value,
       entryPoints,
       0,
-      ef,
-      false
+      // We need at least k found nodes to return k results (and enough
+      // candidates to re-rank)
+      Math.max(ef, k ?? 0, this._rerankSize()),
+      false,
+      filter
     );
 
     candidates.sort((a, b) => a.distance - b.distance);
 
-    const topKElements = k === undefined ? candidates : candidates.slice(0, k);
+    if (this._rerankSize() > 0 && candidates.length > 0) {
+      const rerankSize = Math.max(this._rerankSize(), k ?? 0);
+      const reranked = await this._rerank(value, candidates.slice(0, rerankSize));
+      candidates.splice(0, rerankSize, ...reranked);
+    }
+
+    const inRange =
+      maxDistance === undefined
+        ? candidates
+        : candidates.filter(candidate => candidate.distance <= maxDistance);
+    const topKElements = k === undefined ? inRange : inRange.slice(0, k);
 
     // Return keys and distances
     const keys = [];
@@ -1547,13 +2347,67 @@ export class HNSW {
     };
   }
 
+  /**
+   * Find the exact k nearest neighbors by scanning every node that is not
+   * marked as deleted. Much slower than query() on large indexes, but gives
+   * the ground truth to measure the recall of the graph. Quantized nodes are
+   * compared with their full-precision vectors.
+   * @param value Embedding value
+   * @param k k nearest neighbors of the query value
+   * @param filter Optional predicate restricting which keys can be returned
+   * @param maxDistance Optional largest distance of a returned key
+   */
+  async bruteForceQuery(
+    value: EmbeddingVector,
+    k: number | undefined = undefined,
+    filter?: QueryFilter,
+    maxDistance?: number
+  ) {
+    // Wait for initialization to complete
+    await this.ready();
+    this.checkEmbeddings([value]);
+
+    const nodes = (await this.nodes.values()).filter(
+      node => !node.isDeleted && (filter === undefined || filter(node.key))
+    );
+
+    const quantizedKeys = nodes
+      .filter(node => node.code !== undefined)
+      .map(node => node.key);
+    const fullVectors = new Map<string, Float32Array | undefined>();
+    const vectors = await this.nodes.getVectors(quantizedKeys);
+    quantizedKeys.forEach((key, i) => fullVectors.set(key, vectors[i]));
+
+    const candidates: SearchNodeCandidate[] = [];
+    for (const node of nodes) {
+      const vector =
+        node.code === undefined ? node.value : fullVectors.get(node.key);
+      if (vector === undefined) {
+        throw Error(`Can't find the full-precision vector of node ${node.key}`);
+      }
+
+      const distance = this.distanceFunction(value, vector, null, null);
+      if (maxDistance === undefined || distance <= maxDistance) {
+        candidates.push({ key: node.key, distance });
+      }
+    }
+
+    candidates.sort((a, b) => a.distance - b.distance);
+    const topKElements = k === undefined ? candidates : candidates.slice(0, k);
+
+    return {
+      keys: topKElements.map(element => element.key),
+      distances: topKElements.map(element => element.distance)
+    };
+  }
+
   /**
    * Re-index an existing element's outgoing edges by repeating the insert()
    * algorithm (without updating its neighbor's edges)
    * @param key Key of an existing element
    * @param value Embedding value of an existing element
    */
-  async _reIndexNode(key: string, value: number[]) {
+  async _reIndexNode(key: string, value: EmbeddingVector) {
     if (this.entryPointKey === null) {
       throw Error('entryPointKey is null');
     }
@@ -1563,12 +2417,7 @@ export class HNSW {
       minNodeKey,
       this.graphLayers.length - 1
     );
-    let minNodeDistance = this.distanceFunction(
-      entryPointInfo.value,
-      value,
-      entryPointInfo.key,
-      key
-    );
+    let minNodeDistance = this._distanceTo(value, key, entryPointInfo);
     let entryPoints: SearchNodeCandidate[] = [
       { key: minNodeKey, distance: minNodeDistance }
     ];
@@ -1636,7 +2485,7 @@ export class HNSW {
    */
   async _searchLayerEF1(
     queryKey: string | null,
-    queryValue: number[],
+    queryValue: EmbeddingVector,
     entryPointKey: string,
     entryPointDistance: number,
     level: number,
@@ -1672,12 +2521,7 @@ export class HNSW {
           visitedNodes.add(key);
           // Compute the distance between the node and query
           const curNodeInfo = await this._getNodeInfo(key, level);
-          const distance = this.distanceFunction(
-            curNodeInfo.value,
-            queryValue,
-            curNodeInfo.key,
-            queryKey
-          );
+          const distance = this._distanceTo(queryValue, queryKey, curNodeInfo);
 
           // Continue explore the node's neighbors if the distance is improving
           if (distance < minDistance) {
@@ -1707,14 +2551,16 @@ export class HNSW {
    * @param level Current layer level to search
    * @param ef Number of neighbors to consider during search
    * @param canReturnDeletedNodes Whether to return deleted nodes
+   * @param filter Optional predicate restricting which nodes can be returned
    */
   async _searchLayer(
     queryKey: string | null,
-    queryValue: number[],
+    queryValue: EmbeddingVector,
     entryPoints: SearchNodeCandidate[],
     level: number,
     ef: number,
-    canReturnDeletedNodes = true
+    canReturnDeletedNodes = true,
+    filter?: QueryFilter
   ) {
     const graphLayer = this.graphLayers[level];
 
@@ -1731,15 +2577,25 @@ export class HNSW {
 
     for (const searchNode of entryPoints) {
       candidateMinHeap.push(searchNode);
-      foundNodesMaxHeap.push(searchNode);
+      // Filtered-out entry points only guide the traversal
+      if (filter === undefined || filter(searchNode.key)) {
+        foundNodesMaxHeap.push(searchNode);
+      }
       visitedNodes.add(searchNode.key);
     }
 
     while (candidateMinHeap.size() > 0) {
       const nearestCandidate = candidateMinHeap.pop()!;
-      const furthestFoundNode = foundNodesMaxHeap.root()!;
-
-      if (nearestCandidate.distance > furthestFoundNode.distance) {
+      const furthestFoundNode = foundNodesMaxHeap.root();
+
+      // When nodes can be excluded from the results, keep exploring until we
+      // have found ef nodes (same as hnswlib's handling of deleted nodes)
+      if (
+        furthestFoundNode !== null &&
+        nearestCandidate.distance > furthestFoundNode.distance &&
+        (foundNodesMaxHeap.size() >= ef ||
+          (canReturnDeletedNodes && filter === undefined))
+      ) {
         break;
       }
 
@@ -1755,23 +2611,23 @@ export class HNSW {
 
           // Compute the distance of the neighbor and query
           const neighborInfo = await this._getNodeInfo(neighborKey, level);
-          const distance = this.distanceFunction(
-            queryValue,
-            neighborInfo.value,
-            queryKey,
-            neighborInfo.key
-          );
-          const furthestFoundNode = foundNodesMaxHeap.root()!;
+          const distance = this._distanceTo(queryValue, queryKey, neighborInfo);
+          const furthestFoundNode = foundNodesMaxHeap.root();
 
           // Add this node if it is better than our found nodes or we do not
           // have enough found nodes
           if (
+            furthestFoundNode === null ||
             distance < furthestFoundNode.distance ||
             foundNodesMaxHeap.size() < ef
           ) {
-            // If the current neighbor is marked as deleted, we do not return it
-            // as a found node, but we continue explore its neighbor
-            if (!neighborInfo.isDeleted || canReturnDeletedNodes) {
+            // If the current neighbor is marked as deleted or filtered out, we
+            // do not return it as a found node, but we continue explore its
+            // neighbor
+            if (
+              (!neighborInfo.isDeleted || canReturnDeletedNodes) &&
+              (filter === undefined || filter(neighborKey))
+            ) {
               foundNodesMaxHeap.push({ key: neighborKey, distance });
             }
             candidateMinHeap.push({ key: neighborKey, distance });
@@ -1825,6 +2681,8 @@ export class HNSW {
     }
 
     const selectedNeighbors: SearchNodeCandidate[] = [];
+    // Embeddings of the selected neighbors, decoded once
+    const selectedVectors: EmbeddingVector[] = [];
 
     while (candidateMinHeap.size() > 0) {
       if (selectedNeighbors.length >= maxSize) {
@@ -1832,21 +2690,17 @@ export class HNSW {
       }
 
       const candidate = candidateMinHeap.pop()!;
+      const candidateInfo = await this._getNodeInfo(candidate.key, level);
+      const candidateVector = this._vector(candidateInfo);
       let isCandidateFarFromExistingNeighbors = true;
 
       // Iterate selected neighbors to see if the candidate is further away
-      for (const selectedNeighbor of selectedNeighbors) {
-        const candidateInfo = await this._getNodeInfo(candidate.key, level);
-        const neighborInfo = await this._getNodeInfo(
-          selectedNeighbor.key,
-          level
-        );
-
+      for (const [i, selectedNeighbor] of selectedNeighbors.entries()) {
         const distanceCandidateToNeighbor = this.distanceFunction(
-          candidateInfo.value,
-          neighborInfo.value,
+          candidateVector,
+          selectedVectors[i],
           candidate.key,
-          neighborInfo.key
+          selectedNeighbor.key
         );
 
         // Reject the candidate if
@@ -1859,6 +2713,7 @@ export class HNSW {
 
       if (isCandidateFarFromExistingNeighbors) {
         selectedNeighbors.push(candidate);
+        selectedVectors.push(candidateVector);
       }
     }
 
@@ -1873,6 +2728,155 @@ export class HNSW {
     return Math.floor(-Math.log(this.rng()) * this.ml);
   }
 
+  /**
+   * Get the full-precision embedding of a node. For quantized nodes this reads
+   * the vectors store instead of the compressed code.
+   * @param key Node key
+   */
+  async getVector(key: string) {
+    const node = await this._getNodeInfo(key, 0);
+    if (node.code === undefined) {
+      return node.value;
+    }
+
+    const [vector] = await this.nodes.getVectors([key]);
+    if (vector === undefined) {
+      throw Error(`Can't find the full-precision vector of node ${key}`);
+    }
+    return vector;
+  }
+
+  /**
+   * The embedding used for graph traversal: the decoded code of quantized
+   * nodes, the stored value otherwise.
+   */
+  _vector(node: Node) {
+    if (node.code !== undefined && this.quantizer !== null) {
+      return this.quantizer.decode(node.code);
+    }
+    return node.value;
+  }
+
+  /**
+   * Distance from an embedding to a node. Quantized nodes are compared on
+   * their codes, with tables built once per embedding (see
+   * Quantizer.queryDistance()), so that graph traversal does not decode them.
+   * @param value Embedding, e.g. the query
+   * @param valueKey Key of the embedding's node, null for a query
+   * @param node Node to compare with
+   */
+  _distanceTo(value: EmbeddingVector, valueKey: string | null, node: Node) {
+    if (node.code === undefined || this.quantizer === null) {
+      return this.distanceFunction(value, node.value, valueKey, node.key);
+    }
+
+    let codeDistance = this._codeDistances.get(value);
+    if (codeDistance === undefined || codeDistance.quantizer !== this.quantizer) {
+      codeDistance = {
+        quantizer: this.quantizer,
+        distance:
+          this.distanceFunctionType === 'custom'
+            ? null
+            : this.quantizer.queryDistance(
+                toFloat32Array(value),
+                this.distanceFunctionType
+              )
+      };
+      this._codeDistances.set(value, codeDistance);
+    }
+
+    if (codeDistance.distance === null) {
+      return this.distanceFunction(value, this._vector(node), valueKey, node.key);
+    }
+    this._distanceFunctionCallTimes += 1;
+    return round(codeDistance.distance(node.code), this.distancePrecision);
+  }
+
+  /**
+   * Compress new nodes if the quantizer is ready. Their full-precision vectors
+   * are moved to the vectors store.
+   */
+  async _quantizeNodes(nodes: Node[]) {
+    if (this.quantizer === null || !this.quantizer.isTrained) {
+      return;
+    }
+
+    await this.nodes.bulkSetVectors(
+      nodes.map(node => node.key),
+      nodes.map(node => node.value)
+    );
+    for (const node of nodes) {
+      node.code = this.quantizer.encode(node.value);
+      node.value = new Float32Array(0);
+    }
+  }
+
+  /**
+   * Train the product quantization codebook once enough nodes have been
+   * inserted, then compress every node that is still stored uncompressed.
+   */
+  async _trainQuantizerIfReady() {
+    if (this.quantizer === null || this.quantizer.isTrained) {
+      return;
+    }
+    if ((await this.nodes.size()) < this.quantizer.trainingSize) {
+      return;
+    }
+
+    // Train on `trainingSize` evenly spaced nodes
+    const keys = await this.nodes.keys();
+    const sampleSize = this.quantizer.trainingSize;
+    const sampleKeys = Array.from(
+      { length: sampleSize },
+      (_, i) => keys[Math.floor((i * keys.length) / sampleSize)]
+    );
+    const sample = await this.nodes.bulkGet(sampleKeys);
+    this.quantizer.train(sample.map(node => node!.value));
+
+    // Nodes got much smaller, so the cache can hold more of them
+    if (this.nodes instanceof NodesInIndexedDB) {
+      this.nodes.resetAutoPrefetchSize();
+    }
+
+    // Then compress the nodes a batch at a time
+    for (let i = 0; i < keys.length; i += QUANTIZATION_BATCH_SIZE) {
+      const nodes = (
+        await this.nodes.bulkGet(keys.slice(i, i + QUANTIZATION_BATCH_SIZE))
+      ).filter(
+        (node): node is Node => node !== undefined && node.code === undefined
+      );
+      await this._quantizeNodes(nodes);
+      await this.nodes.bulkSet(
+        nodes.map(node => node.key),
+        nodes
+      );
+    }
+  }
+
+  /**
+   * Number of candidates re-ranked with full-precision vectors in query()
+   */
+  _rerankSize() {
+    return this.quantizer === null ? 0 : this.rerank;
+  }
+
+  /**
+   * Re-compute the distances of candidates with full-precision vectors
+   * @param value Query embedding
+   * @param candidates Candidates found with compressed vectors
+   */
+  async _rerank(value: EmbeddingVector, candidates: SearchNodeCandidate[]) {
+    const vectors = await Promise.all(
+      candidates.map(candidate => this.getVector(candidate.key))
+    );
+    const reranked = candidates.map((candidate, i) => ({
+      key: candidate.key,
+      distance: this.distanceFunction(value, vectors[i], null, null)
+    }));
+    reranked.sort((a, b) => a.distance - b.distance);
+    return reranked;
+  }
+
   /**
    * Helper function to get the node in the global index
    * @param key Node key
@@ -1956,15 +2960,12 @@ export class HNSW {
     // For incremental save, we only update the graph edges for dirty layers
     // Node embeddings are already saved to IndexedDB via nodes.set()
     
-    const myDexie = new Dexie('mememo-index-store');
-    myDexie.version(1).stores({
-      mememo: 'key',
-      indexMetadata: 'id'
-    });
-    const metadataTable = myDexie.table('indexMetadata');
+    const metadataTable = (await this._indexStorage()).table(
+      'indexMetadata'
+    );
     
     // Save the updated index structure
-    await metadataTable.put({ id: 'graph', data: indexData });
+    await metadataTable.put('graph', { id: 'graph', data: indexData });
     
     // Clear dirty flags
     this._dirtyNodes.clear();
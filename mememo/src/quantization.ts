@@ -0,0 +1,497 @@
+/**
+ * Vector quantization for Mememo. Quantized nodes keep a compressed code that
+ * is used during graph traversal, while the full-precision vectors are stored
+ * separately for re-ranking.
+ */
+
+import type { BuiltInDistanceFunction } from './mememo';
+
+/**
+ * Quantization options of an index.
+ */
+export type QuantizationConfig =
+  | {
+      /** Scalar quantization: one signed byte per dimension */
+      type: 'int8';
+      /** Number of top candidates re-ranked with full-precision vectors. Default: 0 (off) */
+      rerank?: number;
+    }
+  | {
+      /** Product quantization: one byte per subvector */
+      type: 'pq';
+      /** Number of subvectors the embedding is split into. Default: 16 */
+      subvectors?: number;
+      /** Number of centroids per subvector (at most 256). Default: 256 */
+      centroids?: number;
+      /** Number of nodes to collect before training the codebook, and sampled to train it. Default: 1000 */
+      trainingSize?: number;
+      /** Number of k-means iterations during training. Default: 10 */
+      iterations?: number;
+      /** Number of top candidates re-ranked with full-precision vectors. Default: 0 (off) */
+      rerank?: number;
+    };
+
+/**
+ * Compressed form of a vector.
+ */
+export interface QuantizedVector {
+  codes: Int8Array | Uint8Array;
+  /** Scale of the codes (int8 only) */
+  scale?: number;
+}
+
+/**
+ * Serialized quantizer, stored with the index metadata.
+ */
+export type QuantizerJSON =
+  | { type: 'int8' }
+  | {
+      type: 'pq';
+      subvectors: number;
+      centroids: number;
+      trainingSize: number;
+      iterations: number;
+      dimension: number | null;
+      codebook: number[][][] | null;
+    };
+
+export interface Quantizer {
+  readonly type: 'int8' | 'pq';
+
+  /** Whether encode() can be used */
+  readonly isTrained: boolean;
+
+  /** Number of vectors needed before train() is called */
+  readonly trainingSize: number;
+
+  train(vectors: Float32Array[]): void;
+  encode(vector: Float32Array): QuantizedVector;
+  decode(code: QuantizedVector): Float32Array;
+
+  /**
+   * Distance from a query to codes, computed on the codes without decoding
+   * them. Null if the distance function cannot be computed that way.
+   * @param query Full-precision query embedding
+   * @param distanceFunction Distance function of the index
+   */
+  queryDistance(
+    query: Float32Array,
+    distanceFunction: BuiltInDistanceFunction
+  ): ((code: QuantizedVector) => number) | null;
+
+  toJSON(): QuantizerJSON;
+}
+
+/**
+ * Symmetric int8 scalar quantization with one scale per vector, so no training
+ * is needed and vectors of any magnitude keep their full code range.
+ */
+export class ScalarQuantizer implements Quantizer {
+  readonly type = 'int8';
+  readonly isTrained = true;
+  readonly trainingSize = 0;
+
+  train(_vectors: Float32Array[]) {
+    // pass
+  }
+
+  encode(vector: Float32Array): QuantizedVector {
+    let maxAbs = 0;
+    for (let i = 0; i < vector.length; i++) {
+      maxAbs = Math.max(maxAbs, Math.abs(vector[i]));
+    }
+
+    const scale = maxAbs / 127;
+    const codes = new Int8Array(vector.length);
+    if (scale > 0) {
+      for (let i = 0; i < vector.length; i++) {
+        codes[i] = Math.round(vector[i] / scale);
+      }
+    }
+    return { codes, scale };
+  }
+
+  decode(code: QuantizedVector): Float32Array {
+    const scale = code.scale ?? 0;
+    const vector = new Float32Array(code.codes.length);
+    for (let i = 0; i < code.codes.length; i++) {
+      vector[i] = code.codes[i] * scale;
+    }
+    return vector;
+  }
+
+  /**
+   * Distances on the codes, scaled by the scale of each code.
+   */
+  queryDistance(query: Float32Array, distanceFunction: BuiltInDistanceFunction) {
+    switch (distanceFunction) {
+      case 'cosine-normalized':
+      case 'inner-product':
+        return (code: QuantizedVector) => {
+          let dotProduct = 0;
+          for (let i = 0; i < query.length; i++) {
+            dotProduct += query[i] * code.codes[i];
+          }
+          return 1 - dotProduct * (code.scale ?? 0);
+        };
+      case 'cosine': {
+        // The scale cancels out
+        const queryNorm = Math.sqrt(dot(query, query));
+        return (code: QuantizedVector) => {
+          let dotProduct = 0;
+          let squaredNorm = 0;
+          for (let i = 0; i < query.length; i++) {
+            dotProduct += query[i] * code.codes[i];
+            squaredNorm += code.codes[i] * code.codes[i];
+          }
+          return 1 - dotProduct / (queryNorm * Math.sqrt(squaredNorm));
+        };
+      }
+      case 'l2':
+        return (code: QuantizedVector) => {
+          const scale = code.scale ?? 0;
+          let squaredSum = 0;
+          for (let i = 0; i < query.length; i++) {
+            const difference = query[i] - code.codes[i] * scale;
+            squaredSum += difference * difference;
+          }
+          return Math.sqrt(squaredSum);
+        };
+      case 'l1':
+        return (code: QuantizedVector) => {
+          const scale = code.scale ?? 0;
+          let sum = 0;
+          for (let i = 0; i < query.length; i++) {
+            sum += Math.abs(query[i] - code.codes[i] * scale);
+          }
+          return sum;
+        };
+      default:
+        return null;
+    }
+  }
+
+  toJSON(): QuantizerJSON {
+    return { type: 'int8' };
+  }
+}
+
+/**
+ * Product quantization. The embedding is split into subvectors and each
+ * subvector is replaced by the index of its nearest centroid in a codebook
+ * trained with k-means.
+ */
+export class ProductQuantizer implements Quantizer {
+  readonly type = 'pq';
+  subvectors: number;
+  centroids: number;
+  trainingSize: number;
+  iterations: number;
+
+  /** Embedding dimension, known after training */
+  dimension: number | null = null;
+
+  /** codebook[subvector][centroid] is a centroid of that subvector */
+  codebook: Float32Array[][] | null = null;
+
+  /** Squared norms of the centroids of a codebook, for cosine distances */
+  _centroidNorms: { codebook: Float32Array[][]; norms: Float64Array[] } | null = null;
+
+  constructor({
+    subvectors = 16,
+    centroids = 256,
+    trainingSize = 1000,
+    iterations = 10
+  }: {
+    subvectors?: number;
+    centroids?: number;
+    trainingSize?: number;
+    iterations?: number;
+  }) {
+    if (!Number.isInteger(subvectors) || subvectors < 1) {
+      throw Error(`subvectors must be a positive integer, got ${subvectors}`);
+    }
+    if (!Number.isInteger(centroids) || centroids < 1 || centroids > 256) {
+      throw Error(`centroids must be an integer from 1 to 256, got ${centroids}`);
+    }
+    this.subvectors = subvectors;
+    this.centroids = centroids;
+    this.trainingSize = Math.max(1, trainingSize);
+    this.iterations = iterations;
+  }
+
+  get isTrained() {
+    return this.codebook !== null;
+  }
+
+  /**
+   * Train the codebook with k-means on each subvector.
+   * @param vectors Training vectors
+   */
+  train(vectors: Float32Array[]) {
+    if (vectors.length === 0) {
+      throw Error('Cannot train product quantizer without vectors');
+    }
+
+    const dimension = vectors[0].length;
+    if (this.subvectors > dimension) {
+      throw Error(
+        `Cannot split ${dimension}-dimension vectors into ` +
+          `${this.subvectors} subvectors`
+      );
+    }
+
+    const codebook: Float32Array[][] = [];
+    const bounds = subvectorBounds(dimension, this.subvectors);
+    for (const [start, end] of bounds) {
+      const points = vectors.map(vector => vector.subarray(start, end));
+      codebook.push(kMeans(points, this.centroids, this.iterations));
+    }
+
+    this.dimension = dimension;
+    this.codebook = codebook;
+  }
+
+  encode(vector: Float32Array): QuantizedVector {
+    const codebook = this._getCodebook();
+    const codes = new Uint8Array(this.subvectors);
+    const bounds = subvectorBounds(vector.length, this.subvectors);
+    for (const [m, [start, end]] of bounds.entries()) {
+      codes[m] = nearestCentroid(vector.subarray(start, end), codebook[m]);
+    }
+    return { codes };
+  }
+
+  decode(code: QuantizedVector): Float32Array {
+    const codebook = this._getCodebook();
+    const vector = new Float32Array(this.dimension!);
+    const bounds = subvectorBounds(this.dimension!, this.subvectors);
+    for (const [m, [start]] of bounds.entries()) {
+      vector.set(codebook[m][code.codes[m]], start);
+    }
+    return vector;
+  }
+
+  /**
+   * Asymmetric distances: the query is compared with every centroid once,
+   * then the distance to a code is a sum of table lookups, one per
+   * subvector.
+   */
+  queryDistance(query: Float32Array, distanceFunction: BuiltInDistanceFunction) {
+    const codebook = this._getCodebook();
+    const bounds = subvectorBounds(this.dimension!, this.subvectors);
+    const table = (distance: (a: Float32Array, b: Float32Array) => number) =>
+      bounds.map(([start, end], m) => {
+        const subvector = query.subarray(start, end);
+        return Float64Array.from(codebook[m], centroid => distance(subvector, centroid));
+      });
+    const sum = (tables: Float64Array[], codes: QuantizedVector['codes']) => {
+      let total = 0;
+      for (let m = 0; m < tables.length; m++) {
+        total += tables[m][codes[m]];
+      }
+      return total;
+    };
+
+    switch (distanceFunction) {
+      case 'cosine-normalized':
+      case 'inner-product': {
+        const dots = table(dot);
+        return (code: QuantizedVector) => 1 - sum(dots, code.codes);
+      }
+      case 'cosine': {
+        const dots = table(dot);
+        const norms = this._getCentroidNorms();
+        const queryNorm = Math.sqrt(dot(query, query));
+        return (code: QuantizedVector) =>
+          1 -
+          sum(dots, code.codes) /
+            (queryNorm * Math.sqrt(sum(norms, code.codes)));
+      }
+      case 'l2': {
+        const distances = table(squaredDistance);
+        return (code: QuantizedVector) => Math.sqrt(sum(distances, code.codes));
+      }
+      case 'l1': {
+        const distances = table(manhattanDistance);
+        return (code: QuantizedVector) => sum(distances, code.codes);
+      }
+      default:
+        return null;
+    }
+  }
+
+  toJSON(): QuantizerJSON {
+    return {
+      type: 'pq',
+      subvectors: this.subvectors,
+      centroids: this.centroids,
+      trainingSize: this.trainingSize,
+      iterations: this.iterations,
+      dimension: this.dimension,
+      codebook:
+        this.codebook === null
+          ? null
+          : this.codebook.map(centroids =>
+              centroids.map(centroid => Array.from(centroid))
+            )
+    };
+  }
+
+  _getCodebook() {
+    if (this.codebook === null) {
+      throw Error('Product quantizer is not trained yet');
+    }
+    return this.codebook;
+  }
+
+  _getCentroidNorms() {
+    const codebook = this._getCodebook();
+    if (this._centroidNorms?.codebook !== codebook) {
+      this._centroidNorms = {
+        codebook,
+        norms: codebook.map(centroids =>
+          Float64Array.from(centroids, centroid => dot(centroid, centroid))
+        )
+      };
+    }
+    return this._centroidNorms.norms;
+  }
+}
+
+/**
+ * Create a quantizer from the index configuration.
+ * @param config Quantization options
+ */
+export const createQuantizer = (config: QuantizationConfig): Quantizer => {
+  switch (config.type) {
+    case 'int8':
+      return new ScalarQuantizer();
+    case 'pq':
+      return new ProductQuantizer(config);
+    default:
+      throw Error(
+        `Unknown quantization type: ${(config as { type: string }).type}`
+      );
+  }
+};
+
+/**
+ * Restore a quantizer (including a trained codebook) from its JSON form.
+ * @param json Serialized quantizer
+ */
+export const loadQuantizer = (json: QuantizerJSON): Quantizer => {
+  if (json.type === 'int8') {
+    return new ScalarQuantizer();
+  }
+
+  const quantizer = new ProductQuantizer(json);
+  quantizer.dimension = json.dimension;
+  quantizer.codebook =
+    json.codebook === null
+      ? null
+      : json.codebook.map(centroids =>
+          centroids.map(centroid => Float32Array.from(centroid))
+        );
+  return quantizer;
+};
+
+/**
+ * Split [0, dimension) into `count` contiguous ranges of (almost) equal size.
+ */
+const subvectorBounds = (dimension: number, count: number) => {
+  const bounds: [number, number][] = [];
+  for (let m = 0; m < count; m++) {
+    bounds.push([
+      Math.floor((m * dimension) / count),
+      Math.floor(((m + 1) * dimension) / count)
+    ]);
+  }
+  return bounds;
+};
+
+const squaredDistance = (a: Float32Array, b: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const difference = a[i] - b[i];
+    sum += difference * difference;
+  }
+  return sum;
+};
+
+const manhattanDistance = (a: Float32Array, b: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += Math.abs(a[i] - b[i]);
+  }
+  return sum;
+};
+
+const dot = (a: Float32Array, b: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+};
+
+const nearestCentroid = (point: Float32Array, centroids: Float32Array[]) => {
+  let best = 0;
+  let bestDistance = Infinity;
+  for (let c = 0; c < centroids.length; c++) {
+    const distance = squaredDistance(point, centroids[c]);
+    if (distance < bestDistance) {
+      best = c;
+      bestDistance = distance;
+    }
+  }
+  return best;
+};
+
+/**
+ * Lloyd's k-means. Centroids are initialized with evenly spaced points so
+ * training is deterministic; empty clusters keep their previous centroid.
+ */
+const kMeans = (points: Float32Array[], k: number, iterations: number) => {
+  const count = Math.min(k, points.length);
+  const centroids: Float32Array[] = [];
+  for (let c = 0; c < count; c++) {
+    centroids.push(Float32Array.from(points[Math.floor((c * points.length) / count)]));
+  }
+
+  const assignments = new Int32Array(points.length).fill(-1);
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    let changed = false;
+    for (let p = 0; p < points.length; p++) {
+      const nearest = nearestCentroid(points[p], centroids);
+      if (assignments[p] !== nearest) {
+        assignments[p] = nearest;
+        changed = true;
+      }
+    }
+
+    if (!changed) {
+      break;
+    }
+
+    const sums = centroids.map(centroid => new Float64Array(centroid.length));
+    const sizes = new Int32Array(count);
+    for (let p = 0; p < points.length; p++) {
+      const sum = sums[assignments[p]];
+      for (let i = 0; i < sum.length; i++) {
+        sum[i] += points[p][i];
+      }
+      sizes[assignments[p]] += 1;
+    }
+
+    for (let c = 0; c < count; c++) {
+      if (sizes[c] > 0) {
+        for (let i = 0; i < centroids[c].length; i++) {
+          centroids[c][i] = sums[c][i] / sizes[c];
+        }
+      }
+    }
+  }
+
+  return centroids;
+};
@@ -0,0 +1,536 @@
+/**
+ * Pluggable storage for Mememo and the ContentStore. A backend provides named
+ * databases made of key-value tables; IndexedDB (through Dexie) is used when
+ * no backend is given.
+ */
+
+import Dexie, { IndexableType, Table } from 'dexie';
+
+/**
+ * A table of values addressed by string keys.
+ */
+export interface StorageTable<T> {
+  get(key: string): Promise<T | undefined>;
+  bulkGet(keys: string[]): Promise<(T | undefined)[]>;
+  put(key: string, value: T): Promise<void>;
+  bulkPut(keys: string[], values: T[]): Promise<void>;
+  delete(key: string): Promise<void>;
+  bulkDelete(keys: string[]): Promise<void>;
+  clear(): Promise<void>;
+  count(): Promise<number>;
+  keys(): Promise<string[]>;
+  toArray(): Promise<T[]>;
+
+  /**
+   * Keys of the rows matching a predicate, evaluated by the backend so the
+   * values are not all copied out of the table. The predicate must not
+   * modify the values.
+   */
+  filterKeys(predicate: (value: T) => boolean): Promise<string[]>;
+
+  /**
+   * Rows whose field equals a value, looked up through an index of the field
+   * when the backend has one.
+   */
+  where(field: string, value: unknown): Promise<T[]>;
+}
+
+/**
+ * The tables of a database as seen by a running transaction: its reads see
+ * its own uncommitted writes.
+ */
+export interface StorageTransaction {
+  table<T>(name: string): StorageTable<T>;
+}
+
+/**
+ * A named database holding a fixed set of tables.
+ */
+export interface StorageDatabase {
+  readonly name: string;
+  table<T>(name: string): StorageTable<T>;
+
+  /**
+   * Run `scope` so that its writes to `tables` are applied together or not at
+   * all. Only writes through the tables of `transaction` belong to it.
+   */
+  transaction<R>(
+    tables: string[],
+    scope: (transaction: StorageTransaction) => Promise<R>
+  ): Promise<R>;
+
+  /** Open the database. Operations open it automatically if needed. */
+  open(): Promise<void>;
+  close(): Promise<void>;
+
+  /** Permanently delete the database and its data */
+  delete(): Promise<void>;
+}
+
+/**
+ * A storage backend, e.g. the filesystem in Node.
+ */
+export interface StorageBackend {
+  /**
+   * Open (or create) a database. Opening the same name again returns a
+   * database sharing the same data.
+   * @param name Database name
+   * @param tables Names of the tables in the database
+   */
+  open(name: string, tables: string[]): StorageDatabase;
+
+  /**
+   * Permanently delete a database and its data.
+   * @param name Database name
+   */
+  delete(name: string): Promise<void>;
+}
+
+/**
+ * StorageTable over a Dexie table. Tables with inbound keys (a key path in
+ * the schema) read the key from the value; other tables store it separately.
+ */
+class DexieStorageTable<T> implements StorageTable<T> {
+  table: Table<T, string>;
+  inbound: boolean;
+
+  constructor(table: Table<T, string>) {
+    this.table = table;
+    this.inbound = table.schema.primKey.keyPath !== null &&
+      table.schema.primKey.keyPath !== undefined &&
+      table.schema.primKey.keyPath !== '';
+  }
+
+  async get(key: string) {
+    return await this.table.get(key);
+  }
+
+  async bulkGet(keys: string[]) {
+    return await this.table.bulkGet(keys);
+  }
+
+  async put(key: string, value: T) {
+    if (this.inbound) {
+      await this.table.put(value);
+    } else {
+      await this.table.put(value, key);
+    }
+  }
+
+  async bulkPut(keys: string[], values: T[]) {
+    if (this.inbound) {
+      await this.table.bulkPut(values);
+    } else {
+      await this.table.bulkPut(values, keys);
+    }
+  }
+
+  async delete(key: string) {
+    await this.table.delete(key);
+  }
+
+  async bulkDelete(keys: string[]) {
+    await this.table.bulkDelete(keys);
+  }
+
+  async clear() {
+    await this.table.clear();
+  }
+
+  async count() {
+    return await this.table.count();
+  }
+
+  async keys() {
+    return (await this.table.toCollection().primaryKeys()) as string[];
+  }
+
+  async toArray() {
+    return await this.table.toArray();
+  }
+
+  async filterKeys(predicate: (value: T) => boolean) {
+    return (await this.table.filter(predicate).primaryKeys()) as string[];
+  }
+
+  async where(field: string, value: unknown) {
+    const { schema } = this.table;
+    if (schema.primKey.name === field || field in schema.idxByName) {
+      return await this.table.where(field).equals(value as IndexableType).toArray();
+    }
+    return await this.table
+      .filter(row => (row as Record<string, unknown>)[field] === value)
+      .toArray();
+  }
+}
+
+/**
+ * StorageDatabase over a Dexie (IndexedDB) database whose schema has already
+ * been declared.
+ */
+export class DexieStorageDatabase implements StorageDatabase {
+  dexie: Dexie;
+
+  constructor(dexie: Dexie) {
+    this.dexie = dexie;
+  }
+
+  get name() {
+    return this.dexie.name;
+  }
+
+  table<T>(name: string): StorageTable<T> {
+    return new DexieStorageTable<T>(this.dexie.table<T, string>(name));
+  }
+
+  async transaction<R>(
+    tables: string[],
+    scope: (transaction: StorageTransaction) => Promise<R>
+  ) {
+    // Dexie binds the tables to the transaction while the scope runs. The
+    // callback must be an async function for Dexie to follow its awaits.
+    return await this.dexie.transaction('rw', tables, async () => await scope(this));
+  }
+
+  async open() {
+    await this.dexie.open();
+  }
+
+  async close() {
+    this.dexie.close();
+  }
+
+  async delete() {
+    await this.dexie.delete();
+  }
+}
+
+/**
+ * A write to a table, as recorded by persistent backends.
+ */
+export type StorageOperation =
+  | ['put', string, string, unknown]
+  | ['delete', string, string]
+  | ['clear', string];
+
+/**
+ * Value of a field of a row, or undefined for rows that are not objects.
+ */
+const fieldOf = (row: unknown, field: string) =>
+  typeof row === 'object' && row !== null
+    ? (row as Record<string, unknown>)[field]
+    : undefined;
+
+const addToIndex = (
+  index: Map<unknown, Set<string>>,
+  value: unknown,
+  key: string
+) => {
+  let keys = index.get(value);
+  if (keys === undefined) {
+    keys = new Set();
+    index.set(value, keys);
+  }
+  keys.add(key);
+};
+
+/**
+ * Writes of a running transaction, applied to the tables when it commits.
+ */
+class MemoryTransaction {
+  operations: StorageOperation[] = [];
+  /** Written value per table and key; undefined marks a deleted key */
+  pending = new Map<string, Map<string, unknown>>();
+  /** Tables cleared by the transaction */
+  cleared = new Set<string>();
+
+  record(operation: StorageOperation) {
+    const [type, table] = operation;
+    this.operations.push(operation);
+    let rows = this.pending.get(table);
+    if (rows === undefined) {
+      rows = new Map();
+      this.pending.set(table, rows);
+    }
+
+    if (type === 'clear') {
+      this.cleared.add(table);
+      rows.clear();
+    } else {
+      rows.set(operation[2], type === 'put' ? operation[3] : undefined);
+    }
+  }
+}
+
+/**
+ * A database kept in memory. Values are copied with structuredClone() on
+ * every read and write, like IndexedDB does. Subclasses can persist the
+ * operations by overriding _commit().
+ */
+export class MemoryStorageDatabase implements StorageDatabase {
+  readonly name: string;
+  tables = new Map<string, Map<string, unknown>>();
+
+  /** Indexes built by where(): table -> field -> value -> keys */
+  _indexes = new Map<string, Map<string, Map<unknown, Set<string>>>>();
+
+  _transactionLock: Promise<void> = Promise.resolve();
+
+  constructor(name: string, tables: string[]) {
+    this.name = name;
+    for (const table of tables) {
+      this.tables.set(table, new Map());
+    }
+  }
+
+  table<T>(name: string): StorageTable<T> {
+    return this._table<T>(name, null);
+  }
+
+  /**
+   * A table reading and writing the committed data, or the data as seen by
+   * a transaction.
+   */
+  _table<T>(name: string, transaction: MemoryTransaction | null): StorageTable<T> {
+    // Value of a key, or undefined when it is missing or deleted
+    const lookup = (key: string) => {
+      const pending = transaction?.pending.get(name);
+      if (pending?.has(key)) {
+        return pending.get(key) as T | undefined;
+      }
+      if (transaction?.cleared.has(name)) {
+        return undefined;
+      }
+      return this._rows(name).get(key) as T | undefined;
+    };
+    // All rows, with the writes of the transaction
+    const rows = async () => {
+      await this.open();
+      const committed = this._rows(name) as Map<string, T>;
+      const pending = transaction?.pending.get(name);
+      if (pending === undefined) {
+        return committed;
+      }
+
+      const merged = new Map(transaction!.cleared.has(name) ? [] : committed);
+      for (const [key, value] of pending) {
+        if (value === undefined) {
+          merged.delete(key);
+        } else {
+          merged.set(key, value as T);
+        }
+      }
+      return merged;
+    };
+    const write = async (operations: StorageOperation[]) => {
+      await this.open();
+      if (transaction !== null) {
+        for (const operation of operations) {
+          transaction.record(operation);
+        }
+      } else {
+        await this._write(operations);
+      }
+    };
+
+    return {
+      get: async key => {
+        await this.open();
+        return structuredClone(lookup(key));
+      },
+      bulkGet: async keys => {
+        await this.open();
+        return keys.map(key => structuredClone(lookup(key)));
+      },
+      put: async (key, value) => {
+        await write([['put', name, key, structuredClone(value)]]);
+      },
+      bulkPut: async (keys, values) => {
+        await write(
+          keys.map(
+            (key, i) => ['put', name, key, structuredClone(values[i])] as StorageOperation
+          )
+        );
+      },
+      delete: async key => {
+        await write([['delete', name, key]]);
+      },
+      bulkDelete: async keys => {
+        await write(keys.map(key => ['delete', name, key] as StorageOperation));
+      },
+      clear: async () => {
+        await write([['clear', name]]);
+      },
+      count: async () => (await rows()).size,
+      keys: async () => [...(await rows()).keys()],
+      toArray: async () =>
+        [...(await rows()).values()].map(value => structuredClone(value)),
+      filterKeys: async predicate => {
+        const keys: string[] = [];
+        for (const [key, value] of await rows()) {
+          if (predicate(value)) {
+            keys.push(key);
+          }
+        }
+        return keys;
+      },
+      where: async (field, value) => {
+        await this.open();
+        if (transaction?.pending.has(name)) {
+          // The index only covers committed rows
+          return [...(await rows()).values()]
+            .filter(row => fieldOf(row, field) === value)
+            .map(row => structuredClone(row));
+        }
+        const committed = this._rows(name);
+        const keys = this._index(name, field).get(value) ?? [];
+        return [...keys].map(key => structuredClone(committed.get(key) as T));
+      }
+    };
+  }
+
+  /**
+   * Run a transaction. Transactions are serialized. Their writes are kept
+   * apart until they commit, so other callers neither see them nor lose
+   * their own writes when a transaction rolls back.
+   */
+  async transaction<R>(
+    _tables: string[],
+    scope: (transaction: StorageTransaction) => Promise<R>
+  ) {
+    const previous = this._transactionLock;
+    let release = () => {};
+    this._transactionLock = new Promise(resolve => (release = resolve));
+    await previous;
+
+    try {
+      await this.open();
+      const transaction = new MemoryTransaction();
+      const result = await scope({
+        table: <T>(name: string) => this._table<T>(name, transaction)
+      });
+      await this._write(transaction.operations);
+      return result;
+    } finally {
+      release();
+    }
+  }
+
+  async open() {
+    // pass
+  }
+
+  async close() {
+    // pass
+  }
+
+  async delete() {
+    for (const rows of this.tables.values()) {
+      rows.clear();
+    }
+    this._indexes.clear();
+  }
+
+  /**
+   * Persist committed operations. Called with the operations of one write or
+   * of a whole transaction, after they were applied to the tables.
+   */
+  async _commit(_operations: StorageOperation[]) {
+    // pass
+  }
+
+  /**
+   * Apply operations to the tables together, then persist them.
+   */
+  async _write(operations: StorageOperation[]) {
+    if (operations.length === 0) {
+      return;
+    }
+    for (const operation of operations) {
+      this._apply(operation);
+    }
+    await this._commit(operations);
+  }
+
+  /**
+   * Apply an operation to the in-memory tables.
+   */
+  _apply(operation: StorageOperation) {
+    const [type, table] = operation;
+    const rows = this._rows(table);
+
+    if (type === 'clear') {
+      rows.clear();
+      this._indexes.delete(table);
+      return;
+    }
+
+    const key = operation[2];
+    const indexes = this._indexes.get(table);
+    if (indexes !== undefined && rows.has(key)) {
+      for (const [field, index] of indexes) {
+        index.get(fieldOf(rows.get(key), field))?.delete(key);
+      }
+    }
+
+    if (type === 'put') {
+      rows.set(key, structuredClone(operation[3]));
+      for (const [field, index] of indexes ?? []) {
+        addToIndex(index, fieldOf(operation[3], field), key);
+      }
+    } else {
+      rows.delete(key);
+    }
+  }
+
+  /**
+   * The index of a field of a table, built on first use and then kept up to
+   * date by _apply().
+   */
+  _index(table: string, field: string) {
+    let indexes = this._indexes.get(table);
+    if (indexes === undefined) {
+      indexes = new Map();
+      this._indexes.set(table, indexes);
+    }
+
+    let index = indexes.get(field);
+    if (index === undefined) {
+      index = new Map();
+      for (const [key, value] of this._rows(table)) {
+        addToIndex(index, fieldOf(value, field), key);
+      }
+      indexes.set(field, index);
+    }
+    return index;
+  }
+
+  _rows(table: string) {
+    const rows = this.tables.get(table);
+    if (rows === undefined) {
+      throw Error(`Table ${table} does not exist in database ${this.name}`);
+    }
+    return rows;
+  }
+}
+
+/**
+ * Keep all databases in memory. Data is lost when the process exits, but
+ * managers and indexes opened with the same backend share it.
+ */
+export class MemoryStorage implements StorageBackend {
+  databases = new Map<string, MemoryStorageDatabase>();
+
+  open(name: string, tables: string[]): StorageDatabase {
+    let database = this.databases.get(name);
+    if (database === undefined) {
+      database = new MemoryStorageDatabase(name, tables);
+      this.databases.set(name, database);
+    }
+    return database;
+  }
+
+  async delete(name: string) {
+    await this.databases.get(name)?.delete();
+  }
+}
@@ -1,6 +1,8 @@
 /**
  * Rollup config for building the worker script
- * This bundles the worker with all its dependencies into a single file
+ * The browser build bundles the worker with all its dependencies into a
+ * single file; the Node.js build (for worker_threads) loads its
+ * dependencies from node_modules
  */
 
 import typescript from '@rollup/plugin-typescript';
@@ -11,41 +13,63 @@ import { resolve } from 'path';
 
 const __dirname = fileURLToPath(new URL('.', import.meta.url));
 
-export default {
-  input: 'workers/worker.ts',
-  output: {
-    file: 'dist/workers/worker.js',
-    format: 'es', // ES modules for modern browsers
-    sourcemap: true,
+const typescriptPlugin = () =>
+  typescript({
+    tsconfig: './tsconfig.json',
+    declaration: false, // No .d.ts files for worker
+    sourceMap: true,
+    compilerOptions: {
+      module: 'ESNext',
+      target: 'ES2020',
+    },
+    tslib: resolve(__dirname, 'node_modules/tslib'),
+  });
+
+function onwarn(warning, warn) {
+  // Suppress warnings about circular dependencies in transformers.js
+  if (warning.code === 'CIRCULAR_DEPENDENCY') {
+    return;
+  }
+  // Suppress warnings about PURE annotations in pre-bundled transformers.js
+  if (warning.code === 'MODULE_LEVEL_DIRECTIVE' ||
+      (warning.message && warning.message.includes('PURE'))) {
+    return;
+  }
+  warn(warning);
+}
+
+export default [
+  {
+    input: 'workers/worker.ts',
+    output: {
+      file: 'dist/workers/worker.js',
+      format: 'es', // ES modules for modern browsers
+      sourcemap: true,
+    },
+    plugins: [
+      typescriptPlugin(),
+      nodeResolve({
+        browser: true, // Resolve browser versions of packages
+        preferBuiltins: false,
+      }),
+      commonjs(), // Convert CommonJS to ES modules
+    ],
+    external: ['worker_threads'], // Only imported in Node.js
+    onwarn,
   },
-  plugins: [
-    typescript({
-      tsconfig: './tsconfig.json',
-      declaration: false, // No .d.ts files for worker
-      sourceMap: true,
-      compilerOptions: {
-        module: 'ESNext',
-        target: 'ES2020',
-      },
-      tslib: resolve(__dirname, 'node_modules/tslib'),
-    }),
-    nodeResolve({
-      browser: true, // Resolve browser versions of packages
-      preferBuiltins: false,
-    }),
-    commonjs(), // Convert CommonJS to ES modules
-  ],
-  external: [], // Bundle everything (worker needs all deps)
-  onwarn(warning, warn) {
-    // Suppress warnings about circular dependencies in transformers.js
-    if (warning.code === 'CIRCULAR_DEPENDENCY') {
-      return;
-    }
-    // Suppress warnings about PURE annotations in pre-bundled transformers.js
-    if (warning.code === 'MODULE_LEVEL_DIRECTIVE' || 
-        (warning.message && warning.message.includes('PURE'))) {
-      return;
-    }
-    warn(warning);
+  {
+    input: 'workers/worker.ts',
+    output: {
+      file: 'dist/workers/worker.node.js',
+      format: 'es',
+      sourcemap: true,
+    },
+    plugins: [
+      typescriptPlugin(),
+      nodeResolve({ preferBuiltins: true }),
+    ],
+    // Resolved from node_modules at runtime
+    external: ['@huggingface/transformers', 'worker_threads'],
+    onwarn,
   },
-};
+];
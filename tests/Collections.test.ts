@@ -0,0 +1,150 @@
+// Collections.test.ts - Tests for named collections (namespaces)
+import Dexie from 'dexie';
+import VectorSearchManager from '../embeddings/VectorSearchManager';
+import { contentDatabaseName, indexDatabaseName } from '../embeddings/Collections';
+import { MockEmbeddingEngine } from './mocks/MockEmbedding';
+
+const createManager = (collection?: string) =>
+  new VectorSearchManager({
+    embeddingEngine: new MockEmbeddingEngine(16),
+    collection,
+    indexConfig: {
+      m: 8,
+      efConstruction: 50,
+      useIndexedDB: true,
+    },
+  });
+
+describe('Collections', () => {
+  afterEach(async () => {
+    for (const { name } of await VectorSearchManager.listCollections()) {
+      await VectorSearchManager.dropCollection(name);
+    }
+  });
+
+  describe('database naming', () => {
+    it('should keep the original database names for the default collection', () => {
+      expect(contentDatabaseName()).toBe('MyContentDatabase');
+      expect(indexDatabaseName()).toBe('mememo-index-store');
+    });
+
+    it('should namespace other collections', () => {
+      expect(contentDatabaseName('tenant-a')).toBe('MyContentDatabase:tenant-a');
+      expect(indexDatabaseName('tenant-a')).toBe('mememo-index-store:tenant-a');
+    });
+  });
+
+  describe('isolation', () => {
+    it('should isolate documents and embeddings per collection', async () => {
+      const managerA = createManager('tenant-a');
+      const managerB = createManager('tenant-b');
+      await Promise.all([managerA.ready(), managerB.ready()]);
+
+      await managerA.addDocument('Shared id in tenant A', 'doc-1', { tenant: 'a' });
+      await managerB.addDocument('Shared id in tenant B', 'doc-1', { tenant: 'b' });
+      await managerB.addDocument('Only in tenant B', 'doc-2');
+
+      expect(await managerA.size()).toBe(1);
+      expect(await managerB.size()).toBe(2);
+      expect((await managerA.getDocument('doc-1'))?.text).toBe('Shared id in tenant A');
+      expect((await managerB.getDocument('doc-1'))?.text).toBe('Shared id in tenant B');
+
+      const results = await managerA.search('tenant', 5);
+      expect(results.map(r => r.key)).toEqual(['doc-1']);
+      expect(results[0].metadata?.tenant).toBe('a');
+    });
+
+    it('should persist the graph per collection', async () => {
+      const manager = createManager('persisted');
+      await manager.ready();
+      await manager.addDocument('First document', 'a');
+      await manager.addDocument('Second document', 'b');
+      await manager.index.saveIndex();
+
+      const reloaded = createManager('persisted');
+      await reloaded.ready();
+      const results = await reloaded.search('First document', 2);
+      expect(results.map(r => r.key).sort()).toEqual(['a', 'b']);
+
+      const other = createManager('other');
+      await other.ready();
+      expect(await other.index.loadPersistedIndex()).toBeNull();
+    });
+  });
+
+  describe('management', () => {
+    it('should register collections opened by a manager', async () => {
+      const manager = createManager('auto-registered');
+      await manager.ready();
+
+      const names = (await VectorSearchManager.listCollections()).map(c => c.name);
+      expect(names).toContain('auto-registered');
+    });
+
+    it('should create and list collections', async () => {
+      await VectorSearchManager.createCollection('beta');
+      await VectorSearchManager.createCollection('alpha');
+
+      const collections = await VectorSearchManager.listCollections();
+      expect(collections.map(c => c.name)).toEqual(['alpha', 'beta']);
+      collections.forEach(c => expect(typeof c.createdAt).toBe('number'));
+    });
+
+    it('should reject creating an existing collection', async () => {
+      await VectorSearchManager.createCollection('dup');
+      await expect(VectorSearchManager.createCollection('dup'))
+        .rejects.toThrow('Collection dup already exists');
+    });
+
+    it('should reject invalid names', async () => {
+      await expect(VectorSearchManager.createCollection('  '))
+        .rejects.toThrow('Collection name must be a non-empty string');
+    });
+
+    it('should drop a collection and its data', async () => {
+      const manager = createManager('to-drop');
+      await manager.ready();
+      await manager.addDocument('Doomed document', 'doomed');
+
+      await VectorSearchManager.dropCollection('to-drop');
+
+      const names = (await VectorSearchManager.listCollections()).map(c => c.name);
+      expect(names).not.toContain('to-drop');
+      expect(await Dexie.exists(contentDatabaseName('to-drop'))).toBe(false);
+      expect(await Dexie.exists(indexDatabaseName('to-drop'))).toBe(false);
+    });
+
+    it('should reject dropping an unknown collection', async () => {
+      await expect(VectorSearchManager.dropCollection('missing'))
+        .rejects.toThrow('Collection missing not found');
+    });
+
+    it('should rename a collection and keep its data', async () => {
+      const manager = createManager('old-name');
+      await manager.ready();
+      await manager.addDocument('Document that moves', 'moving', { kept: true });
+      await manager.index.saveIndex();
+      manager.contentStore.close();
+
+      await VectorSearchManager.renameCollection('old-name', 'new-name');
+
+      const names = (await VectorSearchManager.listCollections()).map(c => c.name);
+      expect(names).toContain('new-name');
+      expect(names).not.toContain('old-name');
+
+      const renamed = createManager('new-name');
+      await renamed.ready();
+      expect((await renamed.getDocument('moving'))?.metadata).toEqual({ kept: true });
+      const results = await renamed.search('Document that moves', 1);
+      expect(results[0].key).toBe('moving');
+    });
+
+    it('should reject renaming onto an existing collection', async () => {
+      await VectorSearchManager.createCollection('one');
+      await VectorSearchManager.createCollection('two');
+
+      await expect(VectorSearchManager.renameCollection('one', 'two'))
+        .rejects.toThrow('Collection two already exists');
+    });
+  });
+});
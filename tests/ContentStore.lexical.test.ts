@@ -0,0 +1,167 @@
+// ContentStore.lexical.test.ts - Tests for the BM25 inverted index
+import Dexie from 'dexie';
+import { ContentStore } from '../embeddings/ContentStore';
+import { tokenize } from '../embeddings/BM25';
+
+describe('ContentStore Lexical Index', () => {
+  let store: ContentStore;
+
+  beforeEach(async () => {
+    store = new ContentStore();
+    await store.clear();
+  });
+
+  afterEach(async () => {
+    await store.clear();
+    await store.close();
+  });
+
+  describe('tokenize', () => {
+    it('should lowercase and split on non-alphanumeric characters', () => {
+      expect(tokenize('Order SKU-1042, shipped!')).toEqual(['order', 'sku', '1042', 'shipped']);
+    });
+
+    it('should keep unicode letters', () => {
+      expect(tokenize('Café über 東京')).toEqual(['café', 'über', '東京']);
+    });
+
+    it('should return an empty array for text without terms', () => {
+      expect(tokenize('  ...  ')).toEqual([]);
+    });
+  });
+
+  describe('searchLexical', () => {
+    beforeEach(async () => {
+      await store.addDocument('doc1', 'The quick brown fox jumps over the lazy dog');
+      await store.addDocument('doc2', 'Product code XJ-9000 is out of stock');
+      await store.addDocument('doc3', 'The fox and the hound are friends');
+      await store.addDocument('doc4', 'A completely unrelated sentence');
+    });
+
+    it('should find documents containing the query terms', async () => {
+      const results = await store.searchLexical('fox', 10);
+
+      expect(results.map(r => r.id).sort()).toEqual(['doc1', 'doc3']);
+      results.forEach(r => expect(r.score).toBeGreaterThan(0));
+    });
+
+    it('should match exact identifiers', async () => {
+      const results = await store.searchLexical('xj-9000', 10);
+
+      expect(results[0].id).toBe('doc2');
+    });
+
+    it('should rank documents matching more query terms higher', async () => {
+      const results = await store.searchLexical('fox hound', 10);
+
+      expect(results[0].id).toBe('doc3');
+    });
+
+    it('should weight rare terms higher than common ones', async () => {
+      const results = await store.searchLexical('the lazy', 10);
+
+      // "lazy" only appears in doc1, "the" appears in doc1 and doc3
+      expect(results[0].id).toBe('doc1');
+    });
+
+    it('should respect k', async () => {
+      const results = await store.searchLexical('the fox', 1);
+      expect(results).toHaveLength(1);
+    });
+
+    it('should apply the id filter', async () => {
+      const results = await store.searchLexical('fox', 10, id => id !== 'doc1');
+      expect(results.map(r => r.id)).toEqual(['doc3']);
+    });
+
+    it('should return no results for unknown terms or empty queries', async () => {
+      expect(await store.searchLexical('zebra', 10)).toHaveLength(0);
+      expect(await store.searchLexical('', 10)).toHaveLength(0);
+    });
+  });
+
+  describe('index maintenance', () => {
+    it('should remove deleted documents from the index', async () => {
+      await store.addDocument('doc1', 'alpha beta');
+      await store.addDocument('doc2', 'alpha gamma');
+
+      await store.deleteDocument('doc1');
+
+      const results = await store.searchLexical('alpha beta', 10);
+      expect(results.map(r => r.id)).toEqual(['doc2']);
+      expect(await store.postings.where('term', 'beta')).toEqual([]);
+      expect(await store.postings.get('beta\u0000doc1')).toBeUndefined();
+
+      const stats = await store.lexicalStats.get('corpus');
+      expect(stats?.documentCount).toBe(1);
+      expect(stats?.totalLength).toBe(2);
+    });
+
+    it('should re-index updated documents', async () => {
+      await store.addDocument('doc1', 'old words here');
+      await store.updateDocument('doc1', 'new content');
+
+      expect(await store.searchLexical('old', 10)).toHaveLength(0);
+      expect((await store.searchLexical('content', 10))[0].id).toBe('doc1');
+
+      const stats = await store.lexicalStats.get('corpus');
+      expect(stats?.documentCount).toBe(1);
+    });
+
+    it('should clear the index with the documents', async () => {
+      await store.addDocument('doc1', 'alpha');
+      await store.clear();
+
+      expect(await store.postings.count()).toBe(0);
+      expect(await store.searchLexical('alpha', 10)).toHaveLength(0);
+    });
+
+    it('should split the postings of version 4 databases into rows', async () => {
+      // Write the index the way version 4 of the database stored it
+      const legacy = new Dexie('LexicalMigration');
+      legacy.version(4).stores({
+        documents: 'id, text',
+        summaries: 'id, documentId, createdAt',
+        terms: 'term',
+        lexicalDocs: 'id',
+        lexicalStats: 'id',
+        sources: 'id, hash',
+      });
+      await legacy.table('documents').bulkPut([
+        { id: 'doc1', text: 'alpha beta' },
+        { id: 'doc2', text: 'alpha' },
+      ]);
+      await legacy.table('terms').bulkPut([
+        { term: 'alpha', postings: { doc1: 1, doc2: 1 } },
+        { term: 'beta', postings: { doc1: 1 } },
+      ]);
+      await legacy.table('lexicalDocs').bulkPut([
+        { id: 'doc1', length: 2, terms: ['alpha', 'beta'] },
+        { id: 'doc2', length: 1, terms: ['alpha'] },
+      ]);
+      await legacy.table('lexicalStats').put({ id: 'corpus', documentCount: 2, totalLength: 3 });
+      legacy.close();
+
+      const migrated = new ContentStore('LexicalMigration');
+      expect(await migrated.postings.count()).toBe(3);
+      expect((await migrated.searchLexical('beta', 10)).map(r => r.id)).toEqual(['doc1']);
+
+      await migrated.deleteDocument('doc1');
+      expect(await migrated.postings.where('term', 'alpha')).toEqual([
+        { id: 'alpha\u0000doc2', term: 'alpha', documentId: 'doc2', frequency: 1 },
+      ]);
+      await migrated.delete();
+    });
+
+    it('should handle concurrent additions', async () => {
+      await Promise.all(
+        Array(10).fill(0).map((_, i) => store.addDocument(`doc${i}`, `shared term ${i}`))
+      );
+
+      const postings = await store.postings.where('term', 'shared');
+      expect(postings.map(posting => posting.documentId).sort()).toEqual(
+        Array(10).fill(0).map((_, i) => `doc${i}`).sort()
+      );
+    });
+  });
+});
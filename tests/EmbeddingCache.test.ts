@@ -0,0 +1,107 @@
+// EmbeddingCache.test.ts - Tests for the persistent embedding cache
+import { EmbeddingCache, embeddingCacheKey } from '../embeddings/EmbeddingCache';
+import { DefaultEmbeddingEngine } from '../embeddings/EmbeddingPipeline';
+
+// Stand-in for the feature-extraction pipeline: embeds each text as
+// [length, 1] and records the texts it received
+const modelCalls: Array<string | string[]> = [];
+jest.mock('@huggingface/transformers', () => ({
+  pipeline: async () => async (input: string | string[]) => {
+    modelCalls.push(input);
+    const texts = Array.isArray(input) ? input : [input];
+    return {
+      data: Float32Array.from(texts.flatMap((text) => [text.length, 1])),
+      dims: [texts.length, 2],
+    };
+  },
+}));
+
+describe('EmbeddingCache', () => {
+  let cache: EmbeddingCache;
+
+  beforeEach(() => {
+    modelCalls.length = 0;
+  });
+
+  afterEach(async () => {
+    await cache.delete();
+  });
+
+  it('should return stored embeddings of the same model and text', async () => {
+    cache = new EmbeddingCache({ dbName: 'embedding-cache-test' });
+    await cache.set('model-a', 'Hello', Float32Array.from([1, 2]));
+
+    expect(await cache.get('model-a', 'Hello')).toEqual(Float32Array.from([1, 2]));
+    expect(await cache.get('model-b', 'Hello')).toBeUndefined();
+    expect(await cache.getMany('model-a', ['Hello', 'World'])).toEqual([Float32Array.from([1, 2]), undefined]);
+    expect(await cache.getStats()).toEqual({ hits: 2, misses: 2, hitRate: 0.5, entries: 1 });
+
+    cache.resetStats();
+    expect(await cache.getStats()).toMatchObject({ hits: 0, misses: 0, hitRate: 0 });
+  });
+
+  it('should keep embeddings across instances', async () => {
+    const first = new EmbeddingCache({ dbName: 'embedding-cache-test' });
+    await first.set('model-a', 'Hello', Float32Array.from([1, 2]));
+    first.close();
+
+    cache = new EmbeddingCache({ dbName: 'embedding-cache-test' });
+    expect(await cache.get('model-a', 'Hello')).toEqual(Float32Array.from([1, 2]));
+  });
+
+  it('should evict the least recently used embeddings', async () => {
+    cache = new EmbeddingCache({ dbName: 'embedding-cache-test', maxEntries: 2 });
+    await cache.set('model-a', 'first', Float32Array.from([1]));
+    await cache.set('model-a', 'second', Float32Array.from([2]));
+    await cache.get('model-a', 'first');
+    await cache.set('model-a', 'third', Float32Array.from([3]));
+
+    expect(await cache.getMany('model-a', ['first', 'second', 'third'])).toEqual([
+      Float32Array.from([1]),
+      undefined,
+      Float32Array.from([3]),
+    ]);
+    expect((await cache.getStats()).entries).toBe(2);
+  });
+
+  it('should reject invalid limits', () => {
+    cache = new EmbeddingCache({ dbName: 'embedding-cache-test' });
+    expect(() => new EmbeddingCache({ maxEntries: 0 })).toThrow(
+      'maxEntries must be a positive integer, got 0'
+    );
+  });
+
+  it('should hash keys without global Web Crypto (Node 18)', async () => {
+    cache = new EmbeddingCache({ dbName: 'embedding-cache-test' });
+    const key = await embeddingCacheKey('model', 'text');
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+
+    const webCrypto = Object.getOwnPropertyDescriptor(globalThis, 'crypto')!;
+    Object.defineProperty(globalThis, 'crypto', { value: undefined, configurable: true });
+    try {
+      expect(await embeddingCacheKey('model', 'text')).toBe(key);
+    } finally {
+      Object.defineProperty(globalThis, 'crypto', webCrypto);
+    }
+  });
+
+  it('should skip the model for cached texts in the embedding engine', async () => {
+    cache = new EmbeddingCache({ dbName: 'embedding-cache-test' });
+    const engine = new DefaultEmbeddingEngine(undefined, false, { passagePrefix: 'passage: ' }, cache);
+
+    expect(await engine.embed('a')).toEqual(Float32Array.from([10, 1]));
+    expect(await engine.embed('a')).toEqual(Float32Array.from([10, 1]));
+    expect(modelCalls).toEqual(['passage: a']);
+
+    // Only the texts missing from the cache go through the model
+    const vectors = await engine.embedBatch(['a', 'bb', 'a']);
+    expect(vectors).toEqual([Float32Array.from([10, 1]), Float32Array.from([11, 1]), Float32Array.from([10, 1])]);
+    expect(modelCalls).toEqual(['passage: a', ['passage: bb']]);
+
+    // Other model options produce other embeddings
+    const other = new DefaultEmbeddingEngine(undefined, false, { passagePrefix: 'passage: ', normalize: false }, cache);
+    await other.embed('a');
+    expect(modelCalls).toHaveLength(3);
+    expect(await cache.getStats()).toMatchObject({ hits: 3, misses: 3, entries: 3 });
+  });
+});
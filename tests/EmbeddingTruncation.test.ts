@@ -0,0 +1,94 @@
+// EmbeddingTruncation.test.ts - Tests for inputs longer than the model's maximum sequence length
+import { DefaultEmbeddingEngine } from '../embeddings/EmbeddingPipeline';
+
+// Stand-ins for the feature-extraction pipeline and a tokenizer with one
+// token per word plus [CLS] and [SEP], and a maximum length of 8 tokens
+const modelCalls: Array<string | string[]> = [];
+jest.mock('@huggingface/transformers', () => ({
+  pipeline: async () => async (input: string | string[]) => {
+    modelCalls.push(input);
+    const texts = Array.isArray(input) ? input : [input];
+    return {
+      data: Float32Array.from(texts.flatMap(() => [1, 0])),
+      dims: [texts.length, 2],
+    };
+  },
+  AutoTokenizer: {
+    from_pretrained: async (model: string) => {
+      if (model === 'missing-model') {
+        throw new Error('fetch failed');
+      }
+      return {
+        model_max_length: 8,
+        encode: (text: string) => [101, ...text.split(' ').map(() => 1), 102],
+      };
+    },
+  },
+}));
+
+describe('DefaultEmbeddingEngine truncation', () => {
+  const longText = 'one two three four five six seven';
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    modelCalls.length = 0;
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+  });
+
+  it('should warn about texts longer than the maximum sequence length', async () => {
+    const engine = new DefaultEmbeddingEngine(undefined, false);
+
+    await engine.embed('one two three');
+    expect(warn).not.toHaveBeenCalled();
+
+    expect(await engine.embed(longText)).toEqual(Float32Array.from([1, 0]));
+    expect(warn).toHaveBeenCalledWith(
+      'Text of 9 tokens exceeds the maximum sequence length of Xenova/all-MiniLM-L6-v2 (8 tokens); ' +
+        'the model ignores the rest. Use smaller chunks, e.g. with TokenTextSplitter.'
+    );
+
+    await engine.embedBatch(['short', longText, `${longText} eight`]);
+    expect(warn).toHaveBeenLastCalledWith(expect.stringContaining('2 of 3 texts exceed the maximum sequence length'));
+    expect(warn).toHaveBeenLastCalledWith(expect.stringContaining('longest: 10'));
+  });
+
+  it('should count the passage prefix and honor maxSequenceLength', async () => {
+    const engine = new DefaultEmbeddingEngine(undefined, false, { passagePrefix: 'passage: ', maxSequenceLength: 4 });
+
+    await engine.embed('one two');
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Text of 5 tokens'));
+    warn.mockClear();
+
+    await engine.embed('one');
+    expect(warn).not.toHaveBeenCalled();
+    expect(() => new DefaultEmbeddingEngine(undefined, false, { maxSequenceLength: 0 })).toThrow(
+      'maxSequenceLength must be a positive integer, got 0'
+    );
+  });
+
+  it('should reject long texts before embedding them with truncation: error', async () => {
+    const engine = new DefaultEmbeddingEngine(undefined, false, { truncation: 'error' });
+
+    await expect(engine.embed(longText)).rejects.toThrow(
+      'Text of 9 tokens exceeds the maximum sequence length of Xenova/all-MiniLM-L6-v2 (8 tokens)'
+    );
+    await expect(engine.embedBatch(['short', longText])).rejects.toThrow('1 of 2 texts exceed');
+    expect(modelCalls).toHaveLength(0);
+  });
+
+  it('should skip the check with truncation: ignore or without a tokenizer', async () => {
+    await new DefaultEmbeddingEngine(undefined, false, { truncation: 'ignore' }).embed(longText);
+    expect(warn).not.toHaveBeenCalled();
+
+    const engine = new DefaultEmbeddingEngine(undefined, false, { model: 'missing-model' });
+    await engine.embed(longText);
+    await engine.embed(longText);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toBe('Failed to load the tokenizer of missing-model, input lengths are not checked:');
+    expect(modelCalls).toHaveLength(3);
+  });
+});
@@ -0,0 +1,244 @@
+// FileSystemStorage.test.ts - Tests for the Node.js filesystem storage backend
+import { mkdtemp, readFile, rm, appendFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileSystemStorage } from '../mememo/src/fileSystemStorage';
+import { HNSW } from '../mememo/src/mememo';
+import { ContentStore } from '../embeddings/ContentStore';
+import VectorSearchManager from '../embeddings/VectorSearchManager';
+import { MockEmbeddingEngine } from './mocks/MockEmbedding';
+
+describe('FileSystemStorage', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'flux-vector-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  describe('Tables', () => {
+    it('should persist writes across backend instances', async () => {
+      const storage = new FileSystemStorage({ directory });
+      const table = storage.open('db', ['items']).table<any>('items');
+
+      await table.bulkPut(['a', 'b', 'c'], [{ n: 1 }, { n: 2 }, { n: 3 }]);
+      await table.put('a', { n: 10, vector: new Float32Array([0.5, -1.25]) });
+      await table.delete('b');
+
+      const reopened = new FileSystemStorage({ directory }).open('db', ['items']).table<any>('items');
+      expect(await reopened.keys()).toEqual(['a', 'c']);
+      expect(await reopened.count()).toBe(2);
+
+      const a = await reopened.get('a');
+      expect(a.n).toBe(10);
+      // structuredClone() creates the copy in another realm under jest
+      expect(Object.prototype.toString.call(a.vector)).toBe('[object Float32Array]');
+      expect(Array.from(a.vector)).toEqual([0.5, -1.25]);
+      expect(await reopened.bulkGet(['b', 'c'])).toEqual([undefined, { n: 3 }]);
+    });
+
+    it('should filter keys in the backend', async () => {
+      const database = new FileSystemStorage({ directory }).open('db', ['items']);
+      const table = database.table<{ n: number }>('items');
+      await table.bulkPut(['a', 'b', 'c'], [{ n: 1 }, { n: 2 }, { n: 3 }]);
+
+      expect(await table.filterKeys((value) => value.n > 1)).toEqual(['b', 'c']);
+      await database.transaction(['items'], async (transaction) => {
+        const items = transaction.table<{ n: number }>('items');
+        await items.delete('b');
+        await items.put('d', { n: 4 });
+        expect(await items.filterKeys((value) => value.n > 1)).toEqual(['c', 'd']);
+      });
+    });
+
+    it('should look up rows by field', async () => {
+      const database = new FileSystemStorage({ directory }).open('db', ['items']);
+      const table = database.table<{ color: string }>('items');
+      await table.bulkPut(['a', 'b'], [{ color: 'red' }, { color: 'blue' }]);
+
+      expect(await table.where('color', 'red')).toEqual([{ color: 'red' }]);
+      await table.put('a', { color: 'blue' });
+      await table.put('c', { color: 'red' });
+      expect(await table.where('color', 'red')).toEqual([{ color: 'red' }]);
+      expect((await table.where('color', 'blue')).length).toBe(2);
+
+      await database.transaction(['items'], async (transaction) => {
+        const items = transaction.table<{ color: string }>('items');
+        await items.delete('c');
+        expect(await items.where('color', 'red')).toEqual([]);
+      });
+      await table.clear();
+      expect(await table.where('color', 'blue')).toEqual([]);
+    });
+
+    it('should copy values on read and write', async () => {
+      const table = new FileSystemStorage({ directory }).open('db', ['items']).table<any>('items');
+      const value = { n: 1 };
+      await table.put('a', value);
+      value.n = 2;
+
+      const stored = await table.get('a');
+      stored.n = 3;
+      expect(await table.get('a')).toEqual({ n: 1 });
+    });
+
+    it('should roll back a failed transaction', async () => {
+      const storage = new FileSystemStorage({ directory });
+      const database = storage.open('db', ['items']);
+      const table = database.table<number>('items');
+      await table.put('kept', 1);
+
+      await expect(
+        database.transaction(['items'], async (transaction) => {
+          const items = transaction.table<number>('items');
+          await items.put('kept', 2);
+          await items.put('added', 3);
+          throw new Error('boom');
+        })
+      ).rejects.toThrow('boom');
+
+      expect(await table.toArray()).toEqual([1]);
+      const reopened = new FileSystemStorage({ directory }).open('db', ['items']).table('items');
+      expect(await reopened.toArray()).toEqual([1]);
+    });
+
+    it('should keep other writers out of a transaction', async () => {
+      const storage = new FileSystemStorage({ directory });
+      const database = storage.open('db', ['items']);
+      const table = database.table<number>('items');
+
+      await expect(
+        database.transaction(['items'], async (transaction) => {
+          const items = transaction.table<number>('items');
+          await items.put('pending', 1);
+          expect(await items.get('pending')).toBe(1);
+          expect(await table.get('pending')).toBeUndefined();
+
+          await table.put('other', 2);
+          throw new Error('boom');
+        })
+      ).rejects.toThrow('boom');
+
+      expect(await table.keys()).toEqual(['other']);
+      const reopened = new FileSystemStorage({ directory }).open('db', ['items']).table('items');
+      expect(await reopened.toArray()).toEqual([2]);
+    });
+
+    it('should write a transaction as a single log line', async () => {
+      const storage = new FileSystemStorage({ directory });
+      const database = storage.open('db', ['items', 'other']);
+      await database.transaction(['items', 'other'], async (transaction) => {
+        await transaction.table('items').put('a', 1);
+        await transaction.table('other').put('b', 2);
+      });
+
+      const log = await readFile(storage.pathOf('db'), 'utf8');
+      expect(log.trim().split('\n')).toHaveLength(1);
+    });
+
+    it('should compact the log once it exceeds the threshold', async () => {
+      const storage = new FileSystemStorage({ directory, compactionThreshold: 5 });
+      const table = storage.open('db', ['items']).table<number>('items');
+      for (let i = 0; i < 20; i++) {
+        await table.put('counter', i);
+      }
+
+      const log = await readFile(storage.pathOf('db'), 'utf8');
+      expect(log.trim().split('\n').length).toBeLessThanOrEqual(6);
+
+      const reopened = new FileSystemStorage({ directory }).open('db', ['items']).table('items');
+      expect(await reopened.get('counter')).toBe(19);
+    });
+
+    it('should ignore and cut off a torn last line', async () => {
+      const storage = new FileSystemStorage({ directory });
+      await storage.open('db', ['items']).table('items').put('a', 1);
+      await appendFile(storage.pathOf('db'), '[["put","items","b"');
+
+      const reopened = new FileSystemStorage({ directory });
+      const table = reopened.open('db', ['items']).table('items');
+      expect(await table.keys()).toEqual(['a']);
+
+      await table.put('c', 3);
+      const again = new FileSystemStorage({ directory }).open('db', ['items']).table('items');
+      expect(await again.keys()).toEqual(['a', 'c']);
+    });
+
+    it('should delete a database', async () => {
+      const storage = new FileSystemStorage({ directory });
+      const table = storage.open('db', ['items']).table('items');
+      await table.put('a', 1);
+
+      await storage.delete('db');
+      expect(await table.count()).toBe(0);
+      await expect(readFile(storage.pathOf('db'))).rejects.toThrow();
+    });
+  });
+
+  describe('Mememo', () => {
+    it('should persist nodes and the graph on disk', async () => {
+      const hnsw = new HNSW({ m: 4, seed: 1, storage: new FileSystemStorage({ directory }) });
+      expect(hnsw.useIndexedDB).toBe(true);
+      await hnsw.bulkInsert(['a', 'b', 'c'], [[1, 0], [0, 1], [0.7, 0.7]]);
+      await hnsw.saveIndex();
+
+      const reloaded = new HNSW({ m: 4, storage: new FileSystemStorage({ directory }) });
+      await reloaded.ready();
+
+      expect((await reloaded.nodes.keys()).sort()).toEqual(['a', 'b', 'c']);
+      const { keys } = await reloaded.query([0.6, 0.8], 1);
+      expect(keys).toEqual(['c']);
+    });
+  });
+
+  describe('ContentStore', () => {
+    it('should keep documents and the lexical index on disk', async () => {
+      const store = new ContentStore('content', new FileSystemStorage({ directory }));
+      await store.addDocuments([
+        { id: 'a', text: 'apples and pears' },
+        { id: 'b', text: 'pears only', metadata: { kind: 'fruit' } },
+      ]);
+      await store.deleteDocument('a');
+
+      const reopened = new ContentStore('content', new FileSystemStorage({ directory }));
+      expect(await reopened.getAllDocuments()).toEqual([
+        { id: 'b', text: 'pears only', metadata: { kind: 'fruit' } },
+      ]);
+      expect(await reopened.findDocumentIds({ kind: 'fruit' })).toEqual(['b']);
+      expect(await reopened.searchLexical('apples', 5)).toEqual([]);
+      expect((await reopened.searchLexical('pears', 5)).map(r => r.id)).toEqual(['b']);
+    });
+  });
+
+  describe('VectorSearchManager', () => {
+    const createManager = () =>
+      new VectorSearchManager({
+        embeddingEngine: new MockEmbeddingEngine(32),
+        storage: new FileSystemStorage({ directory }),
+        collection: 'jobs',
+        indexConfig: { distanceFunction: 'cosine', m: 8, efConstruction: 50 },
+      });
+
+    it('should reopen a persisted manager from disk', async () => {
+      const manager = createManager();
+      await manager.addDocuments(
+        Array.from({ length: 10 }, (_, i) => ({ id: `doc-${i}`, text: `Document number ${i}` }))
+      );
+      await manager.index.saveIndex();
+
+      const reopened = createManager();
+      await reopened.ready();
+
+      expect(await reopened.size()).toBe(10);
+      const results = await reopened.search('Document number 4', 1);
+      expect(results[0].key).toBe('doc-4');
+      expect(results[0].text).toBe('Document number 4');
+
+      const hybrid = await reopened.hybridSearch('Document number 7', 1);
+      expect(hybrid[0].key).toBe('doc-7');
+    });
+  });
+});
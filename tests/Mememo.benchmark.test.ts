@@ -0,0 +1,111 @@
+import { describe, it, expect } from '@jest/globals';
+import { HNSW } from '../mememo/src/mememo';
+import { benchmarkRecall, latencyStats, recallAtK } from '../mememo/src/benchmark';
+
+/**
+ * Deterministic unit vectors (d3-random is mocked to a constant)
+ */
+const makeVectors = (count: number, dimension: number) => {
+  let seed = 11;
+  const next = () => {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return seed / 4294967296 - 0.5;
+  };
+
+  return Array.from({ length: count }, () => {
+    const vector = Array.from({ length: dimension }, next);
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return vector.map(v => v / norm);
+  });
+};
+
+const l2 = (a: number[], b: number[]) =>
+  Math.sqrt(a.reduce((sum, v, i) => sum + (v - b[i]) ** 2, 0));
+
+describe('HNSW bruteForceQuery', () => {
+  it('should return the exact nearest neighbors', async () => {
+    const vectors = makeVectors(50, 8);
+    const hnsw = new HNSW({ distanceFunction: 'l2', m: 4, useIndexedDB: false });
+    await hnsw.bulkInsert(vectors.map((_, i) => `node-${i}`), vectors);
+
+    const query = makeVectors(51, 8)[50];
+    const expected = vectors
+      .map((vector, i) => ({ key: `node-${i}`, distance: l2(query, vector) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, 5);
+
+    const { keys, distances } = await hnsw.bruteForceQuery(query, 5);
+    expect(keys).toEqual(expected.map(e => e.key));
+    distances.forEach((distance, i) => expect(distance).toBeCloseTo(expected[i].distance, 5));
+  });
+
+  it('should skip deleted and filtered-out nodes', async () => {
+    const hnsw = new HNSW({ distanceFunction: 'l2', useIndexedDB: false });
+    await hnsw.bulkInsert(['a', 'b', 'c', 'd'], [[0, 0], [1, 0], [2, 0], [3, 0]]);
+    await hnsw.markDeleted('a');
+
+    expect((await hnsw.bruteForceQuery([0, 0], 2)).keys).toEqual(['b', 'c']);
+    expect((await hnsw.bruteForceQuery([0, 0], 2, key => key !== 'b')).keys).toEqual(['c', 'd']);
+    expect((await hnsw.bruteForceQuery([0, 0], undefined, undefined, 2)).keys).toEqual(['b', 'c']);
+  });
+
+  it('should compare quantized nodes with their full-precision vectors', async () => {
+    const vectors = makeVectors(30, 16);
+    const hnsw = new HNSW({
+      distanceFunction: 'cosine-normalized',
+      useIndexedDB: false,
+      quantization: { type: 'int8' }
+    });
+    await hnsw.bulkInsert(vectors.map((_, i) => `node-${i}`), vectors);
+
+    const { keys, distances } = await hnsw.bruteForceQuery(vectors[4], 1);
+    expect(keys).toEqual(['node-4']);
+    expect(distances[0]).toBeCloseTo(0, 6);
+  });
+});
+
+describe('benchmarkRecall', () => {
+  it('should measure recall, latency and distance calls per ef', async () => {
+    const vectors = makeVectors(120, 16);
+    const hnsw = new HNSW({ distanceFunction: 'cosine-normalized', m: 4, efConstruction: 20, useIndexedDB: false });
+    await hnsw.bulkInsert(vectors.map((_, i) => `node-${i}`), vectors);
+
+    const report = await benchmarkRecall(hnsw, { k: 5, sampleSize: 20, efValues: [5, 120] });
+
+    expect(report.index).toEqual({ m: 4, mMax0: 8, efConstruction: 20 });
+    expect(report.k).toBe(5);
+    expect(report.sampleSize).toBe(20);
+    expect(report.exact.distanceCalls).toBe(120);
+    expect(report.runs.map(run => run.ef)).toEqual([5, 120]);
+
+    const [fast, thorough] = report.runs;
+    expect(thorough.recall).toBe(1);
+    expect(fast.recall).toBeGreaterThan(0);
+    expect(fast.recall).toBeLessThanOrEqual(thorough.recall);
+    expect(fast.distanceCalls).toBeLessThan(thorough.distanceCalls);
+    expect(thorough.latency.p99).toBeGreaterThanOrEqual(thorough.latency.p50);
+  });
+
+  it('should sample only live keys passing the filter', async () => {
+    const vectors = makeVectors(10, 4);
+    const hnsw = new HNSW({ distanceFunction: 'cosine-normalized', useIndexedDB: false });
+    await hnsw.bulkInsert(vectors.map((_, i) => `node-${i}`), vectors);
+    await hnsw.markDeleted('node-0');
+
+    const report = await benchmarkRecall(hnsw, { k: 3, filter: key => key !== 'node-1' });
+    expect(report.sampleSize).toBe(8);
+    expect(report.exact.distanceCalls).toBe(8);
+  });
+
+  it('should compute recall and latency percentiles', () => {
+    expect(recallAtK(['a', 'b', 'x'], ['a', 'b', 'c', 'd'])).toBe(0.5);
+    expect(recallAtK([], [])).toBe(1);
+    expect(latencyStats([4, 1, 3, 2])).toEqual({ mean: 2.5, p50: 2, p95: 4, p99: 4 });
+    expect(latencyStats([])).toEqual({ mean: 0, p50: 0, p95: 0, p99: 0 });
+  });
+
+  it('should reject invalid options', async () => {
+    const hnsw = new HNSW({ useIndexedDB: false });
+    await expect(benchmarkRecall(hnsw, { k: 0 })).rejects.toThrow('k must be a positive integer, got 0');
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect } from '@jest/globals';
+import { HNSW, EmbeddingVector, distanceToSimilarity, similarityToDistance } from '../mememo/src/mememo';
+import VectorSearchManager from '../embeddings/VectorSearchManager';
+import { IEmbeddingEngine } from '../embeddings/EmbeddingPipeline';
+
+/**
+ * Embedding engine returning fixed vectors, so distances are predictable
+ */
+class FixedEmbedding implements IEmbeddingEngine {
+  constructor(private vectors: Record<string, number[]>) {}
+
+  async embed(text: string): Promise<number[]> {
+    return this.vectors[text];
+  }
+}
+
+describe('Mememo Distance Functions', () => {
+  const a = [1, 2, 3];
+  const b = [4, 0, -1];
+
+  it('should compute l2 (Euclidean) distance', () => {
+    const hnsw = new HNSW({ distanceFunction: 'l2' });
+    expect(hnsw.distanceFunction(a, b, null, null)).toBeCloseTo(Math.sqrt(9 + 4 + 16), 5);
+  });
+
+  it('should compute inner-product distance', () => {
+    const hnsw = new HNSW({ distanceFunction: 'inner-product' });
+    // dot = 4 + 0 - 3 = 1
+    expect(hnsw.distanceFunction(a, b, null, null)).toBeCloseTo(0, 5);
+  });
+
+  it('should compute l1 (Manhattan) distance', () => {
+    const hnsw = new HNSW({ distanceFunction: 'l1' });
+    expect(hnsw.distanceFunction(a, b, null, null)).toBeCloseTo(3 + 2 + 4, 5);
+  });
+
+  it('should reject unknown distance function names', () => {
+    expect(() => new HNSW({ distanceFunction: 'hamming' as any })).toThrow(
+      'Unknown distance function: hamming'
+    );
+  });
+
+  it.each(['l2', 'inner-product', 'l1'] as const)(
+    'should find the nearest neighbor with %s',
+    async distanceFunction => {
+      const hnsw = new HNSW({ distanceFunction, m: 4, efConstruction: 20, seed: 7 });
+      await hnsw.bulkInsert(
+        ['origin', 'near', 'far', 'opposite'],
+        [[0, 0], [1, 1], [5, 5], [-4, -4]]
+      );
+
+      const { keys } = await hnsw.query([6, 6], 1);
+      expect(keys).toEqual(['far']);
+    }
+  );
+
+  it('should restore built-in distance functions in loadIndex', async () => {
+    const source = new HNSW({ distanceFunction: 'l1', m: 4, seed: 3 });
+    await source.bulkInsert(['x', 'y'], [[0, 0], [3, 4]]);
+    const json = source.exportIndex();
+    expect(json.distanceFunctionType).toBe('l1');
+
+    const restored = new HNSW({});
+    restored.loadIndex(json);
+
+    expect(restored.distanceFunctionType).toBe('l1');
+    expect(restored.distanceFunction([0, 0], [3, 4], null, null)).toBe(7);
+  });
+
+  it('should keep the instance distance function when loading a custom index', () => {
+    const custom = (x: EmbeddingVector, y: EmbeddingVector) => Math.abs(x[0] - y[0]);
+    const source = new HNSW({ distanceFunction: custom });
+    const restored = new HNSW({ distanceFunction: custom });
+
+    restored.loadIndex(source.exportIndex());
+
+    expect(restored.distanceFunctionType).toBe('custom');
+    expect(restored.distanceFunction([1, 9], [4, 0], null, null)).toBe(3);
+  });
+
+  it('should convert distances to similarities per metric', () => {
+    expect(distanceToSimilarity(0.25, 'cosine')).toBe(0.75);
+    expect(distanceToSimilarity(0.25, 'cosine-normalized')).toBe(0.75);
+    expect(distanceToSimilarity(-2, 'inner-product')).toBe(3);
+    expect(distanceToSimilarity(0, 'l2')).toBe(1);
+    expect(distanceToSimilarity(3, 'l2')).toBe(0.25);
+    expect(distanceToSimilarity(1, 'l1')).toBe(0.5);
+    expect(distanceToSimilarity(0.25, 'custom')).toBe(0.75);
+  });
+
+  it('should convert similarities back to distances per metric', () => {
+    expect(similarityToDistance(0.75, 'cosine')).toBe(0.25);
+    expect(similarityToDistance(3, 'inner-product')).toBe(-2);
+    expect(similarityToDistance(0.25, 'l2')).toBe(3);
+    expect(similarityToDistance(0.5, 'l1')).toBe(1);
+    expect(similarityToDistance(0, 'l2')).toBe(Infinity);
+  });
+
+  it('should only return keys within maxDistance', async () => {
+    const hnsw = new HNSW({ distanceFunction: 'l2', useIndexedDB: false });
+    await hnsw.bulkInsert(['a', 'b', 'c'], [[0, 0], [3, 4], [6, 8]]);
+
+    const { keys, distances } = await hnsw.query([0, 0], 3, undefined, undefined, 5);
+    expect(keys).toEqual(['a', 'b']);
+    expect(distances).toEqual([0, 5]);
+  });
+
+  it('should report metric-specific similarity in VectorSearchManager results', async () => {
+    const manager = new VectorSearchManager({
+      embeddingEngine: new FixedEmbedding({
+        origin: [0, 0],
+        point: [3, 4],
+        query: [0, 0],
+      }),
+      indexConfig: { distanceFunction: 'l2', useIndexedDB: false },
+    });
+    await manager.contentStore.clear();
+
+    await manager.addDocument('origin', 'origin');
+    await manager.addDocument('point', 'point');
+    const results = await manager.search('query', 2);
+
+    expect(results.map(r => r.key)).toEqual(['origin', 'point']);
+    expect(results[0].similarity).toBe(1);
+    expect(results[1].distance).toBe(5);
+    expect(results[1].similarity).toBeCloseTo(1 / 6, 6);
+
+    await manager.contentStore.clear();
+  });
+});
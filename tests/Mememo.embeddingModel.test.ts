@@ -0,0 +1,53 @@
+import { describe, it, expect } from '@jest/globals';
+import { HNSW } from '../mememo/src/mememo';
+
+describe('HNSW embedding model and dimension guards', () => {
+  it('should record the model and dimensions with the index', async () => {
+    const hnsw = new HNSW({ distanceFunction: 'cosine', embeddingModel: 'model-a' });
+    expect(hnsw.exportIndex()).toMatchObject({ embeddingModel: 'model-a', dimensions: null });
+
+    await hnsw.insert('a', [1, 0, 0]);
+    expect(hnsw.exportIndex()).toMatchObject({ embeddingModel: 'model-a', dimensions: 3 });
+  });
+
+  it('should refuse embeddings with other dimensions', async () => {
+    const hnsw = new HNSW({ distanceFunction: 'cosine' });
+    await hnsw.bulkInsert(['a', 'b'], [[1, 0, 0], [0, 1, 0]]);
+
+    await expect(hnsw.insert('c', [1, 0, 0, 0])).rejects.toThrow(
+      'Expected embeddings with 3 dimensions, got 4'
+    );
+    await expect(hnsw.bulkInsert(['c', 'd'], [[1, 0, 1], [1, 0]])).rejects.toThrow(
+      'Expected embeddings with 3 dimensions, got 2'
+    );
+    await expect(hnsw.update('a', [1, 0])).rejects.toThrow('got 2');
+    await expect(hnsw.query([1, 0], 1)).rejects.toThrow('got 2');
+    await expect(hnsw.bruteForceQuery([1, 0], 1)).rejects.toThrow('got 2');
+    expect(await hnsw.nodes.size()).toBe(2);
+
+    // An empty index takes any length again
+    await hnsw.clear();
+    await hnsw.insert('c', [1, 0]);
+    expect(hnsw.dimensions).toBe(2);
+  });
+
+  it('should refuse inserts and queries from another model', async () => {
+    const built = new HNSW({ distanceFunction: 'cosine', embeddingModel: 'model-a' });
+    await built.insert('a', [1, 0, 0]);
+
+    const other = new HNSW({ distanceFunction: 'cosine', embeddingModel: 'model-b' });
+    other.loadIndex(built.exportIndex());
+
+    const message = 'The index stores embeddings of model model-a, but this instance uses model model-b';
+    await expect(other.insertSkipIndex('a', [1, 0, 0])).rejects.toThrow(message);
+    await expect(other.insert('b', [0, 1, 0])).rejects.toThrow(message);
+    await expect(other.query([0, 1, 0], 1)).rejects.toThrow(message);
+
+    // Indexes without a recorded model accept any model
+    const legacy = new HNSW({ distanceFunction: 'cosine', embeddingModel: 'model-b' });
+    const { embeddingModel, dimensions, ...json } = built.exportIndex();
+    legacy.loadIndex(json);
+    await legacy.insertSkipIndex('a', [1, 0, 0]);
+    expect((await legacy.query([1, 0, 0], 1)).keys).toEqual(['a']);
+  });
+});
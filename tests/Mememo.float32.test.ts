@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import Dexie from 'dexie';
+import { HNSW, openIndexDatabase, toFloat32Array } from '../mememo/src/mememo';
+
+/**
+ * Values read back from fake-indexeddb are cloned in another realm, so
+ * toBeInstanceOf(Float32Array) cannot be used for them
+ */
+const isFloat32Array = (value: unknown) =>
+  Object.prototype.toString.call(value) === '[object Float32Array]';
+
+describe('Mememo Float32Array Storage', () => {
+  beforeEach(async () => {
+    await Dexie.delete('mememo-index-store');
+  });
+
+  afterEach(async () => {
+    await Dexie.delete('mememo-index-store');
+  });
+
+  it('should store number[] inputs as Float32Array in memory', async () => {
+    const hnsw = new HNSW({ m: 4, seed: 1 });
+    await hnsw.insert('a', [0.6, 0.8]);
+    await hnsw.bulkInsert(['b', 'c'], [[1, 0], [0, 1]]);
+
+    for (const key of ['a', 'b', 'c']) {
+      const node = await hnsw.nodes.get(key, 0);
+      expect(node!.value).toBeInstanceOf(Float32Array);
+    }
+  });
+
+  it('should accept Float32Array inserts, updates and queries', async () => {
+    const hnsw = new HNSW({ m: 4, seed: 1 });
+    await hnsw.insert('a', new Float32Array([1, 0]));
+    await hnsw.insert('b', new Float32Array([0, 1]));
+    await hnsw.update('b', new Float32Array([-1, 0]));
+
+    const { keys, distances } = await hnsw.query(new Float32Array([-1, 0]), 1);
+    expect(keys).toEqual(['b']);
+    expect(distances[0]).toBeCloseTo(0, 6);
+  });
+
+  it('should persist Float32Array values in IndexedDB', async () => {
+    const hnsw = new HNSW({ m: 4, seed: 1, useIndexedDB: true, clearOnInit: true });
+    await hnsw.ready();
+    await hnsw.insert('a', [0.6, 0.8]);
+
+    const db = openIndexDatabase();
+    const stored = await db.table('mememo').get('a');
+    db.close();
+
+    expect(isFloat32Array(stored.value)).toBe(true);
+    expect(Array.from(stored.value as Float32Array)).toEqual([
+      Math.fround(0.6),
+      Math.fround(0.8),
+    ]);
+  });
+
+  it('should migrate number[] values persisted by older versions', async () => {
+    // Write nodes the way version 1 of the database stored them
+    const legacy = new Dexie('mememo-index-store');
+    legacy.version(1).stores({ mememo: 'key', indexMetadata: 'id' });
+    await legacy.table('mememo').bulkPut([
+      { key: 'a', value: [1, 0], isDeleted: false },
+      { key: 'b', value: [0, 1], isDeleted: false },
+    ]);
+    legacy.close();
+
+    const db = openIndexDatabase();
+    const nodes = await db.table('mememo').toArray();
+    db.close();
+
+    expect(nodes).toHaveLength(2);
+    for (const node of nodes) {
+      expect(isFloat32Array(node.value)).toBe(true);
+    }
+    expect(Array.from(nodes[0].value)).toEqual([1, 0]);
+  });
+
+  it('should only copy number[] inputs in toFloat32Array', () => {
+    const typed = new Float32Array([1, 2]);
+    expect(toFloat32Array(typed)).toBe(typed);
+    expect(toFloat32Array([1, 2])).toEqual(typed);
+  });
+});
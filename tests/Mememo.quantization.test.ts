@@ -0,0 +1,280 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import Dexie from 'dexie';
+import { HNSW } from '../mememo/src/mememo';
+import VectorSearchManager from '../embeddings/VectorSearchManager';
+import { MockEmbeddingEngine } from './mocks/MockEmbedding';
+import {
+  ProductQuantizer,
+  ScalarQuantizer,
+  createQuantizer,
+  loadQuantizer
+} from '../mememo/src/quantization';
+
+/**
+ * Deterministic unit vectors (d3-random is mocked to a constant)
+ */
+const makeVectors = (count: number, dimension: number) => {
+  let seed = 42;
+  const next = () => {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return seed / 4294967296 - 0.5;
+  };
+
+  return Array.from({ length: count }, () => {
+    const vector = Array.from({ length: dimension }, next);
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return vector.map(v => v / norm);
+  });
+};
+
+const dot = (a: ArrayLike<number>, b: ArrayLike<number>) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+};
+
+describe('Quantizers', () => {
+  it('should round-trip int8 codes with small error', () => {
+    const quantizer = new ScalarQuantizer();
+    const [vector] = makeVectors(1, 64);
+
+    const code = quantizer.encode(Float32Array.from(vector));
+    expect(code.codes).toBeInstanceOf(Int8Array);
+    expect(code.codes.length).toBe(64);
+
+    const decoded = quantizer.decode(code);
+    for (let i = 0; i < vector.length; i++) {
+      expect(Math.abs(decoded[i] - vector[i])).toBeLessThan(code.scale!);
+    }
+  });
+
+  it('should encode zero vectors with int8', () => {
+    const quantizer = new ScalarQuantizer();
+    const decoded = quantizer.decode(quantizer.encode(new Float32Array(4)));
+    expect(Array.from(decoded)).toEqual([0, 0, 0, 0]);
+  });
+
+  it('should train a product quantizer and encode one byte per subvector', () => {
+    const quantizer = new ProductQuantizer({ subvectors: 4, centroids: 16 });
+    const vectors = makeVectors(200, 32).map(v => Float32Array.from(v));
+    expect(quantizer.isTrained).toBe(false);
+
+    quantizer.train(vectors);
+    expect(quantizer.isTrained).toBe(true);
+
+    const code = quantizer.encode(vectors[0]);
+    expect(code.codes).toBeInstanceOf(Uint8Array);
+    expect(code.codes.length).toBe(4);
+
+    // The decoded vector should still point roughly in the same direction
+    expect(dot(quantizer.decode(code), vectors[0])).toBeGreaterThan(0.5);
+  });
+
+  it('should restore a trained codebook from JSON', () => {
+    const quantizer = new ProductQuantizer({ subvectors: 3, centroids: 8 });
+    const vectors = makeVectors(50, 10).map(v => Float32Array.from(v));
+    quantizer.train(vectors);
+
+    const json = JSON.parse(JSON.stringify(quantizer.toJSON()));
+    const restored = loadQuantizer(json);
+
+    expect(restored.isTrained).toBe(true);
+    expect(restored.encode(vectors[7])).toEqual(quantizer.encode(vectors[7]));
+    expect(restored.decode(quantizer.encode(vectors[7]))).toEqual(
+      quantizer.decode(quantizer.encode(vectors[7]))
+    );
+  });
+
+  it('should compute distances on codes like on decoded vectors', () => {
+    const distances: Record<string, (a: Float32Array, b: Float32Array) => number> = {
+      cosine: (a, b) => 1 - dot(a, b) / Math.sqrt(dot(a, a) * dot(b, b)),
+      'cosine-normalized': (a, b) => 1 - dot(a, b),
+      'inner-product': (a, b) => 1 - dot(a, b),
+      l2: (a, b) => Math.sqrt(a.reduce((sum, v, i) => sum + (v - b[i]) ** 2, 0)),
+      l1: (a, b) => a.reduce((sum, v, i) => sum + Math.abs(v - b[i]), 0)
+    };
+    const vectors = makeVectors(80, 12).map(v => Float32Array.from(v.map(x => x * 3)));
+    const pq = new ProductQuantizer({ subvectors: 4, centroids: 8 });
+    pq.train(vectors);
+
+    for (const quantizer of [new ScalarQuantizer(), pq]) {
+      const code = quantizer.encode(vectors[5]);
+      const decoded = quantizer.decode(code);
+      for (const [name, distance] of Object.entries(distances)) {
+        const codeDistance = quantizer.queryDistance(vectors[9], name as any);
+        expect(codeDistance!(code)).toBeCloseTo(distance(vectors[9], decoded), 5);
+      }
+    }
+  });
+
+  it('should validate product quantization options', () => {
+    expect(() => createQuantizer({ type: 'pq', centroids: 300 })).toThrow('centroids');
+    expect(() => createQuantizer({ type: 'pq', subvectors: 0 })).toThrow('subvectors');
+    expect(() => new ProductQuantizer({ subvectors: 8 }).train([new Float32Array(4)])).toThrow(
+      'Cannot split'
+    );
+    expect(() => createQuantizer({ type: 'binary' } as any)).toThrow(
+      'Unknown quantization type'
+    );
+  });
+});
+
+describe('Mememo Quantization', () => {
+  const vectors = makeVectors(120, 32);
+  const keys = vectors.map((_, i) => `node-${i}`);
+
+  beforeEach(async () => {
+    await Dexie.delete('mememo-index-store');
+  });
+
+  afterEach(async () => {
+    await Dexie.delete('mememo-index-store');
+  });
+
+  it('should store int8 codes and keep full vectors separately', async () => {
+    const hnsw = new HNSW({ m: 8, efConstruction: 50, quantization: { type: 'int8' } });
+    await hnsw.bulkInsert(keys, vectors);
+
+    const node = await hnsw.nodes.get('node-3', 0);
+    expect(node!.code).toBeDefined();
+    expect(node!.value.length).toBe(0);
+
+    const full = await hnsw.getVector('node-3');
+    expect(Array.from(full)).toEqual(Array.from(Float32Array.from(vectors[3])));
+
+    const { keys: found } = await hnsw.query(vectors[3], 1);
+    expect(found).toEqual(['node-3']);
+  });
+
+  it('should re-rank candidates with full-precision distances', async () => {
+    const hnsw = new HNSW({
+      m: 8,
+      efConstruction: 50,
+      quantization: { type: 'int8', rerank: 10 }
+    });
+    await hnsw.bulkInsert(keys, vectors);
+
+    const query = makeVectors(121, 32)[120];
+    const { keys: found, distances } = await hnsw.query(query, 5);
+
+    expect(found).toHaveLength(5);
+    for (const [i, key] of found.entries()) {
+      const exact = 1 - dot(query, await hnsw.getVector(key));
+      expect(distances[i]).toBeCloseTo(exact, 5);
+    }
+    for (let i = 1; i < distances.length; i++) {
+      expect(distances[i]).toBeGreaterThanOrEqual(distances[i - 1]);
+    }
+  });
+
+  it('should train product quantization after trainingSize nodes', async () => {
+    const hnsw = new HNSW({
+      m: 8,
+      efConstruction: 50,
+      quantization: { type: 'pq', subvectors: 8, centroids: 16, trainingSize: 60, rerank: 20 }
+    });
+
+    await hnsw.bulkInsert(keys.slice(0, 30), vectors.slice(0, 30));
+    expect(hnsw.quantizer!.isTrained).toBe(false);
+    expect((await hnsw.nodes.get('node-0', 0))!.code).toBeUndefined();
+
+    await hnsw.bulkInsert(keys.slice(30), vectors.slice(30));
+    expect(hnsw.quantizer!.isTrained).toBe(true);
+    for (const key of ['node-0', 'node-100']) {
+      const node = await hnsw.nodes.get(key, 0);
+      expect(node!.code!.codes.length).toBe(8);
+      expect(node!.value.length).toBe(0);
+    }
+
+    const { keys: found } = await hnsw.query(vectors[42], 1);
+    expect(found).toEqual(['node-42']);
+  });
+
+  it('should train on a sample and search without decoding codes', async () => {
+    const hnsw = new HNSW({
+      m: 8,
+      efConstruction: 50,
+      quantization: { type: 'pq', subvectors: 8, centroids: 16, trainingSize: 40 }
+    });
+    const train = jest.spyOn(hnsw.quantizer!, 'train');
+    await hnsw.bulkInsert(keys, vectors);
+    expect(train).toHaveBeenCalledTimes(1);
+    expect(train.mock.calls[0][0]).toHaveLength(40);
+    expect((await hnsw.nodes.get('node-119', 0))!.code).toBeDefined();
+
+    const decode = jest.spyOn(hnsw.quantizer!, 'decode');
+    const { keys: found } = await hnsw.query(vectors[42], 1);
+    expect(found).toEqual(['node-42']);
+    expect(decode).not.toHaveBeenCalled();
+  });
+
+  it('should persist the codebook with the index metadata', async () => {
+    const hnsw = new HNSW({
+      m: 8,
+      efConstruction: 50,
+      useIndexedDB: true,
+      clearOnInit: true,
+      quantization: { type: 'pq', subvectors: 4, centroids: 8, trainingSize: 40, rerank: 5 }
+    });
+    await hnsw.ready();
+    await hnsw.bulkInsert(keys.slice(0, 50), vectors.slice(0, 50));
+
+    const exported = hnsw.exportIndex();
+    expect(exported.quantization!.type).toBe('pq');
+    expect(exported.quantization!.rerank).toBe(5);
+
+    await hnsw.saveIndex();
+
+    const reloaded = new HNSW({ m: 8, useIndexedDB: true });
+    await reloaded.ready();
+
+    expect(reloaded.quantizer!.isTrained).toBe(true);
+    expect(reloaded.rerank).toBe(5);
+    expect(reloaded.quantization).toEqual({
+      type: 'pq',
+      subvectors: 4,
+      centroids: 8,
+      trainingSize: 40,
+      iterations: 10,
+      rerank: 5
+    });
+    expect(reloaded.quantizer!.encode(Float32Array.from(vectors[0]))).toEqual(
+      hnsw.quantizer!.encode(Float32Array.from(vectors[0]))
+    );
+
+    const { keys: found } = await reloaded.query(vectors[7], 1);
+    expect(found).toEqual(['node-7']);
+  });
+
+  it('should not export quantization for uncompressed indexes', () => {
+    const hnsw = new HNSW({});
+    expect(hnsw.exportIndex().quantization).toBeNull();
+  });
+});
+
+describe('VectorSearchManager Quantization', () => {
+  it('should search and compact a quantized index', async () => {
+    const manager = new VectorSearchManager({
+      embeddingEngine: new MockEmbeddingEngine(32),
+      indexConfig: {
+        distanceFunction: 'cosine',
+        useIndexedDB: false,
+        quantization: { type: 'int8', rerank: 5 },
+      },
+    });
+    await manager.contentStore.clear();
+
+    await manager.addDocuments(
+      Array.from({ length: 20 }, (_, i) => ({ id: `doc-${i}`, text: `Document ${i}` }))
+    );
+    await manager.deleteDocument('doc-2');
+    await manager.compactIndex();
+
+    expect(manager.index.quantization).toEqual({ type: 'int8', rerank: 5 });
+    const results = await manager.search('Document 7', 1);
+    expect(results[0].key).toBe('doc-7');
+    expect(results[0].similarity).toBeCloseTo(1, 5);
+
+    await manager.contentStore.clear();
+  });
+});
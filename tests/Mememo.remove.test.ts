@@ -0,0 +1,181 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import Dexie from 'dexie';
+import { HNSW } from '../mememo/src/mememo';
+
+/**
+ * Deterministic unit vectors (d3-random is mocked to a constant)
+ */
+const makeVectors = (count: number, dimension: number) => {
+  let seed = 7;
+  const next = () => {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return seed / 4294967296 - 0.5;
+  };
+
+  return Array.from({ length: count }, () => {
+    const vector = Array.from({ length: dimension }, next);
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return vector.map(v => v / norm);
+  });
+};
+
+/**
+ * Insert nodes with levels 0-2, so the graph has several layers
+ */
+const buildIndex = async (hnsw: HNSW, vectors: number[][]) => {
+  for (const [i, vector] of vectors.entries()) {
+    await hnsw.insert(`node-${i}`, vector, i % 9 === 0 ? 2 : i % 3 === 0 ? 1 : 0);
+  }
+};
+
+/**
+ * Keys referenced by the graph that are not nodes of their layer
+ */
+const danglingEdges = (hnsw: HNSW) => {
+  const dangling: string[] = [];
+  for (const [l, layer] of hnsw.graphLayers.entries()) {
+    for (const [key, neighbors] of layer.graph.entries()) {
+      for (const neighborKey of neighbors.keys()) {
+        if (!layer.graph.has(neighborKey)) {
+          dangling.push(`${l}:${key}->${neighborKey}`);
+        }
+      }
+    }
+  }
+  return dangling;
+};
+
+describe('HNSW remove', () => {
+  it('should unlink the node from every layer', async () => {
+    const hnsw = new HNSW({ distanceFunction: 'cosine-normalized', m: 4, useIndexedDB: false });
+    const vectors = makeVectors(30, 16);
+    await buildIndex(hnsw, vectors);
+
+    await hnsw.remove('node-3');
+
+    expect(await hnsw.nodes.has('node-3')).toBe(false);
+    expect(await hnsw.nodes.size()).toBe(29);
+    for (const layer of hnsw.graphLayers) {
+      expect(layer.graph.has('node-3')).toBe(false);
+    }
+    expect(danglingEdges(hnsw)).toEqual([]);
+
+    const { keys } = await hnsw.query(vectors[3], 5);
+    expect(keys).not.toContain('node-3');
+  });
+
+  it('should keep every remaining node reachable', async () => {
+    const hnsw = new HNSW({ distanceFunction: 'cosine-normalized', m: 4, useIndexedDB: false });
+    const vectors = makeVectors(60, 16);
+    await buildIndex(hnsw, vectors);
+
+    for (let i = 0; i < vectors.length; i += 2) {
+      await hnsw.remove(`node-${i}`);
+    }
+
+    expect(danglingEdges(hnsw)).toEqual([]);
+    for (let i = 1; i < vectors.length; i += 2) {
+      const { keys } = await hnsw.query(vectors[i], 1);
+      expect(keys).toEqual([`node-${i}`]);
+    }
+  });
+
+  it('should move the entry point and drop empty top layers', async () => {
+    const hnsw = new HNSW({ distanceFunction: 'cosine-normalized', m: 4, useIndexedDB: false });
+    const vectors = makeVectors(10, 8);
+    await hnsw.insert('top', vectors[0], 3);
+    for (let i = 1; i < vectors.length; i++) {
+      await hnsw.insert(`node-${i}`, vectors[i], i === 1 ? 2 : 0);
+    }
+    await hnsw.markDeleted('node-2');
+
+    expect(hnsw.entryPointKey).toBe('top');
+    expect(hnsw.graphLayers.length).toBe(4);
+
+    await hnsw.remove('top');
+
+    expect(hnsw.entryPointKey).toBe('node-1');
+    expect(hnsw.graphLayers.length).toBe(3);
+    expect(danglingEdges(hnsw)).toEqual([]);
+
+    const { keys } = await hnsw.query(vectors[5], 1);
+    expect(keys).toEqual(['node-5']);
+  });
+
+  it('should empty the index when the last node is removed', async () => {
+    const hnsw = new HNSW({ distanceFunction: 'cosine-normalized', m: 4, useIndexedDB: false });
+    const vectors = makeVectors(3, 8);
+    await buildIndex(hnsw, vectors);
+
+    for (let i = 0; i < vectors.length; i++) {
+      await hnsw.remove(`node-${i}`);
+    }
+
+    expect(hnsw.entryPointKey).toBeNull();
+    expect(hnsw.graphLayers).toEqual([]);
+    expect(await hnsw.nodes.size()).toBe(0);
+
+    await hnsw.insert('node-0', vectors[0]);
+    const { keys } = await hnsw.query(vectors[0], 1);
+    expect(keys).toEqual(['node-0']);
+  });
+
+  it('should throw for a missing node', async () => {
+    const hnsw = new HNSW({ distanceFunction: 'cosine-normalized', useIndexedDB: false });
+    await hnsw.insert('a', [1, 0]);
+
+    await expect(hnsw.remove('b')).rejects.toThrow('Node with key b does not exist.');
+  });
+
+  it('should remove many nodes with one pass over each layer', async () => {
+    const hnsw = new HNSW({ distanceFunction: 'cosine-normalized', m: 4, useIndexedDB: false });
+    const vectors = makeVectors(60, 16);
+    await buildIndex(hnsw, vectors);
+    const scans = hnsw.graphLayers.map(layer => jest.spyOn(layer.graph, 'entries'));
+
+    // Neighboring nodes, so removed nodes link to each other
+    const removedKeys = Array.from({ length: 30 }, (_, i) => `node-${i}`);
+    await hnsw.bulkRemove(removedKeys);
+
+    for (const scan of scans) {
+      expect(scan).toHaveBeenCalledTimes(1);
+    }
+    expect(await hnsw.nodes.size()).toBe(30);
+    expect(danglingEdges(hnsw)).toEqual([]);
+    for (let i = 30; i < vectors.length; i++) {
+      const { keys } = await hnsw.query(vectors[i], 1);
+      expect(keys).toEqual([`node-${i}`]);
+    }
+  });
+
+  it('should remove nothing when a bulk removal has a missing node', async () => {
+    const hnsw = new HNSW({ distanceFunction: 'cosine-normalized', useIndexedDB: false });
+    await hnsw.insert('a', [1, 0]);
+    await hnsw.insert('b', [0, 1]);
+
+    await expect(hnsw.bulkRemove(['a', 'c'])).rejects.toThrow('Node with key c does not exist.');
+    expect(await hnsw.nodes.size()).toBe(2);
+  });
+
+  it('should delete the node from IndexedDB', async () => {
+    const dbName = 'mememo-remove-test';
+    await Dexie.delete(dbName);
+
+    const hnsw = new HNSW({ distanceFunction: 'cosine-normalized', m: 4, useIndexedDB: true, dbName });
+    const vectors = makeVectors(20, 8);
+    await buildIndex(hnsw, vectors);
+    await hnsw.remove('node-4');
+    await hnsw.saveIndex();
+
+    const reloaded = new HNSW({ distanceFunction: 'cosine-normalized', m: 4, useIndexedDB: true, dbName });
+    await reloaded.ready();
+
+    expect(await reloaded.nodes.has('node-4')).toBe(false);
+    expect(await reloaded.nodes.size()).toBe(19);
+    expect(danglingEdges(reloaded)).toEqual([]);
+    const { keys } = await reloaded.query(vectors[7], 1);
+    expect(keys).toEqual(['node-7']);
+
+    await Dexie.delete(dbName);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * MetadataFilter Tests
+ * Tests for metadata filter evaluation used by VectorSearchManager.search
+ */
+
+import { matchesFilter } from '../embeddings/MetadataFilter';
+
+describe('matchesFilter', () => {
+  const metadata = {
+    category: 'news',
+    year: 2021,
+    tags: ['ai', 'search'],
+    author: { name: 'Ada', country: 'UK' },
+    draft: false,
+    extractedAt: new Date('2024-01-01T00:00:00Z'),
+  };
+
+  describe('equality', () => {
+    it('should match plain values', () => {
+      expect(matchesFilter(metadata, { category: 'news' })).toBe(true);
+      expect(matchesFilter(metadata, { category: 'blog' })).toBe(false);
+      expect(matchesFilter(metadata, { draft: false })).toBe(true);
+    });
+
+    it('should match array fields that contain the value', () => {
+      expect(matchesFilter(metadata, { tags: 'ai' })).toBe(true);
+      expect(matchesFilter(metadata, { tags: 'cooking' })).toBe(false);
+    });
+
+    it('should support nested fields with dot notation', () => {
+      expect(matchesFilter(metadata, { 'author.name': 'Ada' })).toBe(true);
+      expect(matchesFilter(metadata, { 'author.name': 'Bob' })).toBe(false);
+      expect(matchesFilter(metadata, { 'author.age': 30 })).toBe(false);
+    });
+
+    it('should support $eq and $ne', () => {
+      expect(matchesFilter(metadata, { year: { $eq: 2021 } })).toBe(true);
+      expect(matchesFilter(metadata, { year: { $ne: 2021 } })).toBe(false);
+      expect(matchesFilter(metadata, { missing: { $ne: 'x' } })).toBe(true);
+    });
+
+    it('should combine multiple fields with AND', () => {
+      expect(matchesFilter(metadata, { category: 'news', year: 2021 })).toBe(true);
+      expect(matchesFilter(metadata, { category: 'news', year: 2020 })).toBe(false);
+    });
+  });
+
+  describe('$in / $nin', () => {
+    it('should match any listed value', () => {
+      expect(matchesFilter(metadata, { category: { $in: ['blog', 'news'] } })).toBe(true);
+      expect(matchesFilter(metadata, { category: { $in: ['blog'] } })).toBe(false);
+    });
+
+    it('should exclude listed values', () => {
+      expect(matchesFilter(metadata, { category: { $nin: ['blog'] } })).toBe(true);
+      expect(matchesFilter(metadata, { category: { $nin: ['news'] } })).toBe(false);
+    });
+  });
+
+  describe('range', () => {
+    it('should compare numbers', () => {
+      expect(matchesFilter(metadata, { year: { $gte: 2020, $lt: 2022 } })).toBe(true);
+      expect(matchesFilter(metadata, { year: { $gt: 2021 } })).toBe(false);
+      expect(matchesFilter(metadata, { year: { $lte: 2021 } })).toBe(true);
+    });
+
+    it('should compare strings', () => {
+      expect(matchesFilter(metadata, { category: { $gt: 'a', $lt: 'z' } })).toBe(true);
+    });
+
+    it('should compare dates as timestamps', () => {
+      const cutoff = new Date('2023-06-01T00:00:00Z').getTime();
+      expect(matchesFilter(metadata, { extractedAt: { $gt: cutoff } })).toBe(true);
+      expect(matchesFilter(metadata, { extractedAt: { $lt: cutoff } })).toBe(false);
+    });
+
+    it('should not match values of a different type', () => {
+      expect(matchesFilter(metadata, { year: { $gt: '2000' } })).toBe(false);
+      expect(matchesFilter(metadata, { missing: { $lt: 10 } })).toBe(false);
+    });
+  });
+
+  describe('$exists', () => {
+    it('should check field presence', () => {
+      expect(matchesFilter(metadata, { category: { $exists: true } })).toBe(true);
+      expect(matchesFilter(metadata, { missing: { $exists: true } })).toBe(false);
+      expect(matchesFilter(metadata, { missing: { $exists: false } })).toBe(true);
+    });
+
+    it('should treat undefined metadata as having no fields', () => {
+      expect(matchesFilter(undefined, { category: { $exists: false } })).toBe(true);
+      expect(matchesFilter(undefined, { category: 'news' })).toBe(false);
+    });
+  });
+
+  describe('logical operators', () => {
+    it('should support $and', () => {
+      expect(matchesFilter(metadata, { $and: [{ category: 'news' }, { year: 2021 }] })).toBe(true);
+      expect(matchesFilter(metadata, { $and: [{ category: 'news' }, { year: 1999 }] })).toBe(false);
+    });
+
+    it('should support $or', () => {
+      expect(matchesFilter(metadata, { $or: [{ category: 'blog' }, { year: 2021 }] })).toBe(true);
+      expect(matchesFilter(metadata, { $or: [{ category: 'blog' }, { year: 1999 }] })).toBe(false);
+    });
+
+    it('should support nesting', () => {
+      const filter = {
+        $or: [
+          { $and: [{ category: 'news' }, { 'author.country': 'UK' }] },
+          { category: 'blog' },
+        ],
+      };
+      expect(matchesFilter(metadata, filter)).toBe(true);
+    });
+
+    it('should match everything with an empty filter', () => {
+      expect(matchesFilter(metadata, {})).toBe(true);
+      expect(matchesFilter(undefined, {})).toBe(true);
+    });
+  });
+
+  describe('errors', () => {
+    it('should reject unknown operators', () => {
+      expect(() => matchesFilter(metadata, { year: { $regex: '20' } as any })).toThrow('Unknown operator');
+      expect(() => matchesFilter(metadata, { $not: [] } as any)).toThrow('Unknown logical operator');
+    });
+  });
+});
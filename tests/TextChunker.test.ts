@@ -7,8 +7,22 @@ import {
   RecursiveCharacterTextSplitter,
   SentenceTextSplitter,
   ParagraphTextSplitter,
+  TokenTextSplitter,
+  TextChunkingManager,
+  ITokenizer,
 } from '../document-processing/TextChunker';
 
+/**
+ * Tokenizer with one token per 4 characters of each word, and [CLS]/[SEP]
+ * unless special tokens are left out
+ */
+const fourCharTokenizer: ITokenizer = {
+  encode: (text, options) => {
+    const tokens = (text.match(/\S+/g) ?? []).flatMap((word) => new Array(Math.ceil(word.length / 4)).fill(1));
+    return options?.add_special_tokens === false ? tokens : [101, ...tokens, 102];
+  },
+};
+
 describe('RecursiveCharacterTextSplitter', () => {
   describe('basic chunking', () => {
     it('should split text into chunks of specified size', () => {
@@ -227,6 +241,47 @@ describe('ParagraphTextSplitter', () => {
   });
 });
 
+describe('TokenTextSplitter', () => {
+  it('should measure chunks in tokens and keep the original text', () => {
+    const splitter = new TokenTextSplitter(fourCharTokenizer, { chunkSize: 4, chunkOverlap: 0 });
+
+    const chunks = splitter.chunk('One  two Three extraordinary four\nfive six');
+
+    expect(chunks).toEqual(['One  two Three', 'extraordinary', 'four\nfive six']);
+    chunks.forEach((chunk) => expect(splitter.countTokens(chunk)).toBeLessThanOrEqual(4));
+  });
+
+  it('should start chunks with the overlapping words of the previous one', () => {
+    const splitter = new TokenTextSplitter(fourCharTokenizer, { chunkSize: 3, chunkOverlap: 1 });
+
+    expect(splitter.chunk('a b c d e f g')).toEqual(['a b c', 'c d e', 'e f g']);
+    expect(splitter.chunk('a b c d e f g', { chunkSize: 4, overlap: 2 })).toEqual(['a b c d', 'c d e f', 'e f g']);
+  });
+
+  it('should split words longer than a chunk', () => {
+    const splitter = new TokenTextSplitter(fourCharTokenizer, { chunkSize: 2, chunkOverlap: 0 });
+
+    const chunks = splitter.chunk('x'.repeat(20));
+
+    expect(chunks.join('')).toBe('x'.repeat(20));
+    chunks.forEach((chunk) => expect(splitter.countTokens(chunk)).toBeLessThanOrEqual(2));
+  });
+
+  it('should reject overlaps that are not smaller than the chunk size', () => {
+    expect(() => new TokenTextSplitter(fourCharTokenizer, { chunkSize: 10, chunkOverlap: 10 })).toThrow(
+      'chunkOverlap must be a non-negative integer below chunkSize, got 10'
+    );
+  });
+
+  it('should be available as a chunking strategy', () => {
+    const manager = new TextChunkingManager();
+    manager.registerChunker('token', new TokenTextSplitter(fourCharTokenizer, { chunkSize: 2, chunkOverlap: 0 }));
+
+    expect(manager.getAvailableStrategies()).toContain('token');
+    expect(manager.chunk('a b c', 'token')).toEqual(['a b', 'c']);
+  });
+});
+
 describe('Chunker comparison', () => {
   const sampleText = `
 This is the first paragraph. It contains multiple sentences. Each sentence adds information.
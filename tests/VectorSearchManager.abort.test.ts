@@ -0,0 +1,137 @@
+// VectorSearchManager.abort.test.ts - Tests for cancellation with AbortSignal
+import VectorSearchManager from '../embeddings/VectorSearchManager';
+import { MockEmbeddingEngine } from './mocks/MockEmbedding';
+
+/**
+ * Embedding engine calling a hook before each embedding, e.g. to abort
+ */
+class ControlledEmbeddingEngine extends MockEmbeddingEngine {
+  onEmbed?: (text: string) => void;
+  signals: Array<AbortSignal | undefined> = [];
+
+  async embed(text: string, progressCallback?: (progress: number) => void, signal?: AbortSignal) {
+    this.signals.push(signal);
+    this.onEmbed?.(text);
+    signal?.throwIfAborted();
+    return super.embed(text);
+  }
+}
+
+/**
+ * Summarization engine that waits until it is released
+ */
+class ControlledSummarizationEngine {
+  release: () => void = () => {};
+  private released = new Promise<void>((resolve) => {
+    this.release = resolve;
+  });
+
+  async summarize(text: string, options?: unknown, progressCallback?: unknown, signal?: AbortSignal) {
+    await this.released;
+    signal?.throwIfAborted();
+    return `Summary: ${text}`;
+  }
+}
+
+describe('VectorSearchManager Cancellation', () => {
+  let manager: VectorSearchManager;
+  let embeddingEngine: ControlledEmbeddingEngine;
+  let summarizationEngine: ControlledSummarizationEngine;
+
+  beforeEach(() => {
+    embeddingEngine = new ControlledEmbeddingEngine(16);
+    summarizationEngine = new ControlledSummarizationEngine();
+    manager = new VectorSearchManager({
+      embeddingEngine,
+      indexConfig: {
+        distanceFunction: 'cosine',
+        useIndexedDB: false,
+      },
+      summarization: {
+        enabled: true,
+        engine: summarizationEngine,
+        embedSummary: false,
+      },
+    });
+  });
+
+  afterEach(async () => {
+    summarizationEngine.release();
+    await manager.contentStore.clear();
+    await manager.index.clear();
+  });
+
+  it('should pass the signal to the embedding engine', async () => {
+    const controller = new AbortController();
+    await manager.addDocument('Text', 'doc-1', undefined, undefined, {
+      generateSummary: false,
+      signal: controller.signal,
+    });
+    expect(embeddingEngine.signals).toEqual([controller.signal]);
+  });
+
+  it('should store nothing when aborted during embedding', async () => {
+    const controller = new AbortController();
+    embeddingEngine.onEmbed = () => controller.abort();
+
+    await expect(
+      manager.addDocument('Text', 'doc-1', undefined, undefined, { signal: controller.signal })
+    ).rejects.toThrow();
+    expect(await manager.getDocument('doc-1')).toBeUndefined();
+    expect(await manager.size()).toBe(0);
+  });
+
+  it('should remove the written document when aborted while waiting for the summary', async () => {
+    const controller = new AbortController();
+    const adding = manager.addDocument('Text', 'doc-1', undefined, undefined, {
+      waitForSummary: true,
+      signal: controller.signal,
+    });
+
+    // Wait until the document is stored and indexed
+    while (!(await manager.index.nodes.has('doc-1'))) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+    controller.abort();
+    summarizationEngine.release();
+
+    await expect(adding).rejects.toThrow();
+    expect(await manager.getDocument('doc-1')).toBeUndefined();
+    expect(await manager.index.nodes.has('doc-1')).toBe(false);
+    expect(await manager.contentStore.searchLexical('text', 1)).toEqual([]);
+  });
+
+  it('should drop a background summary when aborted', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const controller = new AbortController();
+    const { documentId } = await manager.addDocument('Text', 'doc-1', undefined, undefined, {
+      signal: controller.signal,
+    });
+
+    controller.abort();
+    summarizationEngine.release();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(await manager.getDocument(documentId)).toBeDefined();
+    expect(await manager.getSummary(documentId)).toBeUndefined();
+    expect(error).not.toHaveBeenCalled();
+    error.mockRestore();
+  });
+
+  it('should stop batch ingestion at the next batch', async () => {
+    const controller = new AbortController();
+    embeddingEngine.onEmbed = (text) => {
+      if (text === 'Document 2') {
+        controller.abort();
+      }
+    };
+
+    await expect(
+      manager.addDocuments(
+        Array.from({ length: 4 }, (_, i) => ({ id: `doc-${i}`, text: `Document ${i}` })),
+        { batchSize: 2, concurrency: 1, generateSummary: false, signal: controller.signal }
+      )
+    ).rejects.toThrow();
+    expect((await manager.contentStore.getAllDocuments()).map(doc => doc.id)).toEqual(['doc-0', 'doc-1']);
+  });
+});
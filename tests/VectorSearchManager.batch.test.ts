@@ -0,0 +1,147 @@
+// VectorSearchManager.batch.test.ts - Tests for batch document ingestion
+import VectorSearchManager, { BatchProgress } from '../embeddings/VectorSearchManager';
+import { MockEmbeddingEngine } from './mocks/MockEmbedding';
+
+/**
+ * Mock engine exposing embedBatch() and recording the batch sizes it receives
+ */
+class BatchMockEmbedding extends MockEmbeddingEngine {
+  public batchSizes: number[] = [];
+  public singleCalls = 0;
+
+  async embed(text: string): Promise<number[]> {
+    this.singleCalls++;
+    return super.embed(text);
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    this.batchSizes.push(texts.length);
+    return Promise.all(texts.map(text => super.embed(text)));
+  }
+}
+
+describe('VectorSearchManager Batch Ingestion', () => {
+  let manager: VectorSearchManager;
+  let engine: BatchMockEmbedding;
+
+  const makeDocs = (count: number) =>
+    Array.from({ length: count }, (_, i) => ({
+      id: `doc-${i}`,
+      text: `Document number ${i} about topic ${i % 3}`,
+      metadata: { topic: i % 3 },
+    }));
+
+  beforeEach(async () => {
+    engine = new BatchMockEmbedding(32);
+    manager = new VectorSearchManager({
+      embeddingEngine: engine,
+      indexConfig: {
+        distanceFunction: 'cosine',
+        m: 8,
+        efConstruction: 50,
+        useIndexedDB: false,
+      }
+    });
+    await manager.contentStore.clear();
+  });
+
+  afterEach(async () => {
+    await manager.contentStore.clear();
+    await manager.index.clear();
+  });
+
+  it('should store and index every document', async () => {
+    const { documentIds } = await manager.addDocuments(makeDocs(25), { batchSize: 10 });
+
+    expect(documentIds).toEqual(makeDocs(25).map(doc => doc.id));
+    expect(await manager.size()).toBe(25);
+    expect(await manager.contentStore.documents.count()).toBe(25);
+
+    const doc = await manager.getDocument('doc-7');
+    expect(doc?.metadata).toEqual({ topic: 1 });
+
+    const results = await manager.search('Document number 7 about topic 1', 1);
+    expect(results[0].key).toBe('doc-7');
+  });
+
+  it('should embed in batches of batchSize', async () => {
+    await manager.addDocuments(makeDocs(25), { batchSize: 10, concurrency: 3 });
+
+    expect(engine.batchSizes).toEqual([10, 10, 5]);
+    expect(engine.singleCalls).toBe(0);
+  });
+
+  it('should fall back to embed() when the engine has no batch API', async () => {
+    const single = new MockEmbeddingEngine(32);
+    const embedSpy = jest.spyOn(single, 'embed');
+    const singleManager = new VectorSearchManager({
+      embeddingEngine: single,
+      indexConfig: { distanceFunction: 'cosine', useIndexedDB: false },
+    });
+
+    await singleManager.addDocuments(makeDocs(4), { batchSize: 3 });
+
+    expect(embedSpy).toHaveBeenCalledTimes(4);
+    expect(await singleManager.size()).toBe(4);
+  });
+
+  it('should report progress per document', async () => {
+    const updates: BatchProgress[] = [];
+    await manager.addDocuments(makeDocs(5), {
+      batchSize: 2,
+      onProgress: progress => updates.push(progress),
+    });
+
+    expect(updates.map(u => u.documentId)).toEqual(['doc-0', 'doc-1', 'doc-2', 'doc-3', 'doc-4']);
+    expect(updates.map(u => u.completed)).toEqual([1, 2, 3, 4, 5]);
+    expect(updates.every(u => u.total === 5)).toBe(true);
+    expect(updates[updates.length - 1].progress).toBe(1);
+  });
+
+  it('should generate IDs when they are missing', async () => {
+    const { documentIds } = await manager.addDocuments([{ text: 'first' }, { text: 'second' }]);
+
+    expect(documentIds).toHaveLength(2);
+    expect(documentIds[0]).not.toBe(documentIds[1]);
+    expect(await manager.hasDocument(documentIds[0])).toBe(true);
+  });
+
+  it('should make batch-added documents searchable lexically', async () => {
+    await manager.addDocuments(makeDocs(6));
+
+    const results = await manager.contentStore.searchLexical('number 4', 1);
+    expect(results[0].id).toBe('doc-4');
+  });
+
+  it('should reject duplicate IDs in the input', async () => {
+    await expect(
+      manager.addDocuments([{ id: 'a', text: 'one' }, { id: 'a', text: 'two' }])
+    ).rejects.toThrow('duplicate');
+    expect(await manager.size()).toBe(0);
+  });
+
+  it('should reject IDs that are already indexed without writing the batch', async () => {
+    await manager.addDocument('existing', 'doc-1');
+
+    await expect(manager.addDocuments(makeDocs(3))).rejects.toThrow('already a node');
+    expect(await manager.contentStore.documents.count()).toBe(1);
+    expect((await manager.getDocument('doc-1'))?.text).toBe('existing');
+  });
+
+  it('should re-add previously deleted documents', async () => {
+    await manager.addDocuments(makeDocs(3));
+    await manager.deleteDocument('doc-1');
+
+    await manager.addDocuments([{ id: 'doc-1', text: 'Revived document' }]);
+
+    expect(await manager.size()).toBe(3);
+    const results = await manager.search('Revived document', 1);
+    expect(results[0].key).toBe('doc-1');
+    expect(results[0].text).toBe('Revived document');
+  });
+
+  it('should validate batchSize and concurrency', async () => {
+    await expect(manager.addDocuments(makeDocs(1), { batchSize: 0 })).rejects.toThrow('batchSize');
+    await expect(manager.addDocuments(makeDocs(1), { concurrency: 1.5 })).rejects.toThrow('concurrency');
+  });
+});
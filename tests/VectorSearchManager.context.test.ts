@@ -0,0 +1,155 @@
+// VectorSearchManager.context.test.ts - Tests for building prompt contexts within a token budget
+import VectorSearchManager from '../embeddings/VectorSearchManager';
+import { ContextCandidate, assembleContext } from '../embeddings/ContextBuilder';
+import { ProcessedChunk } from '../document-processing/DocumentProcessor';
+import { MockEmbeddingEngine } from './mocks/MockEmbedding';
+
+// One token per word
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+const candidate = (id: string, text: string, extra: Partial<ContextCandidate> = {}): ContextCandidate => ({
+  id,
+  text,
+  title: id,
+  similarity: 0.5,
+  ...extra,
+});
+
+describe('assembleContext', () => {
+  it('should pick the best chunks that fit and cut the next one', () => {
+    const context = assembleContext(
+      [
+        candidate('a', 'alpha beta gamma'),
+        candidate('b', 'delta epsilon'),
+        candidate('c', 'zeta eta theta iota kappa'),
+        candidate('d', 'lambda'),
+      ],
+      { maxTokens: 8, tokenizer: countWords, includeCitations: false }
+    );
+
+    expect(context.text).toBe('alpha beta gamma\n\ndelta epsilon\n\nzeta eta theta');
+    expect(context.tokens).toBe(8);
+    expect(Object.keys(context.citations)).toEqual(['1', '2', '3']);
+    expect(context.citations[3]).toMatchObject({ documents: [{ id: 'c' }], truncated: true });
+    expect(context.citations[1].truncated).toBe(false);
+  });
+
+  it('should count citation markers against the budget', () => {
+    const context = assembleContext(
+      [candidate('a', 'alpha beta'), candidate('b', 'gamma delta')],
+      { maxTokens: 5, tokenizer: countWords }
+    );
+
+    expect(context.text).toBe('[1] alpha beta\n\n[2] gamma');
+    expect(context.tokens).toBeLessThanOrEqual(5);
+  });
+
+  it('should merge adjacent chunks of a source and remove their overlap', () => {
+    const context = assembleContext(
+      [
+        candidate('doc#2', 'and the third chunk ends here.', { sourceId: 'doc', chunkIndex: 2 }),
+        candidate('other', 'Unrelated text'),
+        candidate('doc#1', 'The second chunk and the third chunk', { sourceId: 'doc', chunkIndex: 1 }),
+        candidate('doc#4', 'The fifth chunk', { sourceId: 'doc', chunkIndex: 4 }),
+      ],
+      { maxTokens: 100, tokenizer: countWords }
+    );
+
+    expect(context.text).toBe(
+      '[1] The second chunk and the third chunk ends here.\n\n[2] Unrelated text\n\n[3] The fifth chunk'
+    );
+    expect(context.citations[1].documents.map((doc) => doc.id)).toEqual(['doc#1', 'doc#2']);
+    expect(context.citations[1].sourceId).toBe('doc');
+  });
+
+  it('should skip repeated texts unless dedupe is off', () => {
+    const candidates = [candidate('a', 'Same  text'), candidate('b', 'same text'), candidate('c', 'Other')];
+
+    expect(assembleContext(candidates, { maxTokens: 100 }).text).toBe('[1] Same  text\n\n[2] Other');
+    expect(Object.keys(assembleContext(candidates, { maxTokens: 100, dedupe: false }).citations)).toHaveLength(3);
+  });
+
+  it('should reject invalid budgets', () => {
+    expect(() => assembleContext([], { maxTokens: 0 })).toThrow('maxTokens must be a positive integer, got 0');
+  });
+});
+
+const chunksOf = (filename: string, texts: string[]): ProcessedChunk[] =>
+  texts.map((text, index) => ({
+    text,
+    index,
+    metadata: {
+      filename,
+      mimeType: 'text/plain',
+      extractedAt: new Date(0),
+      totalChunks: texts.length,
+    },
+  }));
+
+describe('VectorSearchManager Context Building', () => {
+  let manager: VectorSearchManager;
+
+  beforeEach(async () => {
+    manager = new VectorSearchManager({
+      embeddingEngine: new MockEmbeddingEngine(32),
+      indexConfig: {
+        distanceFunction: 'cosine',
+        useIndexedDB: false,
+      }
+    });
+    await manager.addSource(
+      { id: 'manual', filename: 'manual.txt' },
+      chunksOf('manual.txt', ['Chapter one', 'Chapter two', 'Chapter three'])
+    );
+    await manager.addDocuments([{ id: 'loose', text: 'Loose document', metadata: { topic: 'misc' } }]);
+  });
+
+  afterEach(async () => {
+    await manager.contentStore.clear();
+    await manager.index.clear();
+  });
+
+  it('should assemble the search results with citations', async () => {
+    const context = await manager.buildContext('Loose document', { maxTokens: 100, exact: true });
+
+    expect(context.text).toBe('[1] Loose document\n\n[2] Chapter one\nChapter two\nChapter three');
+    expect(context.citations[1]).toEqual({
+      documents: [{ id: 'loose', chunkIndex: undefined, metadata: { topic: 'misc' } }],
+      sourceId: undefined,
+      title: 'loose',
+      similarity: expect.closeTo(1),
+      truncated: false,
+    });
+    expect(context.citations[2]).toMatchObject({
+      documents: [{ id: 'manual#0', chunkIndex: 0 }, { id: 'manual#1' }, { id: 'manual#2' }],
+      sourceId: 'manual',
+      title: 'manual.txt',
+    });
+    expect(context.citations[2].documents[0].metadata!.filename).toBe('manual.txt');
+  });
+
+  it('should title markdown passages with their source', async () => {
+    const context = await manager.buildContext('Loose document', {
+      maxTokens: 100,
+      format: 'markdown',
+      filter: { filename: 'manual.txt' },
+      exact: true,
+    });
+
+    expect(context.text).toBe('### [1] manual.txt\n\nChapter one\nChapter two\nChapter three');
+  });
+
+  it('should search the given number of candidates', async () => {
+    const context = await manager.buildContext('Loose document', {
+      maxTokens: 100,
+      candidates: 1,
+      includeCitations: false,
+      exact: true,
+    });
+
+    expect(context.text).toBe('Loose document');
+    await expect(manager.buildContext('Loose document', { maxTokens: 100, candidates: 0 })).rejects.toThrow(
+      'candidates must be a positive integer, got 0'
+    );
+  });
+});
@@ -230,6 +230,71 @@ describe('VectorSearchManager CRUD Operations', () => {
     });
   });
 
+  describe('background compaction', () => {
+    const createCompactingManager = () =>
+      new VectorSearchManager({
+        embeddingEngine: new MockEmbeddingEngine(),
+        indexConfig: {
+          distanceFunction: 'cosine-normalized',
+          m: 8,
+          efConstruction: 100,
+          useIndexedDB: false,
+          compaction: { deletedRatio: 0.3, batchSize: 2 },
+        }
+      });
+
+    const addDocs = async (count: number) => {
+      await manager.addDocuments(
+        Array.from({ length: count }, (_, i) => ({ id: `doc-${i}`, text: `Document number ${i}` }))
+      );
+    };
+
+    it('should start once the deleted ratio passes the threshold', async () => {
+      manager = createCompactingManager();
+      await addDocs(10);
+
+      for (let i = 0; i < 3; i++) {
+        await manager.deleteDocument(`doc-${i}`);
+      }
+      await manager.waitForCompaction();
+      expect((await manager.getStats()).deletedNodes).toBe(3);
+
+      await manager.deleteDocument('doc-3');
+      await manager.waitForCompaction();
+
+      expect(await manager.getStats()).toEqual({ totalNodes: 6, activeNodes: 6, deletedNodes: 0 });
+      const results = await manager.search('Document number 7', 1);
+      expect(results[0].key).toBe('doc-7');
+    });
+
+    it('should let searches and writes run while it compacts', async () => {
+      manager = createCompactingManager();
+      await addDocs(20);
+
+      // The 7th deletion starts the compaction
+      for (let i = 0; i < 7; i++) {
+        await manager.deleteDocument(`doc-${i}`);
+      }
+      const [results] = await Promise.all([
+        manager.search('Document number 12', 1),
+        manager.addDocument('Document number 20', 'doc-20'),
+        manager.hybridSearch('Document number 15', 1),
+      ]);
+      expect(results[0].key).toBe('doc-12');
+
+      await manager.waitForCompaction();
+      expect(await manager.getStats()).toEqual({ totalNodes: 14, activeNodes: 14, deletedNodes: 0 });
+      expect((await manager.search('Document number 20', 1))[0].key).toBe('doc-20');
+    });
+
+    it('should reject an invalid threshold', () => {
+      expect(() => new VectorSearchManager({
+        embeddingEngine: new MockEmbeddingEngine(),
+        indexConfig: { useIndexedDB: false, compaction: { deletedRatio: 1.5 } },
+      })).toThrow('compaction.deletedRatio must be between 0 and 1, got 1.5');
+    });
+  });
+
   describe('hasDocument', () => {
     it('should return true for existing active document', async () => {
       const { documentId: id } = await manager.addDocument('Test document');
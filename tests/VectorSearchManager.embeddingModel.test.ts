@@ -0,0 +1,117 @@
+// VectorSearchManager.embeddingModel.test.ts - Tests for embedding model and dimension guards
+import VectorSearchManager from '../embeddings/VectorSearchManager';
+import { IEmbeddingEngine } from '../embeddings/EmbeddingPipeline';
+import { MockEmbeddingEngine } from './mocks/MockEmbedding';
+
+/**
+ * Mock engine with a model id, embedding queries with a prefix
+ */
+class ModelEmbeddingEngine extends MockEmbeddingEngine {
+  queries: string[] = [];
+
+  constructor(readonly modelId: string) {
+    super(16);
+  }
+
+  async embedQuery(text: string) {
+    this.queries.push(text);
+    return this.embed(`query: ${text}`);
+  }
+}
+
+/**
+ * Engine whose embedding length can be changed, like swapping models
+ */
+class ResizableEmbeddingEngine implements IEmbeddingEngine {
+  constructor(public dimensions: number) {}
+
+  async embed(text: string) {
+    return Array.from({ length: this.dimensions }, (_, i) => (i === text.length % this.dimensions ? 1 : 0.1));
+  }
+}
+
+describe('VectorSearchManager Embedding Models', () => {
+  const collection = 'embedding-model-test';
+
+  afterEach(async () => {
+    await VectorSearchManager.dropCollection(collection).catch(() => {});
+  });
+
+  it('should embed queries with the engine query API', async () => {
+    const engine = new ModelEmbeddingEngine('model-a');
+    const manager = new VectorSearchManager({
+      embeddingEngine: engine,
+      indexConfig: { distanceFunction: 'cosine', useIndexedDB: false },
+    });
+    await manager.addDocument('query: Hello', 'doc-1');
+
+    const [hit] = await manager.search('Hello', 1);
+    expect(engine.queries).toEqual(['Hello']);
+    expect(hit.similarity).toBeCloseTo(1, 5);
+    expect(manager.index.embeddingModel).toBe('model-a');
+  });
+
+  it('should refuse a persisted index of another model', async () => {
+    const original = new VectorSearchManager({
+      collection,
+      embeddingEngine: new ModelEmbeddingEngine('model-a'),
+      indexConfig: { distanceFunction: 'cosine', useIndexedDB: true },
+    });
+    await original.addDocument('First document', 'doc-1');
+    await original.index.saveIndex();
+
+    const reopened = new VectorSearchManager({
+      collection,
+      embeddingEngine: new ModelEmbeddingEngine('model-b'),
+      indexConfig: { distanceFunction: 'cosine', useIndexedDB: true },
+    });
+    await reopened.ready();
+
+    const message = 'The index stores embeddings of model model-a, but this instance uses model model-b';
+    await expect(reopened.addDocument('Second document', 'doc-2')).rejects.toThrow(message);
+    expect(await reopened.getDocument('doc-2')).toBeUndefined();
+    await expect(reopened.search('First', 1)).rejects.toThrow(message);
+  });
+
+  it('should refuse embeddings with other dimensions before storing anything', async () => {
+    const engine = new ResizableEmbeddingEngine(8);
+    const manager = new VectorSearchManager({
+      embeddingEngine: engine,
+      indexConfig: { distanceFunction: 'cosine', useIndexedDB: false },
+    });
+    await manager.addDocument('First document', 'doc-1');
+
+    engine.dimensions = 4;
+    await expect(manager.addDocument('Second document', 'doc-2')).rejects.toThrow(
+      'Expected embeddings with 8 dimensions, got 4'
+    );
+    expect(await manager.getDocument('doc-2')).toBeUndefined();
+    await expect(
+      manager.addDocuments([{ id: 'doc-3', text: 'Third document' }])
+    ).rejects.toThrow('got 4');
+    expect(await manager.contentStore.count()).toBe(1);
+    await manager.contentStore.clear();
+  });
+
+  it('should refuse snapshots of another model', async () => {
+    const source = new VectorSearchManager({
+      embeddingEngine: new ModelEmbeddingEngine('model-a'),
+      indexConfig: { distanceFunction: 'cosine', useIndexedDB: false },
+    });
+    await source.addDocument('Snapshot document', 'doc-1');
+    const snapshot = await source.exportSnapshot();
+    await source.contentStore.clear();
+
+    const target = new VectorSearchManager({
+      embeddingEngine: new ModelEmbeddingEngine('model-b'),
+      indexConfig: { distanceFunction: 'cosine', useIndexedDB: false },
+    });
+    await target.addDocument('Kept document', 'kept');
+
+    await expect(target.importSnapshot(snapshot)).rejects.toThrow(
+      'Snapshot stores embeddings of model model-a, but this manager uses model model-b'
+    );
+    expect(await target.getDocument('kept')).toBeDefined();
+    await target.contentStore.clear();
+  });
+});
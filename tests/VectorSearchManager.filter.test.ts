@@ -0,0 +1,100 @@
+// VectorSearchManager.filter.test.ts - Tests for metadata-filtered search
+import VectorSearchManager from '../embeddings/VectorSearchManager';
+import { MockEmbeddingEngine } from './mocks/MockEmbedding';
+
+describe('VectorSearchManager Metadata Filtering', () => {
+  let manager: VectorSearchManager;
+
+  beforeEach(async () => {
+    manager = new VectorSearchManager({
+      embeddingEngine: new MockEmbeddingEngine(),
+      indexConfig: {
+        distanceFunction: 'cosine-normalized',
+        m: 8,
+        efConstruction: 20,
+        useIndexedDB: false,
+      }
+    });
+    await manager.contentStore.clear();
+
+    // 50 documents spread over 10 categories, 5 per category
+    for (let i = 0; i < 50; i++) {
+      await manager.addDocument(`Document number ${i}`, `doc-${i}`, {
+        category: `cat-${i % 10}`,
+        year: 2000 + i,
+      });
+    }
+  });
+
+  afterEach(async () => {
+    await manager.contentStore.clear();
+    await manager.index.clear();
+  });
+
+  it('should only return documents matching the filter', async () => {
+    const results = await manager.search('Document', 5, {
+      filter: { category: 'cat-3' },
+    });
+
+    expect(results.length).toBeGreaterThan(0);
+    results.forEach(result => {
+      expect(result.metadata?.category).toBe('cat-3');
+    });
+  });
+
+  it('should return k results even when the filter is selective', async () => {
+    // Only 5 of 50 documents match; efConstruction (20) is far below the corpus size
+    const results = await manager.search('Document number 7', 5, {
+      filter: { category: 'cat-7' },
+    });
+
+    expect(results).toHaveLength(5);
+    expect(new Set(results.map(r => r.key)).size).toBe(5);
+  });
+
+  it('should support range and logical filters', async () => {
+    const results = await manager.search('Document', 10, {
+      filter: {
+        $or: [
+          { year: { $lt: 2003 } },
+          { category: { $in: ['cat-9'] } },
+        ],
+      },
+    });
+
+    expect(results.length).toBe(8);
+    results.forEach(result => {
+      const matches = result.metadata!.year < 2003 || result.metadata!.category === 'cat-9';
+      expect(matches).toBe(true);
+    });
+  });
+
+  it('should return no results when nothing matches', async () => {
+    const results = await manager.search('Document', 5, {
+      filter: { category: 'does-not-exist' },
+    });
+
+    expect(results).toHaveLength(0);
+  });
+
+  it('should exclude deleted documents from filtered results', async () => {
+    await manager.deleteDocument('doc-3');
+
+    const results = await manager.search('Document number 3', 5, {
+      filter: { category: 'cat-3' },
+    });
+
+    expect(results).toHaveLength(4);
+    expect(results.find(r => r.key === 'doc-3')).toBeUndefined();
+  });
+
+  it('should return results sorted by distance', async () => {
+    const results = await manager.search('Document number 12', 5, {
+      filter: { year: { $gte: 2010 } },
+    });
+
+    for (let i = 1; i < results.length; i++) {
+      expect(results[i].distance).toBeGreaterThanOrEqual(results[i - 1].distance);
+    }
+  });
+});
@@ -0,0 +1,118 @@
+// VectorSearchManager.hybrid.test.ts - Tests for hybrid BM25 + vector search
+import VectorSearchManager from '../embeddings/VectorSearchManager';
+import { SimpleMockEmbedding } from './mocks/MockEmbedding';
+import { reciprocalRankFusion, weightedScoreFusion } from '../embeddings/Fusion';
+
+describe('VectorSearchManager Hybrid Search', () => {
+  let manager: VectorSearchManager;
+
+  beforeEach(async () => {
+    manager = new VectorSearchManager({
+      embeddingEngine: new SimpleMockEmbedding(10),
+      indexConfig: {
+        distanceFunction: 'cosine',
+        m: 8,
+        efConstruction: 50,
+        useIndexedDB: false,
+      }
+    });
+    await manager.contentStore.clear();
+
+    await manager.addDocument('Invoice for part number ZX-4471 shipped in March', 'invoice', { type: 'billing' });
+    await manager.addDocument('The quick brown fox jumps over the lazy dog', 'fox', { type: 'story' });
+    await manager.addDocument('Machine learning models learn from data', 'ml', { type: 'article' });
+    await manager.addDocument('Replacement part ZX-4471 is compatible with older units', 'part', { type: 'catalog' });
+    await manager.addDocument('Weather today is sunny and warm', 'weather', { type: 'article' });
+  });
+
+  afterEach(async () => {
+    await manager.contentStore.clear();
+    await manager.index.clear();
+  });
+
+  it('should surface exact identifier matches', async () => {
+    const results = await manager.hybridSearch('ZX-4471', 2);
+
+    expect(results.map(r => r.key).sort()).toEqual(['invoice', 'part']);
+  });
+
+  it('should return fused scores in descending order', async () => {
+    const results = await manager.hybridSearch('part ZX-4471', 5);
+
+    expect(results.length).toBe(5);
+    for (let i = 1; i < results.length; i++) {
+      expect(results[i].score!).toBeLessThanOrEqual(results[i - 1].score!);
+    }
+    results.forEach(r => {
+      expect(typeof r.distance).toBe('number');
+      expect(r.similarity).toBeCloseTo(1 - r.distance);
+    });
+  });
+
+  it('should support weighted fusion', async () => {
+    const results = await manager.hybridSearch('ZX-4471', 2, {
+      fusion: 'weighted',
+      vectorWeight: 0.2,
+    });
+
+    expect(results.map(r => r.key).sort()).toEqual(['invoice', 'part']);
+  });
+
+  it('should rank purely by vector similarity when vectorWeight is 1', async () => {
+    const vectorResults = await manager.search('ZX-4471', 3);
+    const hybridResults = await manager.hybridSearch('ZX-4471', 3, { vectorWeight: 1 });
+
+    expect(hybridResults.map(r => r.key)).toEqual(vectorResults.map(r => r.key));
+  });
+
+  it('should apply metadata filters to both rankings', async () => {
+    const results = await manager.hybridSearch('ZX-4471', 5, {
+      filter: { type: 'catalog' },
+    });
+
+    expect(results.map(r => r.key)).toEqual(['part']);
+  });
+
+  it('should not return deleted documents', async () => {
+    await manager.deleteDocument('invoice');
+
+    const results = await manager.hybridSearch('ZX-4471', 5);
+    expect(results.find(r => r.key === 'invoice')).toBeUndefined();
+  });
+
+  it('should give lexical hits without a stored embedding an infinite distance', async () => {
+    // Stored in the content store but never indexed
+    await manager.contentStore.addDocument('orphan', 'Orphaned note about ZX-4471');
+
+    const results = await manager.hybridSearch('ZX-4471', 3, { maxDistance: 1.5 });
+    expect(results.map(r => r.key)).not.toContain('orphan');
+
+    const all = await manager.hybridSearch('ZX-4471', 6);
+    const orphan = all.find(r => r.key === 'orphan')!;
+    expect(orphan.distance).toBe(Infinity);
+    expect(orphan.similarity).toBe(0);
+  });
+
+  it('should reject an invalid vectorWeight', async () => {
+    await expect(manager.hybridSearch('test', 3, { vectorWeight: 1.5 }))
+      .rejects.toThrow('vectorWeight must be between 0 and 1');
+  });
+
+  describe('fusion helpers', () => {
+    const vector = [{ key: 'a', score: 0.9 }, { key: 'b', score: 0.5 }];
+    const lexical = [{ key: 'b', score: 12 }, { key: 'c', score: 3 }];
+
+    it('should reward items present in both lists with RRF', () => {
+      const fused = reciprocalRankFusion(vector, lexical, 0.5);
+      expect(fused.get('b')!).toBeGreaterThan(fused.get('a')!);
+      expect(fused.get('b')!).toBeGreaterThan(fused.get('c')!);
+    });
+
+    it('should normalize scores in weighted fusion', () => {
+      const fused = weightedScoreFusion(vector, lexical, 0.5);
+      expect(fused.get('a')).toBeCloseTo(0.5);
+      expect(fused.get('b')).toBeCloseTo(0.5);
+      expect(fused.get('c')).toBeCloseTo(0);
+    });
+  });
+});
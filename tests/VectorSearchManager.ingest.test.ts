@@ -0,0 +1,220 @@
+// VectorSearchManager.ingest.test.ts - Tests for one-call file ingestion
+import { createHash } from 'crypto';
+import VectorSearchManager, { IngestProgress } from '../embeddings/VectorSearchManager';
+import { DocumentProcessor } from '../document-processing/DocumentProcessor';
+import { ITokenizer, TokenTextSplitter } from '../document-processing/TextChunker';
+import { MockEmbeddingEngine } from './mocks/MockEmbedding';
+
+class MockSummarizationEngine {
+  calls = 0;
+
+  async summarize(text: string): Promise<string> {
+    this.calls += 1;
+    return `Summary of ${text.length} characters`;
+  }
+}
+
+/**
+ * Mock engine with a model id
+ */
+class ModelEmbeddingEngine extends MockEmbeddingEngine {
+  constructor(readonly modelId: string) {
+    super(32);
+  }
+}
+
+/**
+ * Tokenizer with one token per word
+ */
+const wordTokenizer: ITokenizer = {
+  encode: (text) => (text.match(/\S+/g) ?? []).map(() => 1),
+};
+
+const longText = Array.from(
+  { length: 12 },
+  (_, i) => `Paragraph ${i} explains topic number ${i} in some detail.`
+).join(' ');
+
+describe('VectorSearchManager File Ingestion', () => {
+  let manager: VectorSearchManager;
+  let embeddingEngine: MockEmbeddingEngine;
+  let summarizationEngine: MockSummarizationEngine;
+
+  beforeEach(async () => {
+    embeddingEngine = new MockEmbeddingEngine(32);
+    summarizationEngine = new MockSummarizationEngine();
+    manager = new VectorSearchManager({
+      embeddingEngine,
+      indexConfig: {
+        distanceFunction: 'cosine',
+        useIndexedDB: false,
+      },
+      documentProcessor: new DocumentProcessor({
+        chunkingConfig: { chunkSize: 100, chunkOverlap: 0 },
+      }),
+      summarization: {
+        enabled: true,
+        engine: summarizationEngine,
+        embedSummary: false,
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await manager.contentStore.clear();
+    await manager.index.clear();
+  });
+
+  it('should extract, chunk, embed, summarize and store a file', async () => {
+    const file = Buffer.from(longText);
+    const result = await manager.ingestFile(file, 'text/plain', {
+      filename: 'topics.txt',
+      sourceId: 'topics',
+      metadata: { project: 'docs' },
+    });
+
+    expect(result.sourceId).toBe('topics');
+    expect(result.documentIds.length).toBeGreaterThan(1);
+    expect(result.documentIds[0]).toBe('topics#0');
+    expect(result.summaryId).toBe('topics');
+
+    const source = await manager.getSource('topics');
+    expect(source).toMatchObject({
+      filename: 'topics.txt',
+      mimeType: 'text/plain',
+      hash: createHash('sha256').update(longText).digest('hex'),
+      chunkIds: result.documentIds,
+      metadata: { project: 'docs' },
+    });
+
+    const chunk = await manager.getDocument(result.documentIds[0]);
+    expect(chunk!.metadata).toMatchObject({ filename: 'topics.txt', project: 'docs' });
+    expect((await manager.getSummary('topics'))!.summaryText).toBe(
+      `Summary of ${longText.length} characters`
+    );
+
+    const [hit] = await manager.search(chunk!.text, 1, { filter: { project: 'docs' } });
+    expect(hit.key).toBe(result.documentIds[0]);
+  });
+
+  it('should report stage-aware progress', async () => {
+    const progress: IngestProgress[] = [];
+    const { documentIds } = await manager.ingestFile(Buffer.from(longText), 'text/plain', {
+      batchSize: 2,
+      onProgress: (p) => progress.push(p),
+    });
+
+    const stages = progress.map(p => p.stage).filter((stage, i, all) => stage !== all[i - 1]);
+    expect(stages).toEqual(['extracting', 'chunking', 'embedding', 'summarizing', 'storing', 'done']);
+    expect(progress.filter(p => p.stage === 'embedding')).toHaveLength(
+      1 + Math.ceil(documentIds.length / 2)
+    );
+    for (let i = 1; i < progress.length; i++) {
+      expect(progress[i].progress).toBeGreaterThanOrEqual(progress[i - 1].progress);
+    }
+    expect(progress[progress.length - 1]).toMatchObject({ progress: 1, fileIndex: 0, fileCount: 1 });
+  });
+
+  it('should ingest several files', async () => {
+    const progress: IngestProgress[] = [];
+    const results = await manager.ingestFiles(
+      [
+        { file: Buffer.from('First file'), mimeType: 'text/plain', filename: 'a.txt', sourceId: 'a' },
+        { file: new TextEncoder().encode('Second file').buffer, mimeType: 'text/plain', filename: 'b.txt' },
+      ],
+      { generateSummary: false, onProgress: (p) => progress.push(p) }
+    );
+
+    expect(results).toHaveLength(2);
+    expect(results[0]).toEqual({ sourceId: 'a', documentIds: ['a#0'], summaryId: undefined });
+    expect((await manager.getSource(results[1].sourceId))!.filename).toBe('b.txt');
+    expect(summarizationEngine.calls).toBe(0);
+
+    const done = progress.filter(p => p.stage === 'done');
+    expect(done.map(p => [p.filename, p.progress])).toEqual([['a.txt', 0.5], ['b.txt', 1]]);
+  });
+
+  it('should find and delete the summary of a file with its source', async () => {
+    const summarizing = new VectorSearchManager({
+      embeddingEngine,
+      indexConfig: { distanceFunction: 'cosine', useIndexedDB: false },
+      summarization: { enabled: true, engine: summarizationEngine, embedSummary: true },
+    });
+    await summarizing.ingestFile(Buffer.from(longText), 'text/plain', { sourceId: 'topics' });
+    const summaryText = `Summary of ${longText.length} characters`;
+    const [hit] = await summarizing.searchSummaries(summaryText, 3);
+    expect(hit).toMatchObject({ documentId: 'topics', sourceId: 'topics', source: { id: 'topics' } });
+    expect(hit.document).toBeUndefined();
+
+    await summarizing.deleteSource('topics');
+    expect(await summarizing.getSummary('topics')).toBeUndefined();
+    expect(await summarizing.searchSummaries(summaryText, 3)).toEqual([]);
+  });
+
+  it('should register the token chunker again for a new embedding model', async () => {
+    const processor = new DocumentProcessor();
+    const models: (string | undefined)[] = [];
+    jest.spyOn(processor, 'registerTokenChunker').mockImplementation(async (model) => {
+      models.push(model);
+      processor.registerChunker('token', new TokenTextSplitter(wordTokenizer, { chunkSize: 20, chunkOverlap: 0 }));
+    });
+    const tokenManager = new VectorSearchManager({
+      embeddingEngine: new ModelEmbeddingEngine('model-a'),
+      indexConfig: { distanceFunction: 'cosine', useIndexedDB: false },
+      documentProcessor: processor,
+    });
+
+    await tokenManager.ingestFile(Buffer.from(longText), 'text/plain', { chunkingStrategy: 'token' });
+    await tokenManager.ingestFile(Buffer.from(longText), 'text/plain', { chunkingStrategy: 'token' });
+    expect(models).toEqual(['model-a']);
+
+    await tokenManager.reembedAll(new ModelEmbeddingEngine('model-b'));
+    await tokenManager.ingestFile(Buffer.from(longText), 'text/plain', { chunkingStrategy: 'token' });
+    expect(models).toEqual(['model-a', 'model-b']);
+  });
+
+  it('should keep a token chunker registered by the caller', async () => {
+    const processor = new DocumentProcessor();
+    const registerTokenChunker = jest.spyOn(processor, 'registerTokenChunker');
+    processor.registerChunker('token', new TokenTextSplitter(wordTokenizer, { chunkSize: 20, chunkOverlap: 0 }));
+    const tokenManager = new VectorSearchManager({
+      embeddingEngine: new ModelEmbeddingEngine('model-a'),
+      indexConfig: { distanceFunction: 'cosine', useIndexedDB: false },
+      documentProcessor: processor,
+    });
+
+    await tokenManager.ingestFile(Buffer.from(longText), 'text/plain', { chunkingStrategy: 'token' });
+    await tokenManager.reembedAll(new ModelEmbeddingEngine('model-b'));
+    const { documentIds } = await tokenManager.ingestFile(Buffer.from(longText), 'text/plain', {
+      chunkingStrategy: 'token',
+    });
+    expect(registerTokenChunker).not.toHaveBeenCalled();
+    expect(documentIds.length).toBeGreaterThan(1);
+  });
+
+  it('should store nothing when cancelled', async () => {
+    const controller = new AbortController();
+    const ingestion = manager.ingestFile(Buffer.from(longText), 'text/plain', {
+      sourceId: 'cancelled',
+      batchSize: 1,
+      signal: controller.signal,
+      onProgress: (p) => {
+        if (p.stage === 'embedding' && p.stageProgress > 0) {
+          controller.abort();
+        }
+      },
+    });
+
+    await expect(ingestion).rejects.toThrow();
+    expect(await manager.getSource('cancelled')).toBeUndefined();
+    expect(await manager.contentStore.count()).toBe(0);
+    expect(await manager.size()).toBe(0);
+    expect(summarizationEngine.calls).toBe(0);
+
+    const aborted = new AbortController();
+    aborted.abort();
+    await expect(
+      manager.ingestFile(Buffer.from('Text'), 'text/plain', { signal: aborted.signal })
+    ).rejects.toThrow();
+  });
+});
@@ -0,0 +1,114 @@
+// VectorSearchManager.mmr.test.ts - Tests for maximal marginal relevance search
+import VectorSearchManager from '../embeddings/VectorSearchManager';
+import { maximalMarginalRelevance } from '../embeddings/MMR';
+import { IEmbeddingEngine } from '../embeddings/EmbeddingPipeline';
+
+/**
+ * Embedding engine with hand-picked vectors, so that redundancy is explicit
+ */
+class FixedEmbeddingEngine implements IEmbeddingEngine {
+  private vectors: Record<string, number[]> = {
+    query: [1, 0, 0, 0],
+    duplicate: [0.9, 0.1, 0, 0],
+    other: [0.7, -0.7, 0, 0],
+    far: [0, 0, 0, 1],
+  };
+
+  async embed(text: string): Promise<number[]> {
+    return this.vectors[text];
+  }
+}
+
+describe('maximalMarginalRelevance', () => {
+  it('should trade relevance against similarity to the picked items', () => {
+    const similarities = [
+      [1, 0.95, 0.1],
+      [0.95, 1, 0.1],
+      [0.1, 0.1, 1],
+    ];
+    const similarity = (a: number, b: number) => similarities[a][b];
+
+    const diverse = maximalMarginalRelevance([0.9, 0.85, 0.5], similarity, 2, 0.5);
+    expect(diverse.map(s => s.index)).toEqual([0, 2]);
+    expect(diverse[1].score).toBeCloseTo(0.5 * 0.5 - 0.5 * 0.1);
+
+    const relevant = maximalMarginalRelevance([0.9, 0.85, 0.5], similarity, 3, 1);
+    expect(relevant.map(s => s.index)).toEqual([0, 1, 2]);
+
+    expect(maximalMarginalRelevance([], similarity, 3, 0.5)).toEqual([]);
+  });
+});
+
+describe('VectorSearchManager MMR Search', () => {
+  let manager: VectorSearchManager;
+
+  beforeEach(async () => {
+    manager = new VectorSearchManager({
+      embeddingEngine: new FixedEmbeddingEngine(),
+      indexConfig: {
+        distanceFunction: 'cosine',
+        useIndexedDB: false,
+      }
+    });
+    await manager.addDocuments([
+      { id: 'chunk-1', text: 'duplicate' },
+      { id: 'chunk-2', text: 'duplicate' },
+      { id: 'chunk-3', text: 'duplicate' },
+      { id: 'other', text: 'other', metadata: { kind: 'other' } },
+      { id: 'far', text: 'far' },
+    ]);
+  });
+
+  afterEach(async () => {
+    await manager.contentStore.clear();
+    await manager.index.clear();
+  });
+
+  it('should not fill the results with near-duplicates', async () => {
+    const plain = await manager.search('query', 3);
+    expect(plain.map(r => r.key).sort()).toEqual(['chunk-1', 'chunk-2', 'chunk-3']);
+
+    const results = await manager.searchMMR('query', 3);
+    expect(results).toHaveLength(3);
+    expect(results[0].key).toMatch(/^chunk-/);
+    expect(results.slice(1).map(r => r.key)).toEqual(['other', 'far']);
+    expect(results[1].text).toBe('other');
+    expect(results[1].similarity).toBeCloseTo(Math.SQRT1_2, 5);
+    expect(results[1].score).toBeGreaterThan(results[2].score!);
+  });
+
+  it('should rank by relevance alone with lambda 1', async () => {
+    const plain = await manager.search('query', 5);
+    const results = await manager.searchMMR('query', 5, { lambda: 1 });
+    expect(results.map(r => r.similarity)).toEqual(plain.map(r => r.similarity));
+    expect(results.slice(3).map(r => r.key)).toEqual(['other', 'far']);
+  });
+
+  it('should apply the search options', async () => {
+    const all = await manager.searchMMR('query', 3);
+    const page = await manager.searchMMR('query', 2, { offset: 1 });
+    expect(page.map(r => r.key)).toEqual(all.slice(1).map(r => r.key));
+
+    const close = await manager.searchMMR('query', 3, { minSimilarity: 0.5 });
+    expect(close.map(r => r.key)).not.toContain('far');
+
+    const filtered = await manager.searchMMR('query', 3, {
+      filter: { kind: { $ne: 'other' } },
+      includeVectors: true,
+    });
+    expect(filtered.map(r => r.key)).not.toContain('other');
+    expect(filtered[0].vector).toHaveLength(4);
+
+    const few = await manager.searchMMR('query', 3, { fetchK: 2 });
+    expect(few.map(r => r.key).every(key => key.startsWith('chunk-'))).toBe(true);
+  });
+
+  it('should reject invalid options', async () => {
+    await expect(manager.searchMMR('query', 3, { lambda: 1.5 })).rejects.toThrow(
+      'lambda must be between 0 and 1, got 1.5'
+    );
+    await expect(manager.searchMMR('query', 3, { fetchK: 0 })).rejects.toThrow(
+      'fetchK must be a positive integer, got 0'
+    );
+  });
+});
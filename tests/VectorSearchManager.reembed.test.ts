@@ -0,0 +1,254 @@
+// VectorSearchManager.reembed.test.ts - Tests for re-embedding with another engine
+import Dexie from 'dexie';
+import VectorSearchManager, { ReembedProgress } from '../embeddings/VectorSearchManager';
+import { indexDatabaseName } from '../embeddings/Collections';
+import { Mememo, getIndexGeneration, indexGenerationName, openIndexStorage } from '../mememo/src/mememo';
+import { MockEmbeddingEngine } from './mocks/MockEmbedding';
+
+/**
+ * Mock engine with a model id, recording the texts it embedded
+ */
+class RecordingEmbeddingEngine extends MockEmbeddingEngine {
+  texts: string[] = [];
+  /** Called before each batch, e.g. to pause or abort */
+  beforeBatch?: (texts: string[]) => Promise<void> | void;
+
+  constructor(readonly modelId: string, dimensions: number) {
+    super(dimensions);
+  }
+
+  async embedBatch(texts: string[], progressCallback?: unknown, signal?: AbortSignal) {
+    await this.beforeBatch?.(texts);
+    signal?.throwIfAborted();
+    this.texts.push(...texts);
+    return Promise.all(texts.map((text) => this.embed(text)));
+  }
+}
+
+const documents = Array.from({ length: 5 }, (_, i) => ({ id: `doc-${i}`, text: `Document number ${i}` }));
+
+describe('VectorSearchManager Re-embedding', () => {
+  const collection = 'reembed-test';
+
+  const createManager = (embeddingEngine: MockEmbeddingEngine, useIndexedDB: boolean) =>
+    new VectorSearchManager({
+      collection,
+      embeddingEngine,
+      indexConfig: { distanceFunction: 'cosine', useIndexedDB },
+    });
+
+  afterEach(async () => {
+    await VectorSearchManager.dropCollection(collection).catch(() => {});
+  });
+
+  it('should re-embed all documents and switch to the new engine', async () => {
+    const manager = createManager(new RecordingEmbeddingEngine('model-a', 16), false);
+    await manager.addDocuments(documents);
+
+    const newEngine = new RecordingEmbeddingEngine('model-b', 8);
+    const progress: ReembedProgress[] = [];
+    await manager.reembedAll(newEngine, { batchSize: 2, onProgress: (p) => progress.push(p) });
+
+    expect(newEngine.texts.sort()).toEqual(documents.map((doc) => doc.text));
+    expect(progress.map((p) => p.completed)).toEqual([2, 4, 5]);
+    expect(progress[2]).toEqual({ completed: 5, total: 5, progress: 1 });
+    expect(manager.index.embeddingModel).toBe('model-b');
+    expect(manager.index.dimensions).toBe(8);
+
+    const [hit] = await manager.search('Document number 3', 1);
+    expect(hit.key).toBe('doc-3');
+    expect(hit.similarity).toBeCloseTo(1, 5);
+  });
+
+  it('should keep serving queries from the old index while re-embedding', async () => {
+    const manager = createManager(new RecordingEmbeddingEngine('model-a', 16), false);
+    await manager.addDocuments(documents);
+
+    const newEngine = new RecordingEmbeddingEngine('model-b', 8);
+    let release: () => void = () => {};
+    const released = new Promise<void>((resolve) => (release = resolve));
+    let started: () => void = () => {};
+    const waiting = new Promise<void>((resolve) => (started = resolve));
+    newEngine.beforeBatch = () => {
+      started();
+      return released;
+    };
+
+    const reembedding = manager.reembedAll(newEngine);
+    await waiting;
+    const [hit] = await manager.search('Document number 1', 1);
+    expect(hit.key).toBe('doc-1');
+    expect(manager.index.embeddingModel).toBe('model-a');
+    await expect(manager.reembedAll(newEngine)).rejects.toThrow('reembedAll() is already running');
+
+    release();
+    await reembedding;
+    expect(manager.index.embeddingModel).toBe('model-b');
+  });
+
+  it('should pick up documents changed while re-embedding', async () => {
+    const manager = createManager(new RecordingEmbeddingEngine('model-a', 16), false);
+    await manager.addDocuments(documents);
+
+    const newEngine = new RecordingEmbeddingEngine('model-b', 8);
+    let changed = false;
+    newEngine.beforeBatch = async () => {
+      if (!changed) {
+        changed = true;
+        await manager.addDocument('A new document', 'doc-new');
+        await manager.updateDocument('doc-0', 'An updated document');
+        await manager.deleteDocument('doc-1');
+      }
+    };
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    await manager.reembedAll(newEngine, { batchSize: 2 });
+    log.mockRestore();
+
+    const [updated] = await manager.search('An updated document', 1);
+    expect(updated).toMatchObject({ key: 'doc-0' });
+    expect(updated.similarity).toBeCloseTo(1, 5);
+    const [added] = await manager.search('A new document', 1);
+    expect(added.key).toBe('doc-new');
+    expect(await manager.index.nodes.has('doc-1')).toBe(false);
+    expect(await manager.size()).toBe(5);
+  });
+
+  it('should continue an interrupted re-embedding after a reload', async () => {
+    const manager = createManager(new RecordingEmbeddingEngine('model-a', 16), true);
+    await manager.addDocuments(documents);
+    await manager.index.saveIndex();
+
+    // The first batch is stored, then the page is closed
+    const controller = new AbortController();
+    const interrupted = new RecordingEmbeddingEngine('model-b', 8);
+    interrupted.beforeBatch = () => {
+      if (interrupted.texts.length > 0) {
+        controller.abort();
+      }
+    };
+    await expect(
+      manager.reembedAll(interrupted, { batchSize: 2, signal: controller.signal })
+    ).rejects.toThrow();
+    expect(interrupted.texts).toHaveLength(2);
+    const [embeddedId] = (await manager.contentStore.getAllDocuments())
+      .filter((doc) => interrupted.texts.includes(doc.text))
+      .map((doc) => doc.id);
+
+    // Changed before the re-embedding continues
+    const reloaded = createManager(new RecordingEmbeddingEngine('model-a', 16), true);
+    await reloaded.ready();
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    await reloaded.updateDocument(embeddedId, 'An updated document');
+    await reloaded.index.saveIndex();
+
+    const resumed = new RecordingEmbeddingEngine('model-b', 8);
+    await reloaded.reembedAll(resumed, { batchSize: 2 });
+    expect(resumed.texts).toHaveLength(4);
+    expect(resumed.texts).toContain('An updated document');
+
+    const restarted = createManager(new RecordingEmbeddingEngine('model-b', 8), true);
+    await restarted.ready();
+    log.mockRestore();
+    expect(restarted.index.embeddingModel).toBe('model-b');
+    const [hit] = await restarted.search('An updated document', 1);
+    expect(hit.key).toBe(embeddedId);
+    expect(hit.similarity).toBeCloseTo(1, 5);
+    expect(await restarted.size()).toBe(5);
+  });
+
+  it('should embed writes again that finish after the switch', async () => {
+    const oldEngine = new RecordingEmbeddingEngine('model-a', 16);
+    const manager = createManager(oldEngine, false);
+    await manager.addDocuments(documents);
+
+    // Embedded with the old engine, stored after the switch
+    let release: () => void = () => {};
+    const released = new Promise<void>((resolve) => (release = resolve));
+    const embed = oldEngine.embed.bind(oldEngine);
+    jest.spyOn(oldEngine, 'embed').mockImplementation(async (text: string) => {
+      await released;
+      return embed(text);
+    });
+    const adding = manager.addDocument('A late document', 'doc-late');
+
+    const newEngine = new RecordingEmbeddingEngine('model-b', 8);
+    const newEmbed = jest.spyOn(newEngine, 'embed');
+    await manager.reembedAll(newEngine);
+    release();
+    await adding;
+
+    expect(newEmbed).toHaveBeenCalledWith('A late document', undefined, undefined);
+    expect(await manager.getDocument('doc-late')).toMatchObject({ text: 'A late document' });
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const [hit] = await manager.search('A late document', 1);
+    log.mockRestore();
+    expect(hit.key).toBe('doc-late');
+    expect(hit.similarity).toBeCloseTo(1, 5);
+  });
+
+  it('should switch to a new index generation and delete the previous one', async () => {
+    const dbName = indexDatabaseName(collection);
+    const manager = createManager(new RecordingEmbeddingEngine('model-a', 16), true);
+    await manager.addDocuments(documents);
+    await manager.index.saveIndex();
+
+    await manager.reembedAll(new RecordingEmbeddingEngine('model-b', 8));
+    expect(await getIndexGeneration(dbName)).toBe(1);
+    expect(manager.index.dbName).toBe(indexGenerationName(dbName, 1));
+    const base = openIndexStorage(dbName);
+    expect(await base.table('mememo').count()).toBe(0);
+    expect(await base.table('indexMetadata').get('graph')).toBeUndefined();
+
+    await manager.reembedAll(new RecordingEmbeddingEngine('model-c', 4));
+    expect(await getIndexGeneration(dbName)).toBe(2);
+    expect(await Dexie.exists(indexGenerationName(dbName, 1))).toBe(false);
+
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const restarted = createManager(new RecordingEmbeddingEngine('model-c', 4), true);
+    await restarted.ready();
+    log.mockRestore();
+    expect(restarted.index.embeddingModel).toBe('model-c');
+    expect(await restarted.size()).toBe(5);
+
+    await VectorSearchManager.dropCollection(collection);
+    expect(await Dexie.exists(indexGenerationName(dbName, 2))).toBe(false);
+  });
+
+  it('should keep the previous index if the switch fails', async () => {
+    const dbName = indexDatabaseName(collection);
+    const manager = createManager(new RecordingEmbeddingEngine('model-a', 16), true);
+    await manager.addDocuments(documents);
+    await manager.index.saveIndex();
+
+    const saveIndex = Mememo.prototype.saveIndex;
+    const save = jest.spyOn(Mememo.prototype, 'saveIndex').mockImplementation(async function (this: Mememo) {
+      if (this.dbName === indexGenerationName(dbName, 1)) {
+        throw new Error('Quota exceeded');
+      }
+      await saveIndex.call(this);
+    });
+    await expect(manager.reembedAll(new RecordingEmbeddingEngine('model-b', 8))).rejects.toThrow('Quota exceeded');
+    save.mockRestore();
+    expect(await getIndexGeneration(dbName)).toBe(0);
+    expect(manager.index.embeddingModel).toBe('model-a');
+
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const reloaded = createManager(new RecordingEmbeddingEngine('model-a', 16), true);
+    await reloaded.ready();
+    log.mockRestore();
+    expect(reloaded.index.embeddingModel).toBe('model-a');
+    expect(await reloaded.size()).toBe(5);
+
+    // The leftover of the failed switch is replaced
+    await reloaded.reembedAll(new RecordingEmbeddingEngine('model-b', 8));
+    expect(await getIndexGeneration(dbName)).toBe(1);
+    expect(await reloaded.size()).toBe(5);
+  });
+
+  it('should reject invalid batch sizes', async () => {
+    const manager = createManager(new RecordingEmbeddingEngine('model-a', 16), false);
+    await expect(
+      manager.reembedAll(new RecordingEmbeddingEngine('model-b', 8), { batchSize: 0 })
+    ).rejects.toThrow('batchSize must be a positive integer, got 0');
+  });
+});
@@ -0,0 +1,87 @@
+// VectorSearchManager.rerank.test.ts - Tests for re-ranking search results
+import VectorSearchManager from '../embeddings/VectorSearchManager';
+import { IReranker } from '../embeddings/RerankerPipeline';
+import { MockEmbeddingEngine } from './mocks/MockEmbedding';
+
+/**
+ * Re-ranker scoring documents by the number of query words they contain,
+ * recording the candidates it was given
+ */
+class WordOverlapReranker implements IReranker {
+  calls: Array<{ query: string; documents: string[] }> = [];
+
+  async rerank(query: string, documents: string[]) {
+    this.calls.push({ query, documents });
+    const words = query.toLowerCase().split(' ');
+    return documents.map((document) => words.filter((word) => document.toLowerCase().includes(word)).length);
+  }
+}
+
+describe('VectorSearchManager Re-ranking', () => {
+  let manager: VectorSearchManager;
+  let reranker: WordOverlapReranker;
+
+  beforeEach(async () => {
+    reranker = new WordOverlapReranker();
+    manager = new VectorSearchManager({
+      embeddingEngine: new MockEmbeddingEngine(16),
+      reranker,
+      indexConfig: { distanceFunction: 'cosine', useIndexedDB: false },
+    });
+    await manager.contentStore.clear();
+
+    await manager.addDocuments([
+      { id: 'cat', text: 'Cats sleep most of the day' },
+      { id: 'dog', text: 'Dogs need a daily walk' },
+      { id: 'cat-food', text: 'Cats eat fish and cats drink water' },
+      { id: 'weather', text: 'The weather is sunny' },
+      { id: 'cat-sleep-day', text: 'How many hours a day do cats sleep' },
+    ]);
+  });
+
+  afterEach(async () => {
+    await manager.contentStore.clear();
+    await manager.index.clear();
+  });
+
+  it('should return the candidates in re-ranker order', async () => {
+    const results = await manager.search('cats sleep day', 2, { rerank: { topN: 5 } });
+
+    expect(reranker.calls).toHaveLength(1);
+    expect(reranker.calls[0].query).toBe('cats sleep day');
+    expect(reranker.calls[0].documents).toHaveLength(5);
+    expect(results.map((r) => r.key)).toEqual(['cat', 'cat-sleep-day']);
+    expect(results.map((r) => r.score)).toEqual([3, 3]);
+    results.forEach((r) => expect(r.similarity).toBeCloseTo(1 - r.distance));
+  });
+
+  it('should only re-rank topN candidates', async () => {
+    const plain = await manager.search('cats sleep day', 2);
+    const results = await manager.search('cats sleep day', 5, { rerank: { topN: 2 } });
+
+    expect(reranker.calls[0].documents.sort()).toEqual(plain.map((r) => r.text).sort());
+    expect(results.map((r) => r.key).sort()).toEqual(plain.map((r) => r.key).sort());
+  });
+
+  it('should page through the re-ranked candidates', async () => {
+    const all = await manager.search('cats sleep day', 5, { rerank: { topN: 5 } });
+    const page = await manager.search('cats sleep day', 2, { rerank: { topN: 5 }, offset: 1 });
+
+    expect(page.map((r) => r.key)).toEqual(all.slice(1, 3).map((r) => r.key));
+  });
+
+  it('should re-rank hybrid search results', async () => {
+    const results = await manager.hybridSearch('cats water', 1, { rerank: {} });
+
+    expect(reranker.calls[0].documents).toHaveLength(5);
+    expect(results.map((r) => r.key)).toEqual(['cat-food']);
+    expect(results[0].score).toBe(2);
+  });
+
+  it('should reject invalid topN values', async () => {
+    await expect(manager.search('cats', 2, { rerank: { topN: 0 } })).rejects.toThrow(
+      'rerank.topN must be a positive integer, got 0'
+    );
+    expect(reranker.calls).toHaveLength(0);
+  });
+});
@@ -0,0 +1,146 @@
+// VectorSearchManager.searchOptions.test.ts - Tests for query-time search options
+import VectorSearchManager from '../embeddings/VectorSearchManager';
+import { MockEmbeddingEngine } from './mocks/MockEmbedding';
+
+describe('VectorSearchManager Search Options', () => {
+  let manager: VectorSearchManager;
+
+  beforeEach(async () => {
+    manager = new VectorSearchManager({
+      embeddingEngine: new MockEmbeddingEngine(32),
+      indexConfig: {
+        distanceFunction: 'cosine',
+        m: 8,
+        efConstruction: 50,
+        useIndexedDB: false,
+      }
+    });
+    await manager.addDocuments(
+      Array.from({ length: 20 }, (_, i) => ({ id: `doc-${i}`, text: `Document number ${i}` }))
+    );
+  });
+
+  afterEach(async () => {
+    await manager.contentStore.clear();
+    await manager.index.clear();
+  });
+
+  it('should pass ef to the HNSW traversal', async () => {
+    const query = jest.spyOn(manager.index, 'query');
+
+    await manager.search('Document number 3', 2, { ef: 120 });
+    expect(query).toHaveBeenLastCalledWith(expect.anything(), 2, 120, expect.any(Function), undefined);
+
+    await manager.search('Document number 3', 2);
+    expect(query).toHaveBeenLastCalledWith(expect.anything(), 2, undefined, expect.any(Function), undefined);
+  });
+
+  it('should scan every document with exact search', async () => {
+    const bruteForceQuery = jest.spyOn(manager.index, 'bruteForceQuery');
+    await manager.deleteDocument('doc-4');
+
+    const exact = await manager.search('Document number 4', 5, { exact: true });
+    expect(bruteForceQuery).toHaveBeenCalledTimes(1);
+    expect(exact.map(r => r.key)).not.toContain('doc-4');
+    expect(exact.map(r => r.key)).toEqual(
+      (await manager.search('Document number 4', 5, { ef: 100 })).map(r => r.key)
+    );
+
+    const [hybrid] = await manager.hybridSearch('Document number 7', 1, { exact: true });
+    expect(hybrid.key).toBe('doc-7');
+    expect(bruteForceQuery).toHaveBeenCalledTimes(2);
+  });
+
+  it('should page through results with offset', async () => {
+    const all = await manager.search('Document number 3', 9);
+    const pages = [
+      ...(await manager.search('Document number 3', 3)),
+      ...(await manager.search('Document number 3', 3, { offset: 3 })),
+      ...(await manager.search('Document number 3', 3, { offset: 6 })),
+    ];
+
+    expect(pages.map(r => r.key)).toEqual(all.map(r => r.key));
+    expect(await manager.search('Document number 3', 3, { offset: 20 })).toEqual([]);
+  });
+
+  it('should drop results beyond maxDistance or below minSimilarity', async () => {
+    const all = await manager.search('Document number 3', 20);
+    const cutoff = all[4].distance;
+
+    const close = await manager.search('Document number 3', 20, { maxDistance: cutoff });
+    expect(close.map(r => r.key)).toEqual(all.filter(r => r.distance <= cutoff).map(r => r.key));
+
+    const similar = await manager.search('Document number 3', 20, { minSimilarity: all[4].similarity });
+    expect(similar.length).toBeGreaterThanOrEqual(4);
+    expect(similar.length).toBeLessThan(all.length);
+    for (const result of similar) {
+      expect(result.similarity).toBeGreaterThanOrEqual(all[4].similarity - 1e-9);
+    }
+  });
+
+  it('should include vectors and summaries on request', async () => {
+    await manager.contentStore.addSummary({
+      id: 'doc-3',
+      documentId: 'doc-3',
+      summaryText: 'The third document',
+      summaryEmbedding: [],
+      model: 'mock',
+      createdAt: 1,
+    });
+
+    const [plain] = await manager.search('Document number 3', 1);
+    expect(plain.vector).toBeUndefined();
+    expect(plain.summary).toBeUndefined();
+
+    const [result] = await manager.search('Document number 3', 1, {
+      includeVectors: true,
+      includeSummaries: true,
+    });
+    expect(result.key).toBe('doc-3');
+    expect(Array.from(result.vector!)).toEqual(Array.from(await manager.index.getVector('doc-3')));
+    expect(result.summary).toBe('The third document');
+  });
+
+  it('should apply the options to hybrid search', async () => {
+    const all = await manager.hybridSearch('Document number 3', 6);
+    const secondPage = await manager.hybridSearch('Document number 3', 3, { offset: 3 });
+    expect(secondPage.map(r => r.key)).toEqual(all.slice(3).map(r => r.key));
+
+    const close = await manager.hybridSearch('Document number 3', 6, { maxDistance: 0.001 });
+    expect(close.map(r => r.key)).toEqual(['doc-3']);
+
+    const [withVector] = await manager.hybridSearch('Document number 3', 1, { includeVectors: true });
+    expect(withVector.vector).toHaveLength(32);
+  });
+
+  it('should return k summaries however many documents rank above them', async () => {
+    for (const id of ['doc-1', 'doc-2', 'doc-3']) {
+      await manager.index.insert(`summary:${id}`, await new MockEmbeddingEngine(32).embed(`Summary ${id}`));
+      await manager.contentStore.addSummary({
+        id,
+        documentId: id,
+        summaryText: `Summary ${id}`,
+        summaryEmbedding: [],
+        model: 'mock',
+        createdAt: 1,
+      });
+    }
+
+    const results = await manager.searchSummaries('Summary doc-2', 3);
+    expect(results).toHaveLength(3);
+    expect(results[0].documentId).toBe('doc-2');
+    expect(results[0].distance).toBeCloseTo(0, 5);
+
+    const page = await manager.searchSummaries('Summary doc-2', 2, { offset: 1 });
+    expect(page.map(r => r.documentId)).toEqual(results.slice(1).map(r => r.documentId));
+  });
+
+  it('should reject invalid options', async () => {
+    await expect(manager.search('Document', 3, { offset: -1 })).rejects.toThrow(
+      'offset must be a non-negative integer, got -1'
+    );
+    await expect(manager.search('Document', 3, { ef: 0 })).rejects.toThrow(
+      'ef must be a positive integer, got 0'
+    );
+  });
+});
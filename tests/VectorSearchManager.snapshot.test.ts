@@ -0,0 +1,189 @@
+// VectorSearchManager.snapshot.test.ts - Tests for snapshot export/import
+import VectorSearchManager from '../embeddings/VectorSearchManager';
+import { SNAPSHOT_VERSION } from '../embeddings/Snapshot';
+import { indexDatabaseName } from '../embeddings/Collections';
+import { getIndexGeneration } from '../mememo/src/mememo';
+import { MockEmbeddingEngine } from './mocks/MockEmbedding';
+
+const createManager = (
+  collection: string,
+  indexConfig: Record<string, any> = {}
+) =>
+  new VectorSearchManager({
+    embeddingEngine: new MockEmbeddingEngine(32),
+    collection,
+    indexConfig: {
+      distanceFunction: 'cosine',
+      m: 8,
+      efConstruction: 50,
+      useIndexedDB: false,
+      ...indexConfig,
+    },
+  });
+
+const makeDocs = (count: number) =>
+  Array.from({ length: count }, (_, i) => ({
+    id: `doc-${i}`,
+    text: `Document number ${i} about topic ${i % 3}`,
+    metadata: { topic: i % 3 },
+  }));
+
+describe('VectorSearchManager Snapshots', () => {
+  afterEach(async () => {
+    for (const { name } of await VectorSearchManager.listCollections()) {
+      await VectorSearchManager.dropCollection(name);
+    }
+  });
+
+  it('should round-trip documents, metadata, summaries and search results', async () => {
+    const source = createManager('snapshot-source');
+    await source.addDocuments(makeDocs(20));
+    await source.contentStore.addSummary({
+      id: 'doc-4',
+      documentId: 'doc-4',
+      summaryText: 'A short summary',
+      summaryEmbedding: new Float32Array([0.25, -0.5, 1]),
+      model: 'mock',
+      createdAt: 1234,
+    });
+
+    const snapshot = await source.exportSnapshot();
+
+    const target = createManager('snapshot-target', { distanceFunction: 'l2', m: 4 });
+    await target.addDocument('Stale document', 'stale');
+    await target.importSnapshot(snapshot);
+
+    expect(target.index.distanceFunctionType).toBe('cosine');
+    expect(target.index.m).toBe(8);
+    expect(await target.getDocument('stale')).toBeUndefined();
+    expect(await target.size()).toBe(20);
+    expect(await target.getDocument('doc-5')).toEqual(await source.getDocument('doc-5'));
+
+    const summary = await target.getSummary('doc-4');
+    expect(summary!.summaryText).toBe('A short summary');
+    expect(Array.from(summary!.summaryEmbedding)).toEqual([0.25, -0.5, 1]);
+
+    for (const query of ['Document number 3 about topic 0', 'topic 2']) {
+      expect(await target.search(query, 5)).toEqual(await source.search(query, 5));
+    }
+    expect(await target.search('topic 1', 5, { filter: { topic: 1 } })).toEqual(
+      await source.search('topic 1', 5, { filter: { topic: 1 } })
+    );
+  });
+
+  it('should keep soft-deleted nodes and the lexical index', async () => {
+    const source = createManager('snapshot-source');
+    await source.addDocuments(makeDocs(10));
+    await source.deleteDocument('doc-3');
+
+    const target = createManager('snapshot-target');
+    await target.importSnapshot(await source.exportSnapshot());
+
+    expect(await target.getStats()).toEqual(await source.getStats());
+    expect(await target.hasDocument('doc-3')).toBe(false);
+
+    const results = await target.hybridSearch('number 7', 3);
+    expect(results[0].key).toBe('doc-7');
+  });
+
+  it('should restore a product-quantized index with its codebook', async () => {
+    const quantization = { type: 'pq', subvectors: 4, centroids: 8, trainingSize: 20, rerank: 5 };
+    const source = createManager('snapshot-source', { quantization });
+    await source.addDocuments(makeDocs(30));
+    expect(source.index.quantizer!.isTrained).toBe(true);
+
+    const target = createManager('snapshot-target');
+    await target.importSnapshot(await source.exportSnapshot());
+
+    expect(target.index.quantization).toEqual({ ...quantization, iterations: 10 });
+    expect(target.index.quantizer!.isTrained).toBe(true);
+    const node = await target.index.nodes.get('doc-12', 0);
+    expect(node!.code).toEqual((await source.index.nodes.get('doc-12', 0))!.code);
+    expect(Array.from(await target.index.getVector('doc-12'))).toEqual(
+      Array.from(await source.index.getVector('doc-12'))
+    );
+
+    const query = 'Document number 12 about topic 0';
+    expect(await target.search(query, 3)).toEqual(await source.search(query, 3));
+  });
+
+  it('should persist an imported snapshot in IndexedDB', async () => {
+    const source = createManager('snapshot-source');
+    await source.addDocuments(makeDocs(8));
+
+    const target = createManager('snapshot-target', { useIndexedDB: true });
+    await target.importSnapshot(await source.exportSnapshot());
+
+    const reopened = createManager('snapshot-target', { useIndexedDB: true });
+    await reopened.ready();
+
+    expect(await reopened.size()).toBe(8);
+    const results = await reopened.search('Document number 6 about topic 0', 1);
+    expect(results[0].key).toBe('doc-6');
+  });
+
+  it('should reject snapshots it cannot read without touching existing data', async () => {
+    const source = createManager('snapshot-source');
+    await source.addDocuments(makeDocs(3));
+    const snapshot = await source.exportSnapshot();
+    const lines = snapshot.trim().split('\n');
+
+    const target = createManager('snapshot-target');
+    await target.addDocument('Keep me', 'keep');
+
+    await expect(target.importSnapshot('')).rejects.toThrow('Snapshot is empty');
+    await expect(target.importSnapshot('{"type":"graph"}')).rejects.toThrow(
+      'Not a flux-vector snapshot'
+    );
+
+    const header = JSON.parse(lines[0]);
+    const future = [JSON.stringify({ ...header, version: SNAPSHOT_VERSION + 1 }), ...lines.slice(1)];
+    await expect(target.importSnapshot(future.join('\n'))).rejects.toThrow(
+      `Unsupported snapshot version ${SNAPSHOT_VERSION + 1}`
+    );
+
+    const truncated = lines.slice(0, -2).join('\n');
+    await expect(target.importSnapshot(truncated)).rejects.toThrow('Snapshot is incomplete');
+
+    expect(await target.getDocument('keep')).toBeDefined();
+    expect(await target.size()).toBe(1);
+  });
+
+  it('should keep the existing data if the import fails', async () => {
+    const source = createManager('snapshot-source');
+    await source.addDocuments(makeDocs(4));
+    const snapshot = await source.exportSnapshot();
+
+    const target = createManager('snapshot-target', { useIndexedDB: true });
+    await target.addDocument('Keep me', 'keep');
+    await target.index.saveIndex();
+
+    // A node of another dimension fails while building the new index
+    const lines = snapshot.trim().split('\n').map((line) => JSON.parse(line));
+    const node = lines.find((record) => record.type === 'node');
+    node.vector = Buffer.from(new Float32Array([1, 0, 0]).buffer).toString('base64');
+    await expect(
+      target.importSnapshot(lines.map((record) => JSON.stringify(record)).join('\n'))
+    ).rejects.toThrow('Expected embeddings with 32 dimensions, got 3');
+
+    // The content cannot be written after the new index is built
+    const replace = jest
+      .spyOn(target.contentStore, 'replaceContent')
+      .mockRejectedValueOnce(new Error('Quota exceeded'));
+    await expect(target.importSnapshot(snapshot)).rejects.toThrow('Quota exceeded');
+    replace.mockRestore();
+
+    expect(await getIndexGeneration(indexDatabaseName('snapshot-target'))).toBe(0);
+    expect(await target.getDocument('keep')).toBeDefined();
+    expect(await target.size()).toBe(1);
+    const reopened = createManager('snapshot-target', { useIndexedDB: true });
+    await reopened.ready();
+    expect(await reopened.size()).toBe(1);
+    expect((await reopened.search('Keep me', 1, { exact: true }))[0].key).toBe('keep');
+
+    await target.importSnapshot(snapshot);
+    expect(await getIndexGeneration(indexDatabaseName('snapshot-target'))).toBe(1);
+    expect(await target.getDocument('keep')).toBeUndefined();
+    expect(await target.size()).toBe(4);
+  });
+});
@@ -0,0 +1,162 @@
+// VectorSearchManager.sources.test.ts - Tests for sources and parent-document retrieval
+import VectorSearchManager from '../embeddings/VectorSearchManager';
+import { ProcessedChunk } from '../document-processing/DocumentProcessor';
+import { MockEmbeddingEngine } from './mocks/MockEmbedding';
+
+const chunksOf = (filename: string, texts: string[]): ProcessedChunk[] =>
+  texts.map((text, index) => ({
+    text,
+    index,
+    metadata: {
+      filename,
+      mimeType: 'text/plain',
+      extractedAt: new Date(0),
+      totalChunks: texts.length,
+    },
+  }));
+
+describe('VectorSearchManager Sources', () => {
+  let manager: VectorSearchManager;
+
+  beforeEach(async () => {
+    manager = new VectorSearchManager({
+      embeddingEngine: new MockEmbeddingEngine(32),
+      indexConfig: {
+        distanceFunction: 'cosine',
+        useIndexedDB: false,
+      }
+    });
+    await manager.addSource(
+      { id: 'manual', filename: 'manual.txt', mimeType: 'text/plain', hash: 'abc' },
+      chunksOf('manual.txt', ['Chapter one', 'Chapter two', 'Chapter three', 'Chapter four', 'Chapter five'])
+    );
+    await manager.addSource(
+      { id: 'notes', filename: 'notes.txt' },
+      chunksOf('notes.txt', ['Note alpha', 'Note beta'])
+    );
+    await manager.addDocument('Loose document', 'loose');
+  });
+
+  afterEach(async () => {
+    await manager.contentStore.clear();
+    await manager.index.clear();
+  });
+
+  it('should store a source record linking its chunks', async () => {
+    const source = await manager.getSource('manual');
+    expect(source).toMatchObject({
+      id: 'manual',
+      filename: 'manual.txt',
+      mimeType: 'text/plain',
+      hash: 'abc',
+      chunkIds: ['manual#0', 'manual#1', 'manual#2', 'manual#3', 'manual#4'],
+    });
+
+    const chunk = await manager.getDocument('manual#2');
+    expect(chunk).toMatchObject({ text: 'Chapter three', sourceId: 'manual', chunkIndex: 2 });
+    expect(chunk!.metadata!.filename).toBe('manual.txt');
+    expect(await manager.contentStore.findSourcesByHash('abc')).toHaveLength(1);
+
+    const [hit] = await manager.search('Chapter three', 1);
+    expect(hit.key).toBe('manual#2');
+  });
+
+  it('should order chunks by index and reject duplicate sources', async () => {
+    const { documentIds } = await manager.addSource({ id: 'shuffled' }, [
+      { text: 'Second', index: 1 },
+      { text: 'First', index: 0 },
+    ]);
+    expect(documentIds).toEqual(['shuffled#0', 'shuffled#1']);
+
+    await expect(manager.addSource({ id: 'notes' }, [{ text: 'Again' }])).rejects.toThrow(
+      'Source notes already exists'
+    );
+    await expect(
+      manager.addSource({ id: 'twice' }, [{ text: 'A', index: 0 }, { text: 'B', index: 0 }])
+    ).rejects.toThrow('addSource() received duplicate chunk indexes');
+  });
+
+  it('should return a window of neighboring chunks around each hit', async () => {
+    const [hit] = await manager.searchSources('Chapter three', 1);
+    expect(hit.key).toBe('manual#2');
+    expect(hit.source!.id).toBe('manual');
+    expect(hit.chunks.map(chunk => chunk.id)).toEqual(['manual#1', 'manual#2', 'manual#3']);
+    expect(hit.contextText).toBe('Chapter two\n\nChapter three\n\nChapter four');
+
+    const [edge] = await manager.searchSources('Chapter one', 1, { window: 2 });
+    expect(edge.chunks.map(chunk => chunk.id)).toEqual(['manual#0', 'manual#1', 'manual#2']);
+
+    const [loose] = await manager.searchSources('Loose document', 1);
+    expect(loose.source).toBeUndefined();
+    expect(loose.contextText).toBe('Loose document');
+  });
+
+  it('should return each parent document once', async () => {
+    const results = await manager.searchSources('Chapter three', 3, { expand: 'parent' });
+    const keys = results.map(result => result.source?.id ?? result.key);
+    expect(keys[0]).toBe('manual');
+    expect(new Set(keys)).toEqual(new Set(['manual', 'notes', 'loose']));
+    expect(results[0].key).toBe('manual#2');
+    expect(results[0].chunks).toHaveLength(5);
+
+    const page = await manager.searchSources('Chapter three', 2, { expand: 'parent', offset: 1 });
+    expect(page.map(result => result.key)).toEqual(results.slice(1).map(result => result.key));
+  });
+
+  it('should find k parent documents when one source has many hits', async () => {
+    await manager.addSource(
+      { id: 'repeated' },
+      chunksOf('repeated.txt', new Array(40).fill('Repeated chunk'))
+    );
+
+    // The identical chunks fill the first candidates. An exact search reaches
+    // all of them.
+    const results = await manager.searchSources('Repeated chunk', 3, { expand: 'parent', exact: true });
+    expect(results).toHaveLength(3);
+    expect(results[0].source!.id).toBe('repeated');
+    expect(new Set(results.map(result => result.source?.id ?? result.key)).size).toBe(3);
+
+    const all = await manager.searchSources('Repeated chunk', 10, { expand: 'parent', exact: true });
+    expect(all).toHaveLength(4);
+  });
+
+  it('should keep sources consistent when chunks change', async () => {
+    await manager.updateDocument('manual#1', 'Chapter two, revised');
+    expect(await manager.getDocument('manual#1')).toMatchObject({ sourceId: 'manual', chunkIndex: 1 });
+
+    await manager.deleteDocument('manual#3');
+    expect((await manager.getSource('manual'))!.chunkIds).toEqual(['manual#0', 'manual#1', 'manual#2', 'manual#4']);
+    // Exact search: HNSW updates can make the approximate search miss on a graph this small
+    const [hit] = await manager.searchSources('Chapter three', 1, { exact: true });
+    expect(hit.contextText).toBe('Chapter two, revised\n\nChapter three\n\nChapter five');
+  });
+
+  it('should delete a source with its chunks', async () => {
+    await manager.deleteSource('manual');
+
+    expect(await manager.getSource('manual')).toBeUndefined();
+    expect(await manager.getDocument('manual#0')).toBeUndefined();
+    expect(await manager.contentStore.count()).toBe(3);
+    const results = await manager.search('Chapter three', 3);
+    expect(results.every(result => !result.key.startsWith('manual#'))).toBe(true);
+    expect(await manager.contentStore.searchLexical('chapter', 5)).toEqual([]);
+
+    await expect(manager.deleteSource('manual')).rejects.toThrow('Source manual not found');
+  });
+
+  it('should keep sources in snapshots', async () => {
+    const snapshot = await manager.exportSnapshot();
+    await manager.deleteSource('notes');
+
+    await manager.importSnapshot(snapshot);
+    expect((await manager.getSource('notes'))!.chunkIds).toEqual(['notes#0', 'notes#1']);
+    const [hit] = await manager.searchSources('Note beta', 1, { expand: 'parent' });
+    expect(hit.contextText).toBe('Note alpha\n\nNote beta');
+  });
+
+  it('should reject an invalid window', async () => {
+    await expect(manager.searchSources('Chapter', 3, { window: -1 })).rejects.toThrow(
+      'window must be a non-negative integer, got -1'
+    );
+  });
+});
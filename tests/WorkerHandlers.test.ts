@@ -0,0 +1,99 @@
+// WorkerHandlers.test.ts - Tests for the worker task handlers
+import { handleEmbedBatchTask, handleRerankTask } from '../workers/worker-handlers';
+
+const MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+/**
+ * Stand-in for a feature-extraction pipeline: embeds each text as
+ * [length, 1] and records the batches it received
+ */
+function createFakeModel() {
+  const batches: string[][] = [];
+  const model = async (texts: string[]) => {
+    batches.push(texts);
+    return {
+      data: Float32Array.from(texts.flatMap(text => [text.length, 1])),
+      dims: [texts.length, 2],
+    };
+  };
+  return { model, batches };
+}
+
+describe('handleEmbedBatchTask', () => {
+  it('should embed texts in padded batches with per-item progress', async () => {
+    const { model, batches } = createFakeModel();
+    const progress: Array<[number, string | undefined, unknown]> = [];
+
+    const vectors = await handleEmbedBatchTask(
+      { texts: ['a', 'bb', 'ccc', 'dddd', 'eeeee'], batchSize: 2 },
+      new Map([[MODEL, model as any]]),
+      (p, stage, items) => progress.push([p, stage, items])
+    );
+
+    expect(batches).toEqual([['a', 'bb'], ['ccc', 'dddd'], ['eeeee']]);
+    expect(vectors.map(vector => Array.from(vector))).toEqual([[1, 1], [2, 1], [3, 1], [4, 1], [5, 1]]);
+    // Each embedding owns its buffer, so it can be transferred on its own
+    expect(new Set(vectors.map(vector => vector.buffer)).size).toBe(5);
+
+    const embedding = progress.filter(([, stage]) => stage === 'embedding');
+    expect(embedding.map(([, , items]) => items)).toEqual([
+      { completed: 2, total: 5 },
+      { completed: 4, total: 5 },
+      { completed: 5, total: 5 },
+    ]);
+    expect(embedding[embedding.length - 1][0]).toBe(1);
+  });
+
+  it('should stop before the next batch when aborted', async () => {
+    const { model, batches } = createFakeModel();
+    const controller = new AbortController();
+
+    await expect(
+      handleEmbedBatchTask(
+        { texts: ['a', 'b', 'c'], batchSize: 1 },
+        new Map([[MODEL, model as any]]),
+        () => {
+          if (batches.length === 1) {
+            controller.abort();
+          }
+        },
+        controller.signal
+      )
+    ).rejects.toThrow();
+    expect(batches).toEqual([['a']]);
+  });
+});
+
+describe('handleRerankTask', () => {
+  it('should score query-document pairs in batches', async () => {
+    const pairs: Array<[string[], string[]]> = [];
+    // Stand-in for a cross-encoder: the relevance logit of a pair is the
+    // length of the document minus 3
+    const crossEncoder = {
+      tokenizer: (queries: string[], { text_pair }: { text_pair: string[] }) => {
+        pairs.push([queries, text_pair]);
+        return { documents: text_pair };
+      },
+      model: async ({ documents }: { documents: string[] }) => ({
+        logits: {
+          sigmoid: () => ({
+            tolist: () => documents.map(document => [1 / (1 + Math.exp(3 - document.length))]),
+          }),
+        },
+      }),
+    };
+    const progress: unknown[] = [];
+
+    const scores = await handleRerankTask(
+      { query: 'q', documents: ['abc', 'a', 'abcde'], batchSize: 2 },
+      new Map([['Xenova/ms-marco-MiniLM-L-6-v2', crossEncoder as any]]),
+      (p, stage, items) => stage === 'reranking' && progress.push(items)
+    );
+
+    expect(pairs).toEqual([[['q', 'q'], ['abc', 'a']], [['q'], ['abcde']]]);
+    expect(scores[0]).toBeCloseTo(0.5);
+    expect(scores[1]).toBeLessThan(scores[0]);
+    expect(scores[2]).toBeGreaterThan(scores[0]);
+    expect(progress).toEqual([{ completed: 2, total: 3 }, { completed: 3, total: 3 }]);
+  });
+});
@@ -0,0 +1,349 @@
+// WorkerManager.test.ts - Tests for the worker pool, task queue, cancellation and transports
+import { pathToFileURL } from 'url';
+import { join } from 'path';
+import { WorkerManager } from '../workers/WorkerManager';
+import { DefaultEmbeddingEngine } from '../embeddings/EmbeddingPipeline';
+import { DefaultReranker } from '../embeddings/RerankerPipeline';
+import { WorkerMessage, WorkerRequest, WorkerResponse, WorkerTaskType } from '../workers/worker-types';
+
+/**
+ * In-memory stand-in for a Web Worker
+ */
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  messages: WorkerMessage[] = [];
+  terminated = false;
+  onmessage: ((event: { data: WorkerResponse }) => void) | null = null;
+  onerror: ((error: any) => void) | null = null;
+  onmessageerror: ((error: any) => void) | null = null;
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(message: WorkerMessage) {
+    this.messages.push(message);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  respond(response: WorkerResponse) {
+    this.onmessage?.({ data: response });
+  }
+
+  /** Task requests received, without control messages */
+  get requests(): WorkerRequest[] {
+    return this.messages.filter((message): message is WorkerRequest => !('type' in message));
+  }
+
+  /** Answer the latest task request */
+  succeed(data: unknown) {
+    const requests = this.requests;
+    this.respond({ id: requests[requests.length - 1].id, type: 'success', data });
+  }
+}
+
+describe('WorkerManager', () => {
+  let manager: WorkerManager;
+
+  beforeEach(() => {
+    FakeWorker.instances = [];
+    (global as any).Worker = FakeWorker;
+    manager = WorkerManager.getInstance();
+  });
+
+  afterEach(() => {
+    manager.destroy();
+    delete (global as any).Worker;
+  });
+
+  const embedRequest = { task: WorkerTaskType.EMBED, payload: { text: 'Hello' } } as const;
+  const embed = (text: string) => ({ task: WorkerTaskType.EMBED, payload: { text } }) as const;
+  const textOf = (request: WorkerRequest) => (request.payload as { text: string }).text;
+
+  /** Replace the default instance with one using the given config */
+  const configure = (config: Parameters<typeof WorkerManager.getInstance>[0]) => {
+    manager.destroy();
+    manager = WorkerManager.getInstance(config);
+  };
+
+  it('should resolve with the worker response', async () => {
+    const progress: number[] = [];
+    const result = manager.execute<string>(embedRequest, (p) => progress.push(p));
+
+    const [worker] = FakeWorker.instances;
+    const { id } = worker.requests[0];
+    worker.respond({ id, type: 'progress', progress: 0.5 });
+    worker.respond({ id, type: 'success', data: 'vector' });
+
+    await expect(result).resolves.toBe('vector');
+    expect(progress).toEqual([0.5]);
+    expect(manager.getPendingTaskCount()).toBe(0);
+  });
+
+  it('should cancel a task when its signal is aborted', async () => {
+    const controller = new AbortController();
+    const result = manager.execute(embedRequest, undefined, controller.signal);
+
+    const [worker] = FakeWorker.instances;
+    const { id } = worker.requests[0];
+    controller.abort(new Error('User navigated away'));
+
+    await expect(result).rejects.toThrow('User navigated away');
+    expect(worker.messages[worker.messages.length - 1]).toEqual({ id, type: 'cancel' });
+    expect(manager.getPendingTaskCount()).toBe(0);
+  });
+
+  it('should not send work for an already aborted signal', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(manager.execute(embedRequest, undefined, controller.signal)).rejects.toThrow();
+    expect(FakeWorker.instances).toHaveLength(0);
+  });
+
+  it('should ignore aborts after the task settled', async () => {
+    const controller = new AbortController();
+    const result = manager.execute(embedRequest, undefined, controller.signal);
+
+    const [worker] = FakeWorker.instances;
+    worker.succeed(1);
+    await expect(result).resolves.toBe(1);
+
+    const sent = worker.messages.length;
+    controller.abort();
+    expect(worker.messages).toHaveLength(sent);
+  });
+
+  it('should configure the model cache of each worker', () => {
+    configure({ modelCacheSize: 3 });
+    manager.execute(embedRequest).catch(() => {});
+    expect(FakeWorker.instances[0].messages[0]).toMatchObject({ type: 'configure', modelCacheSize: 3 });
+
+    configure({ enableModelCache: false });
+    manager.execute(embedRequest).catch(() => {});
+    expect(FakeWorker.instances[1].messages[0]).toMatchObject({ type: 'configure', modelCacheSize: 0 });
+  });
+
+  it('should spread tasks over the pool and queue the rest', async () => {
+    configure({ poolSize: 2 });
+    const results = ['a', 'b', 'c'].map(text => manager.execute<string>(embed(text)));
+
+    const [first, second] = FakeWorker.instances;
+    expect(FakeWorker.instances).toHaveLength(2);
+    expect(first.requests.map(textOf)).toEqual(['a']);
+    expect(second.requests.map(textOf)).toEqual(['b']);
+    expect(manager.getQueuedTaskCount()).toBe(1);
+
+    second.succeed('B');
+    expect(second.requests.map(textOf)).toEqual(['b', 'c']);
+    first.succeed('A');
+    second.succeed('C');
+    await expect(Promise.all(results)).resolves.toEqual(['A', 'B', 'C']);
+    expect(manager.getWorkerCount()).toBe(2);
+  });
+
+  it('should run queued interactive tasks before background tasks', async () => {
+    const running = manager.execute(embed('ingest-1'), undefined, undefined, 'background');
+    const queued = [
+      manager.execute(embed('ingest-2'), undefined, undefined, 'background'),
+      manager.execute(embed('query'), undefined, undefined, 'interactive'),
+    ];
+
+    const [worker] = FakeWorker.instances;
+    worker.succeed(1);
+    worker.succeed(2);
+    worker.succeed(3);
+    await Promise.all([running, ...queued]);
+
+    expect(worker.requests.map(textOf)).toEqual(['ingest-1', 'query', 'ingest-2']);
+  });
+
+  it('should reject tasks when the queue is full', async () => {
+    configure({ maxQueueSize: 1 });
+    manager.execute(embed('running')).catch(() => {});
+    manager.execute(embed('queued')).catch(() => {});
+
+    await expect(manager.execute(embed('rejected'))).rejects.toThrow(
+      'Worker queue is full (1 tasks waiting)'
+    );
+    expect(manager.getPendingTaskCount()).toBe(2);
+  });
+
+  it('should remove a cancelled task from the queue', async () => {
+    const controller = new AbortController();
+    manager.execute(embed('running')).catch(() => {});
+    const queued = manager.execute(embed('queued'), undefined, controller.signal);
+
+    controller.abort();
+    await expect(queued).rejects.toThrow();
+    expect(manager.getQueuedTaskCount()).toBe(0);
+
+    const [worker] = FakeWorker.instances;
+    worker.succeed('done');
+    expect(worker.requests.map(textOf)).toEqual(['running']);
+    expect(worker.messages.some(message => 'type' in message && message.type === 'cancel')).toBe(false);
+  });
+
+  it('should restart a crashed worker and retry its tasks', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const result = manager.execute<string>(embedRequest);
+
+    const [crashed] = FakeWorker.instances;
+    crashed.onerror?.({ message: 'Out of memory' });
+    expect(crashed.terminated).toBe(true);
+
+    const [, restarted] = FakeWorker.instances;
+    expect(restarted.requests.map(textOf)).toEqual(['Hello']);
+    restarted.succeed('vector');
+    await expect(result).resolves.toBe('vector');
+
+    // Tasks are retried maxRetries times
+    const failing = manager.execute(embedRequest);
+    restarted.onerror?.({ message: 'Out of memory' });
+    FakeWorker.instances[2].onerror?.({ message: 'Out of memory' });
+    await expect(failing).rejects.toThrow('Worker error: Out of memory');
+    expect(manager.getPendingTaskCount()).toBe(0);
+    error.mockRestore();
+  });
+
+  it('should embed a batch in one background task', async () => {
+    const engine = new DefaultEmbeddingEngine();
+    const progress: number[] = [];
+    const result = engine.embedBatch(['first', 'second'], (p) => progress.push(p));
+    await Promise.resolve();
+
+    const [worker] = FakeWorker.instances;
+    const [request] = worker.requests;
+    expect(request).toMatchObject({ task: WorkerTaskType.EMBED_BATCH, payload: { texts: ['first', 'second'] } });
+    worker.respond({ id: request.id, type: 'progress', progress: 0.7, completed: 1, total: 2 });
+    worker.succeed([new Float32Array([1]), new Float32Array([2])]);
+
+    await expect(result).resolves.toEqual([new Float32Array([1]), new Float32Array([2])]);
+    expect(progress).toEqual([0.7]);
+  });
+
+  it('should send the model options and prefixes with embedding tasks', async () => {
+    const engine = new DefaultEmbeddingEngine(undefined, true, {
+      model: 'Xenova/e5-small-v2',
+      pooling: 'mean',
+      normalize: true,
+      dtype: 'q8',
+      queryPrefix: 'query: ',
+      passagePrefix: 'passage: ',
+    });
+    expect(engine.modelId).toBe('Xenova/e5-small-v2');
+
+    const query = engine.embedQuery('cats');
+    const [worker] = FakeWorker.instances;
+    expect(worker.requests[0].payload).toEqual({
+      text: 'query: cats',
+      model: 'Xenova/e5-small-v2',
+      pooling: 'mean',
+      normalize: true,
+      dtype: 'q8',
+    });
+    worker.succeed(new Float32Array(3));
+    await query;
+    expect(engine.dimensions).toBe(3);
+
+    const batch = engine.embedBatch(['a cat']);
+    await Promise.resolve();
+    expect(worker.requests[1].payload).toMatchObject({ texts: ['passage: a cat'], dtype: 'q8' });
+    worker.succeed([new Float32Array(3)]);
+    await batch;
+  });
+
+  it('should re-rank in one worker task', async () => {
+    const reranker = new DefaultReranker(undefined, true, { model: 'Xenova/bge-reranker-base', dtype: 'q8' });
+    const scores = reranker.rerank('cats', ['a cat', 'a dog']);
+
+    const [worker] = FakeWorker.instances;
+    expect(worker.requests[0]).toMatchObject({
+      task: WorkerTaskType.RERANK,
+      payload: { query: 'cats', documents: ['a cat', 'a dog'], model: 'Xenova/bge-reranker-base', dtype: 'q8' },
+    });
+    worker.succeed([0.9, 0.1]);
+    await expect(scores).resolves.toEqual([0.9, 0.1]);
+  });
+
+  it('should restart idle workers that miss a health check', async () => {
+    jest.useFakeTimers();
+    try {
+      configure({ healthCheckInterval: 1000 });
+      const result = manager.execute(embedRequest);
+      const [worker] = FakeWorker.instances;
+      worker.succeed('vector');
+      await result;
+
+      jest.advanceTimersByTime(1000);
+      const ping = worker.messages[worker.messages.length - 1];
+      expect(ping).toMatchObject({ type: 'ping' });
+      worker.respond({ id: ping.id, type: 'pong' });
+
+      jest.advanceTimersByTime(1000);
+      expect(worker.terminated).toBe(false);
+
+      // The second ping goes unanswered
+      jest.advanceTimersByTime(1000);
+      expect(worker.terminated).toBe(true);
+      expect(manager.getWorkerCount()).toBe(0);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe('WorkerManager with worker_threads', () => {
+  let manager: WorkerManager;
+
+  beforeEach(() => {
+    manager = WorkerManager.getInstance({
+      workerUrl: pathToFileURL(join(__dirname, 'mocks', 'echo-worker.mjs')),
+      maxRetries: 0,
+    });
+  });
+
+  afterEach(() => {
+    manager.destroy();
+  });
+
+  const embed = (text: string) => ({ task: WorkerTaskType.EMBED, payload: { text } }) as const;
+
+  it('should run tasks on worker threads in Node.js', async () => {
+    expect(typeof Worker).toBe('undefined');
+    expect(manager.isAvailable()).toBe(true);
+
+    const progress: number[] = [];
+    await expect(manager.execute(embed('hello'), (p) => progress.push(p))).resolves.toBe('HELLO');
+    expect(progress).toEqual([0.5]);
+    expect(manager.getWorkerCount()).toBe(1);
+  });
+
+  it('should treat an unexpected exit as a crash', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    await expect(manager.execute(embed('crash'))).rejects.toThrow(
+      'Worker error: Worker exited with code 1'
+    );
+    await expect(manager.execute(embed('again'))).resolves.toBe('AGAIN');
+    error.mockRestore();
+  });
+});
+
+describe('WorkerManager without a worker script', () => {
+  afterEach(() => {
+    WorkerManager.getInstance().destroy();
+  });
+
+  it('should look for the script next to the module and then stop using workers', async () => {
+    const manager = WorkerManager.getInstance({ maxRetries: 0 });
+    expect(manager.isAvailable()).toBe(true);
+
+    await expect(
+      manager.execute({ task: WorkerTaskType.EMBED, payload: { text: 'hello' } })
+    ).rejects.toThrow(/Cannot find the flux-vector worker script at file:.*\/dist\/workers\/worker\.node\.js/);
+    expect(manager.isAvailable()).toBe(false);
+  });
+});
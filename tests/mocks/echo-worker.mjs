@@ -0,0 +1,15 @@
+// echo-worker.mjs - worker_threads script speaking the worker protocol,
+// answering each task with its text in upper case
+import { parentPort } from 'worker_threads';
+
+parentPort.on('message', (message) => {
+  if (message.type === 'ping') {
+    parentPort.postMessage({ id: message.id, type: 'pong' });
+  } else if (!message.type) {
+    if (message.payload.text === 'crash') {
+      process.exit(1);
+    }
+    parentPort.postMessage({ id: message.id, type: 'progress', progress: 0.5 });
+    parentPort.postMessage({ id: message.id, type: 'success', data: message.payload.text.toUpperCase() });
+  }
+});
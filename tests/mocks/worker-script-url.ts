@@ -0,0 +1,11 @@
+/**
+ * Mock for workers/worker-script-url to avoid import.meta in Jest: points at
+ * the worker script built in this repository, if any
+ */
+
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+
+export function nodeWorkerScriptUrl(): URL {
+  return pathToFileURL(join(__dirname, '..', '..', 'dist', 'workers', 'worker.node.js'));
+}
@@ -1,32 +1,90 @@
 /**
  * Worker Manager
- * Singleton class for managing worker lifecycle and task execution
+ * Singleton class managing a pool of workers and a priority queue of tasks
  * Runs in main thread
  */
 
-import { WorkerRequest, WorkerResponse, WorkerConfig, WorkerTaskType } from './worker-types';
+import {
+  WorkerRequest,
+  WorkerResponse,
+  WorkerConfig,
+  WorkerTaskType,
+  WorkerCancelRequest,
+  WorkerPingRequest,
+  WorkerConfigureRequest,
+  TaskPriority,
+} from './worker-types';
+import {
+  WorkerTransport,
+  WorkerTransportFactory,
+  createWebWorkerTransport,
+  createNodeWorkerTransport,
+  isNodeRuntime,
+} from './worker-transport';
 
 interface PendingTask {
   request: WorkerRequest;
+  priority: TaskPriority;
   resolve: (value: any) => void;
   reject: (error: Error) => void;
   progressCallback?: (progress: number) => void;
   timeoutId?: ReturnType<typeof setTimeout>;
+  /** Stops listening to the caller's AbortSignal */
+  removeAbortListener?: () => void;
+  /** Worker running the task; undefined while the task is queued */
+  worker?: PoolWorker;
+  /** Number of times the task was requeued after its worker crashed */
+  retries: number;
+}
+
+interface PoolWorker {
+  worker: WorkerTransport;
+  /** Ids of the tasks running on this worker */
+  running: Set<string>;
+  /** Id of the health check ping the worker has not answered yet */
+  pendingPing: string | null;
 }
 
 export class WorkerManager {
   private static instance: WorkerManager;
-  private worker: Worker | null = null;
+  private workers: PoolWorker[] = [];
   private pendingTasks = new Map<string, PendingTask>();
-  private config: Required<WorkerConfig>;
+  /** Ids of the tasks waiting for a worker, oldest first */
+  private queues: Record<TaskPriority, string[]> = { interactive: [], background: [] };
+  private healthCheckTimer: ReturnType<typeof setInterval> | null = null;
+  /** Starts workers; null until the worker_threads transport is loaded in Node.js */
+  private transportFactory: WorkerTransportFactory | null;
+  private nodeTransportFactory: Promise<WorkerTransportFactory> | null = null;
+  /** Set once the worker_threads transport failed to load, e.g. without a worker script */
+  private nodeTransportFailed = false;
+  private config: Required<Omit<WorkerConfig, 'workerUrl'>> & Pick<WorkerConfig, 'workerUrl'>;
   
   private constructor(config?: WorkerConfig) {
     this.config = {
+      workerUrl: config?.workerUrl,
+      poolSize: config?.poolSize ?? 1,
       maxConcurrentTasks: config?.maxConcurrentTasks ?? 1,
+      maxQueueSize: config?.maxQueueSize ?? 1000,
+      maxRetries: config?.maxRetries ?? 1,
+      healthCheckInterval: config?.healthCheckInterval ?? 30 * 1000, // 30 seconds
       taskTimeout: config?.taskTimeout ?? 5 * 60 * 1000, // 5 minutes
       enableModelCache: config?.enableModelCache ?? true,
       modelCacheSize: config?.modelCacheSize ?? 2,
     };
+    
+    for (const name of ['poolSize', 'maxConcurrentTasks', 'maxQueueSize'] as const) {
+      const value = this.config[name];
+      if (!Number.isInteger(value) || value < 1) {
+        throw new Error(`${name} must be a positive integer, got ${value}`);
+      }
+    }
+    if (!Number.isInteger(this.config.maxRetries) || this.config.maxRetries < 0) {
+      throw new Error(`maxRetries must be a non-negative integer, got ${this.config.maxRetries}`);
+    }
+    
+    this.transportFactory = typeof Worker !== 'undefined'
+      ? createWebWorkerTransport(this.config.workerUrl ?? this.getWorkerUrl())
+      : null;
   }
   
   /**
@@ -40,95 +98,282 @@ export class WorkerManager {
   }
   
   /**
-   * Execute a task in a worker
+   * Execute a task in a worker.
+   * Tasks wait in a queue until a worker of the pool has a free slot; queued
+   * interactive tasks run before queued background tasks. Rejects right
+   * away when maxQueueSize tasks are already waiting.
+   * Aborting the signal rejects the task with the signal's reason and
+   * removes it from the queue or tells the worker to drop it.
    */
   async execute<T>(
     request: Omit<WorkerRequest, 'id'>,
-    progressCallback?: (progress: number) => void
+    progressCallback?: (progress: number) => void,
+    signal?: AbortSignal,
+    priority: TaskPriority = 'interactive'
   ): Promise<T> {
-    // Check if workers are supported
-    if (typeof Worker === 'undefined') {
-      throw new Error('Web Workers not supported. Use fallback mode.');
+    // Web Workers in browsers, worker_threads in Node.js
+    if (!this.transportFactory) {
+      if (!isNodeRuntime()) {
+        throw new Error('Workers not supported. Use fallback mode.');
+      }
+      this.nodeTransportFactory ??= createNodeWorkerTransport(this.config.workerUrl);
+      try {
+        this.transportFactory = await this.nodeTransportFactory;
+      } catch (error) {
+        this.nodeTransportFailed = true;
+        throw error;
+      }
+    }
+    signal?.throwIfAborted();
+    
+    if (this.getQueuedTaskCount() >= this.config.maxQueueSize) {
+      throw new Error(`Worker queue is full (${this.config.maxQueueSize} tasks waiting)`);
     }
     
     const id = this.generateRequestId();
     const fullRequest: WorkerRequest = { ...request, id } as WorkerRequest;
     
     return new Promise<T>((resolve, reject) => {
-      // Set up timeout
-      const timeoutId = setTimeout(() => {
-        const task = this.pendingTasks.get(id);
-        if (task) {
-          this.pendingTasks.delete(id);
-          task.reject(new Error(`Task ${id} timed out after ${this.config.taskTimeout}ms`));
-        }
-      }, this.config.taskTimeout);
+      // Cancel the task when the caller aborts
+      const onAbort = () => this.cancelTask(id, signal!.reason);
+      signal?.addEventListener('abort', onAbort, { once: true });
       
-      // Store pending task
       this.pendingTasks.set(id, {
         request: fullRequest,
+        priority,
         resolve,
         reject,
         progressCallback,
-        timeoutId,
+        removeAbortListener: () => signal?.removeEventListener('abort', onAbort),
+        retries: 0,
       });
+      this.queues[priority].push(id);
       
-      // Ensure worker is initialized
-      this.ensureWorker();
-      
-      // Send request
-      if (this.worker) {
-        this.worker.postMessage(fullRequest);
-      } else {
-        clearTimeout(timeoutId);
-        this.pendingTasks.delete(id);
-        reject(new Error('Failed to initialize worker'));
-      }
+      this.dispatch();
     });
   }
   
   /**
-   * Initialize worker if needed
+   * Hand queued tasks to workers with a free slot, starting workers as
+   * needed up to the pool size
    */
-  private ensureWorker(): void {
-    if (this.worker) return;
-    
-    try {
-      // Create worker from bundled script
-      // In production: use worker URL from build
-      // In development: use inline worker or URL
-      const workerUrl = this.getWorkerUrl();
-      this.worker = new Worker(workerUrl, { type: 'module' });
+  private dispatch(): void {
+    for (;;) {
+      const queue = this.queues.interactive.length > 0
+        ? this.queues.interactive
+        : this.queues.background;
+      if (queue.length === 0) return;
       
-      // Set up message handler
-      this.worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
-        this.handleWorkerMessage(event.data);
-      };
+      const poolWorker = this.acquireWorker();
+      if (!poolWorker) return;
       
-      // Handle worker errors
-      this.worker.onerror = (error) => {
-        console.error('Worker error:', error);
-        this.handleWorkerError(error);
-      };
+      const id = queue.shift()!;
+      const task = this.pendingTasks.get(id)!;
+      task.worker = poolWorker;
+      poolWorker.running.add(id);
       
-      // Handle worker termination
-      this.worker.onmessageerror = (error) => {
-        console.error('Worker message error:', error);
-        this.terminateWorker();
-      };
+      // Time the task from the moment it runs, not while it waits
+      task.timeoutId = setTimeout(() => this.handleTimeout(id), this.config.taskTimeout);
+      poolWorker.worker.postMessage(task.request);
+    }
+  }
+  
+  /**
+   * Pick a worker for the next task: an idle worker, else a new worker,
+   * else the least busy worker with a free slot
+   */
+  private acquireWorker(): PoolWorker | null {
+    const idle = this.workers.find(w => w.running.size === 0);
+    if (idle) return idle;
+    
+    if (this.workers.length < this.config.poolSize) {
+      try {
+        return this.startWorker();
+      } catch (error) {
+        if (this.workers.length === 0) {
+          this.rejectQueued(new Error('Failed to initialize worker'));
+          return null;
+        }
+      }
+    }
+    
+    let best: PoolWorker | null = null;
+    for (const poolWorker of this.workers) {
+      if (poolWorker.running.size < this.config.maxConcurrentTasks &&
+          (!best || poolWorker.running.size < best.running.size)) {
+        best = poolWorker;
+      }
+    }
+    return best;
+  }
+  
+  /**
+   * Remove a task from the bookkeeping and stop its timer and abort listener
+   */
+  private settleTask(id: string): PendingTask | undefined {
+    const task = this.pendingTasks.get(id);
+    if (!task) return undefined;
+    
+    if (task.timeoutId) {
+      clearTimeout(task.timeoutId);
+    }
+    task.removeAbortListener?.();
+    this.pendingTasks.delete(id);
+    
+    if (task.worker) {
+      task.worker.running.delete(id);
+    } else {
+      const queue = this.queues[task.priority];
+      const index = queue.indexOf(id);
+      if (index !== -1) {
+        queue.splice(index, 1);
+      }
+    }
+    return task;
+  }
+  
+  /**
+   * Reject a pending task and drop it from the queue or its worker
+   */
+  private cancelTask(id: string, reason: unknown): void {
+    const task = this.settleTask(id);
+    if (!task) return;
+    
+    task.worker?.worker.postMessage({ id, type: 'cancel' } as WorkerCancelRequest);
+    task.reject(reason instanceof Error ? reason : new Error(String(reason)));
+    this.dispatch();
+  }
+  
+  /**
+   * Reject a task that ran too long. Its worker may be stuck, so it is
+   * restarted; the worker's other tasks are retried.
+   */
+  private handleTimeout(id: string): void {
+    const task = this.settleTask(id);
+    if (!task) return;
+    
+    task.reject(new Error(`Task ${id} timed out after ${this.config.taskTimeout}ms`));
+    if (task.worker) {
+      this.restartWorker(task.worker, 'task timed out');
+    }
+  }
+  
+  /**
+   * Start a worker and add it to the pool
+   */
+  private startWorker(): PoolWorker {
+    let worker: WorkerTransport;
+    try {
+      worker = this.transportFactory!({
+        onMessage: (response) => this.handleWorkerMessage(poolWorker, response),
+        // A crashed worker is replaced and its tasks are retried
+        onError: (message) => this.restartWorker(poolWorker, message),
+        onMessageError: () => this.restartWorker(poolWorker, 'message could not be deserialized'),
+      });
     } catch (error) {
       console.error('Failed to create worker:', error);
-      this.worker = null;
       throw error;
     }
+    const poolWorker: PoolWorker = { worker, running: new Set(), pendingPing: null };
+    
+    worker.postMessage({
+      id: this.generateRequestId(),
+      type: 'configure',
+      modelCacheSize: this.config.enableModelCache ? this.config.modelCacheSize : 0,
+    } as WorkerConfigureRequest);
+    
+    this.workers.push(poolWorker);
+    this.startHealthChecks();
+    return poolWorker;
+  }
+  
+  /**
+   * Terminate a worker, requeue its tasks that have retries left and
+   * reject the others
+   */
+  private restartWorker(poolWorker: PoolWorker, reason: string): void {
+    const index = this.workers.indexOf(poolWorker);
+    if (index === -1) return;
+    this.workers.splice(index, 1);
+    poolWorker.worker.terminate();
+    
+    // Requeue in reverse so that the tasks keep their order at the front
+    for (const id of [...poolWorker.running].reverse()) {
+      const task = this.pendingTasks.get(id)!;
+      if (task.retries < this.config.maxRetries) {
+        if (task.timeoutId) {
+          clearTimeout(task.timeoutId);
+        }
+        task.timeoutId = undefined;
+        task.worker = undefined;
+        task.retries++;
+        this.queues[task.priority].unshift(id);
+      } else {
+        this.settleTask(id);
+        task.reject(new Error(`Worker error: ${reason}`));
+      }
+    }
+    poolWorker.running.clear();
+    
+    if (this.workers.length === 0) {
+      this.stopHealthChecks();
+    }
+    this.dispatch();
+  }
+  
+  /**
+   * Ping idle workers periodically; a worker that did not answer the
+   * previous ping is restarted. Busy workers are covered by the task
+   * timeout instead, as a long task blocks their message loop.
+   */
+  private startHealthChecks(): void {
+    if (this.healthCheckTimer || this.config.healthCheckInterval <= 0) return;
+    
+    const timer = setInterval(() => this.checkHealth(), this.config.healthCheckInterval);
+    // Don't keep Node.js processes alive for health checks (browsers return a number)
+    if (typeof timer === 'object' && 'unref' in timer) {
+      timer.unref();
+    }
+    this.healthCheckTimer = timer;
+  }
+  
+  private stopHealthChecks(): void {
+    if (this.healthCheckTimer) {
+      clearInterval(this.healthCheckTimer);
+      this.healthCheckTimer = null;
+    }
+  }
+  
+  /**
+   * Run one round of health checks
+   */
+  private checkHealth(): void {
+    for (const poolWorker of [...this.workers]) {
+      if (poolWorker.pendingPing !== null) {
+        this.restartWorker(poolWorker, 'health check timed out');
+      } else if (poolWorker.running.size === 0) {
+        poolWorker.pendingPing = this.generateRequestId();
+        poolWorker.worker.postMessage({
+          id: poolWorker.pendingPing,
+          type: 'ping',
+        } as WorkerPingRequest);
+      }
+    }
   }
   
   /**
    * Handle messages from worker
    */
-  private handleWorkerMessage(response: WorkerResponse): void {
+  private handleWorkerMessage(poolWorker: PoolWorker, response: WorkerResponse): void {
+    if (response.type === 'pong') {
+      if (poolWorker.pendingPing === response.id) {
+        poolWorker.pendingPing = null;
+      }
+      return;
+    }
+    
     const pendingTask = this.pendingTasks.get(response.id);
-    if (!pendingTask) {
+    if (!pendingTask || pendingTask.worker !== poolWorker) {
       console.warn(`Received response for unknown task: ${response.id}`);
       return;
     }
@@ -138,13 +383,7 @@ export class WorkerManager {
       return;
     }
     
-    // Clear timeout
-    if (pendingTask.timeoutId) {
-      clearTimeout(pendingTask.timeoutId);
-    }
-    
-    // Remove from pending
-    this.pendingTasks.delete(response.id);
+    this.settleTask(response.id);
     
     // Handle response
     if (response.type === 'success') {
@@ -159,42 +398,39 @@ export class WorkerManager {
       }
       pendingTask.reject(error);
     }
+    
+    this.dispatch();
   }
   
   /**
-   * Handle worker errors
+   * Reject all queued tasks
    */
-  private handleWorkerError(error: ErrorEvent): void {
-    // Reject all pending tasks
-    for (const [id, task] of this.pendingTasks.entries()) {
-      if (task.timeoutId) {
-        clearTimeout(task.timeoutId);
-      }
-      task.reject(new Error(`Worker error: ${error.message || 'Unknown error'}`));
+  private rejectQueued(error: Error): void {
+    for (const id of [...this.queues.interactive, ...this.queues.background]) {
+      this.settleTask(id)?.reject(error);
     }
-    this.pendingTasks.clear();
-    
-    // Terminate and cleanup
-    this.terminateWorker();
   }
   
   /**
-   * Terminate worker and cleanup
+   * Terminate all workers and reject all pending tasks
    */
   terminateWorker(): void {
-    if (this.worker) {
-      this.worker.terminate();
-      this.worker = null;
+    this.stopHealthChecks();
+    for (const { worker } of this.workers) {
+      worker.terminate();
     }
+    this.workers = [];
     
     // Reject all pending tasks
-    for (const [id, task] of this.pendingTasks.entries()) {
+    for (const task of this.pendingTasks.values()) {
       if (task.timeoutId) {
         clearTimeout(task.timeoutId);
       }
+      task.removeAbortListener?.();
       task.reject(new Error('Worker terminated'));
     }
     this.pendingTasks.clear();
+    this.queues = { interactive: [], background: [] };
   }
   
   /**
@@ -287,19 +523,34 @@ export class WorkerManager {
   }
   
   /**
-   * Check if worker is available
+   * Check if workers can run in this environment. In Node.js this turns
+   * false once the worker script could not be loaded.
    */
   isAvailable(): boolean {
-    return typeof Worker !== 'undefined' && this.worker !== null;
+    return typeof Worker !== 'undefined' || (isNodeRuntime() && !this.nodeTransportFailed);
   }
   
   /**
-   * Get number of pending tasks
+   * Get number of pending tasks, queued or running
    */
   getPendingTaskCount(): number {
     return this.pendingTasks.size;
   }
   
+  /**
+   * Get number of tasks waiting for a worker
+   */
+  getQueuedTaskCount(): number {
+    return this.queues.interactive.length + this.queues.background.length;
+  }
+  
+  /**
+   * Get number of running workers
+   */
+  getWorkerCount(): number {
+    return this.workers.length;
+  }
+  
   /**
    * Cleanup (call when done)
    */
@@ -6,9 +6,19 @@ export { WorkerManager } from './WorkerManager';
 export {
   WorkerTaskType,
   WorkerRequest,
+  WorkerCancelRequest,
+  WorkerPingRequest,
+  WorkerConfigureRequest,
+  WorkerMessage,
   WorkerResponse,
+  WorkerPongResponse,
+  TaskPriority,
   WorkerConfig,
   EmbedTaskPayload,
+  EmbedBatchTaskPayload,
+  ModelDtype,
+  EmbeddingPooling,
   SummarizeTaskPayload,
+  RerankTaskPayload,
   ProgressCallback,
 } from './worker-types';
@@ -3,42 +3,87 @@
  * These functions run in the worker context and handle specific task types
  */
 
-import { pipeline, FeatureExtractionPipeline, SummarizationPipeline } from '@huggingface/transformers';
-import { EmbedTaskPayload, SummarizeTaskPayload, ProgressCallback } from './worker-types';
+import {
+  pipeline,
+  AutoTokenizer,
+  AutoModelForSequenceClassification,
+  FeatureExtractionPipeline,
+  SummarizationPipeline,
+  PreTrainedTokenizer,
+  PreTrainedModel,
+} from '@huggingface/transformers';
+import {
+  EmbedTaskPayload,
+  EmbedBatchTaskPayload,
+  SummarizeTaskPayload,
+  RerankTaskPayload,
+  ProgressCallback,
+  ModelDtype,
+} from './worker-types';
+
+// Cross-encoder: scores query-document pairs with one relevance logit
+interface CrossEncoder {
+  tokenizer: PreTrainedTokenizer;
+  model: PreTrainedModel;
+}
 
 // Model cache type (shared across handlers)
-type ModelCache = Map<string, FeatureExtractionPipeline | SummarizationPipeline>;
+type CachedModel = FeatureExtractionPipeline | SummarizationPipeline | CrossEncoder;
+type ModelCache = Map<string, CachedModel>;
+
+// Maximum number of models kept in the cache, set by the main thread
+let modelCacheSize = 2;
+
+/**
+ * Set the model cache size; 0 disables caching
+ */
+export function configureModelCache(size: number): void {
+  modelCacheSize = size;
+}
+
+/**
+ * Cache a model (with size limit - simple FIFO)
+ */
+function cacheModel(
+  cache: ModelCache,
+  modelName: string,
+  model: CachedModel
+): void {
+  if (modelCacheSize <= 0) return;
+  while (cache.size >= modelCacheSize) {
+    // Remove oldest (first key)
+    const firstKey = cache.keys().next().value;
+    if (firstKey === undefined) break;
+    cache.delete(firstKey);
+  }
+  cache.set(modelName, model);
+}
 
 /**
- * Load and cache embedding model
+ * Load and cache embedding model; each dtype variant is cached on its own
  */
 async function getEmbeddingModel(
   modelName: string,
+  dtype: ModelDtype | undefined,
   cache: ModelCache,
   progressCallback?: ProgressCallback
 ): Promise<FeatureExtractionPipeline> {
-  if (cache.has(modelName)) {
+  const cacheKey = dtype ? `${modelName}:${dtype}` : modelName;
+  if (cache.has(cacheKey)) {
     progressCallback?.(0.1, 'model_cached');
-    return cache.get(modelName) as FeatureExtractionPipeline;
+    return cache.get(cacheKey) as FeatureExtractionPipeline;
   }
   
   progressCallback?.(0.05, 'loading_model');
   const model = await pipeline('feature-extraction', modelName, {
+    dtype,
     progress_callback: (progressInfo: any) => {
       const progress = typeof progressInfo === 'number' ? progressInfo : progressInfo.progress || 0;
       progressCallback?.(0.05 + progress * 0.35, 'loading_model');
     },
   }) as FeatureExtractionPipeline;
   
-  // Cache model (with size limit - simple FIFO)
-  if (cache.size >= 2) {
-    // Remove oldest (first key)
-    const firstKey = cache.keys().next().value;
-    if (firstKey) {
-      cache.delete(firstKey);
-    }
-  }
-  cache.set(modelName, model);
+  cacheModel(cache, cacheKey, model);
   
   progressCallback?.(0.4, 'model_loaded');
   return model;
@@ -65,58 +110,129 @@ async function getSummarizationModel(
     },
   }) as SummarizationPipeline;
   
-  // Cache model (with size limit - simple FIFO)
-  if (cache.size >= 2) {
-    // Remove oldest (first key)
-    const firstKey = cache.keys().next().value;
-    if (firstKey) {
-      cache.delete(firstKey);
-    }
-  }
-  cache.set(modelName, model);
+  cacheModel(cache, modelName, model);
   
   progressCallback?.(0.4, 'model_loaded');
   return model;
 }
 
+/**
+ * Load and cache a cross-encoder; each dtype variant is cached on its own
+ */
+async function getRerankModel(
+  modelName: string,
+  dtype: ModelDtype | undefined,
+  cache: ModelCache,
+  progressCallback?: ProgressCallback
+): Promise<CrossEncoder> {
+  const cacheKey = dtype ? `${modelName}:${dtype}` : modelName;
+  if (cache.has(cacheKey)) {
+    progressCallback?.(0.1, 'model_cached');
+    return cache.get(cacheKey) as CrossEncoder;
+  }
+  
+  progressCallback?.(0.05, 'loading_model');
+  const progress_callback = (progressInfo: any) => {
+    const progress = typeof progressInfo === 'number' ? progressInfo : progressInfo.progress || 0;
+    progressCallback?.(0.05 + progress * 0.35, 'loading_model');
+  };
+  const [tokenizer, model] = await Promise.all([
+    AutoTokenizer.from_pretrained(modelName, { progress_callback }),
+    AutoModelForSequenceClassification.from_pretrained(modelName, { dtype, progress_callback }),
+  ]);
+  const crossEncoder: CrossEncoder = { tokenizer, model };
+  
+  cacheModel(cache, cacheKey, crossEncoder);
+  
+  progressCallback?.(0.4, 'model_loaded');
+  return crossEncoder;
+}
+
 /**
  * Handle embedding task
  */
 export async function handleEmbedTask(
   payload: EmbedTaskPayload,
   modelCache: ModelCache,
-  progressCallback?: ProgressCallback
-): Promise<number[]> {
+  progressCallback?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<Float32Array> {
   const modelName = payload.model || 'Xenova/all-MiniLM-L6-v2';
   
   progressCallback?.(0.4, 'loading_model');
-  const model = await getEmbeddingModel(modelName, modelCache, progressCallback);
+  const model = await getEmbeddingModel(modelName, payload.dtype, modelCache, progressCallback);
+  signal?.throwIfAborted();
   
   progressCallback?.(0.7, 'embedding');
   const output = await model(payload.text, {
-    pooling: 'mean',
-    normalize: true,
+    pooling: payload.pooling ?? 'mean',
+    normalize: payload.normalize ?? true,
   });
   
   progressCallback?.(0.95, 'processing');
-  const result = Array.from(output.data);
+  const result = output.data as Float32Array;
   
   progressCallback?.(1.0, 'complete');
   return result;
 }
 
+/**
+ * Handle batch embedding task. Texts go through the model in padded batches
+ * of payload.batchSize; progress is reported after each batch with the
+ * number of texts embedded so far.
+ */
+export async function handleEmbedBatchTask(
+  payload: EmbedBatchTaskPayload,
+  modelCache: ModelCache,
+  progressCallback?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<Float32Array[]> {
+  const modelName = payload.model || 'Xenova/all-MiniLM-L6-v2';
+  const batchSize = payload.batchSize ?? 32;
+  const { texts } = payload;
+  
+  const model = await getEmbeddingModel(modelName, payload.dtype, modelCache, progressCallback);
+  
+  const results: Float32Array[] = [];
+  for (let start = 0; start < texts.length; start += batchSize) {
+    signal?.throwIfAborted();
+    const output = await model(texts.slice(start, start + batchSize), {
+      pooling: payload.pooling ?? 'mean',
+      normalize: payload.normalize ?? true,
+    });
+    
+    // Copy each row out of the [texts, dimensions] output, so that every
+    // embedding has its own buffer to transfer
+    const data = output.data as Float32Array;
+    const dimensions = output.dims[1];
+    for (let row = 0; row < output.dims[0]; row++) {
+      results.push(data.slice(row * dimensions, (row + 1) * dimensions));
+    }
+    
+    progressCallback?.(
+      0.4 + 0.6 * (results.length / texts.length),
+      'embedding',
+      { completed: results.length, total: texts.length }
+    );
+  }
+  
+  return results;
+}
+
 /**
  * Handle summarization task
  */
 export async function handleSummarizeTask(
   payload: SummarizeTaskPayload,
   modelCache: ModelCache,
-  progressCallback?: ProgressCallback
+  progressCallback?: ProgressCallback,
+  signal?: AbortSignal
 ): Promise<string> {
   const modelName = payload.model || 'Xenova/distilbart-cnn-6-6';
   
   progressCallback?.(0.1, 'loading_model');
   const model = await getSummarizationModel(modelName, modelCache, progressCallback);
+  signal?.throwIfAborted();
   
   progressCallback?.(0.5, 'summarizing');
   const modelOptions: any = {
@@ -151,3 +267,43 @@ export async function handleSummarizeTask(
   progressCallback?.(1.0, 'complete');
   return summary;
 }
+
+/**
+ * Handle rerank task: score each document against the query with a
+ * cross-encoder, in batches of payload.batchSize pairs. Scores are the
+ * sigmoid of the relevance logit (0-1, higher is more relevant), in document
+ * order.
+ */
+export async function handleRerankTask(
+  payload: RerankTaskPayload,
+  modelCache: ModelCache,
+  progressCallback?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<number[]> {
+  const modelName = payload.model || 'Xenova/ms-marco-MiniLM-L-6-v2';
+  const batchSize = payload.batchSize ?? 32;
+  const { query, documents } = payload;
+  
+  const { tokenizer, model } = await getRerankModel(modelName, payload.dtype, modelCache, progressCallback);
+  
+  const scores: number[] = [];
+  for (let start = 0; start < documents.length; start += batchSize) {
+    signal?.throwIfAborted();
+    const batch = documents.slice(start, start + batchSize);
+    const inputs = tokenizer(new Array(batch.length).fill(query), {
+      text_pair: batch,
+      padding: true,
+      truncation: true,
+    });
+    const { logits } = await model(inputs);
+    scores.push(...(logits.sigmoid().tolist() as number[][]).map(row => row[0]));
+    
+    progressCallback?.(
+      0.4 + 0.6 * (scores.length / documents.length),
+      'reranking',
+      { completed: scores.length, total: documents.length }
+    );
+  }
+  
+  return scores;
+}
@@ -0,0 +1,15 @@
+/**
+ * Worker script location
+ * The Node.js build of the worker script is emitted next to the compiled
+ * transport (dist/workers/), so it is resolved relative to this module
+ * rather than to the working directory. Kept apart because Jest runs the
+ * sources as CommonJS, where import.meta is unavailable; the tests map this
+ * module to tests/mocks/worker-script-url.ts.
+ */
+
+/**
+ * URL of dist/workers/worker.node.js
+ */
+export function nodeWorkerScriptUrl(): URL {
+  return new URL('./worker.node.js', import.meta.url);
+}
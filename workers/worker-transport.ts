@@ -0,0 +1,125 @@
+/**
+ * Worker transports
+ * Run the worker script on a Web Worker in browsers and on a worker_threads
+ * Worker in Node.js, behind the same WorkerMessage/WorkerResponse protocol
+ * Runs in main thread
+ */
+
+import { WorkerMessage, WorkerResponse } from './worker-types';
+import { nodeWorkerScriptUrl } from './worker-script-url';
+
+/**
+ * Callbacks a transport reports worker events to
+ */
+export interface WorkerTransportHandlers {
+  onMessage(response: WorkerResponse): void;
+  /** The worker crashed, failed to load or exited unexpectedly */
+  onError(message: string): void;
+  /** A message from the worker could not be deserialized */
+  onMessageError(): void;
+}
+
+/**
+ * Connection to one running worker
+ */
+export interface WorkerTransport {
+  postMessage(message: WorkerMessage): void;
+  terminate(): void;
+}
+
+/**
+ * Starts a worker and connects it to the handlers
+ */
+export type WorkerTransportFactory = (handlers: WorkerTransportHandlers) => WorkerTransport;
+
+/**
+ * Check whether this is Node.js without a Web Worker implementation
+ */
+export function isNodeRuntime(): boolean {
+  return typeof Worker === 'undefined' &&
+    typeof process !== 'undefined' &&
+    typeof process.versions?.node === 'string';
+}
+
+/**
+ * Create a transport factory for Web Workers loading the script at url
+ */
+export function createWebWorkerTransport(url: string | URL): WorkerTransportFactory {
+  return (handlers) => {
+    const worker = new Worker(url, { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      handlers.onMessage(event.data);
+    };
+    worker.onerror = (error) => {
+      console.error('Worker error:', error);
+      handlers.onError(error.message || 'Unknown error');
+    };
+    worker.onmessageerror = (error) => {
+      console.error('Worker message error:', error);
+      handlers.onMessageError();
+    };
+
+    return {
+      postMessage: (message) => worker.postMessage(message),
+      terminate: () => worker.terminate(),
+    };
+  };
+}
+
+/**
+ * Create a transport factory for worker_threads Workers loading the script
+ * at url. Without a url, the Node.js build of the worker script shipped with
+ * the flux-vector package is used.
+ */
+export async function createNodeWorkerTransport(url?: string | URL): Promise<WorkerTransportFactory> {
+  const { Worker: NodeWorker } = await import('worker_threads');
+  const scriptUrl = url ? new URL(url) : await resolveNodeWorkerUrl();
+
+  return (handlers) => {
+    const worker = new NodeWorker(scriptUrl);
+    let terminated = false;
+
+    worker.on('message', (response: WorkerResponse) => handlers.onMessage(response));
+    worker.on('error', (error: Error) => {
+      console.error('Worker error:', error);
+      handlers.onError(error.message || 'Unknown error');
+    });
+    worker.on('messageerror', (error: Error) => {
+      console.error('Worker message error:', error);
+      handlers.onMessageError();
+    });
+    // Exits we did not ask for are crashes (e.g. process.exit() or OOM)
+    worker.on('exit', (code: number) => {
+      if (!terminated) {
+        handlers.onError(`Worker exited with code ${code}`);
+      }
+    });
+
+    return {
+      postMessage: (message) => worker.postMessage(message),
+      terminate: () => {
+        terminated = true;
+        void worker.terminate();
+      },
+    };
+  };
+}
+
+/**
+ * Locate the Node.js build of the worker script, next to this module
+ */
+async function resolveNodeWorkerUrl(): Promise<URL> {
+  const { access } = await import('fs/promises');
+  const { fileURLToPath } = await import('url');
+
+  const url = nodeWorkerScriptUrl();
+  try {
+    await access(fileURLToPath(url));
+  } catch {
+    throw new Error(
+      `Cannot find the flux-vector worker script at ${url.href}. Set workerUrl in the WorkerConfig.`
+    );
+  }
+  return url;
+}
@@ -7,13 +7,33 @@
 export enum WorkerTaskType {
   EMBED = 'embed',
   SUMMARIZE = 'summarize',
-  EMBED_SUMMARY = 'embed_summary'
+  EMBED_SUMMARY = 'embed_summary',
+  EMBED_BATCH = 'embed_batch',
+  RERANK = 'rerank'
 }
 
+// Weight precision or quantized variant of a model
+export type ModelDtype = 'fp32' | 'fp16' | 'q8' | 'int8' | 'uint8' | 'q4' | 'bnb4' | 'q4f16';
+
+// How token embeddings are pooled into one embedding
+export type EmbeddingPooling = 'mean' | 'cls';
+
 // Type-safe payloads for each task type
 export interface EmbedTaskPayload {
   text: string;
   model?: string; // Optional model override
+  pooling?: EmbeddingPooling; // Default: 'mean'
+  normalize?: boolean; // Default: true
+  dtype?: ModelDtype; // Default: the model's default
+}
+
+export interface EmbedBatchTaskPayload {
+  texts: string[];
+  model?: string; // Optional model override
+  pooling?: EmbeddingPooling; // Default: 'mean'
+  normalize?: boolean; // Default: true
+  dtype?: ModelDtype; // Default: the model's default
+  batchSize?: number; // Texts per padded forward pass. Default: 32
 }
 
 export interface SummarizeTaskPayload {
@@ -24,11 +44,51 @@ export interface SummarizeTaskPayload {
   maxLength?: number;
 }
 
+export interface RerankTaskPayload {
+  query: string;
+  documents: string[];
+  model?: string; // Cross-encoder model. Default: 'Xenova/ms-marco-MiniLM-L-6-v2'
+  dtype?: ModelDtype; // Default: the model's default
+  batchSize?: number; // Query-document pairs per forward pass. Default: 32
+}
+
 // Discriminated union for type-safe requests
 export type WorkerRequest = 
   | { id: string; task: WorkerTaskType.EMBED; payload: EmbedTaskPayload }
   | { id: string; task: WorkerTaskType.SUMMARIZE; payload: SummarizeTaskPayload }
-  | { id: string; task: WorkerTaskType.EMBED_SUMMARY; payload: EmbedTaskPayload };
+  | { id: string; task: WorkerTaskType.EMBED_SUMMARY; payload: EmbedTaskPayload }
+  | { id: string; task: WorkerTaskType.EMBED_BATCH; payload: EmbedBatchTaskPayload }
+  | { id: string; task: WorkerTaskType.RERANK; payload: RerankTaskPayload };
+
+// Cancels the request with the same id; the worker sends no response for it
+export interface WorkerCancelRequest {
+  id: string;
+  type: 'cancel';
+}
+
+// Health check; the worker answers with a pong carrying the same id
+export interface WorkerPingRequest {
+  id: string;
+  type: 'ping';
+}
+
+// Sent once when a worker starts
+export interface WorkerConfigureRequest {
+  id: string;
+  type: 'configure';
+  modelCacheSize: number; // 0 disables the model cache
+}
+
+// Messages sent from the main thread to a worker
+export type WorkerMessage =
+  | WorkerRequest
+  | WorkerCancelRequest
+  | WorkerPingRequest
+  | WorkerConfigureRequest;
+
+// Scheduling priority: queued interactive tasks (e.g. query embeddings) run
+// before queued background tasks (e.g. ingestion)
+export type TaskPriority = 'interactive' | 'background';
 
 // Response types
 export interface WorkerSuccessResponse<T = unknown> {
@@ -52,20 +112,37 @@ export interface WorkerProgressResponse {
   type: 'progress';
   progress: number; // 0-1
   stage?: string; // e.g., 'loading_model', 'processing', 'complete'
+  completed?: number; // Items done so far, for batch tasks
+  total?: number; // Number of items, for batch tasks
+}
+
+export interface WorkerPongResponse {
+  id: string;
+  type: 'pong';
 }
 
 export type WorkerResponse = 
   | WorkerSuccessResponse 
   | WorkerErrorResponse 
-  | WorkerProgressResponse;
+  | WorkerProgressResponse
+  | WorkerPongResponse;
 
 // Worker configuration
 export interface WorkerConfig {
-  maxConcurrentTasks?: number; // Default: 1
+  workerUrl?: string | URL; // Worker script. Default: the script shipped with the package
+  poolSize?: number; // Number of workers, each with its own models. Default: 1
+  maxConcurrentTasks?: number; // Tasks in flight per worker. Default: 1
+  maxQueueSize?: number; // Tasks waiting for a worker before execute() rejects. Default: 1000
+  maxRetries?: number; // Retries of a task whose worker crashed. Default: 1
+  healthCheckInterval?: number; // Ms between pings of idle workers, 0 disables. Default: 30 seconds
   taskTimeout?: number; // Default: 5 minutes
   enableModelCache?: boolean; // Default: true
-  modelCacheSize?: number; // Default: 2 (keep 2 models in memory)
+  modelCacheSize?: number; // Default: 2 (keep 2 models in memory per worker)
 }
 
 // Progress callback type
-export type ProgressCallback = (progress: number, stage?: string) => void;
+export type ProgressCallback = (
+  progress: number,
+  stage?: string,
+  items?: { completed: number; total: number }
+) => void;
@@ -1,19 +1,38 @@
 /**
  * Main worker script
- * Runs in worker context and handles all task types
+ * Runs in worker context (a Web Worker or a Node.js worker_threads Worker)
+ * and handles all task types
  */
 
-import { WorkerRequest, WorkerResponse, WorkerTaskType } from './worker-types';
-import { handleEmbedTask, handleSummarizeTask } from './worker-handlers';
+import { WorkerMessage, WorkerResponse, WorkerTaskType, ProgressCallback } from './worker-types';
+import {
+  handleEmbedTask,
+  handleEmbedBatchTask,
+  handleSummarizeTask,
+  handleRerankTask,
+  configureModelCache,
+} from './worker-handlers';
 
 // Model cache (shared across tasks)
 const modelCache = new Map<string, any>();
 
-// Task handler registry
-const handlers = {
+// Abort controllers of the tasks in progress, by request id
+const runningTasks = new Map<string, AbortController>();
+
+// Task handler registry; each handler receives the payload of its task type
+type TaskHandler = (
+  payload: any,
+  modelCache: Map<string, any>,
+  progressCallback: ProgressCallback,
+  signal: AbortSignal
+) => Promise<unknown>;
+
+const handlers: Record<WorkerTaskType, TaskHandler> = {
   [WorkerTaskType.EMBED]: handleEmbedTask,
   [WorkerTaskType.SUMMARIZE]: handleSummarizeTask,
   [WorkerTaskType.EMBED_SUMMARY]: handleEmbedTask, // Reuse embed handler
+  [WorkerTaskType.EMBED_BATCH]: handleEmbedBatchTask,
+  [WorkerTaskType.RERANK]: handleRerankTask,
 };
 
 /**
@@ -27,9 +46,47 @@ function createTimeout(requestId: string, ms: number): Promise<never> {
   });
 }
 
+/**
+ * Collect the buffers of the typed arrays in a result, so that they are
+ * moved to the main thread instead of copied
+ */
+function transferablesOf(result: unknown): ArrayBuffer[] {
+  const arrays = Array.isArray(result) ? result : [result];
+  const buffers = new Set<ArrayBuffer>();
+  for (const array of arrays) {
+    if (ArrayBuffer.isView(array) && array.buffer instanceof ArrayBuffer) {
+      buffers.add(array.buffer);
+    }
+  }
+  return [...buffers];
+}
+
+// Sends a response to the main thread; set once connected
+let postResponse: (response: WorkerResponse, transfer?: ArrayBuffer[]) => void = () => {};
+
 // Main message handler
-self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
-  const request = event.data;
+async function handleMessage(message: WorkerMessage): Promise<void> {
+  // Control messages
+  if ('type' in message) {
+    switch (message.type) {
+      case 'cancel':
+        // Cancelled tasks stop at their next step and send no response
+        runningTasks.get(message.id)?.abort();
+        runningTasks.delete(message.id);
+        break;
+      case 'ping':
+        postResponse({ id: message.id, type: 'pong' } as WorkerResponse);
+        break;
+      case 'configure':
+        configureModelCache(message.modelCacheSize);
+        break;
+    }
+    return;
+  }
+  
+  const request = message;
+  const controller = new AbortController();
+  runningTasks.set(request.id, controller);
   
   try {
     const handler = handlers[request.task];
@@ -38,32 +95,41 @@ self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
     }
     
     // Send progress updates
-    const progressCallback = (progress: number, stage?: string) => {
-      self.postMessage({
+    const progressCallback: ProgressCallback = (progress, stage, items) => {
+      postResponse({
         id: request.id,
         type: 'progress',
         progress,
         stage,
+        ...items,
       } as WorkerResponse);
     };
     
     // Execute task with timeout (5 minutes default)
     const timeoutMs = 5 * 60 * 1000; // 5 minutes
     const result = await Promise.race([
-      handler(request.payload, modelCache, progressCallback),
+      handler(request.payload, modelCache, progressCallback, controller.signal),
       createTimeout(request.id, timeoutMs),
     ]);
     
+    if (controller.signal.aborted) {
+      return;
+    }
+    
     // Send success response
-    self.postMessage({
+    postResponse({
       id: request.id,
       type: 'success',
       data: result,
-    } as WorkerResponse);
+    } as WorkerResponse, transferablesOf(result));
     
   } catch (error) {
+    if (controller.signal.aborted) {
+      return;
+    }
+    
     // Send error response
-    self.postMessage({
+    postResponse({
       id: request.id,
       type: 'error',
       error: {
@@ -72,15 +138,36 @@ self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
         stack: error instanceof Error ? error.stack : undefined,
       },
     } as WorkerResponse);
+  } finally {
+    runningTasks.delete(request.id);
   }
-};
-
-// Handle worker errors
-self.onerror = (error) => {
-  console.error('Worker error:', error);
-};
+}
 
-// Handle unhandled promise rejections
-self.onunhandledrejection = (event) => {
-  console.error('Unhandled promise rejection in worker:', event.reason);
-};
+if (typeof self !== 'undefined' && typeof self.postMessage === 'function') {
+  // Web Worker
+  postResponse = (response, transfer = []) => self.postMessage(response, { transfer });
+  self.onmessage = (event: MessageEvent<WorkerMessage>) => handleMessage(event.data);
+  
+  // Handle worker errors
+  self.onerror = (error) => {
+    console.error('Worker error:', error);
+  };
+  
+  // Handle unhandled promise rejections
+  self.onunhandledrejection = (event) => {
+    console.error('Unhandled promise rejection in worker:', event.reason);
+  };
+} else {
+  // Node.js worker_threads; messages are buffered until the listener is added
+  import('worker_threads').then(({ parentPort }) => {
+    if (!parentPort) {
+      throw new Error('worker.js must be started as a worker thread');
+    }
+    postResponse = (response, transfer) => parentPort.postMessage(response, transfer);
+    parentPort.on('message', handleMessage);
+    
+    process.on('unhandledRejection', (reason) => {
+      console.error('Unhandled promise rejection in worker:', reason);
+    });
+  });
+}